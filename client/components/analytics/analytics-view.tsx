@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react"
+import { addDays, endOfMonth, format, parseISO, startOfMonth, subDays, subMonths } from "date-fns"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { CalendarX } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAnalytics } from "@/lib/hooks/use-analytics"
+import { platformProfiles } from "@/lib/platforms"
+import type { PostStatus } from "@/lib/types"
+import { useAppContext } from "../layout/app-layout"
+
+type RangePreset = "this-month" | "last-month" | "next-30" | "last-90"
+
+const RANGE_LABELS: Record<RangePreset, string> = {
+  "this-month": "This month",
+  "last-month": "Last month",
+  "next-30": "Next 30 days",
+  "last-90": "Last 90 days",
+}
+
+function getRange(preset: RangePreset): { from: string; to: string } {
+  const today = new Date()
+  const [from, to] = {
+    "this-month": [startOfMonth(today), endOfMonth(today)],
+    "last-month": [startOfMonth(subMonths(today, 1)), endOfMonth(subMonths(today, 1))],
+    "next-30": [today, addDays(today, 29)],
+    "last-90": [subDays(today, 89), today],
+  }[preset]
+  return { from: format(from, "yyyy-MM-dd"), to: format(to, "yyyy-MM-dd") }
+}
+
+const STATUSES: PostStatus[] = ["draft", "awaiting_approval", "approved", "rejected", "published"]
+
+const statusChartConfig = {
+  draft: { label: "Draft", color: "var(--chart-1)" },
+  awaiting_approval: { label: "Awaiting approval", color: "var(--chart-2)" },
+  approved: { label: "Approved", color: "var(--chart-3)" },
+  rejected: { label: "Rejected", color: "var(--chart-4)" },
+  published: { label: "Published", color: "var(--chart-5)" },
+} satisfies ChartConfig
+
+const brandScoreChartConfig = {
+  average: { label: "Average score", color: "var(--chart-2)" },
+} satisfies ChartConfig
+
+const sentimentChartConfig = {
+  count: { label: "Messages", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+interface AnalyticsViewProps {
+  calendarId: string
+}
+
+export function AnalyticsView({ calendarId }: AnalyticsViewProps) {
+  const [preset, setPreset] = useState<RangePreset>("this-month")
+  const { from, to } = getRange(preset)
+  const { analytics, isLoading, error } = useAnalytics(calendarId, from, to)
+  const { setClientContext } = useAppContext()
+
+  useEffect(() => {
+    setClientContext("analytics", { from, to })
+  }, [from, to, setClientContext])
+
+  const platformData =
+    analytics?.platforms.map((p) => ({ platform: platformProfiles[p.platform].label, ...p.byStatus })) ?? []
+  const funnelData = STATUSES.map((status) => ({ status, count: analytics?.statusFunnel[status] ?? 0 }))
+  const sentimentData = (["positive", "neutral", "negative"] as const).map((sentiment) => ({
+    sentiment,
+    count: analytics?.inbox.bySentiment[sentiment] ?? 0,
+  }))
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="mx-auto max-w-6xl space-y-6 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Analytics</h2>
+            <p className="text-sm text-muted-foreground">
+              {format(parseISO(from), "MMM d, yyyy")} – {format(parseISO(to), "MMM d, yyyy")}
+            </p>
+          </div>
+          <Select value={preset} onValueChange={(v) => setPreset(v as RangePreset)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RANGE_LABELS) as RangePreset[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {RANGE_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 text-center text-muted-foreground">Loading analytics...</div>
+        ) : error || !analytics ? (
+          <div className="p-8 text-center text-muted-foreground">Failed to load analytics</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+              <StatCard label="Posts scheduled" value={analytics.totalPosts} />
+              <StatCard label="Awaiting approval" value={analytics.statusFunnel.awaiting_approval} />
+              <StatCard
+                label="Average brand score"
+                value={analytics.averageBrandScore === null ? "N/A" : `${analytics.averageBrandScore}%`}
+              />
+              <StatCard
+                label="Unreplied messages"
+                value={analytics.inbox.unreplied}
+                detail={analytics.inbox.urgent > 0 ? `${analytics.inbox.urgent} urgent` : undefined}
+              />
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Posts per platform</CardTitle>
+                  <CardDescription>Each platform variant by status</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={statusChartConfig} className="h-64 w-full">
+                    <BarChart data={platformData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="platform" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {STATUSES.map((status) => (
+                        <Bar key={status} dataKey={status} stackId="status" fill={`var(--color-${status})`} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Status funnel</CardTitle>
+                  <CardDescription>Variants at each step of the approval workflow</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={statusChartConfig} className="h-64 w-full">
+                    <BarChart data={funnelData} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis
+                        type="category"
+                        dataKey="status"
+                        tickLine={false}
+                        axisLine={false}
+                        width={110}
+                        tickFormatter={(status: PostStatus) => statusChartConfig[status].label}
+                      />
+                      <ChartTooltip content={<ChartTooltipContent nameKey="status" hideLabel />} />
+                      <Bar dataKey="count" radius={4} fill="var(--chart-2)" />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Brand score over time</CardTitle>
+                  <CardDescription>Weekly average of scored variants, by post date</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {analytics.brandScoreTrend.length === 0 ? (
+                    <p className="py-16 text-center text-sm text-muted-foreground">No scored posts in this range</p>
+                  ) : (
+                    <ChartContainer config={brandScoreChartConfig} className="h-64 w-full">
+                      <LineChart data={analytics.brandScoreTrend}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                          dataKey="weekStart"
+                          tickLine={false}
+                          axisLine={false}
+                          tickFormatter={(weekStart: string) => format(parseISO(weekStart), "MMM d")}
+                        />
+                        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Line dataKey="average" type="monotone" stroke="var(--color-average)" strokeWidth={2} />
+                      </LineChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Inbox sentiment</CardTitle>
+                  <CardDescription>{analytics.inbox.total} messages received</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={sentimentChartConfig} className="h-64 w-full">
+                    <BarChart data={sentimentData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="sentiment"
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={(sentiment: string) => sentiment.charAt(0).toUpperCase() + sentiment.slice(1)}
+                      />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" radius={4} fill="var(--color-count)" />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Gaps in the schedule</CardTitle>
+                <CardDescription>Three or more days in a row with nothing scheduled</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {analytics.scheduleGaps.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No gaps in this range</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {analytics.scheduleGaps.map((gap) => (
+                      <li key={gap.start} className="flex items-center gap-3 text-sm">
+                        <CalendarX className="h-4 w-4 text-muted-foreground" />
+                        <span>
+                          {format(parseISO(gap.start), "MMM d")} – {format(parseISO(gap.end), "MMM d")}
+                        </span>
+                        <span className="text-muted-foreground">{gap.days} days</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function StatCard({ label, value, detail }: { label: string; value: number | string; detail?: string }) {
+  return (
+    <Card className="gap-1 py-4">
+      <CardContent className="px-4">
+        <p className="text-xs text-muted-foreground">{label}</p>
+        <p className="text-2xl font-semibold">{value}</p>
+        {detail && <p className="text-xs text-destructive">{detail}</p>}
+      </CardContent>
+    </Card>
+  )
+}
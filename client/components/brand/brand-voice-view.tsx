@@ -4,7 +4,7 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
-import { Plus, Trash2, Sparkles, RefreshCw, Upload } from "lucide-react"
+import { Plus, Trash2, Sparkles, RefreshCw, Upload, ShieldCheck } from "lucide-react"
 import type { BrandRule, CaptionGenerationResult } from "@/lib/types"
 import { Card } from "@/components/ui/card"
 import { useBrandRules } from "@/lib/hooks/use-brand-rules"
@@ -13,6 +13,7 @@ import { apiPost } from "@/lib/api-client"
 import { ApiRoutes } from "@/lib/api-routes"
 import { Spinner } from "@/components/ui/spinner"
 import { ImportRulesDialog } from "./import-rules-dialog"
+import { GuardrailSettingsDialog } from "./guardrail-settings-dialog"
 
 interface BrandVoiceViewProps {
   calendarId: string
@@ -35,6 +36,7 @@ export function BrandVoiceView({ calendarId }: BrandVoiceViewProps) {
   const [isGeneratingCaption, setIsGeneratingCaption] = useState(false)
   const [showImportDialog, setShowImportDialog] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
+  const [showGuardrailsDialog, setShowGuardrailsDialog] = useState(false)
   const abortControllerRef = useRef<AbortController | null>(null)
 
   const handleToggleRule = async (ruleId: string) => {
@@ -218,6 +220,15 @@ What feature would you love to see next? Drop your ideas below! 👇
               <p className="text-sm text-muted-foreground mt-1">Define rules that guide your team's content creation</p>
             </div>
             <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setShowGuardrailsDialog(true)}
+              >
+                <ShieldCheck className="h-4 w-4" />
+                Guardrails
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -398,6 +409,12 @@ What feature would you love to see next? Drop your ideas below! 👇
         onImport={handleImportRules}
         isProcessing={isImporting}
       />
+
+      <GuardrailSettingsDialog
+        isOpen={showGuardrailsDialog}
+        onClose={() => setShowGuardrailsDialog(false)}
+        calendarId={calendarId}
+      />
     </div>
   )
 }
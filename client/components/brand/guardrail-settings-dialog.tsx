@@ -0,0 +1,198 @@
+import { useState } from "react"
+import { format } from "date-fns"
+import { ShieldCheck } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Spinner } from "@/components/ui/spinner"
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useGuardrails } from "@/lib/hooks/use-guardrails"
+import type { GuardrailBlockCategory, GuardrailFailMode, GuardrailSettings } from "@/lib/types"
+
+const CATEGORY_LABELS: Record<GuardrailBlockCategory, string> = {
+  off_topic: "Off topic",
+  caption_leak: "Caption in chat",
+  pii: "Personal data",
+  off_brand_claim: "Off-brand claim",
+  guardrail_error: "Check failed",
+}
+
+interface GuardrailSettingsDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  calendarId: string
+}
+
+export function GuardrailSettingsDialog({ isOpen, onClose, calendarId }: GuardrailSettingsDialogProps) {
+  const { settings, blocks, isLoading, isLoadingBlocks, updateSettings } = useGuardrails(calendarId)
+  // Edits are kept as a draft over the saved settings until the dialog closes.
+  const [draft, setDraft] = useState<Partial<GuardrailSettings>>({})
+  const [topicsText, setTopicsText] = useState<string | null>(null)
+
+  const enabled = draft.enabled ?? settings?.enabled ?? false
+  const failMode = draft.failMode ?? settings?.failMode ?? "open"
+  const outputChecksEnabled = draft.outputChecksEnabled ?? settings?.outputChecksEnabled ?? true
+  const allowedTopics = topicsText ?? settings?.allowedTopics.join("\n") ?? ""
+
+  const handleClose = () => {
+    setDraft({})
+    setTopicsText(null)
+    onClose()
+  }
+
+  const handleSave = async () => {
+    await updateSettings.mutateAsync({
+      calendarId,
+      enabled,
+      failMode,
+      outputChecksEnabled,
+      allowedTopics: allowedTopics
+        .split("\n")
+        .map((topic) => topic.trim())
+        .filter(Boolean),
+    })
+    handleClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            AI Guardrails
+          </DialogTitle>
+          <DialogDescription>
+            Control what the assistant will discuss for this calendar and review the messages it blocked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="settings">
+          <TabsList>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+            <TabsTrigger value="blocks">Blocked messages</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="settings" className="space-y-4 py-2">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Spinner className="h-5 w-5" />
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="guardrails-enabled">Enable guardrails</Label>
+                    <p className="text-xs text-muted-foreground">Check requests and answers before they reach the chat.</p>
+                  </div>
+                  <Switch
+                    id="guardrails-enabled"
+                    checked={enabled}
+                    onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, enabled: checked }))}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="guardrails-output">Check answers</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Hold back answers with caption text, personal data or off-brand claims.
+                    </p>
+                  </div>
+                  <Switch
+                    id="guardrails-output"
+                    checked={outputChecksEnabled}
+                    onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, outputChecksEnabled: checked }))}
+                    disabled={!enabled}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label>When a check fails</Label>
+                    <p className="text-xs text-muted-foreground">What to do if the guardrail itself can't run.</p>
+                  </div>
+                  <Select
+                    value={failMode}
+                    onValueChange={(value) => setDraft((prev) => ({ ...prev, failMode: value as GuardrailFailMode }))}
+                    disabled={!enabled}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="open">Allow message</SelectItem>
+                      <SelectItem value="closed">Block message</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="guardrails-topics">Allowed topics</Label>
+                  <Textarea
+                    id="guardrails-topics"
+                    placeholder={"One topic per line, e.g.\nProduct launches\nCommunity events"}
+                    value={allowedTopics}
+                    onChange={(e) => setTopicsText(e.target.value)}
+                    rows={5}
+                    disabled={!enabled}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Leave empty to allow general social media and content topics.
+                  </p>
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="blocks" className="py-2">
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {isLoadingBlocks && (
+                <p className="py-6 text-center text-sm text-muted-foreground">Loading...</p>
+              )}
+              {!isLoadingBlocks && blocks.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">Nothing has been blocked yet.</p>
+              )}
+              {blocks.map((block) => (
+                <div key={block.id} className="rounded-md border border-border p-3 space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{block.stage === "input" ? "Request" : "Answer"}</Badge>
+                      <Badge variant="secondary">{CATEGORY_LABELS[block.category]}</Badge>
+                    </div>
+                    <span className="text-[10px] text-muted-foreground">
+                      {format(new Date(block.createdAt), "MMM d, h:mm a")}
+                    </span>
+                  </div>
+                  <p className="text-sm text-foreground">{block.reason}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-3 whitespace-pre-wrap">{block.content}</p>
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={updateSettings.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || updateSettings.isPending} className="gap-2">
+            {updateSettings.isPending && <Spinner className="h-4 w-4" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,164 @@
+import { useState, type ReactNode } from "react"
+import { CalendarClock, Copy, Gauge, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import type { BulkPostAction, BulkPostResult } from "@/lib/types"
+
+interface BulkActionBarProps {
+  selectedCount: number
+  isPending: boolean
+  onAction: (action: BulkPostAction) => Promise<BulkPostResult>
+  onClearSelection: () => void
+  onExit: () => void
+}
+
+const STATUS_ACTIONS: { label: string; action: BulkPostAction }[] = [
+  { label: "Submit for approval", action: { type: "status", status: "awaiting_approval" } },
+  { label: "Approve", action: { type: "status", status: "approved" } },
+  { label: "Back to draft", action: { type: "status", status: "draft" } },
+]
+
+function describeResult(action: BulkPostAction, result: BulkPostResult): string {
+  const skipped = result.skipped.length > 0 ? ` ${result.skipped.length} skipped.` : ""
+  switch (action.type) {
+    case "reschedule":
+      return `Moved ${result.posts.length} posts.`
+    case "duplicate":
+      return `Created ${result.posts.length} copies as drafts.`
+    case "delete":
+      return `Deleted ${result.deletedPostIds.length} posts.`
+    case "status":
+      return `Updated ${result.posts.length} posts.${skipped}`
+    case "regrade": {
+      const average = result.scores.length
+        ? Math.round(result.scores.reduce((sum, entry) => sum + entry.score, 0) / result.scores.length)
+        : null
+      return `Re-graded ${result.scores.length} captions${average !== null ? `, averaging ${average}` : ""}.${skipped}`
+    }
+  }
+}
+
+/** Actions for the posts picked in the calendar's select mode. */
+export function BulkActionBar({ selectedCount, isPending, onAction, onClearSelection, onExit }: BulkActionBarProps) {
+  const [message, setMessage] = useState<string | null>(null)
+
+  const run = async (action: BulkPostAction) => {
+    setMessage(null)
+    try {
+      const result = await onAction(action)
+      setMessage(describeResult(action, result))
+      if (action.type === "delete" || action.type === "duplicate") {
+        onClearSelection()
+      }
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "The change failed")
+    }
+  }
+
+  const handleDelete = () => {
+    if (confirm(`Delete ${selectedCount} ${selectedCount === 1 ? "post" : "posts"}? This can't be undone.`)) {
+      run({ type: "delete" })
+    }
+  }
+
+  const disabled = selectedCount === 0 || isPending
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b border-border bg-muted/40 px-6 py-2">
+      <span className="text-sm font-medium text-foreground">
+        {selectedCount} {selectedCount === 1 ? "post" : "posts"} selected
+      </span>
+      <DayShiftButton
+        label="Move"
+        icon={<CalendarClock className="h-4 w-4" />}
+        defaultDays={1}
+        disabled={disabled}
+        onConfirm={(days) => run({ type: "reschedule", days })}
+      />
+      <DayShiftButton
+        label="Duplicate"
+        icon={<Copy className="h-4 w-4" />}
+        defaultDays={7}
+        allowZero
+        disabled={disabled}
+        onConfirm={(days) => run({ type: "duplicate", days })}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={disabled} className="bg-transparent">
+            Set status
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {STATUS_ACTIONS.map(({ label, action }) => (
+            <DropdownMenuItem key={label} onSelect={() => run(action)}>
+              {label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button variant="outline" size="sm" disabled={disabled} onClick={() => run({ type: "regrade" })} className="bg-transparent">
+        <Gauge className="h-4 w-4" />
+        Re-grade
+      </Button>
+      <Button variant="outline" size="sm" disabled={disabled} onClick={handleDelete} className="bg-transparent text-destructive">
+        <Trash2 className="h-4 w-4" />
+        Delete
+      </Button>
+      {(isPending || message) && (
+        <span className="text-xs text-muted-foreground">{isPending ? "Working…" : message}</span>
+      )}
+      <Button variant="ghost" size="sm" onClick={onExit} className="ml-auto">
+        <X className="h-4 w-4" />
+        Done
+      </Button>
+    </div>
+  )
+}
+
+interface DayShiftButtonProps {
+  label: string
+  icon: ReactNode
+  defaultDays: number
+  allowZero?: boolean
+  disabled: boolean
+  onConfirm: (days: number) => void
+}
+
+/** Asks how many days to shift by; negative numbers move posts earlier. */
+function DayShiftButton({ label, icon, defaultDays, allowZero, disabled, onConfirm }: DayShiftButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [days, setDays] = useState(String(defaultDays))
+  const parsed = Number(days)
+  const isValid = days.trim() !== "" && Number.isInteger(parsed) && (allowZero || parsed !== 0)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} className="bg-transparent">
+          {icon}
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 space-y-2 p-3">
+        <label className="text-xs font-medium text-muted-foreground" htmlFor={`shift-${label}`}>
+          Days to shift by
+        </label>
+        <Input id={`shift-${label}`} type="number" value={days} onChange={(event) => setDays(event.target.value)} />
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={!isValid}
+          onClick={() => {
+            setOpen(false)
+            onConfirm(parsed)
+          }}
+        >
+          {label} {isValid ? `${Math.abs(parsed)} ${Math.abs(parsed) === 1 ? "day" : "days"} ${parsed < 0 ? "earlier" : "later"}` : ""}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
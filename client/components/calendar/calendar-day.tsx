@@ -1,6 +1,7 @@
 import { Button } from "@/components/ui/button"
 import { Plus } from "lucide-react"
 import { PostItem } from "./post-item"
+import { usePostDropTarget } from "./post-drag"
 import type { Post } from "@/lib/types"
 import { cn } from "@/lib/utils"
 
@@ -10,19 +11,32 @@ interface CalendarDayProps {
   posts: Post[]
   onAddPost: (date: Date) => void
   onEditPost: (post: Post) => void
+  selectedPostIds?: Set<string>
+  onMovePost: (postId: string, date: Date) => void
 }
 
-export function CalendarDay({ date, isCurrentMonth, posts, onAddPost, onEditPost }: CalendarDayProps) {
+export function CalendarDay({
+  date,
+  isCurrentMonth,
+  posts,
+  onAddPost,
+  onEditPost,
+  onMovePost,
+  selectedPostIds,
+}: CalendarDayProps) {
+  const { isOver, dropProps } = usePostDropTarget((postId) => onMovePost(postId, date))
   const isToday = date.toDateString() === new Date().toDateString()
 
   const isPast = date < new Date(new Date().setHours(0, 0, 0, 0))
 
   return (
     <div
+      {...dropProps}
       className={cn(
         "group relative flex min-h-[120px] flex-col border-b border-r border-border bg-card last:border-r-0",
         !isCurrentMonth && "bg-muted/20",
         isPast && isCurrentMonth && "bg-muted/10",
+        isOver && "bg-primary/5 ring-2 ring-inset ring-primary/40",
       )}
     >
       <div className="flex items-center justify-between border-b border-border/50 px-3 py-2">
@@ -48,7 +62,12 @@ export function CalendarDay({ date, isCurrentMonth, posts, onAddPost, onEditPost
 
       <div className="flex-1 space-y-1 overflow-auto p-2">
         {posts.map((post) => (
-          <PostItem key={post.id} post={post} onClick={() => onEditPost(post)} />
+          <PostItem
+            key={post.id}
+            post={post}
+            isSelected={selectedPostIds?.has(post.id)}
+            onClick={() => onEditPost(post)}
+          />
         ))}
       </div>
     </div>
@@ -6,9 +6,19 @@ interface CalendarGridProps {
   posts: Post[]
   onAddPost: (date: Date) => void
   onEditPost: (post: Post) => void
+  /** Set while the calendar is in select mode. */
+  selectedPostIds?: Set<string>
+  onMovePost: (postId: string, date: Date) => void
 }
 
-export function CalendarGrid({ currentDate, posts, onAddPost, onEditPost }: CalendarGridProps) {
+export function CalendarGrid({
+  currentDate,
+  posts,
+  onAddPost,
+  onEditPost,
+  onMovePost,
+  selectedPostIds,
+}: CalendarGridProps) {
   const year = currentDate.getFullYear()
   const month = currentDate.getMonth()
 
@@ -80,6 +90,8 @@ export function CalendarGrid({ currentDate, posts, onAddPost, onEditPost }: Cale
               posts={dayPosts}
               onAddPost={onAddPost}
               onEditPost={onEditPost}
+              onMovePost={onMovePost}
+              selectedPostIds={selectedPostIds}
             />
           )
         })}
@@ -1,19 +1,34 @@
 import { Button } from "@/components/ui/button"
-import { ChevronLeft, ChevronRight } from "lucide-react"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { CheckSquare, ChevronLeft, ChevronRight, Repeat } from "lucide-react"
+import { CampaignFilter } from "@/components/campaigns/campaign-filter"
+import { CALENDAR_VIEWS, formatViewTitle, type CalendarViewMode } from "./calendar-range"
 
 interface CalendarHeaderProps {
+  calendarId: string
   currentDate: Date
-  onPreviousMonth: () => void
-  onNextMonth: () => void
+  view: CalendarViewMode
+  onViewChange: (view: CalendarViewMode) => void
+  onPrevious: () => void
+  onNext: () => void
   onToday: () => void
+  onOpenSeries: () => void
+  isSelecting: boolean
+  onToggleSelecting: () => void
 }
 
-export function CalendarHeader({ currentDate, onPreviousMonth, onNextMonth, onToday }: CalendarHeaderProps) {
-  const monthYear = currentDate.toLocaleDateString("en-US", {
-    month: "long",
-    year: "numeric",
-  })
-
+export function CalendarHeader({
+  calendarId,
+  currentDate,
+  view,
+  onViewChange,
+  onPrevious,
+  onNext,
+  onToday,
+  onOpenSeries,
+  isSelecting,
+  onToggleSelecting,
+}: CalendarHeaderProps) {
   return (
     <header className="border-b border-border bg-card px-6 py-4">
       <div className="flex items-center justify-between">
@@ -21,15 +36,45 @@ export function CalendarHeader({ currentDate, onPreviousMonth, onNextMonth, onTo
           <h1 className="text-2xl font-semibold tracking-tight text-foreground">Content Calendar</h1>
         </div>
         <div className="flex items-center gap-3">
+          <CampaignFilter calendarId={calendarId} />
+          <Button variant="outline" size="sm" onClick={onOpenSeries} className="text-sm bg-transparent">
+            <Repeat className="h-4 w-4" />
+            Series
+          </Button>
+          <Button
+            variant={isSelecting ? "secondary" : "outline"}
+            size="sm"
+            onClick={onToggleSelecting}
+            aria-pressed={isSelecting}
+            className={isSelecting ? "text-sm" : "text-sm bg-transparent"}
+          >
+            <CheckSquare className="h-4 w-4" />
+            Select
+          </Button>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={view}
+            onValueChange={(value) => value && onViewChange(value as CalendarViewMode)}
+          >
+            {CALENDAR_VIEWS.map(({ id, label }) => (
+              <ToggleGroupItem key={id} value={id} className="px-3 text-sm">
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
           <Button variant="outline" size="sm" onClick={onToday} className="text-sm bg-transparent">
             Today
           </Button>
           <div className="flex items-center gap-1">
-            <Button variant="ghost" size="icon-sm" onClick={onPreviousMonth}>
+            <Button variant="ghost" size="icon-sm" onClick={onPrevious}>
               <ChevronLeft className="h-4 w-4" />
             </Button>
-            <span className="min-w-[140px] text-center text-sm font-medium text-foreground">{monthYear}</span>
-            <Button variant="ghost" size="icon-sm" onClick={onNextMonth}>
+            <span className="min-w-[180px] text-center text-sm font-medium text-foreground">
+              {formatViewTitle(view, currentDate)}
+            </span>
+            <Button variant="ghost" size="icon-sm" onClick={onNext}>
               <ChevronRight className="h-4 w-4" />
             </Button>
           </div>
@@ -0,0 +1,68 @@
+import { format, isToday } from "date-fns"
+import { CalendarDays } from "lucide-react"
+import { PostItem } from "./post-item"
+import type { Post } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface CalendarListProps {
+  start: Date
+  end: Date
+  posts: Post[]
+  onEditPost: (post: Post) => void
+  selectedPostIds?: Set<string>
+}
+
+/** An agenda of the posts between `start` and `end`, grouped by day. */
+export function CalendarList({ start, end, posts, onEditPost, selectedPostIds }: CalendarListProps) {
+  const days = new Map<string, Post[]>()
+
+  for (const post of [...posts].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())) {
+    const postDate = new Date(post.date)
+    if (postDate < start || postDate > end) continue
+    const key = format(postDate, "yyyy-MM-dd")
+    days.set(key, [...(days.get(key) ?? []), post])
+  }
+
+  if (days.size === 0) {
+    return (
+      <div className="flex flex-1 items-center justify-center text-muted-foreground">
+        <div className="text-center">
+          <CalendarDays className="mx-auto mb-4 h-12 w-12 opacity-50" />
+          <p>No posts scheduled in this range</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="mx-auto max-w-3xl space-y-6 p-6">
+        {[...days.entries()].map(([key, dayPosts]) => {
+          const day = new Date(dayPosts[0].date)
+          return (
+            <section key={key} className="space-y-2">
+              <h3
+                className={cn(
+                  "text-sm font-semibold",
+                  isToday(day) ? "text-primary" : "text-foreground",
+                )}
+              >
+                {format(day, "EEEE, MMM d")}
+              </h3>
+              <div className="space-y-1">
+                {dayPosts.map((post) => (
+                  <PostItem
+                    key={post.id}
+                    post={post}
+                    isSelected={selectedPostIds?.has(post.id)}
+                    onClick={() => onEditPost(post)}
+                  />
+                ))}
+              </div>
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+
+export type CalendarViewMode = "month" | "week" | "day" | "list"
+
+export const CALENDAR_VIEWS: { id: CalendarViewMode; label: string }[] = [
+  { id: "month", label: "Month" },
+  { id: "week", label: "Week" },
+  { id: "day", label: "Day" },
+  { id: "list", label: "List" },
+]
+
+/** The days a view shows around `date`. Weeks start on Sunday, like the month grid. */
+export function getViewRange(view: CalendarViewMode, date: Date): { start: Date; end: Date } {
+  switch (view) {
+    case "week":
+      return { start: startOfWeek(date), end: endOfWeek(date) }
+    case "day":
+      return { start: startOfDay(date), end: endOfDay(date) }
+    default:
+      return { start: startOfMonth(date), end: endOfMonth(date) }
+  }
+}
+
+export function getViewDays(view: CalendarViewMode, date: Date): Date[] {
+  const { start, end } = getViewRange(view, date)
+  return eachDayOfInterval({ start, end })
+}
+
+/** Moves `date` one view's length forwards (1) or backwards (-1). */
+export function shiftViewDate(view: CalendarViewMode, date: Date, direction: 1 | -1): Date {
+  switch (view) {
+    case "week":
+      return addWeeks(date, direction)
+    case "day":
+      return addDays(date, direction)
+    default:
+      return addMonths(startOfMonth(date), direction)
+  }
+}
+
+export function formatViewTitle(view: CalendarViewMode, date: Date): string {
+  const { start, end } = getViewRange(view, date)
+  switch (view) {
+    case "week":
+      return start.getMonth() === end.getMonth()
+        ? `${format(start, "MMM d")} – ${format(end, "d, yyyy")}`
+        : `${format(start, "MMM d")} – ${format(end, "MMM d, yyyy")}`
+    case "day":
+      return format(date, "EEEE, MMM d, yyyy")
+    default:
+      return format(date, "MMMM yyyy")
+  }
+}
@@ -0,0 +1,140 @@
+import { useEffect, useRef } from "react"
+import { format, isSameDay, isToday } from "date-fns"
+import { Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { PostItem } from "./post-item"
+import { usePostDropTarget } from "./post-drag"
+import type { Post } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+const SLOT_HEIGHT = 56
+// Scroll to the start of a working day instead of midnight.
+const FIRST_VISIBLE_HOUR = 8
+
+interface CalendarTimeGridProps {
+  days: Date[]
+  posts: Post[]
+  onAddPost: (date: Date) => void
+  onEditPost: (post: Post) => void
+  selectedPostIds?: Set<string>
+  onMovePost: (postId: string, date: Date, hour: number) => void
+}
+
+/** Hour slots for one or more days, used by the week and day views. */
+export function CalendarTimeGrid({
+  days,
+  posts,
+  onAddPost,
+  onEditPost,
+  onMovePost,
+  selectedPostIds,
+}: CalendarTimeGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * SLOT_HEIGHT
+    }
+  }, [])
+
+  const gridColumns = { gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <div className="grid border-b border-border bg-muted/30" style={gridColumns}>
+        <div className="border-r border-border" />
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            className="border-r border-border px-2 py-3 text-center text-xs font-medium uppercase tracking-wider text-muted-foreground last:border-r-0"
+          >
+            {format(day, "EEE")}{" "}
+            <span
+              className={cn(
+                "ml-1 inline-flex h-6 w-6 items-center justify-center rounded-full text-sm normal-case",
+                isToday(day) ? "bg-primary text-primary-foreground" : "text-foreground",
+              )}
+            >
+              {day.getDate()}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-auto">
+        <div className="grid" style={gridColumns}>
+          {HOURS.map((hour) => (
+            <div key={hour} className="contents">
+              <div
+                className="border-b border-r border-border pr-2 pt-1 text-right text-[10px] text-muted-foreground"
+                style={{ height: SLOT_HEIGHT }}
+              >
+                {format(new Date(2000, 0, 1, hour), "h a")}
+              </div>
+              {days.map((day) => (
+                <TimeSlot
+                  key={day.toISOString()}
+                  day={day}
+                  hour={hour}
+                  posts={posts.filter((post) => {
+                    const postDate = new Date(post.date)
+                    return isSameDay(postDate, day) && postDate.getHours() === hour
+                  })}
+                  onAddPost={onAddPost}
+                  onEditPost={onEditPost}
+                  onMovePost={onMovePost}
+                  selectedPostIds={selectedPostIds}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface TimeSlotProps {
+  day: Date
+  hour: number
+  posts: Post[]
+  onAddPost: (date: Date) => void
+  onEditPost: (post: Post) => void
+  selectedPostIds?: Set<string>
+  onMovePost: (postId: string, date: Date, hour: number) => void
+}
+
+function TimeSlot({ day, hour, posts, onAddPost, onEditPost, onMovePost, selectedPostIds }: TimeSlotProps) {
+  const { isOver, dropProps } = usePostDropTarget((postId) => onMovePost(postId, day, hour))
+  const slotStart = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour)
+
+  return (
+    <div
+      {...dropProps}
+      className={cn(
+        "group relative space-y-1 border-b border-r border-border bg-card p-1 last:border-r-0",
+        isOver && "bg-primary/5 ring-2 ring-inset ring-primary/40",
+      )}
+      style={{ minHeight: SLOT_HEIGHT }}
+    >
+      {posts.map((post) => (
+        <PostItem
+          key={post.id}
+          post={post}
+          isSelected={selectedPostIds?.has(post.id)}
+          onClick={() => onEditPost(post)}
+        />
+      ))}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute right-1 top-1 h-5 w-5 opacity-0 transition-opacity group-hover:opacity-100"
+        onClick={() => onAddPost(slotStart)}
+      >
+        <Plus className="h-3 w-3" />
+        <span className="sr-only">Add post at {format(slotStart, "h a")}</span>
+      </Button>
+    </div>
+  )
+}
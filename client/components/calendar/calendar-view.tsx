@@ -1,14 +1,20 @@
-import { useState, useEffect, startTransition } from "react"
+import { useState, useEffect, useCallback, startTransition } from "react"
+import { format } from "date-fns"
 import { useNavigate, useSearchParams } from "react-router-dom"
 import { CalendarHeader } from "./calendar-header"
 import { CalendarGrid } from "./calendar-grid"
+import { CalendarTimeGrid } from "./calendar-time-grid"
+import { CalendarList } from "./calendar-list"
+import { getViewDays, getViewRange, shiftViewDate, type CalendarViewMode } from "./calendar-range"
 import { PostEditor } from "./post-editor"
+import { SeriesManager } from "./series-manager"
+import { BulkActionBar } from "./bulk-action-bar"
 import { usePosts } from "@/lib/hooks/use-posts"
 import { useAppContext } from "@/components/layout/app-layout"
 import { useAppEvent } from "@/hooks/use-app-event"
 import { AppEvents } from "@/lib/events"
-import { parseDate } from "./post-editor/utils"
-import type { Post, User } from "@/lib/types"
+import { createPostVariant, parseDate } from "./post-editor/utils"
+import type { BulkPostAction, Post, User } from "@/lib/types"
 
 interface CalendarViewProps {
   currentUser: User
@@ -21,20 +27,35 @@ export function CalendarView({ currentUser, calendarId, calendarSlug, postToOpen
   const navigate = useNavigate()
   const [searchParams] = useSearchParams()
   const [currentDate, setCurrentDate] = useState(new Date())
+  const [view, setView] = useState<CalendarViewMode>("month")
   const [selectedPost, setSelectedPost] = useState<Post | null>(null)
   const [isEditorOpen, setIsEditorOpen] = useState(false)
-  const { setClientContext } = useAppContext()
+  const [isSeriesOpen, setIsSeriesOpen] = useState(false)
+  // Null outside select mode; in it, clicking a post toggles it instead of opening the editor.
+  const [selectedPostIds, setSelectedPostIds] = useState<Set<string> | null>(null)
+  const { setClientContext, campaignId } = useAppContext()
 
-  const { posts = [], isLoading, createPost, updatePost, deletePost } = usePosts(calendarId)
+  const { posts = [], isLoading, createPost, updatePost, deletePost, bulkUpdate } = usePosts(calendarId)
+  const visiblePosts = campaignId ? posts.filter((p: Post) => p.campaignId === campaignId) : posts
+
+  // Tells the assistant which view and dates the user is looking at.
+  const reportCalendarContext = useCallback(() => {
+    const { start, end } = getViewRange(view, currentDate)
+    setClientContext("calendar", {
+      currentMonth: currentDate.getMonth(),
+      currentYear: currentDate.getFullYear(),
+      view,
+      rangeStart: format(start, "yyyy-MM-dd"),
+      rangeEnd: format(end, "yyyy-MM-dd"),
+      campaignId,
+    })
+  }, [view, currentDate, campaignId, setClientContext])
 
   useEffect(() => {
     if (!isEditorOpen) {
-      setClientContext("calendar", {
-        currentMonth: currentDate.getMonth(),
-        currentYear: currentDate.getFullYear(),
-      })
+      reportCalendarContext()
     }
-  }, [isEditorOpen, setClientContext, currentDate])
+  }, [isEditorOpen, reportCalendarContext])
 
   useEffect(() => {
     if (postToOpen) {
@@ -52,12 +73,12 @@ export function CalendarView({ currentUser, calendarId, calendarSlug, postToOpen
     }
   }, [postToOpen, posts, searchParams, navigate, calendarSlug, setClientContext])
 
-  const handlePreviousMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1))
+  const handlePrevious = () => {
+    setCurrentDate(shiftViewDate(view, currentDate, -1))
   }
 
-  const handleNextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1))
+  const handleNext = () => {
+    setCurrentDate(shiftViewDate(view, currentDate, 1))
   }
 
   const handleToday = () => {
@@ -70,13 +91,11 @@ export function CalendarView({ currentUser, calendarId, calendarSlug, postToOpen
       id: tempId,
       calendarId,
       date,
-      caption: "",
-      images: [],
-      platform: "instagram" as const,
-      status: "draft" as const,
+      variants: [createPostVariant(tempId, "instagram")],
       authorId: currentUser.id,
       authorName: currentUser.name,
       comments: [],
+      campaignId,
     }
     
     try {
@@ -93,12 +112,22 @@ export function CalendarView({ currentUser, calendarId, calendarSlug, postToOpen
     }
   }
 
-  const handleEditPost = (post: Post) => {
+  const openPost = (post: Post) => {
     setSelectedPost(post)
     setIsEditorOpen(true)
     setClientContext("postEditor", { postId: post.id })
   }
 
+  const handleEditPost = (post: Post) => {
+    if (!selectedPostIds) {
+      openPost(post)
+      return
+    }
+    const next = new Set(selectedPostIds)
+    if (!next.delete(post.id)) next.add(post.id)
+    setSelectedPostIds(next)
+  }
+
   const handleSavePost = async (post: Post) => {
     if (post.id && post.id !== "") {
       await updatePost.mutateAsync(post)
@@ -116,13 +145,75 @@ export function CalendarView({ currentUser, calendarId, calendarSlug, postToOpen
     setSelectedPost(null)
   }
 
+  const handleBulkAction = (action: BulkPostAction) => {
+    // Posts filtered out by the campaign filter stay selected but aren't changed.
+    const postIds = visiblePosts.filter((post: Post) => selectedPostIds?.has(post.id)).map((post: Post) => post.id)
+    return bulkUpdate.mutateAsync({ postIds, action })
+  }
+
   const handleCloseEditor = () => {
     setIsEditorOpen(false)
     setSelectedPost(null)
-    setClientContext("calendar", {
-      currentMonth: currentDate.getMonth(),
-      currentYear: currentDate.getFullYear(),
-    })
+    reportCalendarContext()
+  }
+
+  // Dropping on a day keeps the post's time; dropping on a slot moves it to that hour.
+  const handleMovePost = (postId: string, date: Date, hour?: number) => {
+    const post = posts.find((p: Post) => p.id === postId)
+    if (!post) return
+
+    const postDate = new Date(post.date)
+    const newDate = new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      hour ?? postDate.getHours(),
+      postDate.getMinutes(),
+    )
+    if (newDate.getTime() === postDate.getTime()) return
+
+    updatePost.mutate({ ...post, date: newDate })
+  }
+
+  const renderView = () => {
+    switch (view) {
+      case "week":
+      case "day":
+        return (
+          <CalendarTimeGrid
+            key={view}
+            days={getViewDays(view, currentDate)}
+            posts={visiblePosts}
+            onAddPost={handleAddPost}
+            onEditPost={handleEditPost}
+            onMovePost={handleMovePost}
+            selectedPostIds={selectedPostIds ?? undefined}
+          />
+        )
+      case "list": {
+        const { start, end } = getViewRange(view, currentDate)
+        return (
+          <CalendarList
+            start={start}
+            end={end}
+            posts={visiblePosts}
+            onEditPost={handleEditPost}
+            selectedPostIds={selectedPostIds ?? undefined}
+          />
+        )
+      }
+      default:
+        return (
+          <CalendarGrid
+            currentDate={currentDate}
+            posts={visiblePosts}
+            onAddPost={handleAddPost}
+            onEditPost={handleEditPost}
+            onMovePost={handleMovePost}
+            selectedPostIds={selectedPostIds ?? undefined}
+          />
+        )
+    }
   }
 
   useAppEvent<{ date: string }>(
@@ -139,7 +230,7 @@ export function CalendarView({ currentUser, calendarId, calendarSlug, postToOpen
     (event) => {
       const post = posts.find((p: Post) => p.id === event.postId)
       if (post) {
-        handleEditPost(post)
+        openPost(post)
       }
     },
     [posts],
@@ -148,17 +239,32 @@ export function CalendarView({ currentUser, calendarId, calendarSlug, postToOpen
   return (
     <div className="flex flex-col h-full relative">
       <CalendarHeader
+        calendarId={calendarId}
         currentDate={currentDate}
-        onPreviousMonth={handlePreviousMonth}
-        onNextMonth={handleNextMonth}
+        view={view}
+        onViewChange={setView}
+        onPrevious={handlePrevious}
+        onNext={handleNext}
         onToday={handleToday}
+        onOpenSeries={() => setIsSeriesOpen(true)}
+        isSelecting={selectedPostIds !== null}
+        onToggleSelecting={() => setSelectedPostIds(selectedPostIds ? null : new Set())}
       />
+      {selectedPostIds && (
+        <BulkActionBar
+          selectedCount={visiblePosts.filter((post: Post) => selectedPostIds.has(post.id)).length}
+          isPending={bulkUpdate.isPending}
+          onAction={handleBulkAction}
+          onClearSelection={() => setSelectedPostIds(new Set())}
+          onExit={() => setSelectedPostIds(null)}
+        />
+      )}
       {isLoading ? (
         <div className="flex items-center justify-center h-full">
           <p className="text-muted-foreground">Loading posts...</p>
         </div>
       ) : (
-        <CalendarGrid currentDate={currentDate} posts={posts} onAddPost={handleAddPost} onEditPost={handleEditPost} />
+        renderView()
       )}
       {isEditorOpen && selectedPost && (
         <PostEditor
@@ -169,6 +275,7 @@ export function CalendarView({ currentUser, calendarId, calendarSlug, postToOpen
           onClose={handleCloseEditor}
         />
       )}
+      <SeriesManager calendarId={calendarId} open={isSeriesOpen} onOpenChange={setIsSeriesOpen} />
     </div>
   )
 }
@@ -0,0 +1,44 @@
+import { useState, type DragEvent } from "react"
+import type { Post } from "@/lib/types"
+
+const POST_DRAG_TYPE = "application/x-calendar-post"
+
+/**
+ * A post with a published variant has already gone out, and unsaved ones have
+ * nothing to reschedule yet. Moving an approved post sends it back to draft.
+ */
+export function canDragPost(post: Post): boolean {
+  return !post.id.startsWith("temp-") && !post.variants.some((v) => v.status === "published")
+}
+
+export function startPostDrag(event: DragEvent, post: Post) {
+  event.dataTransfer.setData(POST_DRAG_TYPE, post.id)
+  event.dataTransfer.effectAllowed = "move"
+}
+
+/** Drop handlers for a day or time slot that posts can be dragged onto. */
+export function usePostDropTarget(onDropPost: (postId: string) => void) {
+  const [isOver, setIsOver] = useState(false)
+
+  const dropProps = {
+    onDragOver: (event: DragEvent) => {
+      if (!event.dataTransfer.types.includes(POST_DRAG_TYPE)) return
+      event.preventDefault()
+      event.dataTransfer.dropEffect = "move"
+      setIsOver(true)
+    },
+    onDragLeave: (event: DragEvent) => {
+      if (event.currentTarget.contains(event.relatedTarget as Node | null)) return
+      setIsOver(false)
+    },
+    onDrop: (event: DragEvent) => {
+      const postId = event.dataTransfer.getData(POST_DRAG_TYPE)
+      setIsOver(false)
+      if (!postId) return
+      event.preventDefault()
+      onDropPost(postId)
+    },
+  }
+
+  return { isOver, dropProps }
+}
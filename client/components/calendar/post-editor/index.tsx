@@ -1,20 +1,24 @@
-import { useState, useEffect, useRef, useCallback } from "react"
-import type { Post, User, Comment } from "@/lib/types"
+import { useState, useEffect, useRef, useCallback, useMemo } from "react"
+import type { Platform, Post, PostStatus, PostVariant, User } from "@/lib/types"
 import { BrandScorePanel } from "@/components/brand/brand-score-panel"
 import { useBrandScore } from "@/hooks/use-brand-score"
-import { usePostAutoSave } from "@/hooks/use-post-auto-save"
+import { getPostKey, usePostAutoSave } from "@/hooks/use-post-auto-save"
 import { useAppEvent } from "@/hooks/use-app-event"
-import { normalizeDate } from "./utils"
+import { createPostVariant, normalizeDate } from "./utils"
 import { PostEditorHeader } from "./post-editor-header"
 import { PostImageGallery } from "./post-image-gallery"
 import { PostCaptionEditor } from "./post-caption-editor"
+import { PostCaptionVariants } from "./post-caption-variants"
 import { PostBrandScoreCard } from "./post-brand-score-card"
 import { PostSidebar } from "./post-sidebar"
+import { PostVariantTabs } from "./post-variant-tabs"
 import { useMutation } from "@tanstack/react-query"
 import { apiPost } from "@/lib/api-client"
 import { appEventBus } from "@/lib/event-bus"
 import { AppEvents } from "@/lib/events"
 import { ApiRoutes } from "@/lib/api-routes"
+import { checkPlatformRules } from "@/lib/platforms"
+import { usePostWorkflow } from "@/lib/hooks/use-post-workflow"
 
 interface PostEditorProps {
   post: Post
@@ -36,31 +40,28 @@ export function PostEditor({
     date: normalizeDate(post.date),
   })
   const [showBrandScore, setShowBrandScore] = useState(false)
+  const [activePlatform, setActivePlatform] = useState<Platform>(post.variants[0]?.platform ?? "instagram")
 
   const lastSyncedPostRef = useRef<string | null>(null)
   const lastSavedPostKeyRef = useRef<string | null>(null)
   const isInitialMount = useRef(true)
 
-  const getPostKey = useCallback((p: Post) => {
-    const postDate = p.date instanceof Date ? p.date : new Date(p.date)
-    return JSON.stringify({
-      id: p.id,
-      caption: p.caption,
-      platform: p.platform,
-      status: p.status,
-      date: postDate.getTime(),
-      images: p.images,
-    })
-  }, [])
+  const activeVariant =
+    editedPost.variants.find((v) => v.platform === activePlatform) ?? editedPost.variants[0]
 
   const handleSaveWrapper = useCallback(async (postToSave: Post) => {
     lastSavedPostKeyRef.current = getPostKey(postToSave)
     await onSave(postToSave)
-  }, [onSave, getPostKey])
+  }, [onSave])
 
+  const scoredVariant = useMemo(
+    () => (post.id.startsWith("temp-") ? undefined : { postId: post.id, platform: activeVariant.platform }),
+    [post.id, activeVariant.platform],
+  )
   const { brandScore, isFetchingScore, fetchScoreIfNeeded } = useBrandScore(
-    editedPost.caption,
-    editedPost.calendarId
+    activeVariant.caption,
+    editedPost.calendarId,
+    scoredVariant,
   )
   const {
     isSaving,
@@ -82,7 +83,7 @@ export function PostEditor({
         calendarId: string
       }) => apiPost<{ newCaption: string }>(ApiRoutes.AI.APPLY_SUGGESTIONS, data),
       onSuccess: (data) => {
-        handleUpdate({ caption: data.newCaption })
+        handleVariantUpdate({ caption: data.newCaption })
         if (editedPost.calendarId) {
           fetchScoreIfNeeded(data.newCaption, editedPost.calendarId)
         }
@@ -104,7 +105,7 @@ export function PostEditor({
     }
   }, [post.id])
 
-  useAppEvent<{ postId: string; caption: string }>(
+  useAppEvent<{ postId: string; caption: string; platform?: Platform }>(
     AppEvents.APPLY_CAPTION,
     (event) => {
       const isCurrentPost = event.postId === editedPost.id || 
@@ -112,13 +113,19 @@ export function PostEditor({
                            !editedPost.id
       
       if (isCurrentPost) {
-        handleUpdate({ caption: event.caption })
+        const platform = event.platform ?? activeVariant.platform
+        if (editedPost.variants.some((v) => v.platform === platform)) {
+          handleVariantUpdate({ caption: event.caption }, platform)
+        } else {
+          handleAddVariant(platform, { caption: event.caption, images: activeVariant.images })
+        }
+        setActivePlatform(platform)
         if (editedPost.calendarId) {
           fetchScoreIfNeeded(event.caption, editedPost.calendarId)
         }
       }
     },
-    [editedPost.id, editedPost.calendarId, fetchScoreIfNeeded],
+    [editedPost.id, editedPost.calendarId, editedPost.variants, activeVariant, fetchScoreIfNeeded],
   )
 
   useEffect(() => {
@@ -154,40 +161,79 @@ export function PostEditor({
       setEditedPost(normalizedPost)
       lastSyncedPostRef.current = currentPostKey
       
-      if (post.calendarId && post.caption) {
-        fetchScoreIfNeeded(post.caption, post.calendarId)
+      const remoteVariant = post.variants.find((v) => v.platform === activePlatform)
+      if (post.calendarId && remoteVariant?.caption) {
+        fetchScoreIfNeeded(remoteVariant.caption, post.calendarId)
       }
     } else {
       lastSyncedPostRef.current = currentPostKey
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [post.id, post.caption, post.platform, post.status, post.date, post.images])
+  }, [post.id, post.date, post.variants])
+
+  // Published variants are final, so the server refuses to change them or the post's date.
+  const isPublished = editedPost.variants.some((v) => v.status === "published")
 
   const handleUpdate = (updates: Partial<Post>) => {
+    if (updates.date !== undefined && isPublished) return
     setEditedPost((prev) => ({ ...prev, ...updates }))
   }
 
-  const handleStatusChange = async (status: Post["status"]) => {
-    const updatedPost = { ...editedPost, status }
-    setEditedPost(updatedPost)
-    await onSave(updatedPost)
+  const handleVariantUpdate = (updates: Partial<PostVariant>, platform: Platform = activeVariant.platform) => {
+    setEditedPost((prev) => ({
+      ...prev,
+      variants: prev.variants.map((v) => {
+        if (v.platform !== platform) return v
+        const changesContent = updates.caption !== undefined || updates.images !== undefined
+        return v.status === "published" && changesContent ? v : { ...v, ...updates }
+      }),
+    }))
+  }
+
+  const handleAddVariant = (platform: Platform, source: Pick<PostVariant, "caption" | "images"> = activeVariant) => {
+    setEditedPost((prev) => ({
+      ...prev,
+      variants: [...prev.variants, createPostVariant(prev.id, platform, source)],
+    }))
+    setActivePlatform(platform)
   }
 
-  const handleAddComment = (content: string) => {
-    const comment: Comment = {
-      id: Date.now().toString(),
-      postId: editedPost.id,
-      userId: currentUser.id,
-      userName: currentUser.name,
-      content,
-      createdAt: new Date(),
+  const handleRemoveVariant = (platform: Platform) => {
+    // Variants past review keep their status history, so only drafts and rejections can go.
+    const variant = editedPost.variants.find((v) => v.platform === platform)
+    if (variant && variant.status !== "draft" && variant.status !== "rejected") return
+    const remaining = editedPost.variants.filter((v) => v.platform !== platform)
+    if (remaining.length === 0) return
+    setEditedPost((prev) => ({ ...prev, variants: remaining }))
+    if (platform === activeVariant.platform) {
+      setActivePlatform(remaining[0].platform)
     }
-    const updatedPost = {
-      ...editedPost,
-      comments: [...editedPost.comments, comment],
+  }
+
+  const platformViolations = useMemo(
+    () => checkPlatformRules(activeVariant.caption, activeVariant.platform),
+    [activeVariant.caption, activeVariant.platform],
+  )
+  const hasPlatformErrors = platformViolations.some((violation) => violation.severity === "error")
+
+  const { canApprove, history: statusHistory, changeStatus } = usePostWorkflow(editedPost.calendarId, editedPost.id)
+
+  // Status changes go through the workflow endpoint rather than the post save,
+  // so pending edits are saved first and the server checks the current caption.
+  const handleStatusChange = async (status: PostStatus, reason?: string) => {
+    if (status === "approved" && hasPlatformErrors) return false
+    try {
+      await onSave(editedPost)
+      const updated = await changeStatus.mutateAsync({ platform: activeVariant.platform, status, reason })
+      handleVariantUpdate(
+        { id: updated.id, status: updated.status, publishing: updated.publishing },
+        updated.platform,
+      )
+      return true
+    } catch (error) {
+      console.error("Error changing post status:", error)
+      return false
     }
-    setEditedPost(updatedPost)
-    onSave(updatedPost)
   }
 
   const handleApplySuggestions = () => {
@@ -199,7 +245,7 @@ export function PostEditor({
       return
 
     applySuggestions({
-      caption: editedPost.caption,
+      caption: activeVariant.caption,
       suggestions: brandScore.suggestions,
       calendarId: editedPost.calendarId,
     })
@@ -212,6 +258,7 @@ export function PostEditor({
       <div className="relative w-full max-w-6xl h-[85vh] rounded-lg border border-border bg-card shadow-lg flex flex-col">
         <PostEditorHeader
           post={editedPost}
+          status={activeVariant.status}
           currentUser={currentUser}
           isSaving={isSaving}
           lastSaved={lastSaved}
@@ -230,18 +277,59 @@ export function PostEditor({
               </div>
             )}
 
-            <PostImageGallery post={editedPost} onUpdate={handleUpdate} />
+            <PostVariantTabs
+              variants={editedPost.variants}
+              activePlatform={activeVariant.platform}
+              onSelect={setActivePlatform}
+              onAdd={(platform) => handleAddVariant(platform)}
+              onRemove={handleRemoveVariant}
+            />
+
+            {activeVariant.status === "published" ? (
+              <div className="rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
+                This variant has been published and can no longer be edited.
+              </div>
+            ) : (
+              (activeVariant.status === "approved" || activeVariant.status === "awaiting_approval") && (
+                <div className="rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
+                  Editing this variant or the post&apos;s date moves it back to draft for another review.
+                </div>
+              )
+            )}
+
+            <PostImageGallery
+              key={activeVariant.platform}
+              calendarId={editedPost.calendarId}
+              images={activeVariant.images}
+              caption={activeVariant.caption}
+              onImagesChange={(images) => handleVariantUpdate({ images })}
+            />
 
             <PostCaptionEditor
-              caption={editedPost.caption}
+              caption={activeVariant.caption}
+              platform={activeVariant.platform}
+              violations={platformViolations}
               onCaptionChange={(caption) => {
-                handleUpdate({ caption })
+                handleVariantUpdate({ caption })
                 if (editedPost.calendarId && caption) {
                   fetchScoreIfNeeded(caption, editedPost.calendarId)
                 }
               }}
             />
 
+            {editedPost.calendarId && (
+              <PostCaptionVariants
+                calendarId={editedPost.calendarId}
+                campaignId={editedPost.campaignId}
+                caption={activeVariant.caption}
+                platform={activeVariant.platform}
+                onUseCaption={(caption) => {
+                  handleVariantUpdate({ caption })
+                  fetchScoreIfNeeded(caption, editedPost.calendarId)
+                }}
+              />
+            )}
+
             <PostBrandScoreCard
               brandScore={brandScore}
               isFetchingScore={isFetchingScore}
@@ -252,10 +340,15 @@ export function PostEditor({
           {!showBrandScore && (
             <PostSidebar
               post={editedPost}
+              variant={activeVariant}
               currentUser={currentUser}
               onUpdate={handleUpdate}
               onStatusChange={handleStatusChange}
-              onAddComment={handleAddComment}
+              approvalBlocked={hasPlatformErrors}
+              canApprove={canApprove}
+              statusHistory={statusHistory}
+              isChangingStatus={changeStatus.isPending}
+              statusError={changeStatus.error?.message}
             />
           )}
 
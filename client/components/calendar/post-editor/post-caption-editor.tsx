@@ -1,16 +1,28 @@
+import { AlertCircle, AlertTriangle, Scissors } from "lucide-react"
 import { AITriggerButton } from "@/components/ai/ai-trigger-button"
+import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { platformProfiles, splitIntoThread } from "@/lib/platforms"
+import { cn } from "@/lib/utils"
+import type { Platform, PlatformRuleViolation } from "@/lib/types"
 
 interface PostCaptionEditorProps {
   caption: string
+  platform: Platform
+  violations: PlatformRuleViolation[]
   onCaptionChange: (caption: string) => void
 }
 
 export function PostCaptionEditor({
   caption,
+  platform,
+  violations,
   onCaptionChange,
 }: PostCaptionEditorProps) {
+  const profile = platformProfiles[platform]
+  const isOverLimit = violations.some((violation) => violation.ruleId === "character_limit")
+
   const getAIPrompt = () => {
     if (caption && caption.trim().length > 0) {
       return "Help me edit this post";
@@ -38,8 +50,42 @@ export function PostCaptionEditor({
           />
         </div>
       </div>
-      <div className="text-xs text-muted-foreground">{caption.length} characters</div>
+      <div className="flex items-center justify-between gap-2">
+        <div className={cn("text-xs", isOverLimit ? "text-destructive" : "text-muted-foreground")}>
+          {caption.length} / {profile.characterLimit} characters
+        </div>
+        {isOverLimit && profile.threads.supported && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1.5 text-xs"
+            onClick={() => onCaptionChange(splitIntoThread(caption, platform))}
+          >
+            <Scissors className="h-3.5 w-3.5" />
+            Split into thread
+          </Button>
+        )}
+      </div>
+      {violations.length > 0 && (
+        <ul className="space-y-1">
+          {violations.map((violation, index) => (
+            <li
+              key={`${violation.ruleId}-${index}`}
+              className={cn(
+                "flex items-start gap-1.5 text-xs",
+                violation.severity === "error" ? "text-destructive" : "text-muted-foreground",
+              )}
+            >
+              {violation.severity === "error" ? (
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              )}
+              {violation.message}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   )
 }
-
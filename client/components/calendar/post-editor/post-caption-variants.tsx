@@ -0,0 +1,235 @@
+import { useState } from "react"
+import { useMutation } from "@tanstack/react-query"
+import { Layers, Merge, Sparkles, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Spinner } from "@/components/ui/spinner"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { apiPost } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+import { cn } from "@/lib/utils"
+import type {
+  CaptionGenerationOptions,
+  CaptionGenerationResult,
+  CaptionLength,
+  GeneratedCaption,
+  Platform,
+} from "@/lib/types"
+import { getScoreColor } from "./utils"
+
+const VARIANT_COUNTS = [2, 3, 4]
+
+interface PostCaptionVariantsProps {
+  calendarId: string
+  /** The post's campaign; its brief is added to the generation request. */
+  campaignId?: string | null
+  caption: string
+  platform: Platform
+  onUseCaption: (caption: string) => void
+}
+
+export function PostCaptionVariants({
+  calendarId,
+  campaignId,
+  caption,
+  platform,
+  onUseCaption,
+}: PostCaptionVariantsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [topic, setTopic] = useState("")
+  const [variantCount, setVariantCount] = useState(3)
+  const [tone, setTone] = useState("")
+  const [length, setLength] = useState<CaptionLength | "any">("any")
+  const [callToAction, setCallToAction] = useState("")
+  const [variants, setVariants] = useState<GeneratedCaption[]>([])
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+
+  const hasCaption = caption.trim().length > 0
+
+  const { mutate: generateVariants, isPending: isGenerating } = useMutation({
+    mutationFn: (request: CaptionGenerationOptions) =>
+      apiPost<CaptionGenerationResult>(ApiRoutes.AI.GENERATE_CAPTION, { calendarId, request, campaignId }),
+    onSuccess: (result) => {
+      setVariants(result.variants)
+      setSelected(new Set())
+    },
+    onError: (error) => {
+      console.error("Error generating caption variants:", error)
+    },
+  })
+
+  const { mutate: mergeVariants, isPending: isMerging } = useMutation({
+    mutationFn: (captions: string[]) =>
+      apiPost<{ caption: string }>(ApiRoutes.AI.MERGE_CAPTIONS, { calendarId, captions }),
+    onSuccess: (result) => {
+      onUseCaption(result.caption)
+      setSelected(new Set())
+    },
+    onError: (error) => {
+      console.error("Error merging captions:", error)
+    },
+  })
+
+  const handleGenerate = () => {
+    generateVariants({
+      topic: topic.trim() || "Refine the existing caption",
+      existingCaption: hasCaption ? caption : undefined,
+      variantCount,
+      tone: tone.trim() || undefined,
+      length: length === "any" ? undefined : length,
+      callToAction: callToAction.trim() || undefined,
+      platform,
+    })
+  }
+
+  const toggleSelected = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(index)) {
+        next.delete(index)
+      } else {
+        next.add(index)
+      }
+      return next
+    })
+  }
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsOpen(true)}>
+        <Layers className="h-4 w-4" />
+        Compare caption options
+      </Button>
+    )
+  }
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4 text-primary" />
+          <h4 className="text-sm font-medium text-foreground">Caption options</h4>
+        </div>
+        <Button variant="ghost" size="icon-sm" onClick={() => setIsOpen(false)}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Close caption options</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2 space-y-1.5">
+          <Label htmlFor="variant-topic" className="text-xs">Topic</Label>
+          <Input
+            id="variant-topic"
+            placeholder={hasCaption ? "Optional: what should change?" : "What is this post about?"}
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="variant-tone" className="text-xs">Tone</Label>
+          <Input id="variant-tone" placeholder="e.g. playful" value={tone} onChange={(e) => setTone(e.target.value)} />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="variant-cta" className="text-xs">Call to action</Label>
+          <Input
+            id="variant-cta"
+            placeholder="e.g. Sign up today"
+            value={callToAction}
+            onChange={(e) => setCallToAction(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Length</Label>
+          <Select value={length} onValueChange={(value) => setLength(value as CaptionLength | "any")}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any length</SelectItem>
+              <SelectItem value="short">Short</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="long">Long</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Options</Label>
+          <Select value={String(variantCount)} onValueChange={(value) => setVariantCount(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VARIANT_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count} options
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="gap-2"
+          onClick={handleGenerate}
+          disabled={isGenerating || (!hasCaption && !topic.trim())}
+        >
+          {isGenerating ? <Spinner className="h-4 w-4" /> : <Sparkles className="h-4 w-4" />}
+          {isGenerating ? "Generating..." : variants.length > 0 ? "Regenerate" : "Generate"}
+        </Button>
+        {variants.length > 1 && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-2"
+            onClick={() => mergeVariants([...selected].map((index) => variants[index].caption))}
+            disabled={selected.size < 2 || isMerging}
+          >
+            {isMerging ? <Spinner className="h-4 w-4" /> : <Merge className="h-4 w-4" />}
+            Merge selected
+          </Button>
+        )}
+      </div>
+
+      {variants.length > 0 && (
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.min(variants.length, 3)}, minmax(0, 1fr))` }}>
+          {variants.map((variant, index) => (
+            <div
+              key={index}
+              className={cn(
+                "flex flex-col rounded-md border border-border p-3 space-y-2",
+                selected.has(index) && "border-primary",
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Checkbox checked={selected.has(index)} onCheckedChange={() => toggleSelected(index)} />
+                  Option {index + 1}
+                </label>
+                <span className={cn("text-sm font-semibold", variant.score ? getScoreColor(variant.score.overall) : "text-muted-foreground")}>
+                  {variant.score ? `${variant.score.overall}%` : "N/A"}
+                </span>
+              </div>
+              <p className="flex-1 text-sm text-foreground whitespace-pre-wrap">{variant.caption}</p>
+              {variant.history.length > 1 && (
+                <p className="text-[10px] text-muted-foreground">
+                  Refined {variant.history.length - 1}×: {variant.history
+                    .map((entry) => (entry.score ? `${entry.score.overall}%` : "N/A"))
+                    .join(" → ")}
+                </p>
+              )}
+              <Button size="sm" variant="secondary" onClick={() => onUseCaption(variant.caption)}>
+                Use this
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,51 +1,94 @@
-import { useState } from "react"
-import { Send } from "lucide-react"
+import { useRef, useState } from "react"
+import { Send, Trash2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Avatar } from "@/components/ui/avatar"
+import { usePostComments } from "@/lib/hooks/use-post-comments"
+import { splitMentions } from "@/lib/mentions"
+import { cn } from "@/lib/utils"
 import { formatTime } from "./utils"
-import type { Post, Comment } from "@/lib/types"
+import type { Post, MentionableMember } from "@/lib/types"
+
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@]*)$/
 
 interface PostCommentsSectionProps {
   post: Post
-  onAddComment: (content: string) => void
+  currentUserId: string
 }
 
-export function PostCommentsSection({ post, onAddComment }: PostCommentsSectionProps) {
+export function PostCommentsSection({ post, currentUserId }: PostCommentsSectionProps) {
+  const { comments, members, addComment, deleteComment } = usePostComments(post.calendarId, post.id)
   const [newComment, setNewComment] = useState("")
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const isUnsaved = post.id.startsWith("temp-")
+  const suggestions =
+    mentionQuery === null
+      ? []
+      : members
+          .filter((member) => member.id !== currentUserId)
+          .filter((member) => member.name.toLowerCase().includes(mentionQuery.toLowerCase()))
+          .slice(0, 5)
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = value.slice(0, caret).match(MENTION_QUERY_PATTERN)
+    setMentionQuery(match ? match[2] : null)
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setNewComment(e.target.value)
+    updateMentionQuery(e.target.value, e.target.selectionStart)
+  }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const insertMention = (member: MentionableMember) => {
+    const caret = textareaRef.current?.selectionStart ?? newComment.length
+    const before = newComment.slice(0, caret).replace(MENTION_QUERY_PATTERN, `$1@${member.name} `)
+    const value = before + newComment.slice(caret)
+    setNewComment(value)
+    setMentionQuery(null)
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(before.length, before.length)
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (newComment.trim()) {
-      onAddComment(newComment)
+    if (!newComment.trim()) return
+    try {
+      await addComment.mutateAsync(newComment)
       setNewComment("")
+      setMentionQuery(null)
+    } catch (error) {
+      console.error("Error adding comment:", error)
     }
   }
 
-  const getCommentStats = () => {
-    const comments = post.comments || []
-    const inboxComments = comments.filter((c: any) => c.sentiment !== undefined)
-    return { total: inboxComments.length }
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0 && (e.key === "Enter" || e.key === "Tab")) {
+      e.preventDefault()
+      insertMention(suggestions[0])
+    } else if (e.key === "Escape") {
+      setMentionQuery(null)
+    }
   }
 
-  const commentStats = getCommentStats()
-  const teamComments = (post.comments || []).filter((c: any) => !c.sentiment)
-
   return (
     <>
       <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
         <div className="flex items-center justify-between">
           <h3 className="text-sm font-semibold text-foreground">
-            Team Comments {commentStats.total > 0 && `(${commentStats.total})`}
+            Team Comments {comments.length > 0 && `(${comments.length})`}
           </h3>
         </div>
 
         <div className="space-y-3">
-          {teamComments.length === 0 ? (
+          {comments.length === 0 ? (
             <p className="text-xs text-muted-foreground text-center py-8">No team comments yet</p>
           ) : (
-            teamComments.map((comment: Comment) => (
-              <div key={comment.id} className="rounded-lg bg-background p-3 space-y-2">
+            comments.map((comment) => (
+              <div key={comment.id} className="group rounded-lg bg-background p-3 space-y-2">
                 <div className="flex gap-2">
                   <Avatar className="h-7 w-7 shrink-0 bg-primary/10 flex items-center justify-center">
                     <span className="text-xs font-medium text-primary">
@@ -55,9 +98,29 @@ export function PostCommentsSection({ post, onAddComment }: PostCommentsSectionP
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 flex-wrap">
                       <span className="text-xs font-medium text-foreground">{comment.userName}</span>
-                      <span className="text-xs text-muted-foreground">{formatTime(comment.createdAt)}</span>
+                      <span className="text-xs text-muted-foreground">{formatTime(new Date(comment.createdAt))}</span>
+                      {comment.userId === currentUserId && (
+                        <button
+                          type="button"
+                          onClick={() => deleteComment.mutate(comment.id)}
+                          className="ml-auto opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                          <span className="sr-only">Delete comment</span>
+                        </button>
+                      )}
                     </div>
-                    <p className="mt-1 text-xs text-foreground whitespace-pre-wrap">{comment.content}</p>
+                    <p className="mt-1 text-xs text-foreground whitespace-pre-wrap">
+                      {splitMentions(comment.content, members).map((segment, index) =>
+                        segment.member ? (
+                          <span key={index} className="font-medium text-primary">
+                            {segment.text}
+                          </span>
+                        ) : (
+                          segment.text
+                        ),
+                      )}
+                    </p>
                   </div>
                 </div>
               </div>
@@ -66,15 +129,43 @@ export function PostCommentsSection({ post, onAddComment }: PostCommentsSectionP
         </div>
       </div>
 
-      <form onSubmit={handleSubmit} className="border-t border-border p-4 space-y-2 shrink-0">
+      <form onSubmit={handleSubmit} className="relative border-t border-border p-4 space-y-2 shrink-0">
+        {suggestions.length > 0 && (
+          <div className="absolute bottom-full left-4 right-4 mb-1 rounded-md border border-border bg-popover p-1 shadow-md">
+            {suggestions.map((member, index) => (
+              <button
+                key={member.id}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(member)}
+                className={cn(
+                  "flex w-full flex-col rounded-sm px-2 py-1.5 text-left hover:bg-accent",
+                  index === 0 && "bg-accent/50",
+                )}
+              >
+                <span className="text-xs font-medium text-foreground">{member.name}</span>
+                <span className="text-[10px] text-muted-foreground">{member.email}</span>
+              </button>
+            ))}
+          </div>
+        )}
         <Textarea
-          placeholder="Add a team comment..."
+          ref={textareaRef}
+          placeholder={isUnsaved ? "Save the post to start commenting" : "Add a team comment... Type @ to mention someone"}
           value={newComment}
-          onChange={(e) => setNewComment(e.target.value)}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
           rows={2}
           className="resize-none text-sm"
+          disabled={isUnsaved}
         />
-        <Button type="submit" size="sm" disabled={!newComment.trim()} className="w-full gap-2">
+        <Button
+          type="submit"
+          size="sm"
+          disabled={!newComment.trim() || isUnsaved || addComment.isPending}
+          className="w-full gap-2"
+        >
           <Send className="h-3.5 w-3.5" />
           Comment
         </Button>
@@ -82,4 +173,3 @@ export function PostCommentsSection({ post, onAddComment }: PostCommentsSectionP
     </>
   )
 }
-
@@ -1,11 +1,12 @@
-import { X, MoreVertical, Trash2 } from "lucide-react"
+import { X, MoreVertical, Repeat, Trash2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { PostStatusBadge } from "./post-status-badge"
-import type { Post, User } from "@/lib/types"
+import type { Post, PostStatus, User } from "@/lib/types"
 
 interface PostEditorHeaderProps {
   post: Post
+  status: PostStatus
   currentUser: User
   isSaving: boolean
   lastSaved: Date | null
@@ -17,6 +18,7 @@ interface PostEditorHeaderProps {
 
 export function PostEditorHeader({
   post,
+  status,
   currentUser,
   isSaving,
   lastSaved,
@@ -26,12 +28,23 @@ export function PostEditorHeader({
   onClose,
 }: PostEditorHeaderProps) {
   const isAuthor = currentUser.id === post.authorId
+  // The server refuses to delete a post once any platform has published it.
+  const isPublished = post.variants.some((variant) => variant.status === "published")
 
   return (
     <div className="flex items-center justify-between border-b border-border px-6 py-4 shrink-0">
       <div className="flex items-center gap-3">
         <h2 className="text-lg font-semibold text-foreground">{post.id ? "Edit Post" : "New Post"}</h2>
-        <PostStatusBadge status={post.status} />
+        <PostStatusBadge status={status} />
+        {post.series && (
+          <div
+            className="flex items-center gap-1 text-xs text-muted-foreground"
+            title={post.series.detached ? undefined : "Editing this post detaches it from the series"}
+          >
+            <Repeat className="h-3 w-3" />
+            <span>{post.series.detached ? `Detached from ${post.series.name}` : post.series.name}</span>
+          </div>
+        )}
         {post.id && (
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             {isSaving ? (
@@ -55,7 +68,7 @@ export function PostEditorHeader({
         )}
       </div>
       <div className="flex items-center gap-2">
-        {post.id && isAuthor && (
+        {post.id && isAuthor && !isPublished && (
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon-sm">
@@ -5,15 +5,17 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { cn } from "@/lib/utils"
 import { apiGet, apiPost } from "@/lib/api-client"
 import { ApiRoutes } from "@/lib/api-routes"
-import type { Post, MediaItem } from "@/lib/types"
+import type { MediaItem } from "@/lib/types"
 import { ImageGeneratorPanel } from "@/components/ai/image-generator-panel"
 
 interface PostImageGalleryProps {
-  post: Post
-  onUpdate: (updates: Partial<Post>) => void
+  calendarId: string
+  images: string[]
+  caption: string
+  onImagesChange: (images: string[]) => void
 }
 
-export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
+export function PostImageGallery({ calendarId, images, caption, onImagesChange }: PostImageGalleryProps) {
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
   const [isUploading, setIsUploading] = useState(false)
   const [showMediaPicker, setShowMediaPicker] = useState(false)
@@ -24,7 +26,6 @@ export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
   const loadLibraryMedia = useCallback(async () => {
     setIsLoadingLibrary(true)
     try {
-      const calendarId = post.calendarId
       if (!calendarId) return
 
       try {
@@ -40,7 +41,7 @@ export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
     } finally {
       setIsLoadingLibrary(false)
     }
-  }, [post.calendarId])
+  }, [calendarId])
 
   useEffect(() => {
     if (showMediaPicker && libraryMedia.length === 0) {
@@ -59,13 +60,13 @@ export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
       for (const file of Array.from(files)) {
         const formData = new FormData()
         formData.append("file", file)
-        formData.append("calendarId", post.calendarId)
+        formData.append("calendarId", calendarId)
 
         const data = await apiPost<{ url: string }>(ApiRoutes.UPLOAD, formData)
         uploadedUrls.push(data.url)
       }
 
-      onUpdate({ images: [...post.images, ...uploadedUrls] })
+      onImagesChange([...images, ...uploadedUrls])
     } catch (error) {
       console.error("Error uploading images:", error)
       alert("Failed to upload images. Please try again.")
@@ -75,20 +76,20 @@ export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
   }
 
   const handleRemoveImage = (index: number) => {
-    const newImages = post.images.filter((_, i) => i !== index)
-    onUpdate({ images: newImages })
+    const newImages = images.filter((_, i) => i !== index)
+    onImagesChange(newImages)
     if (currentImageIndex >= newImages.length && newImages.length > 0) {
       setCurrentImageIndex(newImages.length - 1)
     }
   }
 
   const handleSelectFromLibrary = (url: string) => {
-    onUpdate({ images: [...post.images, url] })
+    onImagesChange([...images, url])
     setShowMediaPicker(false)
   }
 
   const handleImageGenerated = (mediaItem: MediaItem) => {
-    onUpdate({ images: [...post.images, mediaItem.url] })
+    onImagesChange([...images, mediaItem.url])
     setShowImageGenerator(false)
   }
 
@@ -97,18 +98,18 @@ export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
       <div className="space-y-3">
         <Label>Images</Label>
 
-        {post.images.length > 0 && (
+        {images.length > 0 && (
           <div className="relative w-full aspect-video rounded-lg border border-border overflow-hidden bg-muted">
             <img
-              src={post.images[currentImageIndex] || "/placeholder.svg"}
+              src={images[currentImageIndex] || "/placeholder.svg"}
               alt={`Image ${currentImageIndex + 1}`}
               className="w-full h-full object-cover"
             />
-            {post.images.length > 1 && (
+            {images.length > 1 && (
               <>
                 <button
                   onClick={() =>
-                    setCurrentImageIndex((prev) => (prev === 0 ? post.images.length - 1 : prev - 1))
+                    setCurrentImageIndex((prev) => (prev === 0 ? images.length - 1 : prev - 1))
                   }
                   className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full bg-background/80 p-2 backdrop-blur-sm hover:bg-background"
                 >
@@ -116,14 +117,14 @@ export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
                 </button>
                 <button
                   onClick={() =>
-                    setCurrentImageIndex((prev) => (prev === post.images.length - 1 ? 0 : prev + 1))
+                    setCurrentImageIndex((prev) => (prev === images.length - 1 ? 0 : prev + 1))
                   }
                   className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full bg-background/80 p-2 backdrop-blur-sm hover:bg-background"
                 >
                   <ChevronRight className="h-4 w-4" />
                 </button>
                 <div className="absolute bottom-2 left-1/2 -translate-x-1/2 rounded-full bg-background/80 px-3 py-1 text-xs backdrop-blur-sm">
-                  {currentImageIndex + 1} / {post.images.length}
+                  {currentImageIndex + 1} / {images.length}
                 </div>
               </>
             )}
@@ -131,7 +132,7 @@ export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
         )}
 
         <div className="flex gap-2 flex-wrap">
-          {post.images.map((image, index) => (
+          {images.map((image, index) => (
             <div
               key={index}
               className={cn(
@@ -157,7 +158,7 @@ export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
             </div>
           ))}
 
-          {post.images.length === 0 ? (
+          {images.length === 0 ? (
             <div className="flex gap-2 w-full">
               <label className="flex flex-1 h-32 cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed border-border bg-muted/30 transition-colors hover:border-primary hover:bg-muted/50">
                 {isUploading ? (
@@ -244,8 +245,8 @@ export function PostImageGallery({ post, onUpdate }: PostImageGalleryProps) {
           isOpen={showImageGenerator}
           onClose={() => setShowImageGenerator(false)}
           onImageGenerated={handleImageGenerated}
-          calendarId={post.calendarId}
-          postCaption={post.caption}
+          calendarId={calendarId}
+          postCaption={caption}
         />
       )}
     </>
@@ -0,0 +1,98 @@
+import { format } from "date-fns"
+import { AlertCircle, Clock, ExternalLink, RotateCw, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { usePublishing } from "@/lib/hooks/use-publishing"
+import type { Post, PostVariant } from "@/lib/types"
+import { normalizeDate } from "./utils"
+
+interface PostPublishingStatusProps {
+  post: Post
+  variant: PostVariant
+}
+
+export function PostPublishingStatus({ post, variant }: PostPublishingStatusProps) {
+  const { attempts, publishNow } = usePublishing(post.calendarId, post.id)
+  const publishing = variant.publishing
+  const variantAttempts = attempts.filter((attempt) => attempt.variantId === variant.id)
+  const isSaved = !variant.id.startsWith("temp-")
+
+  if (variant.status === "published") {
+    return (
+      <div className="space-y-1 text-xs text-muted-foreground">
+        {publishing?.publishedAt && <p>Published {format(new Date(publishing.publishedAt), "MMM d, h:mm a")}</p>}
+        {publishing?.externalUrl && (
+          <a
+            href={publishing.externalUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-primary hover:underline"
+          >
+            <ExternalLink className="h-3 w-3" />
+            View post
+          </a>
+        )}
+      </div>
+    )
+  }
+
+  const hasFailed = !!publishing?.failedAt
+  const isDue = normalizeDate(post.date) <= new Date()
+
+  return (
+    <div className="space-y-2">
+      {hasFailed ? (
+        <div className="flex gap-2 rounded-md bg-destructive/10 p-2 text-xs text-destructive">
+          <AlertCircle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+          <span>
+            Publishing failed after {publishing.attemptCount} attempt{publishing.attemptCount === 1 ? "" : "s"}:{" "}
+            {publishing.error}
+          </span>
+        </div>
+      ) : publishing?.nextAttemptAt ? (
+        <div className="flex gap-2 rounded-md bg-muted p-2 text-xs text-muted-foreground">
+          <RotateCw className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+          <span>
+            Attempt {publishing.attemptCount} failed ({publishing.error}). Retrying at{" "}
+            {format(new Date(publishing.nextAttemptAt), "h:mm a")}.
+          </span>
+        </div>
+      ) : (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Clock className="h-3.5 w-3.5" />
+          {isDue ? "Publishing shortly" : `Scheduled for ${format(normalizeDate(post.date), "MMM d, h:mm a")}`}
+        </p>
+      )}
+
+      <Button
+        onClick={() => publishNow.mutate(variant.id)}
+        className="w-full gap-2"
+        size="sm"
+        variant={hasFailed ? "default" : "outline"}
+        disabled={!isSaved || publishNow.isPending}
+      >
+        {publishNow.isPending ? (
+          <Spinner className="h-3.5 w-3.5" />
+        ) : hasFailed ? (
+          <RotateCw className="h-3.5 w-3.5" />
+        ) : (
+          <Send className="h-3.5 w-3.5" />
+        )}
+        {hasFailed ? "Retry Publishing" : "Publish Now"}
+      </Button>
+      {publishNow.error && <p className="text-xs text-destructive">{publishNow.error.message}</p>}
+
+      {variantAttempts.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[10px] font-medium uppercase text-muted-foreground">Attempts</p>
+          {variantAttempts.map((attempt) => (
+            <p key={attempt.id} className="text-[10px] text-muted-foreground">
+              {format(new Date(attempt.createdAt), "MMM d, h:mm a")} · #{attempt.attempt} ·{" "}
+              {attempt.outcome === "succeeded" ? "Published" : attempt.error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
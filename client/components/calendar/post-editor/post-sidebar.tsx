@@ -1,58 +1,65 @@
-import { Send, CheckCircle, XCircle } from "lucide-react"
+import { useState } from "react"
+import { Send, CheckCircle, XCircle, Undo2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Spinner } from "@/components/ui/spinner"
+import { CampaignSelect } from "@/components/campaigns/campaign-select"
 import { PostCommentsSection } from "./post-comments-section"
-import { formatDateTimeForInput, normalizeDate } from "./utils"
-import type { Post } from "@/lib/types"
+import { PostPublishingStatus } from "./post-publishing-status"
+import { PostStatusHistory } from "./post-status-history"
+import { formatDateTimeForInput } from "./utils"
+import { platformProfiles } from "@/lib/platforms"
+import type { Post, PostStatus, PostStatusChange, PostVariant } from "@/lib/types"
 
 interface PostSidebarProps {
   post: Post
+  variant: PostVariant
   currentUser: { id: string; name: string; email: string }
   onUpdate: (updates: Partial<Post>) => void
-  onStatusChange: (status: Post["status"]) => void
-  onAddComment: (content: string) => void
+  onStatusChange: (status: PostStatus, reason?: string) => Promise<boolean>
+  approvalBlocked?: boolean
+  canApprove: boolean
+  statusHistory: PostStatusChange[]
+  isChangingStatus?: boolean
+  statusError?: string | null
 }
 
 export function PostSidebar({
   post,
-  currentUser: _currentUser,
+  variant,
+  currentUser,
   onUpdate,
   onStatusChange,
-  onAddComment,
+  approvalBlocked = false,
+  canApprove,
+  statusHistory,
+  isChangingStatus = false,
+  statusError,
 }: PostSidebarProps) {
-  const isPastDate = normalizeDate(post.date) < new Date()
+  const [isRejecting, setIsRejecting] = useState(false)
+  const [rejectionReason, setRejectionReason] = useState("")
+
+  const variantHistory = statusHistory.filter((change) => change.platform === variant.platform)
+  const lastRejection = variantHistory.find((change) => change.toStatus === "rejected")
+  const isUnsaved = post.id.startsWith("temp-")
 
   const handleDateTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newDate = new Date(e.target.value)
     onUpdate({ date: newDate })
   }
 
+  const handleReject = async () => {
+    if (await onStatusChange("rejected", rejectionReason.trim())) {
+      setIsRejecting(false)
+      setRejectionReason("")
+    }
+  }
+
   return (
     <div className="w-80 border-l border-border bg-muted/20 flex flex-col min-h-0">
-      <div className="p-4 space-y-4 border-b border-border shrink-0">
-        <div className="space-y-2">
-          <Label htmlFor="platform" className="text-xs">
-            Platform
-          </Label>
-          <Select
-            value={post.platform}
-            onValueChange={(value: "instagram" | "twitter" | "linkedin") =>
-              onUpdate({ platform: value })
-            }
-          >
-            <SelectTrigger id="platform" className="h-9">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="instagram">Instagram</SelectItem>
-              <SelectItem value="twitter">Twitter</SelectItem>
-              <SelectItem value="linkedin">LinkedIn</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-
+      <div className="p-4 space-y-4 border-b border-border shrink-0 max-h-[60%] overflow-y-auto">
         <div className="space-y-2">
           <Label htmlFor="datetime" className="text-xs">
             Date & Time
@@ -67,48 +74,156 @@ export function PostSidebar({
         </div>
 
         <div className="space-y-2">
-          {post.status === "draft" && (
-            <Button onClick={() => onStatusChange("awaiting_approval")} className="w-full gap-2" size="sm">
+          <Label className="text-xs">Campaign</Label>
+          <CampaignSelect
+            calendarId={post.calendarId}
+            value={post.campaignId ?? null}
+            onChange={(campaignId) => onUpdate({ campaignId })}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">{platformProfiles[variant.platform].label} status</Label>
+            {isChangingStatus && <Spinner className="h-3.5 w-3.5" />}
+          </div>
+
+          {variant.status === "draft" && (
+            <Button
+              onClick={() => onStatusChange("awaiting_approval")}
+              className="w-full gap-2"
+              size="sm"
+              disabled={isUnsaved || isChangingStatus}
+            >
               <Send className="h-3.5 w-3.5" />
               Submit for Approval
             </Button>
           )}
 
-          {post.status === "awaiting_approval" && (
+          {variant.status === "awaiting_approval" && !canApprove && (
+            <>
+              <p className="text-xs text-muted-foreground">Waiting for a calendar owner or admin to review.</p>
+              <Button
+                variant="outline"
+                onClick={() => onStatusChange("draft")}
+                className="w-full gap-2"
+                size="sm"
+                disabled={isChangingStatus}
+              >
+                <Undo2 className="h-3.5 w-3.5" />
+                Withdraw
+              </Button>
+            </>
+          )}
+
+          {variant.status === "awaiting_approval" && canApprove && !isRejecting && (
             <>
               <Button
                 variant="destructive"
-                onClick={() => onStatusChange("rejected")}
+                onClick={() => setIsRejecting(true)}
                 className="w-full gap-2"
                 size="sm"
+                disabled={isChangingStatus}
               >
                 <XCircle className="h-3.5 w-3.5" />
                 Reject
               </Button>
-              <Button onClick={() => onStatusChange("approved")} className="w-full gap-2" size="sm">
+              <Button
+                onClick={() => onStatusChange("approved")}
+                className="w-full gap-2"
+                size="sm"
+                disabled={approvalBlocked || isChangingStatus}
+              >
                 <CheckCircle className="h-3.5 w-3.5" />
                 Approve
               </Button>
+              {approvalBlocked && (
+                <p className="text-xs text-destructive">Fix the platform issues under the caption before approving.</p>
+              )}
             </>
           )}
 
-          {post.status === "approved" && (
-            <Button onClick={() => onStatusChange("published")} className="w-full gap-2" size="sm">
-              <CheckCircle className="h-3.5 w-3.5" />
-              {isPastDate ? "Mark as Published" : "Publish Now"}
-            </Button>
+          {variant.status === "awaiting_approval" && canApprove && isRejecting && (
+            <div className="space-y-2">
+              <Textarea
+                placeholder="What needs to change?"
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                rows={3}
+                className="text-xs"
+                autoFocus
+              />
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsRejecting(false)}
+                  className="flex-1"
+                  size="sm"
+                  disabled={isChangingStatus}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={handleReject}
+                  className="flex-1"
+                  size="sm"
+                  disabled={!rejectionReason.trim() || isChangingStatus}
+                >
+                  Reject
+                </Button>
+              </div>
+            </div>
           )}
 
-          {post.status === "rejected" && (
-            <Button onClick={() => onStatusChange("draft")} className="w-full gap-2" size="sm">
-              Move to Draft
+          {(variant.status === "approved" || variant.status === "published") && (
+            <PostPublishingStatus post={post} variant={variant} />
+          )}
+
+          {variant.status === "approved" && (
+            <Button
+              variant="ghost"
+              onClick={() => onStatusChange("draft")}
+              className="w-full gap-2"
+              size="sm"
+              disabled={isChangingStatus}
+            >
+              <Undo2 className="h-3.5 w-3.5" />
+              Move back to Draft
             </Button>
           )}
+
+          {variant.status === "rejected" && (
+            <>
+              {lastRejection?.reason && (
+                <div className="rounded-md bg-destructive/10 p-2 text-xs text-destructive">
+                  <span className="font-medium">{lastRejection.actorName}:</span> {lastRejection.reason}
+                </div>
+              )}
+              <Button onClick={() => onStatusChange("draft")} className="w-full gap-2" size="sm" disabled={isChangingStatus}>
+                Move to Draft
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => onStatusChange("awaiting_approval")}
+                className="w-full gap-2"
+                size="sm"
+                disabled={isChangingStatus}
+              >
+                <Send className="h-3.5 w-3.5" />
+                Resubmit for Approval
+              </Button>
+            </>
+          )}
+
+          {statusError && <p className="text-xs text-destructive">{statusError}</p>}
         </div>
+
+        <PostStatusHistory history={variantHistory} />
       </div>
 
-      <PostCommentsSection post={post} onAddComment={onAddComment} />
+      <PostCommentsSection post={post} currentUserId={currentUser.id} />
     </div>
   )
 }
-
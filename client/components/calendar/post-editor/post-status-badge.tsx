@@ -1,9 +1,9 @@
 import { Clock, CheckCircle, XCircle } from "lucide-react"
 import { cn } from "@/lib/utils"
-import type { Post } from "@/lib/types"
+import type { PostStatus } from "@/lib/types"
 
 interface PostStatusBadgeProps {
-  status: Post["status"]
+  status: PostStatus
 }
 
 export function PostStatusBadge({ status }: PostStatusBadgeProps) {
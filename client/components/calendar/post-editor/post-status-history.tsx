@@ -0,0 +1,48 @@
+import { Bot, CalendarClock, User } from "lucide-react"
+import { formatTime } from "./utils"
+import type { PostStatus, PostStatusChange } from "@/lib/types"
+
+const STATUS_ACTIONS: Record<PostStatus, string> = {
+  draft: "moved it back to draft",
+  awaiting_approval: "submitted it for approval",
+  approved: "approved it",
+  rejected: "rejected it",
+  published: "published it",
+}
+
+const ACTOR_ICONS = {
+  user: User,
+  ai: Bot,
+  scheduler: CalendarClock,
+}
+
+interface PostStatusHistoryProps {
+  history: PostStatusChange[]
+}
+
+export function PostStatusHistory({ history }: PostStatusHistoryProps) {
+  if (history.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] font-medium uppercase text-muted-foreground">History</p>
+      {history.map((change) => {
+        const Icon = ACTOR_ICONS[change.actorType]
+        return (
+          <div key={change.id} className="flex gap-2 text-xs">
+            <Icon className="h-3.5 w-3.5 shrink-0 mt-0.5 text-muted-foreground" />
+            <div className="min-w-0">
+              <p className="text-foreground">
+                <span className="font-medium">{change.actorName}</span> {STATUS_ACTIONS[change.toStatus]}
+              </p>
+              {change.reason && <p className="text-muted-foreground whitespace-pre-wrap">“{change.reason}”</p>}
+              <p className="text-[10px] text-muted-foreground">{formatTime(new Date(change.createdAt))}</p>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import { Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { PLATFORMS, platformProfiles } from "@/lib/platforms"
+import { cn } from "@/lib/utils"
+import type { Platform, PostVariant } from "@/lib/types"
+import { platformIcons } from "./utils"
+
+const statusDotColors: Record<PostVariant["status"], string> = {
+  draft: "bg-muted-foreground",
+  awaiting_approval: "bg-yellow-500",
+  approved: "bg-green-500",
+  rejected: "bg-red-500",
+  published: "bg-blue-500",
+}
+
+interface PostVariantTabsProps {
+  variants: PostVariant[]
+  activePlatform: Platform
+  onSelect: (platform: Platform) => void
+  onAdd: (platform: Platform) => void
+  onRemove: (platform: Platform) => void
+}
+
+export function PostVariantTabs({ variants, activePlatform, onSelect, onAdd, onRemove }: PostVariantTabsProps) {
+  const availablePlatforms = PLATFORMS.filter((platform) => !variants.some((v) => v.platform === platform))
+
+  return (
+    <div className="flex items-center gap-1 border-b border-border">
+      {variants.map((variant) => {
+        const Icon = platformIcons[variant.platform]
+        const isActive = variant.platform === activePlatform
+        return (
+          <div
+            key={variant.platform}
+            className={cn(
+              "group flex items-center gap-1 border-b-2 -mb-px",
+              isActive ? "border-primary" : "border-transparent",
+            )}
+          >
+            <button
+              onClick={() => onSelect(variant.platform)}
+              className={cn(
+                "flex items-center gap-2 px-3 py-2 text-sm transition-colors",
+                isActive ? "text-foreground font-medium" : "text-muted-foreground hover:text-foreground",
+              )}
+            >
+              <Icon className="h-4 w-4" />
+              {platformProfiles[variant.platform].label}
+              <span className={cn("h-1.5 w-1.5 rounded-full", statusDotColors[variant.status])} />
+            </button>
+            {variants.length > 1 && (variant.status === "draft" || variant.status === "rejected") && (
+              <button
+                onClick={() => onRemove(variant.platform)}
+                className="rounded p-0.5 text-muted-foreground opacity-0 transition-opacity hover:text-destructive group-hover:opacity-100"
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove {platformProfiles[variant.platform].label}</span>
+              </button>
+            )}
+          </div>
+        )
+      })}
+
+      {availablePlatforms.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="ml-1 gap-1.5 text-muted-foreground">
+              <Plus className="h-3.5 w-3.5" />
+              Add platform
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {availablePlatforms.map((platform) => {
+              const Icon = platformIcons[platform]
+              return (
+                <DropdownMenuItem key={platform} onClick={() => onAdd(platform)}>
+                  <Icon className="mr-2 h-4 w-4" />
+                  {platformProfiles[platform].label}
+                </DropdownMenuItem>
+              )
+            })}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  )
+}
@@ -1,3 +1,12 @@
+import { Instagram, Linkedin, Twitter, type LucideIcon } from "lucide-react"
+import type { Platform, PostVariant } from "@/lib/types"
+
+export const platformIcons: Record<Platform, LucideIcon> = {
+  instagram: Instagram,
+  twitter: Twitter,
+  linkedin: Linkedin,
+}
+
 export function normalizeDate(date: Date | string): Date {
   return date instanceof Date ? date : new Date(date)
 }
@@ -81,3 +90,18 @@ export function parseDate(dateStr: string): Date {
   return createDateAtNoon(today.getFullYear(), today.getMonth(), today.getDate())
 }
 
+
+export function createPostVariant(
+  postId: string,
+  platform: Platform,
+  source?: Pick<PostVariant, "caption" | "images">,
+): PostVariant {
+  return {
+    id: `temp-${platform}-${Date.now()}`,
+    postId,
+    platform,
+    caption: source?.caption ?? "",
+    images: source?.images ?? [],
+    status: "draft",
+  }
+}
@@ -1,13 +1,18 @@
+import { Check, Repeat } from "lucide-react"
 import { cn } from "@/lib/utils"
 import type { Post } from "@/lib/types"
-import { Instagram, Twitter, Linkedin } from "lucide-react"
+import { platformIcons } from "./post-editor/utils"
+import { canDragPost, startPostDrag } from "./post-drag"
 
 interface PostItemProps {
   post: Post
   onClick: () => void
+  /** Defined while the calendar is in select mode; clicks then toggle selection. */
+  isSelected?: boolean
 }
 
-export function PostItem({ post, onClick }: PostItemProps) {
+export function PostItem({ post, onClick, isSelected }: PostItemProps) {
+  const isSelecting = isSelected !== undefined
   const postDate = post.date instanceof Date ? post.date : new Date(post.date)
   const time = postDate.toLocaleTimeString("en-US", {
     hour: "numeric",
@@ -15,14 +20,6 @@ export function PostItem({ post, onClick }: PostItemProps) {
     hour12: true,
   })
 
-  const platformIcons = {
-    instagram: Instagram,
-    twitter: Twitter,
-    linkedin: Linkedin,
-  }
-
-  const Icon = platformIcons[post.platform]
-
   const statusColors = {
     draft: "border-l-muted-foreground",
     awaiting_approval: "border-l-yellow-500",
@@ -31,19 +28,62 @@ export function PostItem({ post, onClick }: PostItemProps) {
     published: "border-l-blue-500",
   }
 
+  const statusTextColors = {
+    draft: "text-muted-foreground",
+    awaiting_approval: "text-yellow-600",
+    approved: "text-green-600",
+    rejected: "text-red-600",
+    published: "text-blue-600",
+  }
+
+  // The first variant is the one the post was created for.
+  const primaryVariant = post.variants[0]
+
   return (
     <button
       onClick={onClick}
+      draggable={!isSelecting && canDragPost(post)}
+      aria-pressed={isSelecting ? isSelected : undefined}
+      onDragStart={(event) => startPostDrag(event, post)}
       className={cn(
         "w-full rounded-md border border-border bg-card p-2 text-left transition-all hover:border-primary hover:shadow-sm",
         "flex items-start gap-2 border-l-4",
-        statusColors[post.status],
+        primaryVariant && statusColors[primaryVariant.status],
+        isSelected && "border-primary bg-primary/5 ring-2 ring-primary/40",
       )}
     >
-      <Icon className="mt-0.5 h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+      {isSelecting && (
+        <span
+          className={cn(
+            "mt-0.5 flex h-3.5 w-3.5 shrink-0 items-center justify-center rounded-sm border border-primary",
+            isSelected && "bg-primary text-primary-foreground",
+          )}
+        >
+          {isSelected && <Check className="h-3 w-3" />}
+        </span>
+      )}
+      <div className="mt-0.5 flex shrink-0 flex-col gap-1">
+        {post.variants.map((variant) => {
+          const Icon = platformIcons[variant.platform]
+          return (
+            <Icon
+              key={variant.platform}
+              className={cn("h-3.5 w-3.5", statusTextColors[variant.status])}
+              aria-label={`${variant.platform}: ${variant.status.replace("_", " ")}`}
+            />
+          )
+        })}
+      </div>
       <div className="min-w-0 flex-1">
-        <div className="text-xs font-medium text-muted-foreground">{time}</div>
-        <div className="mt-0.5 line-clamp-2 text-xs text-foreground">{post.caption || "No caption"}</div>
+        <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+          {time}
+          {post.series && (
+            <span title={post.series.detached ? `Detached from ${post.series.name}` : `Series: ${post.series.name}`}>
+              <Repeat className={cn("h-3 w-3", post.series.detached ? "opacity-40" : "text-primary")} />
+            </span>
+          )}
+        </div>
+        <div className="mt-0.5 line-clamp-2 text-xs text-foreground">{primaryVariant?.caption || "No caption"}</div>
         {post.comments && post.comments.length > 0 && (
           <div className="mt-1 text-xs text-muted-foreground">
             {post.comments.length} {post.comments.length === 1 ? "comment" : "comments"}
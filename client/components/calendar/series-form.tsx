@@ -0,0 +1,236 @@
+import { useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { PLATFORMS, platformProfiles } from "@/lib/platforms"
+import { SERIES_PLACEHOLDERS } from "@/lib/series"
+import type { PostSeries, PostSeriesInput, SeriesFrequency } from "@/lib/types"
+import { PostImageGallery } from "./post-editor/post-image-gallery"
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+function toInput(series: PostSeries | null): PostSeriesInput {
+  if (series) {
+    const { name, frequency, interval, weekdays, monthDay, time, timezone, startsOn, endsOn, captionTemplate, platforms, images } =
+      series
+    return { name, frequency, interval, weekdays, monthDay, time, timezone, startsOn, endsOn, captionTemplate, platforms, images }
+  }
+
+  const today = new Date()
+  return {
+    name: "",
+    frequency: "weekly",
+    interval: 1,
+    weekdays: [today.getDay()],
+    monthDay: today.getDate(),
+    time: "09:00",
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    startsOn: format(today, "yyyy-MM-dd"),
+    endsOn: null,
+    captionTemplate: "",
+    platforms: ["instagram"],
+    images: [],
+  }
+}
+
+interface SeriesFormProps {
+  calendarId: string
+  series: PostSeries | null
+  isSaving: boolean
+  onSave: (input: PostSeriesInput) => void
+  onCancel: () => void
+}
+
+export function SeriesForm({ calendarId, series, isSaving, onSave, onCancel }: SeriesFormProps) {
+  const [input, setInput] = useState<PostSeriesInput>(() => toInput(series))
+
+  const update = (changes: Partial<PostSeriesInput>) => setInput((current) => ({ ...current, ...changes }))
+
+  const togglePlatform = (platform: PostSeriesInput["platforms"][number]) => {
+    update({
+      platforms: input.platforms.includes(platform)
+        ? input.platforms.filter((p) => p !== platform)
+        : [...input.platforms, platform],
+    })
+  }
+
+  const canSave =
+    input.name.trim() !== "" &&
+    input.platforms.length > 0 &&
+    (input.frequency === "monthly" || input.weekdays.length > 0) &&
+    (!input.endsOn || input.endsOn >= input.startsOn)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSave) return
+    onSave(input)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="series-name">Name</Label>
+        <Input
+          id="series-name"
+          value={input.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Tip Tuesday"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Repeats</Label>
+          <Select value={input.frequency} onValueChange={(value) => update({ frequency: value as SeriesFrequency })}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="series-interval">Every</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="series-interval"
+              type="number"
+              min={1}
+              max={12}
+              value={input.interval}
+              onChange={(e) => update({ interval: Math.min(12, Math.max(1, Number(e.target.value) || 1)) })}
+            />
+            <span className="text-sm text-muted-foreground">
+              {input.frequency === "weekly" ? "week(s)" : "month(s)"}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {input.frequency === "weekly" ? (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            size="sm"
+            value={input.weekdays.map(String)}
+            onValueChange={(values) => update({ weekdays: values.map(Number).sort((a, b) => a - b) })}
+          >
+            {WEEKDAYS.map((label, day) => (
+              <ToggleGroupItem key={label} value={String(day)} className="px-2 text-xs">
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="series-month-day">Day of the month</Label>
+          <Input
+            id="series-month-day"
+            type="number"
+            min={1}
+            max={31}
+            value={input.monthDay ?? 1}
+            onChange={(e) => update({ monthDay: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+          />
+          <p className="text-xs text-muted-foreground">Shorter months post on their last day.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="series-time">Time</Label>
+          <Input
+            id="series-time"
+            type="time"
+            value={input.time}
+            onChange={(e) => e.target.value && update({ time: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">{input.timezone.replace(/_/g, " ")} time</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="series-starts">Starts</Label>
+          <Input
+            id="series-starts"
+            type="date"
+            value={input.startsOn}
+            onChange={(e) => e.target.value && update({ startsOn: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="series-ends">Ends</Label>
+          <Input
+            id="series-ends"
+            type="date"
+            value={input.endsOn ?? ""}
+            onChange={(e) => update({ endsOn: e.target.value || null })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Platforms</Label>
+        <div className="flex flex-wrap gap-4">
+          {PLATFORMS.map((platform) => (
+            <label key={platform} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={input.platforms.includes(platform)}
+                onCheckedChange={() => togglePlatform(platform)}
+              />
+              {platformProfiles[platform].label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="series-caption">Caption template</Label>
+        <Textarea
+          id="series-caption"
+          value={input.captionTemplate}
+          onChange={(e) => update({ captionTemplate: e.target.value })}
+          placeholder={"{{series}} #{{number}}: {{ai: a quick tip about scheduling posts}}"}
+          className="min-h-28"
+        />
+        <ul className="space-y-0.5 text-xs text-muted-foreground">
+          {SERIES_PLACEHOLDERS.map(({ token, description }) => (
+            <li key={token}>
+              <code className="text-foreground">{token}</code> {description}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <PostImageGallery
+        calendarId={calendarId}
+        images={input.images}
+        caption={input.captionTemplate}
+        onImagesChange={(images) => update({ images })}
+      />
+
+      {series && (
+        <p className="text-xs text-muted-foreground">
+          Saving replaces upcoming drafts nobody has edited. Edited and submitted posts stay as they are.
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!canSave || isSaving}>
+          {isSaving ? "Saving..." : series ? "Save series" : "Create series"}
+        </Button>
+      </div>
+    </form>
+  )
+}
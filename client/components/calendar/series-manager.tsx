@@ -0,0 +1,130 @@
+import { useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Pencil, Plus, Repeat, Trash2 } from "lucide-react"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { usePostSeries } from "@/lib/hooks/use-post-series"
+import { platformProfiles } from "@/lib/platforms"
+import type { PostSeries, PostSeriesInput } from "@/lib/types"
+import { SeriesForm } from "./series-form"
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+function describeSchedule(series: PostSeries): string {
+  const every =
+    series.interval === 1
+      ? series.frequency === "weekly"
+        ? "Every week"
+        : "Every month"
+      : `Every ${series.interval} ${series.frequency === "weekly" ? "weeks" : "months"}`
+  const on =
+    series.frequency === "weekly"
+      ? series.weekdays.map((day) => WEEKDAY_NAMES[day]).join(", ")
+      : `day ${series.monthDay}`
+  const until = series.endsOn ? ` until ${format(parseISO(series.endsOn), "MMM d, yyyy")}` : ""
+  return `${every} on ${on} at ${series.time} ${series.timezone.replace(/_/g, " ")} time${until}`
+}
+
+interface SeriesManagerProps {
+  calendarId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function SeriesManager({ calendarId, open, onOpenChange }: SeriesManagerProps) {
+  const { series, isLoading, createSeries, updateSeries, deleteSeries } = usePostSeries(calendarId)
+  const [editing, setEditing] = useState<PostSeries | "new" | null>(null)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setEditing(null)
+    onOpenChange(nextOpen)
+  }
+
+  const handleSave = async (input: PostSeriesInput) => {
+    try {
+      if (editing && editing !== "new") {
+        await updateSeries.mutateAsync({ id: editing.id, input })
+      } else {
+        await createSeries.mutateAsync(input)
+      }
+      setEditing(null)
+    } catch (error) {
+      console.error("Error saving post series:", error)
+    }
+  }
+
+  const handleDelete = (item: PostSeries) => {
+    if (confirm(`Delete "${item.name}"? Upcoming drafts nobody has edited are removed too.`)) {
+      deleteSeries.mutate(item.id)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>
+            {editing === "new" ? "New series" : editing ? `Edit ${editing.name}` : "Post series"}
+          </SheetTitle>
+          <SheetDescription>
+            Recurring posts are added to the calendar as drafts four weeks ahead.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6">
+          {editing ? (
+            <SeriesForm
+              key={editing === "new" ? "new" : editing.id}
+              calendarId={calendarId}
+              series={editing === "new" ? null : editing}
+              isSaving={createSeries.isPending || updateSeries.isPending}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div className="space-y-3">
+              <Button size="sm" onClick={() => setEditing("new")}>
+                <Plus className="h-4 w-4" />
+                New series
+              </Button>
+
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading series...</p>
+              ) : series.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No series yet. Create one for formats you post on a schedule, like a weekly tip.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {series.map((item) => (
+                    <li key={item.id} className="flex items-start gap-3 rounded-md border border-border p-3">
+                      <Repeat className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium">{item.name}</p>
+                        <p className="text-xs text-muted-foreground">{describeSchedule(item)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.platforms.map((platform) => platformProfiles[platform].label).join(", ")}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="icon-sm" onClick={() => setEditing(item)} aria-label="Edit series">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => handleDelete(item)}
+                        aria-label="Delete series"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
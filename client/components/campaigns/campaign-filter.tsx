@@ -0,0 +1,33 @@
+import { useState } from "react"
+import { Flag } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useAppContext } from "@/components/layout/app-layout"
+import { CampaignManager } from "./campaign-manager"
+import { CampaignSelect } from "./campaign-select"
+
+interface CampaignFilterProps {
+  calendarId: string
+}
+
+/** Filters the current view to one campaign. The choice is shared by the calendar, library and notes. */
+export function CampaignFilter({ calendarId }: CampaignFilterProps) {
+  const { campaignId, setCampaignId } = useAppContext()
+  const [isManagerOpen, setIsManagerOpen] = useState(false)
+
+  return (
+    <div className="flex items-center gap-1">
+      <CampaignSelect
+        calendarId={calendarId}
+        value={campaignId}
+        onChange={setCampaignId}
+        emptyLabel="All campaigns"
+        size="sm"
+        className="w-44"
+      />
+      <Button variant="ghost" size="icon-sm" onClick={() => setIsManagerOpen(true)} aria-label="Manage campaigns">
+        <Flag className="h-4 w-4" />
+      </Button>
+      <CampaignManager calendarId={calendarId} open={isManagerOpen} onOpenChange={setIsManagerOpen} />
+    </div>
+  )
+}
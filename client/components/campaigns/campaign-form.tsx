@@ -0,0 +1,147 @@
+import { useState } from "react"
+import { addDays, format } from "date-fns"
+import { Check } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { cn } from "@/lib/utils"
+import type { Campaign, CampaignInput } from "@/lib/types"
+
+const CAMPAIGN_COLORS = ["#6366f1", "#0ea5e9", "#10b981", "#f59e0b", "#ef4444", "#ec4899", "#8b5cf6", "#64748b"]
+
+function toInput(campaign: Campaign | null): CampaignInput {
+  if (campaign) {
+    const { name, description, goals, color, startsOn, endsOn } = campaign
+    return { name, description, goals, color, startsOn, endsOn }
+  }
+
+  const today = new Date()
+  return {
+    name: "",
+    description: "",
+    goals: [],
+    color: CAMPAIGN_COLORS[0],
+    startsOn: format(today, "yyyy-MM-dd"),
+    endsOn: format(addDays(today, 30), "yyyy-MM-dd"),
+  }
+}
+
+interface CampaignFormProps {
+  campaign: Campaign | null
+  isSaving: boolean
+  onSave: (input: CampaignInput) => void
+  onCancel: () => void
+}
+
+export function CampaignForm({ campaign, isSaving, onSave, onCancel }: CampaignFormProps) {
+  const [input, setInput] = useState<CampaignInput>(() => toInput(campaign))
+  const [goalsText, setGoalsText] = useState(() => toInput(campaign).goals.join("\n"))
+
+  const update = (changes: Partial<CampaignInput>) => setInput((current) => ({ ...current, ...changes }))
+
+  const canSave = input.name.trim() !== "" && !!input.startsOn && !!input.endsOn && input.endsOn >= input.startsOn
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSave) return
+    onSave({
+      ...input,
+      goals: goalsText
+        .split("\n")
+        .map((goal) => goal.trim())
+        .filter(Boolean),
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="campaign-name">Name</Label>
+        <Input
+          id="campaign-name"
+          value={input.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Spring launch"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="campaign-starts">Starts</Label>
+          <Input
+            id="campaign-starts"
+            type="date"
+            value={input.startsOn}
+            onChange={(e) => e.target.value && update({ startsOn: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="campaign-ends">Ends</Label>
+          <Input
+            id="campaign-ends"
+            type="date"
+            value={input.endsOn}
+            onChange={(e) => e.target.value && update({ endsOn: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Color</Label>
+        <div className="flex flex-wrap gap-2">
+          {CAMPAIGN_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => update({ color })}
+              className={cn(
+                "flex h-7 w-7 items-center justify-center rounded-full ring-offset-2 ring-offset-background",
+                input.color === color && "ring-2 ring-foreground",
+              )}
+              style={{ backgroundColor: color }}
+              aria-label={`Color ${color}`}
+            >
+              {input.color === color && <Check className="h-4 w-4 text-white" />}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="campaign-description">Brief</Label>
+        <Textarea
+          id="campaign-description"
+          value={input.description}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="What the campaign is about, who it is for and the key message"
+          className="min-h-24"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="campaign-goals">Goals</Label>
+        <Textarea
+          id="campaign-goals"
+          value={goalsText}
+          onChange={(e) => setGoalsText(e.target.value)}
+          placeholder={"One goal per line, e.g.\n500 waitlist signups"}
+          className="min-h-20"
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        The assistant uses the brief and goals when it writes captions for this campaign.
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!canSave || isSaving}>
+          {isSaving ? "Saving..." : campaign ? "Save campaign" : "Create campaign"}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,119 @@
+import { useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { useAppContext } from "@/components/layout/app-layout"
+import { useCampaigns } from "@/lib/hooks/use-campaigns"
+import type { Campaign, CampaignInput } from "@/lib/types"
+import { CampaignForm } from "./campaign-form"
+import { CampaignDot } from "./campaign-select"
+
+interface CampaignManagerProps {
+  calendarId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function CampaignManager({ calendarId, open, onOpenChange }: CampaignManagerProps) {
+  const { campaigns, isLoading, createCampaign, updateCampaign, deleteCampaign } = useCampaigns(calendarId)
+  const { campaignId, setCampaignId } = useAppContext()
+  const [editing, setEditing] = useState<Campaign | "new" | null>(null)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setEditing(null)
+    onOpenChange(nextOpen)
+  }
+
+  const handleSave = async (input: CampaignInput) => {
+    try {
+      if (editing && editing !== "new") {
+        await updateCampaign.mutateAsync({ id: editing.id, input })
+      } else {
+        await createCampaign.mutateAsync(input)
+      }
+      setEditing(null)
+    } catch (error) {
+      console.error("Error saving campaign:", error)
+    }
+  }
+
+  const handleDelete = (campaign: Campaign) => {
+    if (confirm(`Delete "${campaign.name}"? Its posts, notes and media are kept.`)) {
+      if (campaignId === campaign.id) setCampaignId(null)
+      deleteCampaign.mutate(campaign.id)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>
+            {editing === "new" ? "New campaign" : editing ? `Edit ${editing.name}` : "Campaigns"}
+          </SheetTitle>
+          <SheetDescription>Group a launch's posts, planning notes and media.</SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6">
+          {editing ? (
+            <CampaignForm
+              key={editing === "new" ? "new" : editing.id}
+              campaign={editing === "new" ? null : editing}
+              isSaving={createCampaign.isPending || updateCampaign.isPending}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div className="space-y-3">
+              <Button size="sm" onClick={() => setEditing("new")}>
+                <Plus className="h-4 w-4" />
+                New campaign
+              </Button>
+
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading campaigns...</p>
+              ) : campaigns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No campaigns yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {campaigns.map((campaign) => (
+                    <li key={campaign.id} className="flex items-start gap-3 rounded-md border border-border p-3">
+                      <CampaignDot color={campaign.color} className="mt-1.5" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium">{campaign.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(parseISO(campaign.startsOn), "MMM d")} –{" "}
+                          {format(parseISO(campaign.endsOn), "MMM d, yyyy")}
+                        </p>
+                        {campaign.goals.length > 0 && (
+                          <p className="text-xs text-muted-foreground line-clamp-2">{campaign.goals.join(" · ")}</p>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => setEditing(campaign)}
+                        aria-label="Edit campaign"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => handleDelete(campaign)}
+                        aria-label="Delete campaign"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
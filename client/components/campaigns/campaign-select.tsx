@@ -0,0 +1,47 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useCampaigns } from "@/lib/hooks/use-campaigns"
+import { cn } from "@/lib/utils"
+
+const NONE = "none"
+
+export function CampaignDot({ color, className }: { color: string; className?: string }) {
+  return <span className={cn("inline-block h-2.5 w-2.5 shrink-0 rounded-full", className)} style={{ backgroundColor: color }} />
+}
+
+interface CampaignSelectProps {
+  calendarId: string
+  value: string | null
+  onChange: (campaignId: string | null) => void
+  /** Label of the empty choice, e.g. "No campaign" or "All campaigns". */
+  emptyLabel?: string
+  size?: "sm" | "default"
+  className?: string
+}
+
+export function CampaignSelect({
+  calendarId,
+  value,
+  onChange,
+  emptyLabel = "No campaign",
+  size,
+  className,
+}: CampaignSelectProps) {
+  const { campaigns } = useCampaigns(calendarId)
+
+  return (
+    <Select value={value ?? NONE} onValueChange={(next) => onChange(next === NONE ? null : next)}>
+      <SelectTrigger size={size} className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{emptyLabel}</SelectItem>
+        {campaigns.map((campaign) => (
+          <SelectItem key={campaign.id} value={campaign.id}>
+            <CampaignDot color={campaign.color} />
+            {campaign.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
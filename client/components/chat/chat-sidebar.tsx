@@ -1,14 +1,18 @@
 import { useState, useRef, useEffect, useCallback } from "react"
 import type React from "react"
 import { useNavigate, useParams } from "react-router-dom"
-import { X, Send, Sparkles, Check, Calendar, FileText, Plus, RotateCcw, ThumbsUp, ThumbsDown } from "lucide-react"
+import { addDays, format, parseISO, setHours } from "date-fns"
+import { X, Send, Square, Sparkles, Check, Calendar, CalendarRange, FileText, Plus, RotateCcw, ThumbsUp, ThumbsDown, ListChecks, MessageCircle, Layers } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { cn } from "@/lib/utils"
-import { apiFetch } from "@/lib/api-client"
+import { apiFetch, apiPost } from "@/lib/api-client"
 import { appEventBus } from "@/lib/event-bus"
 import { AppEvents, ToolNames, TriggerAIChatPayload } from "@/lib/events"
+import type { BulkPostResult, ContentPlanItem, Platform, PlanStep, Post, ToolResultOutcome } from "@/lib/types"
+import { platformProfiles } from "@/lib/platforms"
 import { ApiRoutes } from "@/lib/api-routes"
 import { useAppContext } from "@/components/layout/app-layout"
 import ReactMarkdown from "react-markdown"
@@ -16,6 +20,12 @@ import { langfuseWeb } from "@/lib/langfuse"
 import { FeedbackDialog } from "./feedback-dialog"
 import { useAppEvent } from "@/hooks/use-app-event"
 import { useChatStream } from "@/hooks/use-chat-stream"
+import { PlanChecklist, completePlanStep } from "@/components/chat/plan-checklist"
+import { useQueryClient } from "@tanstack/react-query"
+import { fetchChatThread } from "@/lib/hooks/use-chat-threads"
+import { usePosts } from "@/lib/hooks/use-posts"
+import { toBulkPostAction, type AgentBulkAction } from "../../../shared/bulk-posts"
+import { ThreadHistoryPicker } from "./thread-history-picker"
 
 interface Message {
   role: "user" | "assistant" | "tool"
@@ -42,6 +52,7 @@ type ToolCall =
     args: {
       postId: string
       caption: string
+      platform?: Platform
     }
   }
   | {
@@ -66,6 +77,35 @@ type ToolCall =
     args: Record<string, any>
   }
 
+type BulkActionArgs = { action: AgentBulkAction; postIds: string[]; days?: number }
+
+function describeBulkAction({ action, postIds, days = 0 }: BulkActionArgs): string {
+  const posts = `${postIds.length} ${postIds.length === 1 ? "post" : "posts"}`
+  const shift = `${Math.abs(days)} ${Math.abs(days) === 1 ? "day" : "days"} ${days < 0 ? "earlier" : "later"}`
+  switch (action) {
+    case "reschedule":
+      return `Move ${posts} ${shift}`
+    case "duplicate":
+      return `Copy ${posts} ${shift} as drafts`
+    case "submit_for_approval":
+      return `Submit ${posts} for approval`
+    case "move_to_draft":
+      return `Move ${posts} back to draft`
+    case "delete":
+      return `Delete ${posts}`
+    case "regrade":
+      return `Re-grade the captions of ${posts}`
+  }
+}
+
+// Accepted content plan items become drafts at this hour of their day.
+const PLANNED_DRAFT_HOUR = 9
+
+const STOPPED_MESSAGE: Message = {
+  role: "assistant",
+  content: "_Response stopped._",
+}
+
 interface ChatSidebarProps {
   isOpen: boolean
   onClose: () => void
@@ -79,10 +119,15 @@ interface ToolCallUIProps {
   aiMessage?: string
 }
 
+interface ToolCallRendererProps extends ToolCallUIProps {
+  isRejected: boolean
+  onReject: (toolCall: ToolCall) => void
+}
+
 function CaptionSuggestionCard({ toolCall, isExecuted, isLoading, onExecute }: ToolCallUIProps) {
   if (toolCall.name !== "apply_caption_to_open_post") return null
 
-  const { caption } = toolCall.args
+  const { caption, platform } = toolCall.args as { caption: string; platform?: Platform }
 
   return (
     <Card className="border-primary/20 bg-primary/5">
@@ -94,7 +139,9 @@ function CaptionSuggestionCard({ toolCall, isExecuted, isLoading, onExecute }: T
       </CardHeader>
       <CardContent className="pb-1.5">
         <div className="space-y-2">
-          <p className="text-sm text-muted-foreground">Suggested caption for your post:</p>
+          <p className="text-sm text-muted-foreground">
+            Suggested {platform ? `${platformProfiles[platform].label} ` : ""}caption for your post:
+          </p>
           <div className="rounded-md border bg-background p-2">
             <p className="text-sm whitespace-pre-wrap">{caption}</p>
           </div>
@@ -124,6 +171,207 @@ function CaptionSuggestionCard({ toolCall, isExecuted, isLoading, onExecute }: T
   )
 }
 
+function ReplySuggestionCard({ toolCall, isExecuted, isLoading, onExecute }: ToolCallUIProps) {
+  if (toolCall.name !== "propose_inbox_reply") return null
+
+  const { reply } = toolCall.args as { messageId: string; reply: string }
+
+  return (
+    <Card className="border-primary/20 bg-primary/5">
+      <CardHeader className="pb-1.5">
+        <div className="flex items-center gap-2">
+          <MessageCircle className="h-4 w-4 text-primary" />
+          <CardTitle className="text-sm font-medium">Reply Suggestion</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="pb-1.5">
+        <div className="rounded-md border bg-background p-2">
+          <p className="text-sm whitespace-pre-wrap">{reply}</p>
+        </div>
+      </CardContent>
+      <CardFooter className="pt-0 px-1.5 pb-1.5">
+        <Button
+          onClick={() => onExecute(toolCall)}
+          disabled={isLoading || isExecuted}
+          className="w-full"
+          size="sm"
+        >
+          {isExecuted ? (
+            <>
+              <Check className="h-4 w-4 mr-2" />
+              Added to Draft
+            </>
+          ) : (
+            <>
+              <MessageCircle className="h-4 w-4 mr-2" />
+              Use as Draft
+            </>
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
+
+function ContentPlanCard({ toolCall, isExecuted, isLoading, onExecute }: ToolCallUIProps) {
+  const { summary, items } = toolCall.args as { summary: string; items: ContentPlanItem[] }
+  const [acceptedIndexes, setAcceptedIndexes] = useState<Set<number>>(() => new Set(items.map((_, index) => index)))
+
+  if (toolCall.name !== "propose_content_plan") return null
+
+  const toggleItem = (index: number) => {
+    setAcceptedIndexes((prev) => {
+      const next = new Set(prev)
+      if (next.has(index)) {
+        next.delete(index)
+      } else {
+        next.add(index)
+      }
+      return next
+    })
+  }
+
+  const allAccepted = acceptedIndexes.size === items.length
+
+  return (
+    <Card className="border-primary/20 bg-primary/5">
+      <CardHeader className="pb-1.5">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="h-4 w-4 text-primary" />
+          <CardTitle className="text-sm font-medium">Content Plan</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="pb-1.5 space-y-2">
+        {summary && <p className="text-sm text-muted-foreground">{summary}</p>}
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {acceptedIndexes.size} of {items.length} posts selected
+          </span>
+          {!isExecuted && (
+            <button
+              type="button"
+              className="hover:text-foreground"
+              onClick={() => setAcceptedIndexes(allAccepted ? new Set() : new Set(items.map((_, index) => index)))}
+            >
+              {allAccepted ? "Select none" : "Select all"}
+            </button>
+          )}
+        </div>
+        <ul className="max-h-80 space-y-1.5 overflow-y-auto">
+          {items.map((item, index) => (
+            <li key={index}>
+              <label className="flex items-start gap-2 rounded-md border bg-background p-2">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={acceptedIndexes.has(index)}
+                  onCheckedChange={() => toggleItem(index)}
+                  disabled={isExecuted}
+                />
+                <div className="min-w-0 flex-1 space-y-0.5">
+                  <p className="text-xs text-muted-foreground">
+                    {format(parseISO(item.date), "EEE, MMM d")} · {platformProfiles[item.platform].label}
+                  </p>
+                  <p className="text-sm font-medium">{item.topic}</p>
+                  <p className="text-xs whitespace-pre-wrap line-clamp-3">{item.caption}</p>
+                </div>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+      <CardFooter className="pt-0 px-1.5 pb-1.5">
+        <Button
+          onClick={() =>
+            onExecute({
+              ...toolCall,
+              args: { ...toolCall.args, acceptedItems: items.filter((_, index) => acceptedIndexes.has(index)) },
+            })
+          }
+          disabled={isLoading || isExecuted || acceptedIndexes.size === 0}
+          className="w-full"
+          size="sm"
+        >
+          {isExecuted ? (
+            <>
+              <Check className="h-4 w-4 mr-2" />
+              Drafts Created
+            </>
+          ) : (
+            <>
+              <Plus className="h-4 w-4 mr-2" />
+              Create {acceptedIndexes.size} {acceptedIndexes.size === 1 ? "Draft" : "Drafts"}
+            </>
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
+
+function BulkPostActionCard({ toolCall, isExecuted, isLoading, onExecute }: ToolCallUIProps) {
+  const { clientContext } = useAppContext()
+  const { posts } = usePosts(clientContext.calendarId ?? "")
+
+  if (toolCall.name !== "propose_bulk_post_action") return null
+
+  const args = toolCall.args as BulkActionArgs
+  const shiftsDate = args.action === "reschedule" || args.action === "duplicate"
+  const affected = posts.filter((post) => args.postIds.includes(post.id))
+  const unknownCount = new Set(args.postIds).size - affected.length
+
+  return (
+    <Card className={cn("border-primary/20 bg-primary/5", args.action === "delete" && "border-destructive/30 bg-destructive/5")}>
+      <CardHeader className="pb-1.5">
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4 text-primary" />
+          <CardTitle className="text-sm font-medium">{describeBulkAction(args)}</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="pb-1.5 space-y-2">
+        <ul className="max-h-80 space-y-1.5 overflow-y-auto">
+          {affected.map((post) => (
+            <li key={post.id} className="rounded-md border bg-background p-2 space-y-0.5">
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(post.date), "EEE, MMM d, h:mm a")}
+                {shiftsDate && ` → ${format(addDays(new Date(post.date), args.days ?? 0), "EEE, MMM d")}`}
+                {" · "}
+                {post.variants.map((variant) => platformProfiles[variant.platform].label).join(", ")}
+              </p>
+              <p className="text-xs line-clamp-2">{post.variants[0]?.caption || "No caption"}</p>
+            </li>
+          ))}
+        </ul>
+        {unknownCount > 0 && (
+          <p className="text-xs text-destructive">
+            {unknownCount} of these posts could not be found and will make the change fail.
+          </p>
+        )}
+      </CardContent>
+      <CardFooter className="pt-0 px-1.5 pb-1.5">
+        <Button
+          onClick={() => onExecute(toolCall)}
+          disabled={isLoading || isExecuted}
+          variant={args.action === "delete" ? "destructive" : "default"}
+          className="w-full"
+          size="sm"
+        >
+          {isExecuted ? (
+            <>
+              <Check className="h-4 w-4 mr-2" />
+              Done
+            </>
+          ) : (
+            <>
+              <Check className="h-4 w-4 mr-2" />
+              Confirm
+            </>
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
+
 function NavigationButton({ toolCall, isExecuted, isLoading, onExecute }: ToolCallUIProps) {
   if (toolCall.name !== "navigate_to_calendar") return null
 
@@ -286,6 +534,9 @@ const TOOL_CALL_MESSAGES: Record<string, string> = {
   [ToolNames.OPEN_POST]: "I'll help you open that post. Click the button below to view it in the editor.",
   [ToolNames.APPLY_CAPTION]: "I've generated a caption for your post. Review it below and click to apply it to your post.",
   [ToolNames.NAVIGATE]: "Let me take you to your calendar. Click the button below to navigate there.",
+  [ToolNames.PROPOSE_INBOX_REPLY]: "Here's a reply you could send. Use it as the draft, then review and send it from the inbox.",
+  [ToolNames.PROPOSE_CONTENT_PLAN]: "Here's a plan for your posts. Untick anything you don't want, then create the rest as drafts.",
+  [ToolNames.PROPOSE_BULK_POST_ACTION]: "These are the posts this change affects. Nothing changes until you confirm.",
 }
 
 const toolComponentMap: Record<string, React.ComponentType<ToolCallUIProps>> = {
@@ -293,28 +544,19 @@ const toolComponentMap: Record<string, React.ComponentType<ToolCallUIProps>> = {
   [ToolNames.CREATE_POST]: CreatePostCard,
   [ToolNames.OPEN_POST]: OpenPostCard,
   [ToolNames.NAVIGATE]: NavigationButton,
+  [ToolNames.PROPOSE_INBOX_REPLY]: ReplySuggestionCard,
+  [ToolNames.PROPOSE_CONTENT_PLAN]: ContentPlanCard,
+  [ToolNames.PROPOSE_BULK_POST_ACTION]: BulkPostActionCard,
 }
 
-function ToolCallRenderer({ toolCall, isExecuted, isLoading, onExecute, aiMessage }: ToolCallUIProps) {
+function ToolCallRenderer({ toolCall, isExecuted, isRejected, isLoading, onExecute, onReject, aiMessage }: ToolCallRendererProps) {
   const CardComponent = toolComponentMap[toolCall.name] || GenericToolCard
 
   const message = TOOL_CALL_MESSAGES[toolCall.name] || aiMessage
 
-  if (message) {
-    return (
-      <div className="space-y-2">
-        <p className="text-sm text-muted-foreground">{message}</p>
-        <CardComponent
-          toolCall={toolCall}
-          isExecuted={isExecuted}
-          isLoading={isLoading}
-          onExecute={onExecute}
-        />
-      </div>
-    )
-  }
-
-  return (
+  const card = isRejected ? (
+    <p className="text-xs text-muted-foreground italic">Action dismissed</p>
+  ) : (
     <CardComponent
       toolCall={toolCall}
       isExecuted={isExecuted}
@@ -322,12 +564,31 @@ function ToolCallRenderer({ toolCall, isExecuted, isLoading, onExecute, aiMessag
       onExecute={onExecute}
     />
   )
+
+  return (
+    <div className="space-y-2">
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+      {card}
+      {!isExecuted && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-full text-xs text-muted-foreground"
+          onClick={() => onReject(toolCall)}
+          disabled={isLoading}
+        >
+          Dismiss
+        </Button>
+      )}
+    </div>
+  )
 }
 
 export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
   const navigate = useNavigate()
   const { calendarSlug } = useParams()
-  const { clientContext } = useAppContext()
+  const { clientContext, campaignId } = useAppContext()
+  const queryClient = useQueryClient()
 
   const contextRef = useRef(clientContext)
   useEffect(() => {
@@ -381,10 +642,40 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
   const [streamingContent, setStreamingContent] = useState("")
   const [aiStatus, setAiStatus] = useState<string | null>(null)
 
+  const handleStreamToken = useCallback((token: string) => {
+    setAiStatus(null)
+    setStreamingContent(prev => prev + token)
+  }, [])
+
+  // Each agent model turn streams from scratch; the final JSON response
+  // replaces whatever was streamed once the run completes.
+  const handleStreamMessageStart = useCallback(() => {
+    setStreamingContent("")
+  }, [])
+
+  const [planningEnabled, setPlanningEnabled] = useState(false)
+  // Steps and progress live together so stream callbacks, which are bound
+  // when the stream connects, can update progress against the latest plan.
+  const [planProgress, setPlanProgress] = useState<{ steps: PlanStep[]; completedStepIds: Set<string> } | null>(null)
+
+  const handleStreamPlan = useCallback((steps: PlanStep[]) => {
+    setPlanProgress({ steps, completedStepIds: new Set() })
+  }, [])
+
+  const handleStreamToolEnd = useCallback((toolName: string) => {
+    setPlanProgress((prev) => prev && {
+      ...prev,
+      completedStepIds: completePlanStep(prev.steps, prev.completedStepIds, toolName),
+    })
+  }, [])
+
   const { connect, disconnect } = useChatStream({
     threadId,
-    onToken: (token) => setStreamingContent(prev => prev + token),
-    onStatusChange: setAiStatus
+    onToken: handleStreamToken,
+    onStatusChange: setAiStatus,
+    onMessageStart: handleStreamMessageStart,
+    onPlan: handleStreamPlan,
+    onToolEnd: handleStreamToolEnd,
   })
 
   const [messages, setMessages] = useState<Message[]>([
@@ -414,12 +705,57 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
     ])
     setThreadId(generateThreadId(clientContext.calendarId ?? undefined))
     setExecutedToolCalls(new Set())
+    setRejectedToolCalls(new Set())
     setInput("")
     setStreamingContent("")
     setAiStatus(null)
+    setPlanProgress(null)
     disconnect()
   }, [clientContext.calendarId, disconnect])
+
+  const loadThread = useCallback(async (selectedThreadId: string) => {
+    if (selectedThreadId === threadId) return
+
+    disconnect()
+    setIsLoading(true)
+    try {
+      const { messages: history } = await fetchChatThread(selectedThreadId)
+
+      // Only the latest assistant turn can still have actionable tool cards;
+      // anything earlier was either executed or superseded by a later message.
+      const executed = new Set<string>()
+      history.slice(0, -1).forEach((msg) => {
+        msg.toolCalls?.forEach((tc) => executed.add(tc.id))
+      })
+
+      setMessages([
+        {
+          role: "assistant",
+          content: "Hello! I'm your AI assistant. How can I help you with your social media content today?",
+        },
+        ...history,
+      ])
+      setThreadId(selectedThreadId)
+      setExecutedToolCalls(executed)
+      setRejectedToolCalls(new Set())
+      setInput("")
+      setStreamingContent("")
+      setAiStatus(null)
+      setPlanProgress(null)
+    } catch (error) {
+      console.error('Error loading chat thread:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [threadId, disconnect])
+
+  const handleThreadDeleted = useCallback((deletedThreadId: string) => {
+    if (deletedThreadId === threadId) {
+      startNewChat()
+    }
+  }, [threadId, startNewChat])
   const [executedToolCalls, setExecutedToolCalls] = useState<Set<string>>(new Set())
+  const [rejectedToolCalls, setRejectedToolCalls] = useState<Set<string>>(new Set())
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -437,7 +773,11 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
     }
   }, [isOpen])
 
-  const sendToolResult = useCallback(async (_toolCallId: string, _toolName: string, _result: string) => {
+  const sendToolResult = useCallback(async (
+    toolCall: ToolCall,
+    outcome: ToolResultOutcome,
+    detail?: { reason?: string; result?: string },
+  ) => {
     const currentContext = contextRef.current
     const backendClientContext = {
       page: currentContext.page === 'postEditor' ? 'calendar' : currentContext.page,
@@ -446,14 +786,18 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
       pageState: currentContext.pageState || undefined,
     }
 
-    const response = await apiFetch(ApiRoutes.AI.CHAT, {
+    const response = await apiFetch(ApiRoutes.AI.CHAT_TOOL_RESULT, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
-        input: "The tool action has been completed. Please continue with the next step.",
         calendarId: contextRef.current.calendarId || '',
         threadId,
         clientContext: backendClientContext,
+        toolCallId: toolCall.id,
+        toolName: toolCall.name,
+        outcome,
+        reason: detail?.reason,
+        result: detail?.result,
       }),
     })
 
@@ -463,18 +807,16 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
 
     const data = await response.json()
 
-    if (data.threadId && data.threadId !== threadId) {
-      setThreadId(data.threadId)
-    }
-
     setMessages((prev) => [
       ...prev,
-      {
-        role: "assistant",
-        content: data.response || "",
-        toolCalls: data.toolCalls,
-        traceId: data.traceId,
-      },
+      data.cancelled
+        ? STOPPED_MESSAGE
+        : {
+          role: "assistant",
+          content: data.response || "",
+          toolCalls: data.toolCalls,
+          traceId: data.traceId,
+        },
     ])
   }, [threadId])
 
@@ -486,9 +828,14 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
     setExecutedToolCalls((prev) => new Set(prev).add(toolCall.id))
     
     setIsLoading(true)
-    try {
-      let result: string = ""
+    setStreamingContent("")
+    const streamReady = connect()
 
+    let result: string = ""
+    let outcome: ToolResultOutcome = "applied"
+    let reason: string | undefined
+
+    try {
       switch (toolCall.name) {
         case ToolNames.NAVIGATE: {
           if (toolCall.name !== ToolNames.NAVIGATE) break
@@ -508,11 +855,12 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
 
         case ToolNames.APPLY_CAPTION: {
           if (toolCall.name !== ToolNames.APPLY_CAPTION) break
-          const applyCaptionArgs = toolCall.args as { postId: string; caption: string }
+          const applyCaptionArgs = toolCall.args as { postId: string; caption: string; platform?: Platform }
           const postId = clientContext.pageState?.postId || applyCaptionArgs.postId
           appEventBus.dispatch(AppEvents.APPLY_CAPTION, {
             postId: postId,
             caption: applyCaptionArgs.caption,
+            platform: applyCaptionArgs.platform,
           })
           result = `Caption suggestion applied to post ${postId}`
           break
@@ -546,16 +894,92 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
           break
         }
 
+        case ToolNames.PROPOSE_INBOX_REPLY: {
+          if (toolCall.name !== ToolNames.PROPOSE_INBOX_REPLY) break
+          const proposeReplyArgs = toolCall.args as { messageId: string; reply: string }
+          appEventBus.dispatch(AppEvents.PROPOSE_INBOX_REPLY, {
+            messageId: proposeReplyArgs.messageId,
+            reply: proposeReplyArgs.reply,
+          })
+          result = `Reply added to the draft of message ${proposeReplyArgs.messageId}. It has not been sent.`
+          break
+        }
+
+        case ToolNames.PROPOSE_CONTENT_PLAN: {
+          if (toolCall.name !== ToolNames.PROPOSE_CONTENT_PLAN) break
+          const planArgs = toolCall.args as { items: ContentPlanItem[]; acceptedItems?: ContentPlanItem[] }
+          const acceptedItems = planArgs.acceptedItems ?? planArgs.items
+          const calendarId = contextRef.current.calendarId
+          if (!calendarId) {
+            throw new Error("No calendar is open")
+          }
+
+          const { created, failed } = await apiPost<{ created: Post[]; failed: number }>(ApiRoutes.AI.CONTENT_PLAN_DRAFTS, {
+            calendarId,
+            campaignId,
+            posts: acceptedItems.map((item) => ({
+              date: setHours(parseISO(item.date), PLANNED_DRAFT_HOUR).toISOString(),
+              platform: item.platform,
+              caption: item.caption,
+            })),
+          })
+          queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+
+          if (created.length === 0) {
+            throw new Error("None of the drafts could be created")
+          }
+          result =
+            `The user kept ${acceptedItems.length} of ${planArgs.items.length} proposed posts. ` +
+            `Created ${created.length} drafts: ${created
+              .map((post) => `${format(new Date(post.date), "yyyy-MM-dd")} ${post.variants[0]?.platform} (ID: ${post.id})`)
+              .join(", ")}.` +
+            (failed > 0 ? ` ${failed} could not be created.` : "")
+          break
+        }
+
+        case ToolNames.PROPOSE_BULK_POST_ACTION: {
+          if (toolCall.name !== ToolNames.PROPOSE_BULK_POST_ACTION) break
+          const bulkArgs = toolCall.args as BulkActionArgs
+          const calendarId = contextRef.current.calendarId
+          if (!calendarId) {
+            throw new Error("No calendar is open")
+          }
+
+          const bulkResult = await apiPost<BulkPostResult>(ApiRoutes.POSTS_BULK, {
+            calendarId,
+            postIds: bulkArgs.postIds,
+            action: toBulkPostAction(bulkArgs.action, bulkArgs.days),
+          })
+          queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+
+          const skipped = bulkResult.skipped.map((skip) => `${skip.postId} ${skip.platform ?? ""}: ${skip.reason}`)
+          result =
+            `${describeBulkAction(bulkArgs)}: done.` +
+            (bulkArgs.action === "duplicate" ? ` New draft IDs: ${bulkResult.posts.map((post) => post.id).join(", ")}.` : "") +
+            (bulkResult.scores.length > 0
+              ? ` Scores: ${bulkResult.scores.map((entry) => `${entry.postId} ${entry.platform} ${entry.score}`).join(", ")}.`
+              : "") +
+            (skipped.length > 0 ? ` Skipped: ${skipped.join("; ")}.` : "")
+          break
+        }
+
         default: {
           const _exhaustiveCheck: never = toolCall as never
           void _exhaustiveCheck
           throw new Error(`Unknown client-side tool: ${(toolCall as any).name}`)
         }
       }
-
-      await sendToolResult(toolCall.id, toolCall.name, result)
     } catch (error) {
       console.error('Error executing tool call:', error)
+      outcome = "failed"
+      reason = error instanceof Error ? error.message : String(error)
+    }
+
+    try {
+      await streamReady
+      await sendToolResult(toolCall, outcome, { reason, result: result || undefined })
+    } catch (error) {
+      console.error('Error sending tool result:', error)
       setExecutedToolCalls((prev) => {
         const newSet = new Set(prev)
         newSet.delete(toolCall.id)
@@ -570,8 +994,51 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
       ])
     } finally {
       setIsLoading(false)
+      setStreamingContent("")
+      setAiStatus(null)
+      disconnect()
     }
-  }, [executedToolCalls, clientContext, calendarSlug, navigate, sendToolResult, waitForContext])
+  }, [executedToolCalls, clientContext, campaignId, calendarSlug, navigate, queryClient, sendToolResult, waitForContext, connect, disconnect])
+
+  const rejectClientTool = useCallback(async (toolCall: ToolCall) => {
+    if (executedToolCalls.has(toolCall.id)) {
+      return
+    }
+
+    setExecutedToolCalls((prev) => new Set(prev).add(toolCall.id))
+    setRejectedToolCalls((prev) => new Set(prev).add(toolCall.id))
+
+    setIsLoading(true)
+    setStreamingContent("")
+    try {
+      await connect()
+      await sendToolResult(toolCall, "rejected", { reason: "The user dismissed this action." })
+    } catch (error) {
+      console.error('Error sending tool result:', error)
+      setExecutedToolCalls((prev) => {
+        const newSet = new Set(prev)
+        newSet.delete(toolCall.id)
+        return newSet
+      })
+      setRejectedToolCalls((prev) => {
+        const newSet = new Set(prev)
+        newSet.delete(toolCall.id)
+        return newSet
+      })
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: "assistant",
+          content: "Sorry, I encountered an error. Please try again.",
+        },
+      ])
+    } finally {
+      setIsLoading(false)
+      setStreamingContent("")
+      setAiStatus(null)
+      disconnect()
+    }
+  }, [executedToolCalls, sendToolResult, connect, disconnect])
 
   const executeMessage = useCallback(async (msgContent: string) => {
     if (!msgContent.trim() || isLoading) return
@@ -594,11 +1061,12 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
 
     setStreamingContent("")
     setAiStatus("Thinking...")
-    connect()
-    
+    setPlanProgress(null)
     setIsLoading(true)
 
     try {
+      await connect()
+
       if (pendingToolCalls.length > 0) {
         setExecutedToolCalls((prev) => {
           const newSet = new Set(prev)
@@ -623,6 +1091,7 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
           calendarId: clientContext.calendarId || '',
           threadId,
           clientContext: backendClientContext,
+          planning: planningEnabled,
         }),
       })
 
@@ -636,15 +1105,22 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
         setThreadId(data.threadId)
       }
 
+      if (data.plan) {
+        setPlanProgress((prev) => prev ?? { steps: data.plan, completedStepIds: new Set() })
+      }
+
       setMessages((prev) => [
         ...prev,
-        {
-          role: "assistant",
-          content: data.response || "",
-          toolCalls: data.toolCalls,
-          traceId: data.traceId,
-        },
+        data.cancelled
+          ? STOPPED_MESSAGE
+          : {
+            role: "assistant",
+            content: data.response || "",
+            toolCalls: data.toolCalls,
+            traceId: data.traceId,
+          },
       ])
+      queryClient.invalidateQueries({ queryKey: ["chat-threads", clientContext.calendarId] })
     } catch (error) {
       console.error('Error sending chat message:', error)
       setMessages((prev) => [
@@ -660,7 +1136,16 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
       setAiStatus(null)
       disconnect()
     }
-  }, [isLoading, messages, executedToolCalls, clientContext, threadId, connect, disconnect])
+  }, [isLoading, messages, executedToolCalls, clientContext, threadId, planningEnabled, connect, disconnect, queryClient])
+
+  const stopRun = useCallback(async () => {
+    setAiStatus("Stopping...")
+    try {
+      await apiPost(`${ApiRoutes.AI.CHAT}/${encodeURIComponent(threadId)}/cancel`)
+    } catch (error) {
+      console.error('Error cancelling chat run:', error)
+    }
+  }, [threadId])
 
   const handleSend = useCallback(async () => {
     if (!input.trim() || isLoading) return
@@ -750,6 +1235,23 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
           <h2 className="text-lg font-semibold text-foreground">AI Assistant</h2>
         </div>
         <div className="flex items-center gap-1">
+          <Button
+            variant={planningEnabled ? "secondary" : "ghost"}
+            size="icon-sm"
+            onClick={() => setPlanningEnabled((prev) => !prev)}
+            title={planningEnabled ? "Planning on: the assistant plans multi-step requests" : "Planning off"}
+            aria-pressed={planningEnabled}
+          >
+            <ListChecks className="h-4 w-4" />
+            <span className="sr-only">Toggle planning</span>
+          </Button>
+          <ThreadHistoryPicker
+            calendarId={clientContext.calendarId}
+            activeThreadId={threadId}
+            disabled={isLoading}
+            onSelect={loadThread}
+            onDeleted={handleThreadDeleted}
+          />
           <Button
             variant="ghost"
             size="icon-sm"
@@ -873,8 +1375,10 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
                         key={toolCall.id}
                         toolCall={toolCall}
                         isExecuted={isExecuted}
+                        isRejected={rejectedToolCalls.has(toolCall.id)}
                         isLoading={isLoading}
                         onExecute={executeClientTool}
+                        onReject={rejectClientTool}
                         aiMessage={undefined}
                       />
                     )
@@ -959,6 +1463,11 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
 
       {/* Input */}
       <div className="border-t border-border p-4">
+        {planProgress && planProgress.steps.length > 0 && (
+          <div className="mb-3">
+            <PlanChecklist plan={planProgress.steps} completedStepIds={planProgress.completedStepIds} />
+          </div>
+        )}
         <div className="flex gap-2">
           <Textarea
             ref={textareaRef}
@@ -969,15 +1478,28 @@ export function ChatSidebar({ isOpen, onClose }: ChatSidebarProps) {
             className="min-h-[60px] max-h-[120px] resize-none"
             disabled={isLoading}
           />
-          <Button
-            onClick={handleSend}
-            disabled={!input.trim() || isLoading}
-            size="icon"
-            className="h-[60px] w-[60px] shrink-0"
-          >
-            <Send className="h-4 w-4" />
-            <span className="sr-only">Send message</span>
-          </Button>
+          {isLoading ? (
+            <Button
+              onClick={stopRun}
+              variant="outline"
+              size="icon"
+              className="h-[60px] w-[60px] shrink-0"
+              title="Stop generating"
+            >
+              <Square className="h-4 w-4 fill-current" />
+              <span className="sr-only">Stop generating</span>
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              size="icon"
+              className="h-[60px] w-[60px] shrink-0"
+            >
+              <Send className="h-4 w-4" />
+              <span className="sr-only">Send message</span>
+            </Button>
+          )}
         </div>
       </div>
     </aside>
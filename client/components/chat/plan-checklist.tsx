@@ -0,0 +1,66 @@
+import { Check, ListChecks } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { PlanStep } from "@/lib/types"
+
+interface PlanChecklistProps {
+  plan: PlanStep[]
+  completedStepIds: Set<string>
+}
+
+export function PlanChecklist({ plan, completedStepIds }: PlanChecklistProps) {
+  const completedCount = plan.filter((step) => completedStepIds.has(step.id)).length
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/40 px-3 py-2">
+      <div className="mb-1.5 flex items-center justify-between text-xs font-medium text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <ListChecks className="h-3.5 w-3.5" />
+          Plan
+        </span>
+        <span>
+          {completedCount}/{plan.length}
+        </span>
+      </div>
+      <ol className="space-y-1">
+        {plan.map((step) => {
+          const isDone = completedStepIds.has(step.id)
+          return (
+            <li key={step.id} className="flex items-start gap-2 text-xs">
+              <span
+                className={cn(
+                  "mt-0.5 flex h-3.5 w-3.5 shrink-0 items-center justify-center rounded-sm border",
+                  isDone ? "border-primary bg-primary text-primary-foreground" : "border-muted-foreground/40",
+                )}
+              >
+                {isDone && <Check className="h-2.5 w-2.5" />}
+              </span>
+              <span className={cn("text-foreground", isDone && "text-muted-foreground line-through")}>
+                {step.description}
+              </span>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
+
+/**
+ * Ticks off the first open step that used `toolName`, along with any open
+ * tool-less steps before it (those are reasoning steps the agent has passed).
+ */
+export function completePlanStep(
+  plan: PlanStep[],
+  completedStepIds: Set<string>,
+  toolName: string,
+): Set<string> {
+  const index = plan.findIndex((step) => step.toolName === toolName && !completedStepIds.has(step.id))
+  if (index === -1) return completedStepIds
+
+  const next = new Set(completedStepIds)
+  plan.slice(0, index).forEach((step) => {
+    if (step.toolName === null) next.add(step.id)
+  })
+  next.add(plan[index].id)
+  return next
+}
@@ -0,0 +1,140 @@
+import { useState } from "react"
+import type React from "react"
+import { format } from "date-fns"
+import { History, Pencil, Trash2, Check, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import { useChatThreads } from "@/lib/hooks/use-chat-threads"
+
+interface ThreadHistoryPickerProps {
+  calendarId: string | null | undefined
+  activeThreadId: string
+  disabled?: boolean
+  onSelect: (threadId: string) => void
+  onDeleted: (threadId: string) => void
+}
+
+export function ThreadHistoryPicker({
+  calendarId,
+  activeThreadId,
+  disabled,
+  onSelect,
+  onDeleted,
+}: ThreadHistoryPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState("")
+  const { threads, isLoading, renameThread, deleteThread } = useChatThreads(calendarId)
+
+  const startEditing = (threadId: string, title: string) => {
+    setEditingId(threadId)
+    setEditingTitle(title)
+  }
+
+  const submitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      renameThread.mutate({ id: editingId, title: editingTitle.trim() })
+    }
+    setEditingId(null)
+  }
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault()
+      submitRename()
+    } else if (e.key === "Escape") {
+      setEditingId(null)
+    }
+  }
+
+  const handleDelete = (threadId: string) => {
+    deleteThread.mutate(threadId, {
+      onSuccess: () => onDeleted(threadId),
+    })
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon-sm" title="Chat history" disabled={disabled || !calendarId}>
+          <History className="h-4 w-4" />
+          <span className="sr-only">Chat history</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-2">
+        <p className="px-2 pb-2 text-xs font-medium text-muted-foreground">Recent conversations</p>
+        <div className="max-h-80 overflow-y-auto space-y-1">
+          {isLoading && <p className="px-2 py-4 text-center text-sm text-muted-foreground">Loading...</p>}
+          {!isLoading && threads.length === 0 && (
+            <p className="px-2 py-4 text-center text-sm text-muted-foreground">No previous conversations</p>
+          )}
+          {threads.map((thread) => (
+            <div
+              key={thread.id}
+              className={cn(
+                "group flex items-center gap-1 rounded-md px-2 py-1.5 hover:bg-muted",
+                thread.id === activeThreadId && "bg-muted",
+              )}
+            >
+              {editingId === thread.id ? (
+                <>
+                  <Input
+                    autoFocus
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onKeyDown={handleRenameKeyDown}
+                    className="h-7 text-sm"
+                  />
+                  <Button variant="ghost" size="icon-sm" onClick={submitRename}>
+                    <Check className="h-3.5 w-3.5" />
+                    <span className="sr-only">Save title</span>
+                  </Button>
+                  <Button variant="ghost" size="icon-sm" onClick={() => setEditingId(null)}>
+                    <X className="h-3.5 w-3.5" />
+                    <span className="sr-only">Cancel rename</span>
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className="flex min-w-0 flex-1 flex-col items-start text-left"
+                    onClick={() => {
+                      onSelect(thread.id)
+                      setOpen(false)
+                    }}
+                  >
+                    <span className="w-full truncate text-sm text-foreground">{thread.title}</span>
+                    <span className="text-[10px] text-muted-foreground">
+                      {format(new Date(thread.updatedAt), "MMM d, h:mm a")}
+                    </span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="opacity-0 group-hover:opacity-100"
+                    onClick={() => startEditing(thread.id, thread.title)}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                    <span className="sr-only">Rename conversation</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="opacity-0 group-hover:opacity-100 hover:text-destructive"
+                    onClick={() => handleDelete(thread.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">Delete conversation</span>
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
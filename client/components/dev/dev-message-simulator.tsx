@@ -21,7 +21,7 @@ export function DevMessageSimulator({ open, onOpenChange, calendarId }: DevMessa
   const [messageType, setMessageType] = useState<"comment" | "dm" | "mention">("comment")
   const [content, setContent] = useState("")
   const [platform, setPlatform] = useState<"instagram" | "twitter" | "linkedin">("instagram")
-  const [sentiment, setSentiment] = useState<"positive" | "negative" | "neutral">("positive")
+  const [sentiment, setSentiment] = useState<"auto" | "positive" | "negative" | "neutral">("auto")
   const [postCaption, setPostCaption] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -31,18 +31,15 @@ export function DevMessageSimulator({ open, onOpenChange, calendarId }: DevMessa
     setIsSubmitting(true)
     try {
       await apiPost(ApiRoutes.INBOX, {
-        calendar_id: calendarId,
-        user_id: `dev_user_${Date.now()}`,
-        user_name: userName,
-        user_avatar: null,
+        calendarId,
+        userId: `dev_user_${Date.now()}`,
+        userName,
+        userAvatar: null,
         type: messageType,
         content,
-        post_caption: messageType === "comment" ? postCaption || "Sample post" : null,
+        postCaption: messageType === "comment" ? postCaption || "Sample post" : null,
         platform,
-        sentiment,
-        sentiment_overridden: false,
-        replied: false,
-        liked: false,
+        sentiment: sentiment === "auto" ? undefined : sentiment,
       })
 
       setContent("")
@@ -124,6 +121,7 @@ export function DevMessageSimulator({ open, onOpenChange, calendarId }: DevMessa
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
+                <SelectItem value="auto">Classify automatically</SelectItem>
                 <SelectItem value="positive">Positive</SelectItem>
                 <SelectItem value="neutral">Neutral</SelectItem>
                 <SelectItem value="negative">Negative</SelectItem>
@@ -0,0 +1,424 @@
+import { useEffect, useState } from "react"
+import { AlertTriangle, Heart, Inbox, MessageCircle, ScanSearch, Send, Sparkles, Wand2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { DevMessageSimulator } from "@/components/dev/dev-message-simulator"
+import { formatTime } from "@/components/calendar/post-editor/utils"
+import { useInbox } from "@/lib/hooks/use-inbox"
+import { useAppEvent } from "@/hooks/use-app-event"
+import { AppEvents } from "@/lib/events"
+import { platformProfiles, PLATFORMS } from "@/lib/platforms"
+import { cn } from "@/lib/utils"
+import type { BrandScore, InboxFilters, InboxMessage, InboxReplyDraft, Sentiment } from "@/lib/types"
+import { useAppContext } from "../layout/app-layout"
+import { MemberProfilePanel } from "./member-profile-panel"
+
+const ALL = "all"
+
+const typeLabels: Record<InboxMessage["type"], string> = {
+  comment: "Comment",
+  dm: "Direct message",
+  mention: "Mention",
+}
+
+const sentimentStyles: Record<Sentiment, string> = {
+  positive: "bg-emerald-500/10 text-emerald-600",
+  neutral: "bg-muted text-muted-foreground",
+  negative: "bg-destructive/10 text-destructive",
+}
+
+interface InboxViewProps {
+  calendarId: string
+}
+
+export function InboxView({ calendarId }: InboxViewProps) {
+  const [filters, setFilters] = useState<InboxFilters>({ replied: false })
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isSimulatorOpen, setIsSimulatorOpen] = useState(false)
+  const [profileMemberId, setProfileMemberId] = useState<string | null>(null)
+  // A reply the assistant proposed; its id remounts the detail so the reply box picks it up.
+  const [proposal, setProposal] = useState<{ id: number; messageId: string; reply: string } | null>(null)
+  const { messages, isLoading, updateMessage, replyToMessage, draftReply, classifySentiment } = useInbox(
+    calendarId,
+    filters,
+  )
+  const { setClientContext } = useAppContext()
+
+  const selectedMessage = messages.find((message) => message.id === selectedId) ?? messages[0] ?? null
+
+  useEffect(() => {
+    setClientContext("inbox", { filters, messageId: selectedMessage?.id ?? null })
+  }, [filters, selectedMessage?.id, setClientContext])
+
+  useAppEvent(AppEvents.PROPOSE_INBOX_REPLY, ({ messageId, reply }: { messageId: string; reply: string }) => {
+    setSelectedId(messageId)
+    setProposal({ id: Date.now(), messageId, reply })
+    updateMessage.mutate({ id: messageId, draft: reply })
+  })
+
+  const setFilter = <K extends keyof InboxFilters>(key: K, value: InboxFilters[K] | undefined) => {
+    setFilters((current) => ({ ...current, [key]: value }))
+  }
+
+  return (
+    <div className="flex h-full">
+      <div className="w-96 border-r border-border bg-muted/30 flex flex-col">
+        <div className="p-4 border-b border-border space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Inbox</h2>
+            <div className="flex items-center gap-1">
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                title="Classify sentiment of unclassified messages"
+                onClick={() => classifySentiment.mutate()}
+                disabled={classifySentiment.isPending}
+              >
+                <ScanSearch className="h-4 w-4" />
+                <span className="sr-only">Classify sentiment</span>
+              </Button>
+              {import.meta.env.DEV && (
+                <Button size="sm" variant="outline" className="gap-2" onClick={() => setIsSimulatorOpen(true)}>
+                  <Sparkles className="h-3.5 w-3.5" />
+                  Simulate
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={filters.replied === undefined ? ALL : String(filters.replied)}
+              onValueChange={(v) => setFilter("replied", v === ALL ? undefined : v === "true")}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="false">Needs reply</SelectItem>
+                <SelectItem value="true">Replied</SelectItem>
+                <SelectItem value={ALL}>All messages</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.type ?? ALL}
+              onValueChange={(v) => setFilter("type", v === ALL ? undefined : (v as InboxMessage["type"]))}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {Object.entries(typeLabels).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.platform ?? ALL}
+              onValueChange={(v) => setFilter("platform", v === ALL ? undefined : (v as InboxMessage["platform"]))}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All platforms</SelectItem>
+                {PLATFORMS.map((platform) => (
+                  <SelectItem key={platform} value={platform}>
+                    {platformProfiles[platform].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.sentiment ?? ALL}
+              onValueChange={(v) => setFilter("sentiment", v === ALL ? undefined : (v as Sentiment))}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All sentiment</SelectItem>
+                <SelectItem value="positive">Positive</SelectItem>
+                <SelectItem value="neutral">Neutral</SelectItem>
+                <SelectItem value="negative">Negative</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="inbox-include-muted"
+              checked={!!filters.includeMuted}
+              onCheckedChange={(checked) => setFilter("includeMuted", checked || undefined)}
+            />
+            <Label htmlFor="inbox-include-muted" className="text-xs font-normal text-muted-foreground">
+              Show muted and blocked members
+            </Label>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="p-4 text-center text-sm text-muted-foreground">Loading messages...</div>
+          ) : messages.length === 0 ? (
+            <div className="p-8 flex flex-col items-center gap-2 text-center text-sm text-muted-foreground">
+              <Inbox className="h-8 w-8" />
+              No messages match these filters
+            </div>
+          ) : (
+            <div className="p-2 space-y-1">
+              {messages.map((message) => (
+                <button
+                  key={message.id}
+                  type="button"
+                  onClick={() => setSelectedId(message.id)}
+                  className={cn(
+                    "w-full rounded-md p-3 text-left transition-colors hover:bg-accent",
+                    selectedMessage?.id === message.id && "bg-accent",
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{message.userName}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {platformProfiles[message.platform].label} · {typeLabels[message.type]}
+                    </span>
+                    <span className="ml-auto text-xs text-muted-foreground shrink-0">
+                      {formatTime(new Date(message.createdAt))}
+                    </span>
+                  </div>
+                  <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">{message.content}</p>
+                  <div className="mt-2 flex items-center gap-1.5">
+                    {message.urgent && !message.replied && (
+                      <Badge variant="destructive" className="gap-1 text-[10px]">
+                        <AlertTriangle className="h-3 w-3" />
+                        Urgent
+                      </Badge>
+                    )}
+                    <Badge variant="secondary" className={cn("text-[10px] capitalize", sentimentStyles[message.sentiment])}>
+                      {message.sentiment}
+                    </Badge>
+                    {message.replied && (
+                      <Badge variant="outline" className="text-[10px]">
+                        Replied
+                      </Badge>
+                    )}
+                    {!message.replied && message.draft && (
+                      <Badge variant="outline" className="text-[10px]">
+                        Draft
+                      </Badge>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 min-w-0">
+        {selectedMessage ? (
+          <InboxMessageDetail
+            key={`${selectedMessage.id}-${proposal?.id ?? ""}`}
+            message={selectedMessage}
+            initialReply={proposal?.messageId === selectedMessage.id ? proposal.reply : undefined}
+            onUpdate={(updates) => updateMessage.mutate({ id: selectedMessage.id, ...updates })}
+            onReply={(content) => replyToMessage.mutateAsync({ id: selectedMessage.id, content })}
+            isReplying={replyToMessage.isPending}
+            onDraft={() => draftReply.mutateAsync(selectedMessage.id)}
+            isDrafting={draftReply.isPending}
+            onOpenMember={() => setProfileMemberId(selectedMessage.memberId)}
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center text-muted-foreground">
+            <div className="text-center">
+              <MessageCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>Select a message to reply</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <MemberProfilePanel
+        calendarId={calendarId}
+        memberId={profileMemberId}
+        onOpenChange={(open) => !open && setProfileMemberId(null)}
+      />
+
+      {import.meta.env.DEV && (
+        <DevMessageSimulator open={isSimulatorOpen} onOpenChange={setIsSimulatorOpen} calendarId={calendarId} />
+      )}
+    </div>
+  )
+}
+
+interface InboxMessageDetailProps {
+  message: InboxMessage
+  initialReply?: string
+  onUpdate: (updates: { draft?: string | null; liked?: boolean; sentiment?: Sentiment }) => void
+  onReply: (content: string) => Promise<InboxMessage>
+  isReplying: boolean
+  onDraft: () => Promise<InboxReplyDraft>
+  isDrafting: boolean
+  onOpenMember: () => void
+}
+
+function InboxMessageDetail({
+  message,
+  initialReply,
+  onUpdate,
+  onReply,
+  isReplying,
+  onDraft,
+  isDrafting,
+  onOpenMember,
+}: InboxMessageDetailProps) {
+  const [reply, setReply] = useState(initialReply ?? message.draft ?? "")
+  const [draftScore, setDraftScore] = useState<BrandScore | null>(null)
+  const [draftSources, setDraftSources] = useState<string[]>([])
+  const [draftError, setDraftError] = useState<string | null>(null)
+
+  const handleDraft = async () => {
+    setDraftError(null)
+    try {
+      const result = await onDraft()
+      setReply(result.draft)
+      setDraftScore(result.score)
+      setDraftSources(result.savedResponses.map((response) => response.title))
+    } catch (error: any) {
+      console.error("Error drafting reply:", error)
+      setDraftError(error.message || "Couldn't draft a reply")
+    }
+  }
+
+  const handleReply = async () => {
+    if (!reply.trim()) return
+    try {
+      await onReply(reply)
+      setReply("")
+    } catch (error) {
+      console.error("Error sending reply:", error)
+    }
+  }
+
+  const handleDraftBlur = () => {
+    const draft = reply.trim() || null
+    if (draft !== (message.draft ?? null)) {
+      onUpdate({ draft })
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center gap-3 border-b border-border p-4">
+        <Avatar className="h-9 w-9">
+          {message.userAvatar && <AvatarImage src={message.userAvatar} alt={message.userName} />}
+          <AvatarFallback>{message.userName.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0">
+          {message.memberId ? (
+            <button type="button" onClick={onOpenMember} className="text-sm font-medium hover:underline">
+              {message.userName}
+            </button>
+          ) : (
+            <p className="text-sm font-medium">{message.userName}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {typeLabels[message.type]} on {platformProfiles[message.platform].label} ·{" "}
+            {formatTime(new Date(message.createdAt))}
+          </p>
+        </div>
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-[10px] text-muted-foreground">
+            {message.sentimentOverridden
+              ? "Set manually"
+              : message.sentimentConfidence !== null && `${Math.round(message.sentimentConfidence * 100)}% confident`}
+          </span>
+          <Select value={message.sentiment} onValueChange={(v) => onUpdate({ sentiment: v as Sentiment })}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="positive">Positive</SelectItem>
+              <SelectItem value="neutral">Neutral</SelectItem>
+              <SelectItem value="negative">Negative</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onUpdate({ liked: !message.liked })}
+          >
+            <Heart className={cn("h-4 w-4", message.liked && "fill-destructive text-destructive")} />
+            <span className="sr-only">{message.liked ? "Unlike" : "Like"}</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {message.postCaption && (
+          <div className="rounded-md border border-border bg-muted/30 p-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1">On your post</p>
+            <p className="text-sm line-clamp-3">{message.postCaption}</p>
+          </div>
+        )}
+        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+
+        {message.replied && message.replyContent && (
+          <div className="ml-8 rounded-lg bg-primary/10 p-3">
+            <p className="text-xs font-medium text-primary mb-1">
+              Your reply{message.repliedAt && ` · ${formatTime(new Date(message.repliedAt))}`}
+            </p>
+            <p className="text-sm whitespace-pre-wrap">{message.replyContent}</p>
+          </div>
+        )}
+      </div>
+
+      {!message.replied && (
+        <div className="border-t border-border p-4 space-y-2">
+          {draftScore && (
+            <p className="text-xs text-muted-foreground">
+              AI draft · brand voice score {draftScore.overall}
+              {draftSources.length > 0 && ` · based on ${draftSources.join(", ")}`}
+            </p>
+          )}
+          {draftError && <p className="text-xs text-destructive">{draftError}</p>}
+          <Textarea
+            placeholder={`Reply to ${message.userName}...`}
+            value={reply}
+            onChange={(e) => {
+              setReply(e.target.value)
+              setDraftScore(null)
+            }}
+            onBlur={handleDraftBlur}
+            rows={3}
+            className="resize-none text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              onClick={handleDraft}
+              disabled={isDrafting || isReplying}
+            >
+              <Wand2 className="h-3.5 w-3.5" />
+              {isDrafting ? "Drafting..." : "Draft with AI"}
+            </Button>
+            <Button size="sm" className="gap-2" onClick={handleReply} disabled={!reply.trim() || isReplying}>
+              <Send className="h-3.5 w-3.5" />
+              Reply
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
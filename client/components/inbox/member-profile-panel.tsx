@@ -0,0 +1,203 @@
+import { useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Trash2 } from "lucide-react"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { formatTime } from "@/components/calendar/post-editor/utils"
+import { useCommunityMember } from "@/lib/hooks/use-community-member"
+import { platformProfiles } from "@/lib/platforms"
+import { cn } from "@/lib/utils"
+import type { SentimentTrendPoint } from "@/lib/types"
+
+const TREND_WEEKS = 8
+
+interface MemberProfilePanelProps {
+  calendarId: string
+  memberId: string | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function MemberProfilePanel({ calendarId, memberId, onOpenChange }: MemberProfilePanelProps) {
+  const { profile, isLoading, updateFlags, addNote, deleteNote } = useCommunityMember(calendarId, memberId)
+  const [newNote, setNewNote] = useState("")
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newNote.trim()) return
+    try {
+      await addNote.mutateAsync(newNote)
+      setNewNote("")
+    } catch (error) {
+      console.error("Error adding member note:", error)
+    }
+  }
+
+  const member = profile?.member
+
+  return (
+    <Sheet open={!!memberId} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        {isLoading || !profile || !member ? (
+          <div className="flex h-full items-center justify-center text-sm text-muted-foreground">Loading member...</div>
+        ) : (
+          <>
+            <SheetHeader className="flex-row items-center gap-3">
+              <Avatar className="h-10 w-10">
+                {member.avatar && <AvatarImage src={member.avatar} alt={member.name} />}
+                <AvatarFallback>{member.name.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <SheetTitle>{member.name}</SheetTitle>
+                <SheetDescription>
+                  {member.platform ? platformProfiles[member.platform].label : "Community member"}
+                  {member.lastMessageAt && ` · last message ${formatTime(new Date(member.lastMessageAt))}`}
+                </SheetDescription>
+              </div>
+            </SheetHeader>
+
+            <div className="space-y-6 px-4 pb-6">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {(
+                  [
+                    ["Comments", member.stats.comments],
+                    ["Mentions", member.stats.mentions],
+                    ["DMs", member.stats.dms],
+                  ] as const
+                ).map(([label, count]) => (
+                  <div key={label} className="rounded-md bg-muted/50 p-2">
+                    <p className="text-lg font-semibold">{count}</p>
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="member-muted" className="text-sm">
+                    Mute
+                    <span className="block text-xs font-normal text-muted-foreground">Hide their messages from the inbox</span>
+                  </Label>
+                  <Switch
+                    id="member-muted"
+                    checked={member.isMuted}
+                    onCheckedChange={(checked) => updateFlags.mutate({ isMuted: checked })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="member-blocked" className="text-sm">
+                    Block
+                    <span className="block text-xs font-normal text-muted-foreground">Hide their messages and stop replies</span>
+                  </Label>
+                  <Switch
+                    id="member-blocked"
+                    checked={member.isBlocked}
+                    onCheckedChange={(checked) => updateFlags.mutate({ isBlocked: checked })}
+                  />
+                </div>
+              </div>
+
+              <SentimentTrend points={profile.sentimentTrend.slice(-TREND_WEEKS)} />
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">Notes</h3>
+                <form onSubmit={handleAddNote} className="space-y-2">
+                  <Textarea
+                    placeholder="Add a note for your team..."
+                    value={newNote}
+                    onChange={(e) => setNewNote(e.target.value)}
+                    rows={2}
+                    className="resize-none text-sm"
+                  />
+                  <Button type="submit" size="sm" disabled={!newNote.trim() || addNote.isPending}>
+                    Add Note
+                  </Button>
+                </form>
+                {profile.notes.map((note) => (
+                  <div key={note.id} className="group flex gap-2 rounded-md bg-muted/50 p-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs whitespace-pre-wrap">{note.content}</p>
+                      <p className="mt-1 text-[10px] text-muted-foreground">{formatTime(new Date(note.createdAt))}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => deleteNote.mutate(note.id)}
+                      className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      <span className="sr-only">Delete note</span>
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">History ({profile.messages.length})</h3>
+                {profile.messages.map((message) => (
+                  <div key={message.id} className="rounded-md border border-border p-2 space-y-1">
+                    <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                      <span>{platformProfiles[message.platform].label}</span>
+                      <span className="capitalize">{message.type === "dm" ? "DM" : message.type}</span>
+                      <Badge variant="secondary" className="text-[10px] capitalize">
+                        {message.sentiment}
+                      </Badge>
+                      <span className="ml-auto">{formatTime(new Date(message.createdAt))}</span>
+                    </div>
+                    <p className="text-xs whitespace-pre-wrap">{message.content}</p>
+                    {message.replyContent && (
+                      <p className="border-l-2 border-primary/40 pl-2 text-xs text-muted-foreground">
+                        {message.replyContent}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+function SentimentTrend({ points }: { points: SentimentTrendPoint[] }) {
+  const maxTotal = Math.max(1, ...points.map((p) => p.positive + p.neutral + p.negative))
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">Sentiment by week</h3>
+      {points.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No messages yet</p>
+      ) : (
+        <div className="flex h-24 items-end gap-1.5">
+          {points.map((point) => (
+            <div
+              key={point.weekStart}
+              className="flex flex-1 flex-col items-center gap-1"
+              title={`Week of ${point.weekStart}: ${point.positive} positive, ${point.neutral} neutral, ${point.negative} negative`}
+            >
+              <div className="flex w-full flex-col-reverse overflow-hidden rounded-sm" style={{ height: 72 }}>
+                {(["positive", "neutral", "negative"] as const).map((sentiment) => (
+                  <div
+                    key={sentiment}
+                    className={cn(
+                      sentiment === "positive" && "bg-emerald-500",
+                      sentiment === "neutral" && "bg-muted-foreground/40",
+                      sentiment === "negative" && "bg-destructive",
+                    )}
+                    style={{ height: `${(point[sentiment] / maxTotal) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <span className="text-[9px] text-muted-foreground">{format(parseISO(point.weekStart), "MMM d")}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
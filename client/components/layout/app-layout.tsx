@@ -17,6 +17,9 @@ interface IClientContext {
 interface IAppContext {
   clientContext: IClientContext
   setClientContext: (page: string, pageState: any) => void
+  /** The campaign the calendar, library and notes views are filtered to. */
+  campaignId: string | null
+  setCampaignId: (campaignId: string | null) => void
 }
 
 const AppContext = createContext<IAppContext | null>(null)
@@ -46,6 +49,18 @@ export default function AppLayout() {
 
   const currentCalendar = mappedCalendars?.find((c) => c.slug === calendarSlug)
 
+  // Kept per calendar, so switching calendars never filters by another calendar's campaign.
+  const [campaignSelections, setCampaignSelections] = useState<Record<string, string | null>>({})
+  const campaignId = currentCalendar ? (campaignSelections[currentCalendar.id] ?? null) : null
+
+  const setCampaignId = useCallback(
+    (nextCampaignId: string | null) => {
+      if (!currentCalendar) return
+      setCampaignSelections((current) => ({ ...current, [currentCalendar.id]: nextCampaignId }))
+    },
+    [currentCalendar],
+  )
+
   const basePage = useMemo(() => {
     if (location.pathname.includes("/brand-voice")) {
       return "brandVoice"
@@ -53,6 +68,10 @@ export default function AppLayout() {
       return "library"
     } else if (location.pathname.includes("/notes")) {
       return "notes"
+    } else if (location.pathname.includes("/inbox")) {
+      return "inbox"
+    } else if (location.pathname.includes("/analytics")) {
+      return "analytics"
     }
     return "calendar"
   }, [location.pathname])
@@ -113,7 +132,7 @@ export default function AppLayout() {
   }
 
   return (
-    <AppContext.Provider value={{ clientContext, setClientContext }}>
+    <AppContext.Provider value={{ clientContext, setClientContext, campaignId, setCampaignId }}>
       <SidebarProvider>
         <div className="flex h-screen w-full">
           <AppSidebar calendars={mappedCalendars} currentCalendar={currentCalendar} />
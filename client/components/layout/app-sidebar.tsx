@@ -11,6 +11,8 @@ import {
   ChevronDown,
   Plus,
   NotebookText,
+  Inbox,
+  ChartColumn,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
@@ -24,6 +26,7 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { createClient } from "@/lib/supabase/client"
 import { CreateCalendarDialog } from "@/components/settings/create-calendar-dialog"
+import { NotificationsMenu } from "./notifications-menu"
 import { useCalendars } from "@/lib/hooks/use-calendars" // Import calendars hook
 import { useProfile } from "@/lib/hooks/use-profile" // Import profile hook
 import type { Calendar as CalendarType } from "@/lib/types"
@@ -38,6 +41,8 @@ const sections = [
   { id: "library", label: "Library", icon: ImageIcon },
   { id: "brand-voice", label: "Brand Voice", icon: Sparkles },
   { id: "notes", label: "Notes", icon: NotebookText },
+  { id: "inbox", label: "Inbox", icon: Inbox },
+  { id: "analytics", label: "Analytics", icon: ChartColumn },
 ]
 
 export function AppSidebar({ calendars, currentCalendar }: AppSidebarProps) {
@@ -201,9 +206,11 @@ export function AppSidebar({ calendars, currentCalendar }: AppSidebarProps) {
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
+              <NotificationsMenu userId={profile?.id} />
             </div>
           ) : (
             <div className="flex flex-col items-center gap-2">
+              <NotificationsMenu userId={profile?.id} />
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0">
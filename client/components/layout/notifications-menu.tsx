@@ -0,0 +1,84 @@
+import { useNavigate } from "react-router-dom"
+import { Bell } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useNotifications } from "@/lib/hooks/use-notifications"
+import { formatTime } from "@/components/calendar/post-editor/utils"
+import { cn } from "@/lib/utils"
+import type { Notification } from "@/lib/types"
+
+interface NotificationsMenuProps {
+  userId: string | undefined
+}
+
+export function NotificationsMenu({ userId }: NotificationsMenuProps) {
+  const navigate = useNavigate()
+  const { notifications, unreadCount, markRead } = useNotifications(userId)
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead.mutate([notification.id])
+    }
+    if (notification.calendarSlug && notification.postId) {
+      navigate(`/${notification.calendarSlug}/calendar?post=${notification.postId}`)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-9 w-9 shrink-0 text-muted-foreground">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-medium text-primary-foreground">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" side="top" className="w-80">
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => markRead.mutate(undefined)}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-xs text-muted-foreground">You're all caught up</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                className="flex flex-col items-start gap-0.5"
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!notification.readAt && <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-primary" />}
+                  <span className={cn("text-xs", !notification.readAt && "font-medium")}>
+                    {notification.actorName} mentioned you
+                  </span>
+                  <span className="ml-auto text-[10px] text-muted-foreground">
+                    {formatTime(new Date(notification.createdAt))}
+                  </span>
+                </div>
+                <p className="line-clamp-2 text-xs text-muted-foreground">{notification.content}</p>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
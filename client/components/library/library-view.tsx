@@ -1,9 +1,12 @@
 import type React from "react"
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Upload, Search, Trash2, ImageIcon } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { CampaignFilter } from "@/components/campaigns/campaign-filter"
+import { CampaignSelect } from "@/components/campaigns/campaign-select"
+import { useAppContext } from "@/components/layout/app-layout"
 import { useMedia } from "@/lib/hooks/use-media"
 import { apiPost } from "@/lib/api-client"
 import { ApiRoutes } from "@/lib/api-routes"
@@ -14,14 +17,22 @@ interface LibraryViewProps {
 }
 
 export function LibraryView({ calendarId }: LibraryViewProps) {
-  const { media: mediaItems = [], isLoading, deleteMedia } = useMedia(calendarId)
+  const { media: mediaItems = [], isLoading, updateMediaCampaign, deleteMedia } = useMedia(calendarId)
+  const { setClientContext, campaignId } = useAppContext()
   const [searchQuery, setSearchQuery] = useState("")
-  const [selectedItem, setSelectedItem] = useState<MediaItem | null>(null)
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null)
   const [isUploading, setIsUploading] = useState(false)
 
+  const selectedItem = mediaItems.find((item: MediaItem) => item.id === selectedItemId) ?? null
+
+  useEffect(() => {
+    setClientContext("library", { campaignId })
+  }, [campaignId, setClientContext])
+
   const filteredItems = mediaItems.filter((item: MediaItem) => {
     const matchesSearch = item.filename.toLowerCase().includes(searchQuery.toLowerCase())
-    return matchesSearch
+    const matchesCampaign = !campaignId || item.campaignId === campaignId
+    return matchesSearch && matchesCampaign
   })
 
   const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -35,6 +46,9 @@ export function LibraryView({ calendarId }: LibraryViewProps) {
         const formData = new FormData()
         formData.append("file", file)
         formData.append("calendarId", calendarId)
+        if (campaignId) {
+          formData.append("campaignId", campaignId)
+        }
 
         await apiPost(ApiRoutes.UPLOAD, formData)
       }
@@ -48,8 +62,8 @@ export function LibraryView({ calendarId }: LibraryViewProps) {
 
   const handleDelete = async (itemId: string) => {
     await deleteMedia.mutateAsync(itemId)
-    if (selectedItem?.id === itemId) {
-      setSelectedItem(null)
+    if (selectedItemId === itemId) {
+      setSelectedItemId(null)
     }
   }
 
@@ -82,6 +96,7 @@ export function LibraryView({ calendarId }: LibraryViewProps) {
         </div>
 
         <div className="flex gap-3">
+          <CampaignFilter calendarId={calendarId} />
           <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
             <Input
@@ -113,7 +128,7 @@ export function LibraryView({ calendarId }: LibraryViewProps) {
             <div className="text-center">
               <ImageIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
               <p className="text-muted-foreground">
-                {searchQuery ? "No media found" : "No media yet. Upload your first file!"}
+                {searchQuery || campaignId ? "No media found" : "No media yet. Upload your first file!"}
               </p>
             </div>
           </div>
@@ -122,7 +137,7 @@ export function LibraryView({ calendarId }: LibraryViewProps) {
             {filteredItems.map((item: MediaItem) => (
               <button
                 key={item.id}
-                onClick={() => setSelectedItem(item)}
+                onClick={() => setSelectedItemId(item.id)}
                 className="group relative aspect-square overflow-hidden rounded-lg border border-border bg-accent hover:shadow-lg transition-all"
               >
                 <img src={item.url || "/placeholder.svg"} alt={item.filename} className="h-full w-full object-cover" />
@@ -139,7 +154,7 @@ export function LibraryView({ calendarId }: LibraryViewProps) {
         )}
       </div>
 
-      <Dialog open={!!selectedItem} onOpenChange={() => setSelectedItem(null)}>
+      <Dialog open={!!selectedItem} onOpenChange={() => setSelectedItemId(null)}>
         <DialogContent className="sm:max-w-[600px]">
           <DialogHeader>
             <DialogTitle>Media Details</DialogTitle>
@@ -170,6 +185,18 @@ export function LibraryView({ calendarId }: LibraryViewProps) {
                     <p className="text-sm text-foreground">{formatDate(selectedItem.createdAt)}</p>
                   </div>
                 </div>
+
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground mb-1">Campaign</p>
+                  <CampaignSelect
+                    calendarId={calendarId}
+                    value={selectedItem.campaignId ?? null}
+                    onChange={(nextCampaignId) =>
+                      updateMediaCampaign.mutate({ id: selectedItem.id, campaignId: nextCampaignId })
+                    }
+                    className="w-full"
+                  />
+                </div>
               </div>
             </div>
           )}
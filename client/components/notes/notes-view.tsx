@@ -8,14 +8,16 @@ import type { Note } from "@/lib/types"
 import { format } from "date-fns"
 import { SlateEditor } from "./slate-editor"
 import { useAppContext } from "../layout/app-layout"
+import { CampaignFilter } from "../campaigns/campaign-filter"
+import { CampaignSelect } from "../campaigns/campaign-select"
 
 interface NotesViewProps {
   calendarId: string
 }
 
 export function NotesView({ calendarId }: NotesViewProps) {
-  const { notes, isLoading, createNote, updateNote, deleteNote } = useNotes(calendarId)
-  const { setClientContext } = useAppContext()
+  const { notes: allNotes, isLoading, createNote, updateNote, deleteNote } = useNotes(calendarId)
+  const { setClientContext, campaignId } = useAppContext()
   
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null)
   const [title, setTitle] = useState("")
@@ -24,6 +26,11 @@ export function NotesView({ calendarId }: NotesViewProps) {
   const [content, setContent] = useState<any>(null)
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
+  const notes = useMemo(
+    () => (campaignId ? allNotes.filter((note) => note.campaignId === campaignId) : allNotes),
+    [allNotes, campaignId],
+  )
+
   const filteredNotes = useMemo(() => {
     const query = searchQuery.trim().toLowerCase()
     if (!query) return notes
@@ -47,11 +54,11 @@ export function NotesView({ calendarId }: NotesViewProps) {
 
   useEffect(() => {
     if (selectedNoteId) {
-      setClientContext("notes", { noteId: selectedNoteId })
+      setClientContext("notes", { noteId: selectedNoteId, campaignId })
     } else {
-      setClientContext("notes", {})
+      setClientContext("notes", { campaignId })
     }
-  }, [selectedNoteId, setClientContext])
+  }, [selectedNoteId, campaignId, setClientContext])
 
   useEffect(() => {
     if (!activeNote) {
@@ -135,6 +142,7 @@ export function NotesView({ calendarId }: NotesViewProps) {
       const newNote = await createNote.mutateAsync({
         title: "Untitled Note",
         content: null,
+        campaignId,
       })
       setSelectedNoteId(newNote.id)
       setTitle(newNote.title)
@@ -160,6 +168,11 @@ export function NotesView({ calendarId }: NotesViewProps) {
     }
   }
 
+  const handleCampaignChange = (nextCampaignId: string | null) => {
+    if (!activeNote) return
+    updateNote.mutate({ id: activeNote.id, title: title || "Untitled Note", content, campaignId: nextCampaignId })
+  }
+
   if (isLoading) {
     return <div className="flex h-full items-center justify-center">Loading notes...</div>
   }
@@ -175,6 +188,9 @@ export function NotesView({ calendarId }: NotesViewProps) {
               <Plus className="h-4 w-4" />
             </Button>
           </div>
+          <div className="mb-3">
+            <CampaignFilter calendarId={calendarId} />
+          </div>
           <div className="relative">
             <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
@@ -189,7 +205,7 @@ export function NotesView({ calendarId }: NotesViewProps) {
         <div className="flex-1 overflow-y-auto">
           {filteredNotes.length === 0 ? (
             <div className="p-4 text-center text-sm text-muted-foreground">
-              {searchQuery ? "No notes found" : "No notes yet"}
+              {searchQuery || campaignId ? "No notes found" : "No notes yet"}
             </div>
           ) : (
             <div className="p-2">
@@ -245,6 +261,13 @@ export function NotesView({ calendarId }: NotesViewProps) {
                   placeholder="Untitled Note"
                   className="text-2xl font-semibold border-0 focus-visible:ring-0 px-0 h-full"
                 />
+                <CampaignSelect
+                  calendarId={calendarId}
+                  value={activeNote?.campaignId ?? null}
+                  onChange={handleCampaignChange}
+                  size="sm"
+                  className="w-44 shrink-0"
+                />
               </div>
               {/* Always reserve space for saving indicator */}
               <div className="h-5 flex items-start mt-1">
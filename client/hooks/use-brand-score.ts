@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from "react"
 import { useMutation } from "@tanstack/react-query"
-import type { BrandScore } from "@/lib/types"
+import type { BrandScore, Platform } from "@/lib/types"
 import { apiPost } from "@/lib/api-client"
 
 // Type helper for apiPost with signal support
@@ -10,8 +10,15 @@ type ApiPostWithSignal = <T>(
   options: { signal?: AbortSignal }
 ) => Promise<T>
 
-export function useBrandScore(initialCaption: string | null, calendarId: string | null) {
+type ScoredVariant = { postId: string; platform: Platform }
+
+/**
+ * Grades the caption as it changes. When `variant` is given the score is
+ * graded against that platform's rules and stored on the variant.
+ */
+export function useBrandScore(initialCaption: string | null, calendarId: string | null, variant?: ScoredVariant) {
   const [brandScore, setBrandScore] = useState<BrandScore | null>(null)
+  const variantRef = useRef(variant)
   const lastFetchedCaptionRef = useRef<string | null>(null)
   const scoreFetchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
@@ -20,10 +27,22 @@ export function useBrandScore(initialCaption: string | null, calendarId: string
   const [isFetchingScore, setIsFetchingScore] = useState(false)
 
   const { mutate: fetchBrandScore, reset } = useMutation({
-    mutationFn: ({ caption, calendarId, signal }: { caption: string; calendarId: string; signal?: AbortSignal }) => {
+    mutationFn: ({
+      caption,
+      calendarId,
+      variant,
+      signal,
+    }: {
+      caption: string
+      calendarId: string
+      variant?: ScoredVariant
+      signal?: AbortSignal
+    }) => {
       const body = {
         caption: caption,
         calendarId: calendarId,
+        postId: variant?.postId,
+        platform: variant?.platform,
       }
       const url = '/api/ai/grade-caption'
       try {
@@ -86,17 +105,21 @@ export function useBrandScore(initialCaption: string | null, calendarId: string
       }
       if (queuedCaption !== lastFetchedCaptionRef.current) {
         lastFetchedCaptionRef.current = queuedCaption
-        fetchBrandScore({ caption: queuedCaption, calendarId, signal: abortController.signal })
+        fetchBrandScore({ caption: queuedCaption, calendarId, variant: variantRef.current, signal: abortController.signal })
       }
     }, 1000)
   }, [isFetchingScore, reset, fetchBrandScore])
 
+  useEffect(() => {
+    variantRef.current = variant
+  }, [variant])
+
   useEffect(() => {
     if (isInitialMount.current && calendarId && initialCaption) {
       const abortController = new AbortController()
       abortControllerRef.current = abortController
       lastFetchedCaptionRef.current = initialCaption
-      fetchBrandScore({ caption: initialCaption, calendarId, signal: abortController.signal })
+      fetchBrandScore({ caption: initialCaption, calendarId, variant: variantRef.current, signal: abortController.signal })
       isInitialMount.current = false
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
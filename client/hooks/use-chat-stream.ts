@@ -1,18 +1,37 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { supabase } from '@/lib/supabase/client';
 import type { StreamEventPayload } from '../../shared/stream-types';
+import type { PlanStep } from '@/lib/types';
+
+// Don't hold up a chat request for longer than this waiting on the stream.
+const CONNECT_TIMEOUT_MS = 3000;
 
 interface UseChatStreamProps {
   threadId: string | null;
   onToken: (token: string) => void;
   onStatusChange: (status: string | null) => void;
+  onMessageStart?: () => void;
+  onPlan?: (plan: PlanStep[]) => void;
+  onToolEnd?: (toolName: string) => void;
 }
 
-export function useChatStream({ threadId, onToken, onStatusChange }: UseChatStreamProps) {
+export function useChatStream({
+  threadId,
+  onToken,
+  onStatusChange,
+  onMessageStart,
+  onPlan,
+  onToolEnd,
+}: UseChatStreamProps) {
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  const connect = useCallback(async () => {
-    if (!threadId) return;
+  /**
+   * Opens the SSE stream for the thread. Resolves once the server has
+   * acknowledged the subscription (or the attempt failed), so callers can
+   * await it before starting a run and not miss the first tokens.
+   */
+  const connect = useCallback((): Promise<void> => {
+    if (!threadId) return Promise.resolve();
     
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -21,87 +40,109 @@ export function useChatStream({ threadId, onToken, onStatusChange }: UseChatStre
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
 
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.access_token) {
-        console.error('No auth token available');
-        return;
-      }
-
-      const response = await fetch(`/api/ai/stream/${threadId}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Accept': 'text/event-stream',
-        },
-        signal: abortController.signal,
-      });
-
-      if (!response.ok) {
-        console.error('Response not ok:', response.status, response.statusText);
-        return;
-      }
+    let markConnected: () => void = () => {};
+    const connected = new Promise<void>((resolve) => {
+      markConnected = resolve;
+      setTimeout(resolve, CONNECT_TIMEOUT_MS);
+    });
+
+    const readStream = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.access_token) {
+          console.error('No auth token available');
+          return;
+        }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
+        const response = await fetch(`/api/ai/stream/${threadId}`, {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Accept': 'text/event-stream',
+          },
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          console.error('Response not ok:', response.status, response.statusText);
+          return;
+        }
 
-      if (!reader) {
-        console.error('No reader available');
-        return;
-      }
+        const reader = response.body?.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
 
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          break;
+        if (!reader) {
+          console.error('No reader available');
+          return;
         }
 
-        buffer += decoder.decode(value, { stream: true });
+        while (true) {
+          const { done, value } = await reader.read();
+          
+          if (done) {
+            break;
+          }
+
+          buffer += decoder.decode(value, { stream: true });
 
-        const messages = buffer.split('\n\n');
-        buffer = messages.pop() || '';
+          const messages = buffer.split('\n\n');
+          buffer = messages.pop() || '';
 
-        for (const message of messages) {
-          if (!message.trim()) continue;
+          for (const message of messages) {
+            if (!message.trim()) continue;
 
-          let data = '';
+            let data = '';
 
-          const lines = message.split('\n');
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              data = line.slice(6).trim();
+            const lines = message.split('\n');
+            for (const line of lines) {
+              if (line.startsWith('data: ')) {
+                data = line.slice(6).trim();
+              }
             }
-          }
 
-          if (data) {
-            try {
-              const payload = JSON.parse(data) as StreamEventPayload;
-              
-              switch (payload.type) {
-                case 'token':
-                  if (payload.content) onToken(payload.content);
-                  break;
-                case 'status_start':
-                  onStatusChange(payload.content || 'Thinking...');
-                  break;
-                case 'status_end':
-                  onStatusChange(null);
-                  break;
+            if (data) {
+              try {
+                const payload = JSON.parse(data) as StreamEventPayload;
+                
+                switch (payload.type) {
+                  case 'connected':
+                    markConnected();
+                    break;
+                  case 'message_start':
+                    onMessageStart?.();
+                    break;
+                  case 'token':
+                    if (payload.content) onToken(payload.content);
+                    break;
+                  case 'status_start':
+                    onStatusChange(payload.content || 'Thinking...');
+                    break;
+                  case 'status_end':
+                    onStatusChange(null);
+                    if (payload.toolName) onToolEnd?.(payload.toolName);
+                    break;
+                  case 'plan':
+                    if (payload.plan) onPlan?.(payload.plan);
+                    break;
+                }
+              } catch (err) {
+                console.error('Stream parse error', err, 'Data:', data);
               }
-            } catch (err) {
-              console.error('Stream parse error', err, 'Data:', data);
             }
           }
         }
+      } catch (err: any) {
+        if (err.name !== 'AbortError') {
+          console.error('Stream error', err);
+        }
       }
-    } catch (err: any) {
-      if (err.name !== 'AbortError') {
-        console.error('Stream error', err);
-      }
-    }
-  }, [threadId, onToken, onStatusChange]);
+    };
+
+    void readStream().finally(markConnected);
+
+    return connected;
+  }, [threadId, onToken, onStatusChange, onMessageStart, onPlan, onToolEnd]);
 
   const disconnect = useCallback(() => {
     if (abortControllerRef.current) {
@@ -1,6 +1,22 @@
 import { useState, useEffect, useRef } from "react"
 import type { Post } from "@/lib/types"
 
+export function getPostKey(p: Post) {
+  const postDate = p.date instanceof Date ? p.date : new Date(p.date)
+  return JSON.stringify({
+    id: p.id,
+    date: postDate.getTime(),
+    campaignId: p.campaignId ?? null,
+    variants: p.variants.map((v) => ({
+      platform: v.platform,
+      caption: v.caption,
+      status: v.status,
+      images: v.images,
+      publishing: v.publishing,
+    })),
+  })
+}
+
 interface UsePostAutoSaveOptions {
   post: Post
   onSave: (post: Post) => void
@@ -17,18 +33,6 @@ export function usePostAutoSave({ post, onSave, debounceMs = 500 }: UsePostAutoS
   const lastSavedPostRef = useRef<string | null>(null)
   const previousPostIdRef = useRef<string | null>(null)
 
-  const getPostKey = (p: Post) => {
-    const postDate = p.date instanceof Date ? p.date : new Date(p.date)
-    return JSON.stringify({
-      id: p.id,
-      caption: p.caption,
-      platform: p.platform,
-      status: p.status,
-      date: postDate.getTime(),
-      images: p.images,
-    })
-  }
-
   useEffect(() => {
     if (isInitialMount.current) {
       isInitialMount.current = false
@@ -78,7 +82,7 @@ export function usePostAutoSave({ post, onSave, debounceMs = 500 }: UsePostAutoS
         clearTimeout(saveTimeoutRef.current)
       }
     }
-  }, [post.id, post.caption, post.platform, post.date, post.images, post.status, onSave, debounceMs, post])
+  }, [post.id, post.date, post.variants, onSave, debounceMs, post])
 
   const formatLastSaved = () => {
     if (!lastSaved) return null
@@ -102,15 +106,7 @@ export function usePostAutoSave({ post, onSave, debounceMs = 500 }: UsePostAutoS
       return false
     }
 
-    const postDate = remotePost.date instanceof Date ? remotePost.date : new Date(remotePost.date)
-    const editedPostDate = post.date instanceof Date ? post.date : new Date(post.date)
-    
-    const hasChanged = 
-      remotePost.caption !== post.caption ||
-      remotePost.platform !== post.platform ||
-      remotePost.status !== post.status ||
-      postDate.getTime() !== editedPostDate.getTime() ||
-      JSON.stringify(remotePost.images) !== JSON.stringify(post.images)
+    const hasChanged = getPostKey(remotePost) !== getPostKey(post)
 
     if (hasChanged) {
       setShowRemoteUpdate(true)
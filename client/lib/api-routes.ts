@@ -1,19 +1,38 @@
 export const ApiRoutes = {
   AI: {
     CHAT: "/api/ai/chat",
+    CHAT_TOOL_RESULT: "/api/ai/chat/tool-result",
     GENERATE_CAPTION: "/api/ai/generate-caption",
     APPLY_SUGGESTIONS: "/api/ai/apply-suggestions",
+    MERGE_CAPTIONS: "/api/ai/merge-captions",
     GRADE_CAPTION: "/api/ai/grade-caption",
+    DRAFT_REPLY: "/api/ai/draft-reply",
     EXTRACT_BRAND_RULES: "/api/ai/extract-brand-rules",
+    CONTENT_PLAN: "/api/ai/content-plan",
+    CONTENT_PLAN_DRAFTS: "/api/ai/content-plan/drafts",
+    THREADS: "/api/ai/threads",
   },
   POSTS: "/api/posts",
+  POSTS_STATUS: "/api/posts/status",
+  POSTS_BULK: "/api/posts/bulk",
+  POSTS_MENTIONS: "/api/posts/mentions",
+  POSTS_WORKFLOW: "/api/posts/workflow",
+  POSTS_PUBLISH: "/api/posts/publish",
+  POSTS_PUBLISH_ATTEMPTS: "/api/posts/publish-attempts",
   CALENDARS: "/api/calendars",
   PROFILE: "/api/profile",
   UPLOAD: "/api/upload",
   BRAND_VOICE: "/api/brand-voice",
+  GUARDRAILS: "/api/guardrails",
   INBOX: "/api/inbox",
+  INBOX_CLASSIFY_SENTIMENT: "/api/inbox/classify-sentiment",
+  COMMUNITY_MEMBERS: "/api/community-members",
+  ANALYTICS: "/api/analytics",
+  POST_SERIES: "/api/post-series",
+  CAMPAIGNS: "/api/campaigns",
   HEALTH: "/api/health",
   ORGANIZATION: "/api/organization",
   NOTES: "/api/notes",
+  NOTIFICATIONS: "/api/notifications",
 } as const;
 
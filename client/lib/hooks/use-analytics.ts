@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query"
+import type { CalendarAnalytics } from "@/lib/types"
+import { apiGet } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+
+/** Aggregates for the calendar between two yyyy-MM-dd dates, both inclusive. */
+export function useAnalytics(calendarId: string, from: string, to: string) {
+  const query = useQuery({
+    queryKey: ["analytics", calendarId, from, to],
+    queryFn: async () => {
+      const params = new URLSearchParams({ calendarId, from, to })
+      return apiGet<CalendarAnalytics>(`${ApiRoutes.ANALYTICS}?${params.toString()}`)
+    },
+    enabled: !!calendarId,
+  })
+
+  return {
+    analytics: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+  }
+}
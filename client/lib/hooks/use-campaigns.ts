@@ -0,0 +1,55 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { Campaign, CampaignInput } from "@/lib/types"
+import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+
+export function useCampaigns(calendarId: string) {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: ["campaigns", calendarId],
+    queryFn: async () => {
+      return apiGet<Campaign[]>(`${ApiRoutes.CAMPAIGNS}?calendarId=${calendarId}`)
+    },
+    enabled: !!calendarId,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (input: CampaignInput) => {
+      return apiPost<Campaign>(ApiRoutes.CAMPAIGNS, { ...input, calendarId })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns", calendarId] })
+    },
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, input }: { id: string; input: CampaignInput }) => {
+      return apiPut<Campaign>(`${ApiRoutes.CAMPAIGNS}/${id}`, input)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns", calendarId] })
+    },
+  })
+
+  // Deleting unlinks the campaign's posts, notes and media, so those are refetched too.
+  const deleteMutation = useMutation({
+    mutationFn: async (campaignId: string) => {
+      return apiDelete(`${ApiRoutes.CAMPAIGNS}/${campaignId}`)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns", calendarId] })
+      queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+      queryClient.invalidateQueries({ queryKey: ["notes", calendarId] })
+      queryClient.invalidateQueries({ queryKey: ["media", calendarId] })
+    },
+  })
+
+  return {
+    campaigns: query.data ?? [],
+    isLoading: query.isLoading,
+    createCampaign: createMutation,
+    updateCampaign: updateMutation,
+    deleteCampaign: deleteMutation,
+  }
+}
@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { ChatThread, ChatThreadMessage } from "@/lib/types"
+import { apiGet, apiPut, apiDelete } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+
+export interface ChatThreadDetail {
+  thread: ChatThread
+  messages: ChatThreadMessage[]
+}
+
+export function fetchChatThread(threadId: string) {
+  return apiGet<ChatThreadDetail>(`${ApiRoutes.AI.THREADS}/${encodeURIComponent(threadId)}`)
+}
+
+export function useChatThreads(calendarId: string | null | undefined) {
+  const queryClient = useQueryClient()
+  const queryKey = ["chat-threads", calendarId]
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async () => {
+      return apiGet<ChatThread[]>(`${ApiRoutes.AI.THREADS}?calendarId=${calendarId}`)
+    },
+    enabled: !!calendarId,
+  })
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      return apiPut<ChatThread>(`${ApiRoutes.AI.THREADS}/${encodeURIComponent(id)}`, { title })
+    },
+    onMutate: async ({ id, title }) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previousThreads = queryClient.getQueryData<ChatThread[]>(queryKey)
+
+      queryClient.setQueryData<ChatThread[]>(queryKey, (old = []) =>
+        old.map((thread) => (thread.id === id ? { ...thread, title } : thread)),
+      )
+
+      return { previousThreads }
+    },
+    onError: (_err, _vars, context) => {
+      if (context?.previousThreads) {
+        queryClient.setQueryData(queryKey, context.previousThreads)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey })
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (threadId: string) => {
+      return apiDelete(`${ApiRoutes.AI.THREADS}/${encodeURIComponent(threadId)}`)
+    },
+    onMutate: async (threadId) => {
+      await queryClient.cancelQueries({ queryKey })
+      const previousThreads = queryClient.getQueryData<ChatThread[]>(queryKey)
+
+      queryClient.setQueryData<ChatThread[]>(queryKey, (old = []) =>
+        old.filter((thread) => thread.id !== threadId),
+      )
+
+      return { previousThreads }
+    },
+    onError: (_err, _threadId, context) => {
+      if (context?.previousThreads) {
+        queryClient.setQueryData(queryKey, context.previousThreads)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey })
+    },
+  })
+
+  return {
+    threads: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+    renameThread: renameMutation,
+    deleteThread: deleteMutation,
+  }
+}
@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { CommunityMember, CommunityMemberProfile, MemberNote } from "@/lib/types"
+import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+
+export function useCommunityMember(calendarId: string, memberId: string | null) {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: ["community-member", memberId],
+    queryFn: async () => {
+      return apiGet<CommunityMemberProfile>(`${ApiRoutes.COMMUNITY_MEMBERS}/${memberId}`)
+    },
+    enabled: !!memberId,
+  })
+
+  // Muting or blocking hides the member's messages, so the inbox is refetched too.
+  const updateFlagsMutation = useMutation({
+    mutationFn: async (flags: { isBlocked?: boolean; isMuted?: boolean }) => {
+      return apiPut<CommunityMember>(`${ApiRoutes.COMMUNITY_MEMBERS}/${memberId}`, flags)
+    },
+    onMutate: async (flags) => {
+      await queryClient.cancelQueries({ queryKey: ["community-member", memberId] })
+      const previousProfile = queryClient.getQueryData<CommunityMemberProfile>(["community-member", memberId])
+
+      queryClient.setQueryData<CommunityMemberProfile>(["community-member", memberId], (old) =>
+        old ? { ...old, member: { ...old.member, ...flags } } : old,
+      )
+
+      return { previousProfile }
+    },
+    onError: (_err, _flags, context) => {
+      if (context?.previousProfile) {
+        queryClient.setQueryData(["community-member", memberId], context.previousProfile)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["community-member", memberId] })
+      queryClient.invalidateQueries({ queryKey: ["inbox", calendarId] })
+    },
+  })
+
+  const addNoteMutation = useMutation({
+    mutationFn: async (content: string) => {
+      return apiPost<MemberNote>(`${ApiRoutes.COMMUNITY_MEMBERS}/${memberId}/notes`, { content })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["community-member", memberId] })
+    },
+  })
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      return apiDelete(`${ApiRoutes.COMMUNITY_MEMBERS}/${memberId}/notes/${noteId}`)
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["community-member", memberId] })
+    },
+  })
+
+  return {
+    profile: query.data ?? null,
+    isLoading: query.isLoading,
+    updateFlags: updateFlagsMutation,
+    addNote: addNoteMutation,
+    deleteNote: deleteNoteMutation,
+  }
+}
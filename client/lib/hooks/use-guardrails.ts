@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { GuardrailBlock, GuardrailSettings } from "@/lib/types"
+import { apiGet, apiPut } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+
+export function useGuardrails(calendarId: string) {
+  const queryClient = useQueryClient()
+
+  const settingsQuery = useQuery({
+    queryKey: ["guardrails", calendarId],
+    queryFn: async () => {
+      return apiGet<GuardrailSettings>(`${ApiRoutes.GUARDRAILS}?calendarId=${calendarId}`)
+    },
+    enabled: !!calendarId,
+  })
+
+  const blocksQuery = useQuery({
+    queryKey: ["guardrail-blocks", calendarId],
+    queryFn: async () => {
+      return apiGet<GuardrailBlock[]>(`${ApiRoutes.GUARDRAILS}/blocks?calendarId=${calendarId}`)
+    },
+    enabled: !!calendarId,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async (settings: GuardrailSettings) => {
+      return apiPut<GuardrailSettings>(ApiRoutes.GUARDRAILS, settings)
+    },
+    onMutate: async (updatedSettings) => {
+      await queryClient.cancelQueries({ queryKey: ["guardrails", calendarId] })
+      const previousSettings = queryClient.getQueryData<GuardrailSettings>(["guardrails", calendarId])
+
+      queryClient.setQueryData<GuardrailSettings>(["guardrails", calendarId], updatedSettings)
+
+      return { previousSettings }
+    },
+    onError: (_err, _updatedSettings, context) => {
+      if (context?.previousSettings) {
+        queryClient.setQueryData(["guardrails", calendarId], context.previousSettings)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["guardrails", calendarId] })
+    },
+  })
+
+  return {
+    settings: settingsQuery.data,
+    blocks: blocksQuery.data ?? [],
+    isLoading: settingsQuery.isLoading,
+    isLoadingBlocks: blocksQuery.isLoading,
+    updateSettings: updateMutation,
+  }
+}
@@ -0,0 +1,107 @@
+import { useEffect } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { InboxFilters, InboxMessage, InboxReplyDraft, Sentiment } from "@/lib/types"
+import { apiGet, apiPost, apiPut } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+import { supabase } from "@/lib/supabase/client"
+
+function buildInboxQuery(calendarId: string, filters: InboxFilters) {
+  const params = new URLSearchParams({ calendarId })
+  if (filters.type) params.set("type", filters.type)
+  if (filters.platform) params.set("platform", filters.platform)
+  if (filters.sentiment) params.set("sentiment", filters.sentiment)
+  if (filters.replied !== undefined) params.set("replied", String(filters.replied))
+  if (filters.includeMuted) params.set("includeMuted", "true")
+  return params.toString()
+}
+
+export function useInbox(calendarId: string, filters: InboxFilters = {}) {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: ["inbox", calendarId, filters],
+    queryFn: async () => {
+      return apiGet<InboxMessage[]>(`${ApiRoutes.INBOX}?${buildInboxQuery(calendarId, filters)}`)
+    },
+    enabled: !!calendarId,
+  })
+
+  // New messages arrive from the platforms rather than from this client, so
+  // any change to the calendar's inbox refetches every filtered view.
+  useEffect(() => {
+    if (!calendarId) return
+
+    const channel = supabase
+      .channel(`inbox:${calendarId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "inbox_messages", filter: `calendar_id=eq.${calendarId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["inbox", calendarId] })
+          queryClient.invalidateQueries({ queryKey: ["community-member"] })
+        },
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [calendarId, queryClient])
+
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      id,
+      ...updates
+    }: { id: string; draft?: string | null; liked?: boolean; sentiment?: Sentiment; replied?: boolean }) => {
+      return apiPut<InboxMessage>(`${ApiRoutes.INBOX}/${id}`, updates)
+    },
+    onSuccess: (message) => {
+      queryClient.setQueriesData<InboxMessage[]>({ queryKey: ["inbox", calendarId] }, (old) =>
+        old?.map((m) => (m.id === message.id ? message : m)),
+      )
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["inbox", calendarId] })
+    },
+  })
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: string; content: string }) => {
+      return apiPost<InboxMessage>(`${ApiRoutes.INBOX}/${id}/reply`, { content })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["inbox", calendarId] })
+    },
+  })
+
+  // Only fills the message's draft; the reply is sent with replyToMessage.
+  const draftReplyMutation = useMutation({
+    mutationFn: async (messageId: string) => {
+      return apiPost<InboxReplyDraft>(ApiRoutes.AI.DRAFT_REPLY, { calendarId, messageId })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["inbox", calendarId] })
+    },
+  })
+
+  const classifyMutation = useMutation({
+    mutationFn: async () => {
+      return apiPost<{ classified: number; failed: number; hasMore: boolean }>(ApiRoutes.INBOX_CLASSIFY_SENTIMENT, {
+        calendarId,
+      })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["inbox", calendarId] })
+    },
+  })
+
+  return {
+    messages: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    updateMessage: updateMutation,
+    replyToMessage: replyMutation,
+    draftReply: draftReplyMutation,
+    classifySentiment: classifyMutation,
+  }
+}
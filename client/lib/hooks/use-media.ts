@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import type { MediaItem } from "@/lib/types"
-import { apiGet, apiDelete } from "@/lib/api-client"
+import { apiGet, apiPut, apiDelete } from "@/lib/api-client"
 
 export function useMedia(calendarId: string) {
   const queryClient = useQueryClient()
@@ -13,6 +13,30 @@ export function useMedia(calendarId: string) {
     enabled: !!calendarId,
   })
 
+  const updateCampaignMutation = useMutation({
+    mutationFn: async ({ id, campaignId }: { id: string; campaignId: string | null }) => {
+      return apiPut<MediaItem>(`/api/media?id=${id}`, { campaignId })
+    },
+    onMutate: async ({ id, campaignId }) => {
+      await queryClient.cancelQueries({ queryKey: ["media", calendarId] })
+      const previousMedia = queryClient.getQueryData<MediaItem[]>(["media", calendarId])
+
+      queryClient.setQueryData<MediaItem[]>(["media", calendarId], (old = []) =>
+        old.map((item) => (item.id === id ? { ...item, campaignId } : item)),
+      )
+
+      return { previousMedia }
+    },
+    onError: (_err, _update, context) => {
+      if (context?.previousMedia) {
+        queryClient.setQueryData(["media", calendarId], context.previousMedia)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["media", calendarId] })
+    },
+  })
+
   const deleteMutation = useMutation({
     mutationFn: async (mediaId: string) => {
       return apiDelete(`/api/media?id=${mediaId}`)
@@ -41,6 +65,7 @@ export function useMedia(calendarId: string) {
     media: query.data ?? [],
     isLoading: query.isLoading,
     error: query.error,
+    updateMediaCampaign: updateCampaignMutation,
     deleteMedia: deleteMutation,
   }
 }
@@ -15,11 +15,12 @@ export function useNotes(calendarId: string) {
   })
 
   const createMutation = useMutation({
-    mutationFn: async (data: { title: string; content: any }) => {
+    mutationFn: async (data: { title: string; content: any; campaignId?: string | null }) => {
       return apiPost<Note>(ApiRoutes.NOTES, {
         calendarId,
         title: data.title,
         content: data.content || null,
+        campaignId: data.campaignId ?? null,
       })
     },
     onSuccess: () => {
@@ -28,10 +29,21 @@ export function useNotes(calendarId: string) {
   })
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, title, content }: { id: string; title: string; content: any }) => {
+    mutationFn: async ({
+      id,
+      title,
+      content,
+      campaignId,
+    }: {
+      id: string
+      title: string
+      content: any
+      campaignId?: string | null
+    }) => {
       return apiPut<Note>(`${ApiRoutes.NOTES}/${id}`, {
         title,
         content,
+        campaignId,
       })
     },
     onSuccess: () => {
@@ -0,0 +1,71 @@
+import { useEffect } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { Notification } from "@/lib/types"
+import { apiGet, apiPost } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+import { supabase } from "@/lib/supabase/client"
+
+export function useNotifications(userId: string | undefined) {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: ["notifications"],
+    queryFn: async () => {
+      return apiGet<Notification[]>(ApiRoutes.NOTIFICATIONS)
+    },
+    enabled: !!userId,
+  })
+
+  useEffect(() => {
+    if (!userId) return
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["notifications"] })
+        },
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, queryClient])
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      return apiPost<{ success: boolean }>(`${ApiRoutes.NOTIFICATIONS}/read`, { ids })
+    },
+    onMutate: async (ids) => {
+      await queryClient.cancelQueries({ queryKey: ["notifications"] })
+      const previousNotifications = queryClient.getQueryData<Notification[]>(["notifications"])
+
+      const readAt = new Date()
+      queryClient.setQueryData<Notification[]>(["notifications"], (old = []) =>
+        old.map((n) => (!n.readAt && (!ids || ids.includes(n.id)) ? { ...n, readAt } : n)),
+      )
+
+      return { previousNotifications }
+    },
+    onError: (_err, _ids, context) => {
+      if (context?.previousNotifications) {
+        queryClient.setQueryData(["notifications"], context.previousNotifications)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] })
+    },
+  })
+
+  const notifications = query.data ?? []
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.readAt).length,
+    isLoading: query.isLoading,
+    markRead: markReadMutation,
+  }
+}
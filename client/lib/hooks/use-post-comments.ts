@@ -0,0 +1,97 @@
+import { useEffect } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { Comment, MentionableMember } from "@/lib/types"
+import { apiGet, apiPost, apiDelete } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+import { supabase } from "@/lib/supabase/client"
+
+export function usePostComments(calendarId: string, postId: string) {
+  const queryClient = useQueryClient()
+  const isSaved = !!postId && !postId.startsWith("temp-")
+
+  const commentsQuery = useQuery({
+    queryKey: ["post-comments", postId],
+    queryFn: async () => {
+      return apiGet<Comment[]>(`${ApiRoutes.POSTS}/${postId}/comments?calendarId=${calendarId}`)
+    },
+    enabled: !!calendarId && isSaved,
+  })
+
+  const membersQuery = useQuery({
+    queryKey: ["mentionable-members", calendarId],
+    queryFn: async () => {
+      return apiGet<MentionableMember[]>(`${ApiRoutes.POSTS_MENTIONS}?calendarId=${calendarId}`)
+    },
+    enabled: !!calendarId,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  // Collaborators' comments arrive over Supabase realtime; the query refetch
+  // keeps the REST route as the single source of comment data.
+  useEffect(() => {
+    if (!isSaved) return
+
+    const channel = supabase
+      .channel(`post-comments:${postId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "post_comments", filter: `post_id=eq.${postId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["post-comments", postId] })
+          queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+        },
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [calendarId, postId, isSaved, queryClient])
+
+  const addMutation = useMutation({
+    mutationFn: async (content: string) => {
+      return apiPost<Comment>(`${ApiRoutes.POSTS}/${postId}/comments`, { calendarId, content })
+    },
+    onSuccess: (comment) => {
+      queryClient.setQueryData<Comment[]>(["post-comments", postId], (old = []) =>
+        old.some((c) => c.id === comment.id) ? old : [...old, comment],
+      )
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      return apiDelete(`${ApiRoutes.POSTS}/${postId}/comments/${commentId}?calendarId=${calendarId}`)
+    },
+    onMutate: async (commentId) => {
+      await queryClient.cancelQueries({ queryKey: ["post-comments", postId] })
+      const previousComments = queryClient.getQueryData<Comment[]>(["post-comments", postId])
+
+      queryClient.setQueryData<Comment[]>(["post-comments", postId], (old = []) =>
+        old.filter((c) => c.id !== commentId),
+      )
+
+      return { previousComments }
+    },
+    onError: (_err, _commentId, context) => {
+      if (context?.previousComments) {
+        queryClient.setQueryData(["post-comments", postId], context.previousComments)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["post-comments", postId] })
+      queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+    },
+  })
+
+  return {
+    comments: commentsQuery.data ?? [],
+    members: membersQuery.data ?? [],
+    isLoading: commentsQuery.isLoading,
+    addComment: addMutation,
+    deleteComment: deleteMutation,
+  }
+}
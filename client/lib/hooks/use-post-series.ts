@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { PostSeries, PostSeriesInput } from "@/lib/types"
+import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+
+type SeriesSaveResult = { series: PostSeries; created: number }
+
+// Saving or deleting a series adds and removes draft posts, so posts are refetched too.
+export function usePostSeries(calendarId: string) {
+  const queryClient = useQueryClient()
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["post-series", calendarId] })
+    queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+  }
+
+  const query = useQuery({
+    queryKey: ["post-series", calendarId],
+    queryFn: async () => {
+      return apiGet<PostSeries[]>(`${ApiRoutes.POST_SERIES}?calendarId=${calendarId}`)
+    },
+    enabled: !!calendarId,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (input: PostSeriesInput) => {
+      return apiPost<SeriesSaveResult>(ApiRoutes.POST_SERIES, { ...input, calendarId })
+    },
+    onSettled: invalidate,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, input }: { id: string; input: PostSeriesInput }) => {
+      return apiPut<SeriesSaveResult>(`${ApiRoutes.POST_SERIES}/${id}`, input)
+    },
+    onSettled: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (seriesId: string) => {
+      return apiDelete(`${ApiRoutes.POST_SERIES}/${seriesId}`)
+    },
+    onSettled: invalidate,
+  })
+
+  return {
+    series: query.data ?? [],
+    isLoading: query.isLoading,
+    createSeries: createMutation,
+    updateSeries: updateMutation,
+    deleteSeries: deleteMutation,
+  }
+}
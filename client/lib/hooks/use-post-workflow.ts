@@ -0,0 +1,33 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { Platform, PostStatus, PostVariant, PostWorkflow } from "@/lib/types"
+import { apiGet, apiPost } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+
+export function usePostWorkflow(calendarId: string, postId: string) {
+  const queryClient = useQueryClient()
+
+  const workflowQuery = useQuery({
+    queryKey: ["post-workflow", postId],
+    queryFn: async () => {
+      return apiGet<PostWorkflow>(`${ApiRoutes.POSTS_WORKFLOW}?calendarId=${calendarId}&postId=${postId}`)
+    },
+    enabled: !!calendarId && !!postId && !postId.startsWith("temp-"),
+  })
+
+  const changeStatusMutation = useMutation({
+    mutationFn: async (change: { platform: Platform; status: PostStatus; reason?: string }) => {
+      return apiPost<PostVariant>(ApiRoutes.POSTS_STATUS, { calendarId, postId, ...change })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+      queryClient.invalidateQueries({ queryKey: ["post-workflow", postId] })
+    },
+  })
+
+  return {
+    canApprove: workflowQuery.data?.canApprove ?? false,
+    history: workflowQuery.data?.history ?? [],
+    isLoadingHistory: workflowQuery.isLoading,
+    changeStatus: changeStatusMutation,
+  }
+}
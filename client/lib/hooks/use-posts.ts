@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
-import type { Post } from "@/lib/types"
+import type { BulkPostAction, BulkPostResult, Post } from "@/lib/types"
 import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/api-client"
 import { ApiRoutes } from "@/lib/api-routes"
 
@@ -100,6 +100,15 @@ export function usePosts(calendarId: string) {
     },
   })
 
+  const bulkMutation = useMutation({
+    mutationFn: async ({ postIds, action }: { postIds: string[]; action: BulkPostAction }) => {
+      return apiPost<BulkPostResult>(ApiRoutes.POSTS_BULK, { calendarId, postIds, action })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+    },
+  })
+
   return {
     posts: query.data ?? [],
     isLoading: query.isLoading,
@@ -107,5 +116,6 @@ export function usePosts(calendarId: string) {
     createPost: createMutation,
     updatePost: updateMutation,
     deletePost: deleteMutation,
+    bulkUpdate: bulkMutation,
   }
 }
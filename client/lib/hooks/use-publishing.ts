@@ -0,0 +1,34 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import type { PublishAttempt, PublishOutcome } from "@/lib/types"
+import { apiGet, apiPost } from "@/lib/api-client"
+import { ApiRoutes } from "@/lib/api-routes"
+
+export function usePublishing(calendarId: string, postId: string) {
+  const queryClient = useQueryClient()
+
+  const attemptsQuery = useQuery({
+    queryKey: ["publish-attempts", postId],
+    queryFn: async () => {
+      return apiGet<PublishAttempt[]>(
+        `${ApiRoutes.POSTS_PUBLISH_ATTEMPTS}?calendarId=${calendarId}&postId=${postId}`,
+      )
+    },
+    enabled: !!calendarId && !!postId && !postId.startsWith("temp-"),
+  })
+
+  const publishMutation = useMutation({
+    mutationFn: async (variantId: string) => {
+      return apiPost<PublishOutcome>(ApiRoutes.POSTS_PUBLISH, { calendarId, variantId })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["posts", calendarId] })
+      queryClient.invalidateQueries({ queryKey: ["publish-attempts", postId] })
+    },
+  })
+
+  return {
+    attempts: attemptsQuery.data ?? [],
+    isLoadingAttempts: attemptsQuery.isLoading,
+    publishNow: publishMutation,
+  }
+}
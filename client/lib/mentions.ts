@@ -0,0 +1 @@
+export { findMentionedMembers, splitMentions } from "../../shared/mentions"
@@ -0,0 +1 @@
+export { checkPlatformRules, platformProfiles, PLATFORMS, splitIntoThread } from "../../shared/platforms"
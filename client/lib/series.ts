@@ -0,0 +1 @@
+export { SERIES_PLACEHOLDERS } from "../../shared/series"
@@ -6,6 +6,8 @@ import CalendarPage from "./pages/calendar"
 import LibraryPage from "./pages/library"
 import BrandVoicePage from "./pages/brand-voice"
 import NotesPage from "./pages/notes"
+import InboxPage from "./pages/inbox"
+import AnalyticsPage from "./pages/analytics"
 import ProfilePage from "./pages/profile"
 import SettingsPage from "./pages/settings"
 import AppLayout from "../components/layout/app-layout"
@@ -54,6 +56,8 @@ export default function App() {
         <Route path="library" element={<LibraryPage />} />
         <Route path="brand-voice" element={<BrandVoicePage />} />
         <Route path="notes" element={<NotesPage />} />
+        <Route path="inbox" element={<InboxPage />} />
+        <Route path="analytics" element={<AnalyticsPage />} />
         <Route path="profile" element={<ProfilePage />} />
         <Route path="settings" element={<SettingsPage />} />
       </Route>
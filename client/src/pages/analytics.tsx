@@ -0,0 +1,20 @@
+import { useParams } from "react-router-dom"
+import { AnalyticsView } from "../../components/analytics/analytics-view"
+import { useCalendars } from "@/lib/hooks/use-calendars"
+
+export default function AnalyticsPage() {
+  const { calendarSlug } = useParams()
+  const { calendars, isLoading } = useCalendars()
+
+  const calendar = calendars.find((c) => c.slug === calendarSlug)
+
+  if (isLoading) {
+    return <div>Loading...</div>
+  }
+
+  if (!calendarSlug || !calendar) {
+    return <div>Calendar not found...</div>
+  }
+
+  return <AnalyticsView calendarId={calendar.id} />
+}
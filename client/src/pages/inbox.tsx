@@ -0,0 +1,21 @@
+import { useParams } from "react-router-dom"
+import { InboxView } from "../../components/inbox/inbox-view"
+import { useCalendars } from "@/lib/hooks/use-calendars"
+
+export default function InboxPage() {
+  const { calendarSlug } = useParams()
+  const { calendars, isLoading } = useCalendars()
+
+  const calendar = calendars.find((c) => c.slug === calendarSlug)
+
+  if (isLoading) {
+    return <div>Loading...</div>
+  }
+
+  if (!calendarSlug || !calendar) {
+    return <div>Calendar not found...</div>
+  }
+
+  return <InboxView calendarId={calendar.id} />
+}
+
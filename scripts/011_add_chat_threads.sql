@@ -0,0 +1,56 @@
+-- Create chat_threads table (one row per AI assistant conversation)
+CREATE TABLE IF NOT EXISTS chat_threads (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  calendar_id UUID NOT NULL REFERENCES calendars(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create chat_checkpoints table (LangGraph checkpoints, serialized by the server)
+CREATE TABLE IF NOT EXISTS chat_checkpoints (
+  thread_id TEXT NOT NULL REFERENCES chat_threads(id) ON DELETE CASCADE,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  parent_checkpoint_id TEXT,
+  type TEXT NOT NULL,
+  checkpoint TEXT NOT NULL,
+  metadata TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id)
+);
+
+-- Create chat_checkpoint_writes table (pending writes linked to a checkpoint)
+CREATE TABLE IF NOT EXISTS chat_checkpoint_writes (
+  thread_id TEXT NOT NULL REFERENCES chat_threads(id) ON DELETE CASCADE,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  idx INTEGER NOT NULL,
+  channel TEXT NOT NULL,
+  type TEXT NOT NULL,
+  value TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_chat_threads_user_calendar ON chat_threads(user_id, calendar_id);
+CREATE INDEX IF NOT EXISTS idx_chat_threads_updated_at ON chat_threads(updated_at DESC);
+
+-- Create function to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_chat_threads_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to auto-update updated_at
+DROP TRIGGER IF EXISTS chat_threads_updated_at ON chat_threads;
+CREATE TRIGGER chat_threads_updated_at
+  BEFORE UPDATE ON chat_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_chat_threads_updated_at();
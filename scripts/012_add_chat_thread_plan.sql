@@ -0,0 +1,2 @@
+-- Store the active agent plan on each chat thread so resumed runs keep it
+ALTER TABLE chat_threads ADD COLUMN IF NOT EXISTS active_plan JSONB;
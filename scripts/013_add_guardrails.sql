@@ -0,0 +1,41 @@
+-- Create guardrail_settings table (one row per calendar; missing rows use the defaults below)
+CREATE TABLE IF NOT EXISTS guardrail_settings (
+  calendar_id UUID PRIMARY KEY REFERENCES calendars(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  fail_mode TEXT NOT NULL DEFAULT 'open' CHECK (fail_mode IN ('open', 'closed')),
+  allowed_topics TEXT[] NOT NULL DEFAULT '{}',
+  output_checks_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create guardrail_blocks table (audit log of blocked inputs and answers)
+CREATE TABLE IF NOT EXISTS guardrail_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id UUID NOT NULL REFERENCES calendars(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  thread_id TEXT REFERENCES chat_threads(id) ON DELETE SET NULL,
+  stage TEXT NOT NULL CHECK (stage IN ('input', 'output')),
+  category TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_guardrail_blocks_calendar ON guardrail_blocks(calendar_id, created_at DESC);
+
+-- Create trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_guardrail_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guardrail_settings_updated_at ON guardrail_settings;
+CREATE TRIGGER guardrail_settings_updated_at
+  BEFORE UPDATE ON guardrail_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_guardrail_settings_updated_at();
@@ -0,0 +1,37 @@
+-- Create post_variants table (one row per target platform of a post)
+CREATE TABLE IF NOT EXISTS post_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('instagram', 'twitter', 'linkedin')),
+  caption TEXT NOT NULL DEFAULT '',
+  images TEXT[] DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'awaiting_approval', 'approved', 'rejected', 'published')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (post_id, platform)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_post_variants_post ON post_variants(post_id);
+
+-- Move each existing post's platform, caption, images and status into its first variant
+INSERT INTO post_variants (post_id, platform, caption, images, status, created_at)
+SELECT id, platform, caption, images, status, created_at
+FROM posts
+ON CONFLICT (post_id, platform) DO NOTHING;
+
+ALTER TABLE posts
+  DROP COLUMN IF EXISTS caption,
+  DROP COLUMN IF EXISTS images,
+  DROP COLUMN IF EXISTS platform,
+  DROP COLUMN IF EXISTS status;
+
+-- Reuse the updated_at trigger function from 002_add_posts_table.sql
+DROP TRIGGER IF EXISTS update_post_variants_updated_at ON post_variants;
+CREATE TRIGGER update_post_variants_updated_at
+  BEFORE UPDATE ON post_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Realtime for post_variants table
+ALTER PUBLICATION supabase_realtime ADD TABLE post_variants;
@@ -0,0 +1,30 @@
+-- Track publishing state on each platform variant
+ALTER TABLE post_variants
+  ADD COLUMN IF NOT EXISTS publish_attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_publish_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS publish_locked_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS publish_error TEXT,
+  ADD COLUMN IF NOT EXISTS publish_failed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS external_post_id TEXT,
+  ADD COLUMN IF NOT EXISTS external_url TEXT,
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+-- Create publish_attempts table (one row per adapter call)
+CREATE TABLE IF NOT EXISTS publish_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  variant_id UUID NOT NULL REFERENCES post_variants(id) ON DELETE CASCADE,
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('succeeded', 'failed')),
+  error TEXT,
+  retryable BOOLEAN,
+  external_post_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_post_variants_publish_queue
+  ON post_variants(status, next_publish_attempt_at)
+  WHERE status = 'approved' AND publish_failed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_publish_attempts_post ON publish_attempts(post_id, created_at DESC);
@@ -0,0 +1,18 @@
+-- Create post_status_history table (one row per status transition of a variant)
+CREATE TABLE IF NOT EXISTS post_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  variant_id UUID NOT NULL REFERENCES post_variants(id) ON DELETE CASCADE,
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+  from_status TEXT NOT NULL CHECK (from_status IN ('draft', 'awaiting_approval', 'approved', 'rejected', 'published')),
+  to_status TEXT NOT NULL CHECK (to_status IN ('draft', 'awaiting_approval', 'approved', 'rejected', 'published')),
+  reason TEXT,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('user', 'ai', 'scheduler')),
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (to_status <> 'rejected' OR coalesce(trim(reason), '') <> '')
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_post_status_history_post ON post_status_history(post_id, created_at DESC);
@@ -0,0 +1,8 @@
+-- Keep the reply that was sent for each inbox message
+ALTER TABLE inbox_messages
+  ADD COLUMN IF NOT EXISTS reply_content TEXT,
+  ADD COLUMN IF NOT EXISTS replied_at TIMESTAMPTZ;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_inbox_messages_calendar_created ON inbox_messages(calendar_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inbox_messages_unreplied ON inbox_messages(calendar_id) WHERE replied = FALSE;
@@ -0,0 +1,10 @@
+-- Link community members to the platform account their inbox messages come from
+ALTER TABLE community_members
+  ADD COLUMN IF NOT EXISTS platform TEXT CHECK (platform IN ('instagram', 'twitter', 'linkedin')),
+  ADD COLUMN IF NOT EXISTS platform_user_id TEXT;
+
+-- Platform accounts don't expose an email address
+ALTER TABLE community_members ALTER COLUMN email DROP NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_community_members_platform_user
+  ON community_members(calendar_id, platform, platform_user_id);
@@ -0,0 +1,10 @@
+-- Store automatic sentiment classification details on inbox messages
+ALTER TABLE inbox_messages
+  ADD COLUMN IF NOT EXISTS sentiment_confidence REAL CHECK (sentiment_confidence BETWEEN 0 AND 1),
+  ADD COLUMN IF NOT EXISTS is_urgent BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS sentiment_classified_at TIMESTAMPTZ;
+
+-- Find messages the classifier hasn't seen yet
+CREATE INDEX IF NOT EXISTS idx_inbox_messages_unclassified
+  ON inbox_messages(calendar_id)
+  WHERE sentiment_classified_at IS NULL AND sentiment_overridden = FALSE;
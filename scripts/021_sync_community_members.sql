@@ -0,0 +1,92 @@
+-- Keep community members in sync with the inbox: every inbox message belongs
+-- to the member behind its platform account, and the member's counters
+-- follow the messages instead of being edited by hand.
+
+ALTER TABLE inbox_messages
+  ADD COLUMN IF NOT EXISTS member_id UUID REFERENCES community_members(id) ON DELETE SET NULL;
+
+ALTER TABLE community_members
+  ADD COLUMN IF NOT EXISTS last_message_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_inbox_messages_member ON inbox_messages(member_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_community_members_last_message ON community_members(calendar_id, last_message_at DESC);
+
+-- Find or create the sender's member before the message is stored
+CREATE OR REPLACE FUNCTION link_inbox_message_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO community_members (calendar_id, platform, platform_user_id, name, avatar)
+  VALUES (NEW.calendar_id, NEW.platform, NEW.user_id, NEW.user_name, NEW.user_avatar)
+  ON CONFLICT (calendar_id, platform, platform_user_id) DO UPDATE
+    SET name = EXCLUDED.name,
+        avatar = COALESCE(EXCLUDED.avatar, community_members.avatar)
+  RETURNING id INTO NEW.member_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inbox_messages_link_member ON inbox_messages;
+CREATE TRIGGER inbox_messages_link_member
+  BEFORE INSERT ON inbox_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION link_inbox_message_member();
+
+-- Recount a member's messages whenever one is added or removed
+CREATE OR REPLACE FUNCTION refresh_community_member_stats(target_member_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE community_members
+  SET stats_comments = counts.comments,
+      stats_mentions = counts.mentions,
+      stats_dms = counts.dms,
+      last_message_at = counts.last_message_at
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE type = 'comment') AS comments,
+      COUNT(*) FILTER (WHERE type = 'mention') AS mentions,
+      COUNT(*) FILTER (WHERE type = 'dm') AS dms,
+      MAX(created_at) AS last_message_at
+    FROM inbox_messages
+    WHERE member_id = target_member_id
+  ) AS counts
+  WHERE community_members.id = target_member_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_community_member_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.member_id IS NOT NULL THEN
+    PERFORM refresh_community_member_stats(NEW.member_id);
+  END IF;
+  IF TG_OP IN ('DELETE', 'UPDATE') AND OLD.member_id IS NOT NULL
+     AND (TG_OP = 'DELETE' OR OLD.member_id IS DISTINCT FROM NEW.member_id) THEN
+    PERFORM refresh_community_member_stats(OLD.member_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inbox_messages_member_stats ON inbox_messages;
+CREATE TRIGGER inbox_messages_member_stats
+  AFTER INSERT OR DELETE OR UPDATE OF member_id, type ON inbox_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_community_member_stats();
+
+-- Backfill members and counters for messages that arrived before this migration
+INSERT INTO community_members (calendar_id, platform, platform_user_id, name, avatar)
+SELECT DISTINCT ON (calendar_id, platform, user_id) calendar_id, platform, user_id, user_name, user_avatar
+FROM inbox_messages
+ORDER BY calendar_id, platform, user_id, created_at DESC
+ON CONFLICT (calendar_id, platform, platform_user_id) DO NOTHING;
+
+UPDATE inbox_messages
+SET member_id = community_members.id
+FROM community_members
+WHERE inbox_messages.member_id IS NULL
+  AND community_members.calendar_id = inbox_messages.calendar_id
+  AND community_members.platform = inbox_messages.platform
+  AND community_members.platform_user_id = inbox_messages.user_id;
+
@@ -0,0 +1,4 @@
+-- Keep the latest brand voice score of each post variant for analytics
+ALTER TABLE post_variants
+  ADD COLUMN IF NOT EXISTS brand_score INTEGER CHECK (brand_score BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS brand_scored_at TIMESTAMPTZ;
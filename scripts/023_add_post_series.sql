@@ -0,0 +1,44 @@
+-- Create post_series table (a recurring post format that expands into draft posts)
+CREATE TABLE IF NOT EXISTS post_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id UUID NOT NULL REFERENCES calendars(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval BETWEEN 1 AND 12),
+  weekdays INTEGER[] NOT NULL DEFAULT '{}',
+  month_day INTEGER CHECK (month_day BETWEEN 1 AND 31),
+  time TEXT NOT NULL DEFAULT '09:00',
+  starts_on DATE NOT NULL,
+  ends_on DATE,
+  caption_template TEXT NOT NULL DEFAULT '',
+  platforms TEXT[] NOT NULL DEFAULT '{instagram}',
+  images TEXT[] DEFAULT '{}',
+  author_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  author_name TEXT NOT NULL,
+  -- Occurrences up to and including this day have been created
+  generated_until DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (frequency <> 'weekly' OR cardinality(weekdays) > 0),
+  CHECK (frequency <> 'monthly' OR month_day IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_series_calendar ON post_series(calendar_id);
+
+-- Reuse the updated_at trigger function from 002_add_posts_table.sql
+DROP TRIGGER IF EXISTS update_post_series_updated_at ON post_series;
+CREATE TRIGGER update_post_series_updated_at
+  BEFORE UPDATE ON post_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Link generated posts to their series. An edited occurrence is detached but
+-- keeps its slot, so the series never creates that day again.
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES post_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS series_occurrence DATE,
+  ADD COLUMN IF NOT EXISTS series_detached BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Posts outside a series have NULLs here, which never conflict
+CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_series_occurrence
+  ON posts(series_id, series_occurrence);
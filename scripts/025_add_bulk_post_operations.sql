@@ -0,0 +1,174 @@
+-- Bulk operations on a selection of posts. Each function runs in a single
+-- transaction, so an error part way through leaves every post as it was.
+
+-- Lock the selected posts and their variants for the rest of the transaction.
+-- Fails when any post isn't in the calendar or has a published variant.
+CREATE OR REPLACE FUNCTION lock_bulk_posts(target_calendar_id UUID, target_post_ids UUID[], published_message TEXT)
+RETURNS VOID AS $$
+DECLARE
+  locked_count INTEGER;
+BEGIN
+  SELECT count(*) INTO locked_count
+  FROM (
+    SELECT id FROM posts
+    WHERE calendar_id = target_calendar_id
+      AND id = ANY(target_post_ids)
+    FOR UPDATE
+  ) AS locked;
+
+  IF locked_count <> cardinality(target_post_ids) THEN
+    RAISE EXCEPTION 'Some posts were not found in this calendar' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM 1 FROM post_variants WHERE post_id = ANY(target_post_ids) FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM post_variants WHERE post_id = ANY(target_post_ids) AND status = 'published') THEN
+    RAISE EXCEPTION '%', published_message USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move posts by a number of days, keeping their time of day. Moving a series
+-- occurrence detaches it from the series, like editing it does. Published
+-- posts can't be moved, and moved posts that were submitted or approved go
+-- back to draft for another approval.
+CREATE OR REPLACE FUNCTION bulk_reschedule_posts(
+  target_calendar_id UUID,
+  target_post_ids UUID[],
+  shift_days INTEGER,
+  change_actor_type TEXT,
+  change_actor_id UUID,
+  change_actor_name TEXT
+)
+RETURNS SETOF UUID AS $$
+BEGIN
+  PERFORM lock_bulk_posts(target_calendar_id, target_post_ids, 'Published posts can''t be rescheduled');
+
+  WITH reset AS (
+    UPDATE post_variants
+    SET status = 'draft'
+    FROM (
+      SELECT id, status FROM post_variants
+      WHERE post_id = ANY(target_post_ids)
+        AND status IN ('awaiting_approval', 'approved')
+    ) AS previous
+    WHERE post_variants.id = previous.id
+    RETURNING post_variants.id, post_variants.post_id, post_variants.platform, previous.status AS from_status
+  )
+  INSERT INTO post_status_history (variant_id, post_id, platform, from_status, to_status, reason, actor_type, actor_id, actor_name)
+  SELECT id, post_id, platform, from_status, 'draft', 'Rescheduled after it was submitted for approval', change_actor_type, change_actor_id, change_actor_name
+  FROM reset;
+
+  RETURN QUERY
+  UPDATE posts
+  SET date = date + make_interval(days => shift_days),
+      series_detached = series_detached OR series_id IS NOT NULL
+  WHERE calendar_id = target_calendar_id
+    AND id = ANY(target_post_ids)
+  RETURNING id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Delete posts, or none of them if any is missing or already published
+CREATE OR REPLACE FUNCTION bulk_delete_posts(target_calendar_id UUID, target_post_ids UUID[])
+RETURNS SETOF UUID AS $$
+BEGIN
+  PERFORM lock_bulk_posts(target_calendar_id, target_post_ids, 'Published posts can''t be deleted');
+
+  RETURN QUERY
+  DELETE FROM posts
+  WHERE calendar_id = target_calendar_id
+    AND id = ANY(target_post_ids)
+  RETURNING id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copy posts as new drafts, shifted by a number of days. Copies keep their
+-- campaign but not their series, comments or publishing state.
+CREATE OR REPLACE FUNCTION bulk_duplicate_posts(
+  target_calendar_id UUID,
+  target_post_ids UUID[],
+  shift_days INTEGER,
+  copy_author_id UUID,
+  copy_author_name TEXT
+)
+RETURNS SETOF UUID AS $$
+DECLARE
+  source posts%ROWTYPE;
+  copy_id UUID;
+  copied_count INTEGER := 0;
+BEGIN
+  FOR source IN
+    SELECT * FROM posts
+    WHERE calendar_id = target_calendar_id
+      AND id = ANY(target_post_ids)
+    ORDER BY date
+  LOOP
+    INSERT INTO posts (calendar_id, date, author_id, author_name, campaign_id)
+    VALUES (source.calendar_id, source.date + make_interval(days => shift_days), copy_author_id, copy_author_name, source.campaign_id)
+    RETURNING id INTO copy_id;
+
+    INSERT INTO post_variants (post_id, platform, caption, images, status)
+    SELECT copy_id, platform, caption, images, 'draft'
+    FROM post_variants
+    WHERE post_id = source.id;
+
+    copied_count := copied_count + 1;
+    RETURN NEXT copy_id;
+  END LOOP;
+
+  IF copied_count <> cardinality(target_post_ids) THEN
+    RAISE EXCEPTION 'Some posts were not found in this calendar' USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move variants to a new status and record each change in the status
+-- history. The caller checks the workflow rules; a variant whose status no
+-- longer matches the expected one aborts the whole change.
+CREATE OR REPLACE FUNCTION bulk_set_post_variant_status(
+  target_variant_ids UUID[],
+  expected_statuses TEXT[],
+  new_status TEXT,
+  change_reason TEXT,
+  change_actor_type TEXT,
+  change_actor_id UUID,
+  change_actor_name TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  changed post_variants%ROWTYPE;
+BEGIN
+  FOR i IN 1 .. cardinality(target_variant_ids) LOOP
+    UPDATE post_variants
+    SET status = new_status,
+        -- A re-approved post gets a fresh set of publish attempts.
+        publish_attempt_count = CASE WHEN new_status = 'approved' THEN 0 ELSE publish_attempt_count END,
+        publish_error = CASE WHEN new_status = 'approved' THEN NULL ELSE publish_error END,
+        publish_failed_at = CASE WHEN new_status = 'approved' THEN NULL ELSE publish_failed_at END,
+        next_publish_attempt_at = CASE WHEN new_status = 'approved' THEN NULL ELSE next_publish_attempt_at END
+    WHERE id = target_variant_ids[i]
+      AND status = expected_statuses[i]
+    RETURNING * INTO changed;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A post''s status changed in the meantime' USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    INSERT INTO post_status_history (variant_id, post_id, platform, from_status, to_status, reason, actor_type, actor_id, actor_name)
+    VALUES (changed.id, changed.post_id, changed.platform, expected_statuses[i], new_status, change_reason, change_actor_type, change_actor_id, change_actor_name);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Store the brand voice scores of a re-grade together
+CREATE OR REPLACE FUNCTION bulk_record_brand_scores(target_variant_ids UUID[], new_scores INTEGER[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE post_variants
+  SET brand_score = scores.score,
+      brand_scored_at = NOW()
+  FROM unnest(target_variant_ids, new_scores) AS scores(variant_id, score)
+  WHERE post_variants.id = scores.variant_id;
+END;
+$$ LANGUAGE plpgsql;
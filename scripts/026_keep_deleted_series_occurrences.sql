@@ -0,0 +1,51 @@
+-- Remember the days of series occurrences that were deleted by hand, so the
+-- series never creates them again, even after its schedule is edited.
+
+ALTER TABLE post_series
+  ADD COLUMN IF NOT EXISTS skipped_occurrences DATE[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION record_skipped_series_occurrence()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE post_series
+  SET skipped_occurrences = array_append(skipped_occurrences, OLD.series_occurrence)
+  WHERE id = OLD.series_id
+    AND NOT (OLD.series_occurrence = ANY(skipped_occurrences));
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS posts_record_skipped_series_occurrence ON posts;
+CREATE TRIGGER posts_record_skipped_series_occurrence
+  AFTER DELETE ON posts
+  FOR EACH ROW
+  WHEN (OLD.series_id IS NOT NULL)
+  EXECUTE FUNCTION record_skipped_series_occurrence();
+
+-- Delete the series' upcoming occurrences that nobody has touched: not
+-- detached and every variant still a draft. They're unlinked from the series
+-- first, so the series creates them again instead of skipping their days.
+CREATE OR REPLACE FUNCTION remove_upcoming_series_occurrences(target_series_id UUID, from_date TIMESTAMPTZ)
+RETURNS VOID AS $$
+DECLARE
+  untouched_ids UUID[];
+BEGIN
+  WITH unlinked AS (
+    UPDATE posts
+    SET series_id = NULL
+    WHERE series_id = target_series_id
+      AND NOT series_detached
+      AND date >= from_date
+      AND NOT EXISTS (
+        SELECT 1 FROM post_variants
+        WHERE post_variants.post_id = posts.id
+          AND post_variants.status <> 'draft'
+      )
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO untouched_ids FROM unlinked;
+
+  DELETE FROM posts WHERE id = ANY(untouched_ids);
+END;
+$$ LANGUAGE plpgsql;
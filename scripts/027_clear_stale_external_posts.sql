@@ -0,0 +1,22 @@
+-- A variant whose platform post went out but couldn't be marked published
+-- keeps the external post so the scheduler doesn't post it twice. Once its
+-- caption or images change, that post no longer matches, so forget it and let
+-- the re-approved content be published for real.
+CREATE OR REPLACE FUNCTION clear_stale_external_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'published'
+     AND (NEW.caption IS DISTINCT FROM OLD.caption OR NEW.images IS DISTINCT FROM OLD.images) THEN
+    NEW.external_post_id := NULL;
+    NEW.external_url := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS post_variants_clear_stale_external_post ON post_variants;
+CREATE TRIGGER post_variants_clear_stale_external_post
+  BEFORE UPDATE OF caption, images ON post_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_stale_external_post();
@@ -0,0 +1,4 @@
+-- A series posts at its time of day in its own time zone rather than the
+-- server's. Series created before this keep their times in UTC.
+ALTER TABLE post_series
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,314 @@
+import type { RunnableConfig } from '@langchain/core/runnables'
+import {
+  BaseCheckpointSaver,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointPendingWrite,
+  type CheckpointTuple,
+  type PendingWrite,
+} from '@langchain/langgraph-checkpoint'
+import { supabase } from '../lib/supabase'
+
+const CHECKPOINTS_TABLE = 'chat_checkpoints'
+const WRITES_TABLE = 'chat_checkpoint_writes'
+
+type CheckpointRow = {
+  thread_id: string
+  checkpoint_ns: string
+  checkpoint_id: string
+  parent_checkpoint_id: string | null
+  type: string
+  checkpoint: string
+  metadata: string
+}
+
+type CheckpointWriteRow = {
+  task_id: string
+  idx: number
+  channel: string
+  type: string
+  value: string
+}
+
+/**
+ * LangGraph checkpoint saver backed by the chat_checkpoints and
+ * chat_checkpoint_writes tables, so conversations survive server restarts
+ * and are shared between instances.
+ *
+ * Values are serialized with the saver's serde and stored base64-encoded.
+ */
+export class SupabaseCheckpointSaver extends BaseCheckpointSaver {
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id
+    const checkpointNamespace = config.configurable?.checkpoint_ns ?? ''
+    const checkpointId = getCheckpointId(config)
+
+    if (!threadId) {
+      return undefined
+    }
+
+    let query = supabase
+      .from(CHECKPOINTS_TABLE)
+      .select('*')
+      .eq('thread_id', threadId)
+      .eq('checkpoint_ns', checkpointNamespace)
+
+    query = checkpointId
+      ? query.eq('checkpoint_id', checkpointId)
+      : query.order('checkpoint_id', { ascending: false }).limit(1)
+
+    const { data, error } = await query.maybeSingle()
+
+    if (error) {
+      console.error('[Checkpointer] Error loading checkpoint:', error)
+      throw error
+    }
+
+    if (!data) {
+      return undefined
+    }
+
+    return this.toCheckpointTuple(data as CheckpointRow)
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options?: CheckpointListOptions,
+  ): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options ?? {}
+    let limit = options?.limit
+
+    let query = supabase
+      .from(CHECKPOINTS_TABLE)
+      .select('*')
+      .order('checkpoint_id', { ascending: false })
+
+    if (config.configurable?.thread_id) {
+      query = query.eq('thread_id', config.configurable.thread_id)
+    }
+    if (config.configurable?.checkpoint_ns !== undefined) {
+      query = query.eq('checkpoint_ns', config.configurable.checkpoint_ns)
+    }
+    if (config.configurable?.checkpoint_id) {
+      query = query.eq('checkpoint_id', config.configurable.checkpoint_id)
+    }
+    if (before?.configurable?.checkpoint_id) {
+      query = query.lt('checkpoint_id', before.configurable.checkpoint_id)
+    }
+    // Metadata filters are applied after deserialization, so the row limit
+    // can only be pushed down when there is nothing to filter on.
+    if (limit !== undefined && !filter) {
+      query = query.limit(limit)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('[Checkpointer] Error listing checkpoints:', error)
+      throw error
+    }
+
+    for (const row of (data || []) as CheckpointRow[]) {
+      const tuple = await this.toCheckpointTuple(row)
+
+      if (
+        filter &&
+        !Object.entries(filter).every(
+          ([key, value]) => (tuple.metadata as any)?.[key] === value,
+        )
+      ) {
+        continue
+      }
+
+      if (limit !== undefined) {
+        if (limit <= 0) break
+        limit -= 1
+      }
+
+      yield tuple
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id
+    const checkpointNamespace = config.configurable?.checkpoint_ns ?? ''
+
+    if (threadId === undefined) {
+      throw new Error(
+        'Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.',
+      )
+    }
+
+    const preparedCheckpoint = copyCheckpoint(checkpoint)
+    const [[type, serializedCheckpoint], [, serializedMetadata]] =
+      await Promise.all([
+        this.serde.dumpsTyped(preparedCheckpoint),
+        this.serde.dumpsTyped(metadata),
+      ])
+
+    const { error } = await supabase.from(CHECKPOINTS_TABLE).upsert({
+      thread_id: threadId,
+      checkpoint_ns: checkpointNamespace,
+      checkpoint_id: checkpoint.id,
+      parent_checkpoint_id: config.configurable?.checkpoint_id ?? null,
+      type,
+      checkpoint: encode(serializedCheckpoint),
+      metadata: encode(serializedMetadata),
+    })
+
+    if (error) {
+      console.error('[Checkpointer] Error saving checkpoint:', error)
+      throw error
+    }
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNamespace,
+        checkpoint_id: checkpoint.id,
+      },
+    }
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string,
+  ): Promise<void> {
+    const threadId = config.configurable?.thread_id
+    const checkpointNamespace = config.configurable?.checkpoint_ns ?? ''
+    const checkpointId = config.configurable?.checkpoint_id
+
+    if (threadId === undefined) {
+      throw new Error(
+        'Failed to put writes. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.',
+      )
+    }
+    if (checkpointId === undefined) {
+      throw new Error(
+        'Failed to put writes. The passed RunnableConfig is missing a required "checkpoint_id" field in its "configurable" property.',
+      )
+    }
+
+    const rows = await Promise.all(
+      writes.map(async ([channel, value], idx) => {
+        const [type, serializedValue] = await this.serde.dumpsTyped(value)
+        return {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNamespace,
+          checkpoint_id: checkpointId,
+          task_id: taskId,
+          idx: WRITES_IDX_MAP[channel] ?? idx,
+          channel,
+          type,
+          value: encode(serializedValue),
+        }
+      }),
+    )
+
+    // Special writes (errors, interrupts) always overwrite; regular writes
+    // keep the first value recorded for their index.
+    const specialRows = rows.filter((row) => row.idx < 0)
+    const regularRows = rows.filter((row) => row.idx >= 0)
+    const onConflict = 'thread_id,checkpoint_ns,checkpoint_id,task_id,idx'
+
+    const results = await Promise.all([
+      specialRows.length > 0
+        ? supabase.from(WRITES_TABLE).upsert(specialRows, { onConflict })
+        : null,
+      regularRows.length > 0
+        ? supabase
+            .from(WRITES_TABLE)
+            .upsert(regularRows, { onConflict, ignoreDuplicates: true })
+        : null,
+    ])
+
+    const failed = results.find((result) => result?.error)
+    if (failed?.error) {
+      console.error('[Checkpointer] Error saving writes:', failed.error)
+      throw failed.error
+    }
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    const [writesResult, checkpointsResult] = await Promise.all([
+      supabase.from(WRITES_TABLE).delete().eq('thread_id', threadId),
+      supabase.from(CHECKPOINTS_TABLE).delete().eq('thread_id', threadId),
+    ])
+
+    const error = writesResult.error || checkpointsResult.error
+    if (error) {
+      console.error('[Checkpointer] Error deleting thread:', error)
+      throw error
+    }
+  }
+
+  private async toCheckpointTuple(row: CheckpointRow): Promise<CheckpointTuple> {
+    const { data: writeRows, error } = await supabase
+      .from(WRITES_TABLE)
+      .select('task_id, idx, channel, type, value')
+      .eq('thread_id', row.thread_id)
+      .eq('checkpoint_ns', row.checkpoint_ns)
+      .eq('checkpoint_id', row.checkpoint_id)
+      .order('task_id', { ascending: true })
+      .order('idx', { ascending: true })
+
+    if (error) {
+      console.error('[Checkpointer] Error loading writes:', error)
+      throw error
+    }
+
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      ((writeRows || []) as CheckpointWriteRow[]).map(
+        async (write): Promise<CheckpointPendingWrite> => [
+          write.task_id,
+          write.channel,
+          await this.serde.loadsTyped(write.type, decode(write.value)),
+        ],
+      ),
+    )
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.checkpoint_id,
+        },
+      },
+      checkpoint: await this.serde.loadsTyped(row.type, decode(row.checkpoint)),
+      metadata: await this.serde.loadsTyped('json', decode(row.metadata)),
+      pendingWrites,
+    }
+
+    if (row.parent_checkpoint_id) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.parent_checkpoint_id,
+        },
+      }
+    }
+
+    return tuple
+  }
+}
+
+function encode(data: Uint8Array): string {
+  return Buffer.from(data).toString('base64')
+}
+
+function decode(data: string): Uint8Array {
+  return new Uint8Array(Buffer.from(data, 'base64'))
+}
+
+export const checkpointer = new SupabaseCheckpointSaver()
@@ -5,7 +5,8 @@ const langfuse = new LangfuseClient();
 
 export enum Prompt {
     CaptionGeneration =  'Caption Generation',
-    Guardrail = 'Input Guardrail'
+    Guardrail = 'Input Guardrail',
+    OutputGuardrail = 'Output Guardrail'
 }
 
 
@@ -1,9 +1,42 @@
-import type { BrandRule, Post, MediaItem, Note } from '../../shared/types'
+import type {
+  BrandRule,
+  CalendarAnalytics,
+  Campaign,
+  Platform,
+  Post,
+  PostVariant,
+  MediaItem,
+  Note,
+  GuardrailBlock,
+  GuardrailSettings,
+  CommunityMemberProfile,
+  InboxFilters,
+  InboxMessage,
+  MemberNote,
+  SavedResponse,
+} from '../../shared/types'
 import { getBrandRules as dbGetBrandRules } from '../lib/db/brand-voice'
 import { getPosts as dbGetPosts, getPostById as dbGetPostById } from '../lib/db/posts'
 import { getMediaByCalendar as dbGetMediaByCalendar } from '../lib/db/media'
 import { getNoteById as dbGetNoteById } from '../lib/db/notes'
+import {
+  getGuardrailSettings as dbGetGuardrailSettings,
+  recordGuardrailBlock as dbRecordGuardrailBlock,
+} from '../lib/db/guardrails'
+import {
+  getInboxMessageById as dbGetInboxMessageById,
+  getInboxMessages as dbGetInboxMessages,
+  getSavedResponses as dbGetSavedResponses,
+  updateInboxMessage as dbUpdateInboxMessage,
+} from '../lib/db/inbox'
+import {
+  getCommunityMemberProfile as dbGetCommunityMemberProfile,
+  getMemberNotesForSender as dbGetMemberNotesForSender,
+} from '../lib/db/community-members'
+import { getCalendarAnalytics as dbGetCalendarAnalytics } from '../lib/db/analytics'
+import { getCampaignById as dbGetCampaignById } from '../lib/db/campaigns'
 import { canAccessCalendar } from '../lib/auth'
+import { transitionPostVariant } from '../lib/post-workflow'
 
 export interface IAiDataRepository {
   getBrandRules(): Promise<BrandRule[]>
@@ -11,6 +44,19 @@ export interface IAiDataRepository {
   getPost(postId: string): Promise<Post | null>
   getNote(noteId: string): Promise<Note | null>
   getMediaByCalendar(): Promise<MediaItem[]>
+  getGuardrailSettings(): Promise<GuardrailSettings>
+  recordGuardrailBlock(
+    block: Omit<GuardrailBlock, 'id' | 'createdAt' | 'calendarId' | 'userId'>,
+  ): Promise<void>
+  submitForApproval(postId: string, platform: Platform, note?: string): Promise<PostVariant>
+  getInboxMessage(messageId: string): Promise<InboxMessage | null>
+  getInboxMessages(filters: InboxFilters, options?: { limit?: number; since?: Date }): Promise<InboxMessage[]>
+  getMemberProfile(memberId: string): Promise<CommunityMemberProfile | null>
+  getSavedResponses(): Promise<SavedResponse[]>
+  getMemberNotes(platform: Platform, platformUserId: string): Promise<MemberNote[]>
+  saveInboxDraft(messageId: string, draft: string): Promise<InboxMessage>
+  getAnalytics(from: string, to: string): Promise<CalendarAnalytics>
+  getCampaign(campaignId: string): Promise<Campaign | null>
 }
 
 export class LocalDataRepository implements IAiDataRepository {
@@ -90,4 +136,156 @@ export class LocalDataRepository implements IAiDataRepository {
       throw error
     }
   }
-}
\ No newline at end of file
+
+  async getGuardrailSettings(): Promise<GuardrailSettings> {
+    try {
+      await this.verifyAccess()
+      return await dbGetGuardrailSettings(this.calendarId)
+    } catch (error) {
+      console.error(`[AI_REPO] Error fetching guardrail settings for calendar ${this.calendarId}:`, error)
+      throw error
+    }
+  }
+
+  async recordGuardrailBlock(
+    block: Omit<GuardrailBlock, 'id' | 'createdAt' | 'calendarId' | 'userId'>,
+  ): Promise<void> {
+    await dbRecordGuardrailBlock({
+      ...block,
+      calendarId: this.calendarId,
+      userId: this.userId,
+    })
+  }
+
+  /**
+   * The only status change the assistant can make. Approving and rejecting
+   * stay with people; the workflow refuses them for the assistant anyway.
+   */
+  async submitForApproval(postId: string, platform: Platform, note?: string): Promise<PostVariant> {
+    await this.verifyAccess()
+    const result = await transitionPostVariant({
+      calendarId: this.calendarId,
+      postId,
+      platform,
+      to: 'awaiting_approval',
+      reason: note,
+      actor: { type: 'ai', id: this.userId, name: 'AI assistant' },
+    })
+
+    if (!result.ok) {
+      console.error(`[AI_REPO] Error submitting ${platform} variant of post ${postId} for approval:`, result.error)
+      throw new Error(result.error)
+    }
+
+    return result.variant
+  }
+
+  async getInboxMessage(messageId: string): Promise<InboxMessage | null> {
+    try {
+      await this.verifyAccess()
+      const message = await dbGetInboxMessageById(messageId)
+
+      if (message && message.calendarId !== this.calendarId) {
+        return null
+      }
+
+      return message
+    } catch (error) {
+      console.error(`[AI_REPO] Error fetching inbox message ${messageId}:`, error)
+      throw error
+    }
+  }
+
+  async getInboxMessages(
+    filters: InboxFilters,
+    options?: { limit?: number; since?: Date },
+  ): Promise<InboxMessage[]> {
+    try {
+      await this.verifyAccess()
+      return await dbGetInboxMessages(this.calendarId, filters, options)
+    } catch (error) {
+      console.error(`[AI_REPO] Error fetching inbox messages for calendar ${this.calendarId}:`, error)
+      throw error
+    }
+  }
+
+  async getMemberProfile(memberId: string): Promise<CommunityMemberProfile | null> {
+    try {
+      await this.verifyAccess()
+      const profile = await dbGetCommunityMemberProfile(memberId)
+
+      if (profile && profile.member.calendarId !== this.calendarId) {
+        return null
+      }
+
+      return profile
+    } catch (error) {
+      console.error(`[AI_REPO] Error fetching community member ${memberId}:`, error)
+      throw error
+    }
+  }
+
+  async getSavedResponses(): Promise<SavedResponse[]> {
+    try {
+      await this.verifyAccess()
+      return await dbGetSavedResponses(this.calendarId)
+    } catch (error) {
+      console.error(`[AI_REPO] Error fetching saved responses for calendar ${this.calendarId}:`, error)
+      throw error
+    }
+  }
+
+  async getMemberNotes(platform: Platform, platformUserId: string): Promise<MemberNote[]> {
+    try {
+      await this.verifyAccess()
+      return await dbGetMemberNotesForSender(this.calendarId, platform, platformUserId)
+    } catch (error) {
+      console.error(`[AI_REPO] Error fetching member notes for ${platform} user ${platformUserId}:`, error)
+      throw error
+    }
+  }
+
+  /** Stores a reply draft only. Nothing the assistant does marks a message as replied. */
+  async saveInboxDraft(messageId: string, draft: string): Promise<InboxMessage> {
+    const message = await this.getInboxMessage(messageId)
+    if (!message) {
+      throw new Error('Message not found')
+    }
+
+    const updated = await dbUpdateInboxMessage(messageId, { draft })
+    if (!updated) {
+      console.error(`[AI_REPO] Error saving reply draft for inbox message ${messageId}`)
+      throw new Error('Failed to save reply draft')
+    }
+
+    return updated
+  }
+
+  async getAnalytics(from: string, to: string): Promise<CalendarAnalytics> {
+    await this.verifyAccess()
+    const analytics = await dbGetCalendarAnalytics(this.calendarId, from, to)
+
+    if (!analytics) {
+      console.error(`[AI_REPO] Error loading analytics for calendar ${this.calendarId}`)
+      throw new Error('Failed to load analytics')
+    }
+
+    return analytics
+  }
+
+  async getCampaign(campaignId: string): Promise<Campaign | null> {
+    try {
+      await this.verifyAccess()
+      const campaign = await dbGetCampaignById(campaignId)
+
+      if (campaign && campaign.calendarId !== this.calendarId) {
+        return null
+      }
+
+      return campaign
+    } catch (error) {
+      console.error(`[AI_REPO] Error fetching campaign ${campaignId}:`, error)
+      throw error
+    }
+  }
+}
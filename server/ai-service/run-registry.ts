@@ -0,0 +1,39 @@
+/**
+ * Tracks the in-flight agent run for each thread so it can be cancelled from
+ * a separate request. Only one run per thread is active at a time; starting
+ * a new one aborts whatever was still running.
+ */
+class RunRegistry {
+  private runs = new Map<string, AbortController>();
+
+  start(threadId: string): AbortController {
+    this.runs.get(threadId)?.abort(new Error('Run superseded by a newer request'));
+
+    const controller = new AbortController();
+    this.runs.set(threadId, controller);
+    return controller;
+  }
+
+  cancel(threadId: string): boolean {
+    const controller = this.runs.get(threadId);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort(new Error('Run cancelled by user'));
+    this.runs.delete(threadId);
+    return true;
+  }
+
+  finish(threadId: string, controller: AbortController) {
+    if (this.runs.get(threadId) === controller) {
+      this.runs.delete(threadId);
+    }
+  }
+
+  isActive(threadId: string): boolean {
+    return this.runs.has(threadId);
+  }
+}
+
+export const runRegistry = new RunRegistry();
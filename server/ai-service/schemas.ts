@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { platformSchema } from '../../shared/tool-registry'
 
 export const RuleScoreSchema = z.object({
   ruleId: z.string().describe('The ID of the brand rule being evaluated.'),
@@ -6,30 +7,59 @@ export const RuleScoreSchema = z.object({
   feedback: z.string().describe('The justification for the score, explaining how the caption met or failed the rule.'),
 })
 
+export const PlatformRuleViolationSchema = z.object({
+  ruleId: z.string().describe('The platform rule that was broken, e.g. "character_limit".'),
+  severity: z.enum(['error', 'warning']).describe('Errors block approval; warnings are advice.'),
+  message: z.string().describe('What is wrong and how to fix it.'),
+})
+
 export const BrandScoreSchema = z.object({
   overall: z.number().min(0).max(100).describe('The overall weighted score (0-100) for the caption.'),
   rules: z.array(RuleScoreSchema).describe('The breakdown of scores for each individual brand rule.'),
   suggestions: z.array(z.string()).describe('Specific, actionable suggestions for improving the caption to better match the brand voice.'),
+  platformViolations: z.array(PlatformRuleViolationSchema).optional().describe('Deterministic platform checks, present when the caption was graded for a platform.'),
 })
 
 export type BrandScore = z.infer<typeof BrandScoreSchema>
 
+export const MAX_CAPTION_VARIANTS = 5
+export const MAX_REFINEMENT_ITERATIONS = 5
+
 export const CaptionGenerationRequestSchema = z.object({
   topic: z.string().describe('The main topic of the post.'),
   existingCaption: z.string().optional().describe('An existing caption to edit or refine.'),
+  variantCount: z.number().int().min(1).max(MAX_CAPTION_VARIANTS).optional().describe('How many alternative captions to generate (default 1).'),
+  tone: z.string().optional().describe('The tone to write in, e.g. "playful" or "professional".'),
+  length: z.enum(['short', 'medium', 'long']).optional().describe('The target caption length.'),
+  callToAction: z.string().optional().describe('A call to action the caption should include.'),
+  targetScore: z.number().min(0).max(100).optional().describe('Brand voice score a caption must reach before refinement stops (default 80).'),
+  maxIterations: z.number().int().min(1).max(MAX_REFINEMENT_ITERATIONS).optional().describe('Maximum grade-and-refine passes per caption, including the first draft (default 3).'),
+  platform: platformSchema.optional().describe('The platform the caption is for. Its character limit, hashtag and link conventions are applied.'),
+  campaignBrief: z.string().optional().describe('The brief of the campaign the post belongs to.'),
 })
 export type CaptionGenerationRequest = z.infer<
   typeof CaptionGenerationRequestSchema
 >
 
+export const CaptionIterationSchema = z.object({
+  iteration: z.number().int(),
+  caption: z.string(),
+  score: BrandScoreSchema.nullable(),
+})
+export type CaptionIteration = z.infer<typeof CaptionIterationSchema>
+
 export const GeneratedCaptionSchema = z.object({
   caption: z.string(),
   score: BrandScoreSchema.nullable(),
+  history: z.array(CaptionIterationSchema).describe('Every graded draft of this caption, in order.'),
 })
 export type GeneratedCaption = z.infer<typeof GeneratedCaptionSchema>
 
 export const CaptionGenerationResultSchema = z.object({
-  caption: z.string().describe('The generated caption.'),
+  caption: z.string().describe('The highest scoring generated caption.'),
+  score: BrandScoreSchema.nullable().describe('The brand voice score of that caption.'),
+  variants: z.array(GeneratedCaptionSchema).describe('Every generated caption, best score first.'),
+  history: z.array(CaptionIterationSchema).describe('The refinement history of the highest scoring caption.'),
 })
 export type CaptionGenerationResult = z.infer<
   typeof CaptionGenerationResultSchema
@@ -57,14 +87,53 @@ export type ExtractedBrandRules = z.infer<typeof ExtractedBrandRulesSchema>
 export const GuardrailDecisionSchema = z.object({
   isAllowed: z.boolean().describe("Whether the user input is relevant to the allowed topics."),
   refusalMessage: z.string().nullable().describe("A polite, single-sentence refusal message if not allowed. Null if allowed."),
+  reason: z.string().nullable().optional().describe("Why the input was blocked, for the admin review log. Null if allowed."),
 })
 
 export type GuardrailDecision = z.infer<typeof GuardrailDecisionSchema>
 
+export const OutputGuardrailDecisionSchema = z.object({
+  isAllowed: z.boolean().describe("Whether the assistant's answer can be shown to the user as-is."),
+  category: z.enum(["caption_leak", "pii", "off_brand_claim"]).nullable().describe("The violated check, or null if allowed."),
+  reason: z.string().nullable().describe("A short explanation of the violation for the admin review log. Null if allowed."),
+})
+
+export type OutputGuardrailDecision = z.infer<typeof OutputGuardrailDecisionSchema>
+
 export const PlanSchema = z.object({
   workflowId: z.string().nullable().optional().describe("The ID of the matched workflow from the provided list, if any."),
-  steps: z.array(z.string()).nullable().optional().describe("The specific, ordered list of steps the agent should take."),
+  steps: z.array(z.object({
+    description: z.string().describe("What the agent does in this step."),
+    toolName: z.string().nullable().describe("The exact name of the tool this step calls, or null if the step needs no tool (e.g. asking the user a question).")
+  })).nullable().optional().describe("The specific, ordered list of steps the agent should take."),
   reasoning: z.string().describe("Brief explanation of why this plan was chosen (or why no plan is needed).")
 })
 
-export type Plan = z.infer<typeof PlanSchema>
\ No newline at end of file
+export type Plan = z.infer<typeof PlanSchema>
+
+export const SentimentClassificationSchema = z.object({
+  sentiment: z.enum(['positive', 'negative', 'neutral']).describe('The overall sentiment of the message towards the brand.'),
+  confidence: z.number().min(0).max(1).describe('How confident the classification is, from 0 to 1.'),
+  urgent: z.boolean().describe('Whether the message needs a fast reply: a complaint, a safety or legal issue, an order problem, or anything likely to escalate publicly.'),
+  reason: z.string().describe('A short justification for the sentiment and urgency.'),
+})
+
+export type SentimentClassification = z.infer<typeof SentimentClassificationSchema>
+
+export const SeriesCaptionFillSchema = z.object({
+  fills: z.array(z.string()).describe('The text for each placeholder, in the order the placeholders appear.'),
+})
+
+export type SeriesCaptionFill = z.infer<typeof SeriesCaptionFillSchema>
+
+export const ContentPlanDraftSchema = z.object({
+  summary: z.string().describe('Two or three sentences on the plan\'s themes and how it serves the goals.'),
+  items: z.array(z.object({
+    date: z.string().describe('The day to publish the post, as yyyy-MM-dd.'),
+    platform: platformSchema.describe('The platform the post is for.'),
+    topic: z.string().describe('A few words naming what the post is about.'),
+    caption: z.string().describe('The draft caption, written for the platform.'),
+  })).describe('Every planned post, in date order.'),
+})
+
+export type ContentPlanDraft = z.infer<typeof ContentPlanDraftSchema>
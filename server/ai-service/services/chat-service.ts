@@ -1,25 +1,33 @@
 import { createAgent, dynamicSystemPromptMiddleware, Runtime, Document, createMiddleware } from 'langchain'
-import { AIMessage } from '@langchain/core/messages'
+import { AIMessage, ToolMessage } from '@langchain/core/messages'
 import type { IAiDataRepository } from '../repository'
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models'
 import type { DallEAPIWrapper } from '@langchain/openai'
 import type { ToolService } from './tool-service'
 import { toolContextSchema } from './tool-service'
 import { getContextKeys, getToolsForContext } from '../tool-manifest'
+import { isClientToolName, toolRegistry } from '../../../shared/tool-registry'
+import { CONTENT_PLAN_TIMEOUT_MS } from './content-plan-service'
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base'
+import { formatCampaignBrief } from '../../../shared/campaigns'
 import * as z from 'zod'
 import { searchDocuments } from 'server/ai-service/services/search-service'
 import { StoreMetaData } from 'server/ai-service/vector-store'
 import { convertSlateToText } from 'server/lib/content-utils'
-import { MemorySaver } from "@langchain/langgraph";
+import type { BaseCheckpointSaver } from "@langchain/langgraph";
 import { v4 as uuidv4 } from 'uuid';
 import { propagateAttributes } from '@langfuse/tracing'
 import { GuardrailService } from './guardrail-service';
+import { PlannerService, formatPlanForPrompt } from './planner-service';
 
 import { langfuseHandler } from '../../lib/langfuse'
 import { StreamingCallbackHandler } from '../streaming-callback'
 import { streamManager } from '../stream-manager'
+import { checkpointer } from '../checkpointer'
+import { runRegistry } from '../run-registry'
+import type { Campaign, ChatThreadMessage, PlanStep, ToolResultPayload } from '../../../shared/types'
 
-const USE_GUARDRAILS = false
+const AGENT_TIMEOUT_MS = 60000
 
 export interface ChatServiceDependencies {
   repo: IAiDataRepository
@@ -48,18 +56,60 @@ Check your Context for "Current Post".
 **TOOL USAGE PROTOCOL:**
 
 1. **generate_caption**
-   - **Input:** Topic, tone, or "refine current caption based on [feedback]".
-   - **Output:** Internal data only. Pass to 'apply' tool.
+   - **Input:** Topic, tone, or "refine current caption based on [feedback]". Optional variantCount, tone, length and callToAction. In EDITOR MODE, pass the platform you are writing for.
+   - **Output:** Internal data only. The best scoring caption comes first; pass it to the 'apply' tool unless the user asked for a specific option.
 
 2. **apply_caption_to_open_post** (Client Action)
    - **Trigger:** You have generated text AND you are in **EDITOR MODE**.
-   - **Action:** Call this immediately.
+   - **Action:** Call this immediately. Pass \`platform\` when the caption is for a specific platform variant.
    - **Note:** This tool IS the way you "show" the caption to the user.
 
-3. **create_post** (Client Action)
+3. **adapt_caption**
+   - **Trigger:** The user wants the post on other platforms, e.g. "adapt this for LinkedIn and Twitter".
+   - **Action:** Call once with the source caption and every target platform, then apply each adaptation with \`apply_caption_to_open_post\` and its \`platform\`, one at a time.
+
+4. **create_post** (Client Action)
    - **Trigger:** User wants a NEW post and you are in DASHBOARD MODE.
    - **Action:** Call once. Wait for client context update before generating caption.
 
+5. **submit_post_for_approval**
+   - **Trigger:** The user asks to submit or send the post for review.
+   - **Action:** Call with the post ID (and platforms if the user named any). Apply pending caption changes first.
+   - **Note:** You can NEVER approve, reject or publish a post. If asked to, explain that an approver has to do it in the editor.
+
+6. **draft_inbox_reply**
+   - **Trigger:** The user asks you to draft or write a reply to an inbox message.
+   - **Action:** Call with the message ID. Share the draft and its score.
+   - **Note:** You can NEVER send a reply. The draft waits in the inbox until a person sends it.
+
+7. **propose_inbox_reply** (Client Action)
+   - **Trigger:** You have written or revised a reply in the conversation and the user is on the inbox.
+   - **Action:** Call with the message ID and the reply text. The user reviews and sends it themselves.
+
+8. **get_content_analytics**
+   - **Trigger:** The user asks how the calendar is doing, e.g. "how many LinkedIn posts are still awaiting approval this month?"
+   - **Action:** Call once. Leave the dates out for the current month; pass platform and status to count specific posts.
+
+9. **generate_content_plan**
+   - **Trigger:** The user wants several posts planned at once, e.g. "plan my month".
+   - **Check Requirements:** Ask for the goals, how many posts a week on each platform and the date range if missing. "My month" means the current month.
+   - **Action:** Call once, then pass its summary and items unchanged to 'propose_content_plan'. If it returns an error, explain it and ask the user to adjust.
+
+10. **propose_content_plan** (Client Action)
+   - **Trigger:** 'generate_content_plan' returned a plan.
+   - **Action:** Call immediately. The user picks which posts to keep and only those become drafts. Do NOT create them with 'create_post'.
+
+11. **propose_bulk_post_action** (Client Action)
+   - **Trigger:** The user wants the same change on several posts, e.g. "move all next week's drafts forward by one day".
+   - **Action:** Call 'get_posts' with the date range first, pick the matching posts yourself, then call once with every post ID. "Forward" means later, so days is positive. The user confirms the list before anything changes.
+   - **Note:** It can't approve or reject posts; explain that an approver has to.
+
+**CLIENT ACTION RESULTS:**
+When the user acts on a Client Action card, you receive its tool result as JSON with an "outcome":
+- "applied": the action succeeded. Continue with the next step.
+- "rejected": the user dismissed it. Do NOT retry the same action; ask what they would like instead.
+- "failed": the action could not be completed. Explain briefly using the "reason" and offer to try again.
+
 **LOGIC GATES (Follow Strictly):**
 
 **SCENARIO A: User asks to Edit/Refine/Rewrite (EDITOR MODE)**
@@ -83,28 +133,61 @@ Check your Context for "Current Post".
 
 
 
-type AgentContextConfig = {
-  clientContext?: {
-    page?: string
-    component?: string
+export type ChatClientContext = {
+  page?: string
+  component?: string
+  postId?: string
+  noteId?: string
+  calendarId?: string
+  pageState?: {
+    currentMonth?: number
+    currentYear?: number
+    view?: 'month' | 'week' | 'day' | 'list'
+    rangeStart?: string
+    rangeEnd?: string
     postId?: string
     noteId?: string
-    calendarId?: string
-    pageState?: {
-      currentMonth?: number
-      currentYear?: number
-      postId?: string
-      noteId?: string
-      [key: string]: any
-    }
+    messageId?: string | null
+    campaignId?: string | null
+    [key: string]: any
   }
+}
+
+type AgentContextConfig = {
+  clientContext?: ChatClientContext
   toolService: ToolService
   repo: IAiDataRepository
+  campaign?: Campaign | null
+}
+
+/**
+ * The campaign the user is working in: the one picked in the page's campaign
+ * filter, otherwise the campaign of the open post or note.
+ */
+async function resolveCampaign(
+  clientContext: ChatClientContext | undefined,
+  repo: IAiDataRepository,
+): Promise<Campaign | null> {
+  try {
+    let campaignId = clientContext?.pageState?.campaignId ?? null
+
+    if (!campaignId && clientContext?.postId) {
+      campaignId = (await repo.getPost(clientContext.postId))?.campaignId ?? null
+    }
+    if (!campaignId && clientContext?.noteId) {
+      campaignId = (await repo.getNote(clientContext.noteId))?.campaignId ?? null
+    }
+
+    return campaignId ? await repo.getCampaign(campaignId) : null
+  } catch (error) {
+    console.error('[ContextLoader] Error resolving campaign:', error)
+    return null
+  }
 }
 
 async function loadContextualData(config: AgentContextConfig): Promise<string> {
   try {
-    const { clientContext, repo } = config
+    const { clientContext, repo, campaign } = config
     const contextParts: string[] = []
 
     if (!clientContext || !repo) {
@@ -119,8 +202,9 @@ async function loadContextualData(config: AgentContextConfig): Promise<string> {
             `*** ACTIVE EDITOR SESSION (POST IS OPEN) ***\n` +
             `- STATUS: The post editor is currently OPEN on the user's screen.\n` +
             `- Post ID: ${post.id}\n` +
-            `- Current Caption: ${post.caption || '(No caption yet)'}\n` +
-            `- Platform: ${post.platform}\n` +
+            `- Platforms:\n${post.variants
+              .map((v) => `  - ${v.platform} (${v.status}): ${v.caption || '(No caption yet)'}`)
+              .join('\n')}\n` +
             `- Date: ${post.date.toISOString().split('T')[0]}\n\n` +
             `INSTRUCTION: Since the session is active, do NOT ask the user to open the post. You can use 'apply_caption_to_open_post' immediately.`
           )
@@ -158,6 +242,41 @@ async function loadContextualData(config: AgentContextConfig): Promise<string> {
       }
     }
 
+    if (clientContext.page === 'calendar' && clientContext.pageState?.view) {
+      const { view, rangeStart, rangeEnd } = clientContext.pageState
+      contextParts.push(
+        `**Calendar View:**\nThe user is looking at the ${view} view of the calendar, from ${rangeStart} to ${rangeEnd}. ` +
+        `When they say "this week", "today" or "these posts", they mean the posts in this range.`,
+      )
+    }
+
+    if (clientContext.page === 'inbox' && clientContext.pageState?.messageId) {
+      try {
+        const message = await repo.getInboxMessage(clientContext.pageState.messageId)
+        if (message) {
+          contextParts.push(
+            `**Current Inbox Message:**\nThe user has this message open in the inbox:\n` +
+            `- Message ID: ${message.id}\n` +
+            `- From: ${message.userName} (${message.type} on ${message.platform}, member ID: ${message.memberId ?? 'unknown'})\n` +
+            `- Sentiment: ${message.sentiment}${message.urgent ? ' (urgent)' : ''}\n` +
+            (message.postCaption ? `- On post: ${message.postCaption}\n` : '') +
+            `- Message: ${message.content}\n` +
+            `- Status: ${message.replied ? `replied with "${message.replyContent ?? ''}"` : message.draft ? `draft reply "${message.draft}"` : 'not replied yet'}\n\n` +
+            `When the user asks about "this message" or wants a reply, they mean this message.`,
+          )
+        }
+      } catch (error) {
+        console.error('[ContextLoader] Error fetching inbox message:', error)
+      }
+    }
+
+    if (campaign) {
+      contextParts.push(
+        `**Active Campaign:**\nThe user is working in this campaign (ID: ${campaign.id}):\n${formatCampaignBrief(campaign)}\n\n` +
+        `Content you write or plan should serve this campaign. 'generate_caption' receives the brief automatically, and notes in the campaign come first in the knowledge base results.`,
+      )
+    }
+
     try {
       const brandRules = await repo.getBrandRules()
       const enabledRules = brandRules.filter((r) => r.enabled)
@@ -192,41 +311,122 @@ async function loadContextualData(config: AgentContextConfig): Promise<string> {
   }
 }
 
+/** A timeout that can be pushed back while the run is still going. */
+class RunDeadline {
+  private controller = new AbortController();
+  private startedAt = Date.now();
+  private timer: ReturnType<typeof setTimeout>;
+
+  constructor(public limitMs: number) {
+    this.timer = this.schedule();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  extend(ms: number) {
+    if (this.controller.signal.aborted) return;
+    clearTimeout(this.timer);
+    this.limitMs += ms;
+    this.timer = this.schedule();
+  }
+
+  clear() {
+    clearTimeout(this.timer);
+  }
+
+  private schedule() {
+    return setTimeout(() => this.controller.abort(new Error('Agent timeout')), this.startedAt + this.limitMs - Date.now());
+  }
+}
+
 async function invokeAgentWithTimeout(
   agent: ReturnType<typeof createAgent>,
   input: any[],
   threadId: string,
   userId: string,
+  run: AbortController,
+  streamingHandler: StreamingCallbackHandler,
   config?: { context?: z.infer<typeof toolContextSchema> }
 ) {
-  const streamingHandler = new StreamingCallbackHandler(threadId);
-
-  const invokePromise = propagateAttributes(
-    {
-      sessionId: threadId,
-      userId: userId,
+  // The signal reaches the model calls, tools and document search, so a
+  // cancel or timeout actually stops the work instead of orphaning it.
+  const deadline = new RunDeadline(AGENT_TIMEOUT_MS);
+  const timeoutSignal = deadline.signal;
+  const signal = AbortSignal.any([run.signal, timeoutSignal]);
+  // A content plan has its own budget, so the run waits that much longer
+  // for it rather than every chat turn getting the plan's limit.
+  const planBudget = BaseCallbackHandler.fromMethods({
+    handleToolStart(_tool, _input, _runId, _parentRunId, _tags, _metadata, runName) {
+      if (runName === toolRegistry.GENERATE_CONTENT_PLAN.name) {
+        deadline.extend(CONTENT_PLAN_TIMEOUT_MS);
+      }
     },
-    async () => {
-      return await agent.invoke(
-        { messages: input },
-        {
-          configurable: { thread_id: threadId },
-          ...config,
-          callbacks: [streamingHandler, langfuseHandler],
-        },
-      )
+  });
+
+  try {
+    return await propagateAttributes(
+      {
+        sessionId: threadId,
+        userId: userId,
+      },
+      async () => {
+        return await agent.invoke(
+          { messages: input },
+          {
+            configurable: { thread_id: threadId },
+            ...config,
+            signal,
+            callbacks: [streamingHandler, langfuseHandler, planBudget],
+          },
+        )
+      }
+    )
+  } catch (error) {
+    if (timeoutSignal.aborted) {
+      throw new Error(`Agent invocation timeout after ${deadline.limitMs / 1000} seconds`)
+    }
+    if (run.signal.aborted) {
+      throw new Error('Run cancelled')
     }
+    throw error
+  } finally {
+    deadline.clear();
+    streamManager.emitEvent(threadId, {
+      type: 'status_end',
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * A run aborted while tools were executing leaves an AI message whose tool
+ * calls never got results, which the model API rejects on the next turn.
+ * Returns synthetic results for those calls so the thread can continue.
+ */
+async function getInterruptedToolMessages(
+  checkpointSaver: BaseCheckpointSaver,
+  threadId: string,
+): Promise<ToolMessage[]> {
+  const tuple = await checkpointSaver.getTuple({ configurable: { thread_id: threadId } })
+  const messages: any[] = (tuple?.checkpoint.channel_values as any)?.messages ?? []
+
+  const answeredIds = new Set(
+    messages
+      .filter((msg) => (msg._getType ? msg._getType() : msg.type) === 'tool')
+      .map((msg) => msg.tool_call_id),
   )
 
-  return Promise.race([
-    invokePromise,
-    new Promise((_, reject) =>
-      setTimeout(
-        () => reject(new Error('Agent invocation timeout after 60 seconds')),
-        60000,
-      ),
-    ),
-  ]) as Promise<any>
+  return messages
+    .flatMap((msg) => (Array.isArray(msg.tool_calls) ? msg.tool_calls : []))
+    .filter((tc: any) => tc?.id && !answeredIds.has(tc.id))
+    .map((tc: any) => new ToolMessage({
+      tool_call_id: tc.id,
+      name: tc.name,
+      content: JSON.stringify({ outcome: 'cancelled', reason: 'The run was stopped before this tool finished.' }),
+      status: 'error',
+    }))
 }
 
 function extractAgentResponse(response: any): {
@@ -294,10 +494,7 @@ function extractClientToolCalls(message: any): any[] {
     (tc: any) =>
       tc &&
       typeof tc === 'object' &&
-      (tc.name === 'navigate_to_calendar' ||
-        tc.name === 'apply_caption_to_open_post' ||
-        tc.name === 'create_post' ||
-        tc.name === 'open_post'),
+      isClientToolName(tc.name),
   )
 
   return clientToolCalls.map((tc: any) => ({
@@ -334,44 +531,215 @@ function extractMessageContent(message: any): string {
   return ''
 }
 
-const memoryStore = new MemorySaver()
+/**
+ * Rebuilds the visible transcript of a persisted thread from its latest
+ * checkpoint. Tool results and tool-only AI turns are omitted; client tool
+ * calls are kept so the sidebar can render their cards again.
+ */
+export async function loadThreadMessages(threadId: string): Promise<ChatThreadMessage[]> {
+  const tuple = await checkpointer.getTuple({ configurable: { thread_id: threadId } })
+  const messages: any[] = (tuple?.checkpoint.channel_values as any)?.messages ?? []
+
+  const transcript: ChatThreadMessage[] = []
+  for (const msg of messages) {
+    const msgType = msg._getType ? msg._getType() : msg.type
+
+    if (msgType === 'human') {
+      transcript.push({ role: 'user', content: extractMessageContent(msg) })
+      continue
+    }
+
+    if (msgType === 'ai') {
+      const content = extractMessageContent(msg)
+      const toolCalls = extractClientToolCalls(msg)
+      if (!content && toolCalls.length === 0) continue
+
+      transcript.push({
+        role: 'assistant',
+        content,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      })
+    }
+  }
+
+  return transcript
+}
 
 export class ChatService {
   private dependencies: ChatServiceDependencies
-  private memoryStore: MemorySaver
+  private memoryStore: BaseCheckpointSaver
   private guardrailService: GuardrailService
+  private plannerService: PlannerService
 
   constructor(dependencies: ChatServiceDependencies) {
     this.dependencies = dependencies
-    this.memoryStore = memoryStore
+    this.memoryStore = checkpointer
     this.guardrailService = new GuardrailService(dependencies.chatModel)
+    this.plannerService = new PlannerService(dependencies.chatModel)
   }
 
   async runChat(
     input: string,
     threadId?: string,
-    clientContext?: {
-      page?: string
-      component?: string
-      postId?: string
-      noteId?: string
-      calendarId?: string
-      pageState?: {
-        currentMonth?: number
-        currentYear?: number
-        postId?: string
-        noteId?: string
-        [key: string]: any
+    clientContext?: ChatClientContext,
+    toolContext?: z.infer<typeof toolContextSchema>,
+    options?: { planning?: boolean },
+  ): Promise<{ response: string; toolCalls?: any[], threadId: string, traceId: string, plan: PlanStep[] | null }> {
+    const thread = threadId ?? uuidv4()
+
+    if (!toolContext) {
+      throw new Error('Tool context (userId, calendarId) is required')
+    }
+
+    const run = runRegistry.start(thread)
+    try {
+      const { agent, plan, campaignId, streamingHandler } = await this.createChatAgent(thread, input, clientContext, {
+        signal: run.signal,
+        planning: options?.planning,
+      })
+
+      streamManager.emitEvent(thread, {
+        type: 'status_start',
+        content: 'Processing your request...',
+        timestamp: Date.now()
+      })
+
+      const interruptedToolMessages = await getInterruptedToolMessages(this.memoryStore, thread)
+
+      const response = await invokeAgentWithTimeout(
+        agent,
+        [...interruptedToolMessages, { role: 'user' as const, content: input || '' }],
+        thread,
+        toolContext.userId,
+        run,
+        streamingHandler,
+        {
+          context: { ...toolContext, campaignId },
+        },
+      )
+
+      const agentResponse = extractAgentResponse(response)
+
+      return {
+        ...agentResponse,
+        threadId: thread,
+        traceId: langfuseHandler.last_trace_id!,
+        plan,
       }
-    },
+    } finally {
+      runRegistry.finish(thread, run)
+    }
+  }
+
+  /**
+   * Resumes a thread after the user acted on a client-side tool card.
+   * The placeholder ToolMessage written when the tool returned directly is
+   * replaced (same message id) with the real outcome, then the agent continues.
+   */
+  async runToolResult(
+    toolResult: ToolResultPayload,
+    threadId: string,
+    clientContext?: ChatClientContext,
     toolContext?: z.infer<typeof toolContextSchema>,
+    options?: { activePlan?: PlanStep[] | null },
   ): Promise<{ response: string; toolCalls?: any[], threadId: string, traceId: string }> {
-    const thread = threadId ?? uuidv4()
+    if (!toolContext) {
+      throw new Error('Tool context (userId, calendarId) is required')
+    }
+
+    const tuple = await this.memoryStore.getTuple({ configurable: { thread_id: threadId } })
+    const messages: any[] = (tuple?.checkpoint.channel_values as any)?.messages ?? []
+
+    const toolCall = messages
+      .flatMap((msg) => extractClientToolCalls(msg))
+      .find((tc) => tc.id === toolResult.toolCallId)
+
+    if (!toolCall || toolCall.name !== toolResult.toolName) {
+      throw new Error(`Tool call not found: ${toolResult.toolCallId}`)
+    }
+
+    const placeholder = messages.find((msg) => {
+      const msgType = msg._getType ? msg._getType() : msg.type
+      return msgType === 'tool' && msg.tool_call_id === toolResult.toolCallId
+    })
+
+    if (placeholder?.artifact?.outcome) {
+      throw new Error(`Tool result already submitted: ${toolResult.toolCallId}`)
+    }
+
+    const outcome = {
+      outcome: toolResult.outcome,
+      ...(toolResult.reason ? { reason: toolResult.reason } : {}),
+      ...(toolResult.result ? { result: toolResult.result } : {}),
+    }
+
+    const toolMessage = new ToolMessage({
+      id: placeholder?.id,
+      tool_call_id: toolResult.toolCallId,
+      name: toolResult.toolName,
+      content: JSON.stringify(outcome),
+      artifact: outcome,
+      status: toolResult.outcome === 'failed' ? 'error' : 'success',
+    })
+
+    const run = runRegistry.start(threadId)
+    try {
+      const { agent, campaignId, streamingHandler } = await this.createChatAgent(threadId, '', clientContext, {
+        signal: run.signal,
+        activePlan: options?.activePlan,
+      })
+
+      streamManager.emitEvent(threadId, {
+        type: 'status_start',
+        content: 'Processing your request...',
+        timestamp: Date.now()
+      })
+
+      const interruptedToolMessages = (await getInterruptedToolMessages(this.memoryStore, threadId))
+        .filter((msg) => msg.tool_call_id !== toolResult.toolCallId)
+
+      const response = await invokeAgentWithTimeout(
+        agent,
+        [...interruptedToolMessages, toolMessage],
+        threadId,
+        toolContext.userId,
+        run,
+        streamingHandler,
+        {
+          context: { ...toolContext, campaignId },
+        },
+      )
+
+      const agentResponse = extractAgentResponse(response)
+
+      return {
+        ...agentResponse,
+        threadId,
+        traceId: langfuseHandler.last_trace_id!
+      }
+    } finally {
+      runRegistry.finish(threadId, run)
+    }
+  }
+
+  private async createChatAgent(
+    thread: string,
+    input: string,
+    clientContext: ChatClientContext | undefined,
+    options: { signal: AbortSignal; planning?: boolean; activePlan?: PlanStep[] | null },
+  ) {
+    const guardrailSettings = await this.dependencies.repo.getGuardrailSettings()
+    let inputBlocked = false
+    // A checked answer is only streamed once the output guardrail passes it.
+    const streamingHandler = new StreamingCallbackHandler(thread, {
+      holdFinalAnswer: guardrailSettings.enabled && guardrailSettings.outputChecksEnabled,
+    })
 
     const guardrailMiddleware = createMiddleware({
-      name: "TopicGuardrail",
+      name: "Guardrails",
       beforeAgent: {
         hook: async (state) => {
+          if (!guardrailSettings.enabled) return;
           if (!state.messages || state.messages.length === 0) return;
 
           const lastMessage = state.messages[state.messages.length - 1];
@@ -385,9 +753,12 @@ export class ChatService {
               timestamp: Date.now()
             });
 
-            const decision = await this.guardrailService.validate(
-              lastMessage.content.toString(),
-              state.messages.slice(0, -1)
+            const input = lastMessage.content.toString();
+            const verdict = await this.guardrailService.validate(
+              input,
+              state.messages.slice(0, -1),
+              guardrailSettings,
+              options.signal
             );
 
             streamManager.emitEvent(thread, {
@@ -395,15 +766,19 @@ export class ChatService {
               timestamp: Date.now()
             });
 
-            if (!decision.isAllowed) {
-              streamManager.emitEvent(thread, {
-                type: 'status_end',
-                timestamp: Date.now()
+            if (!verdict.isAllowed) {
+              inputBlocked = true;
+              await this.dependencies.repo.recordGuardrailBlock({
+                threadId: thread,
+                stage: 'input',
+                category: verdict.category ?? 'off_topic',
+                reason: verdict.reason ?? 'Blocked by the input guardrail.',
+                content: input,
               });
               return {
                 messages: [
                   new AIMessage(
-                    decision.refusalMessage ||
+                    verdict.refusalMessage ||
                     "I specialize in social media management and cannot help with that request."
                   )
                 ],
@@ -421,21 +796,69 @@ export class ChatService {
           }
         },
         canJumpTo: ['end']
+      },
+      afterAgent: async (state) => {
+        if (!guardrailSettings.enabled || !guardrailSettings.outputChecksEnabled || inputBlocked) return;
+        if (!state.messages || state.messages.length === 0) return;
+
+        const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+        if (lastMessage._getType() !== "ai" || lastMessage.tool_calls?.length) return;
+
+        const output = lastMessage.content.toString();
+        if (!output.trim()) return;
+
+        try {
+          streamManager.emitEvent(thread, {
+            type: 'status_start',
+            content: 'Reviewing response...',
+            timestamp: Date.now()
+          });
+
+          const brandRules = await this.dependencies.repo.getBrandRules();
+          const verdict = await this.guardrailService.validateOutput(
+            output,
+            guardrailSettings,
+            brandRules,
+            options.signal,
+          );
+
+          if (verdict.isAllowed) {
+            streamingHandler.releaseHeldAnswer();
+            return;
+          }
+
+          const refusalMessage = verdict.refusalMessage || "I can't share that response.";
+          streamingHandler.releaseHeldAnswer(refusalMessage);
+
+          await this.dependencies.repo.recordGuardrailBlock({
+            threadId: thread,
+            stage: 'output',
+            category: verdict.category ?? 'guardrail_error',
+            reason: verdict.reason ?? 'Blocked by the output guardrail.',
+            content: output,
+          });
+
+          // Reusing the id replaces the blocked answer in the checkpoint, so it
+          // never resurfaces in thread history or later model turns.
+          return {
+            messages: [
+              new AIMessage({
+                id: lastMessage.id,
+                content: refusalMessage,
+              })
+            ]
+          };
+        } finally {
+          streamManager.emitEvent(thread, {
+            type: 'status_end',
+            timestamp: Date.now()
+          });
+        }
       }
     });
 
-    let generatedPlan: string | null = null;
-
-
     const contextKeys = getContextKeys(clientContext)
-    const tools = getToolsForContext(contextKeys, this.dependencies.toolService)
-    if (clientContext?.postId) {
-      tools.push(
-        this.dependencies.toolService.createGetCurrentPostTool(
-          clientContext.postId,
-        ),
-      )
-    }
+    const tools = getToolsForContext(contextKeys, this.dependencies.toolService, clientContext)
 
     streamManager.emitEvent(thread, {
       type: 'status_start',
@@ -443,10 +866,13 @@ export class ChatService {
       timestamp: Date.now()
     });
 
+    const campaign = await resolveCampaign(clientContext, this.dependencies.repo);
+
     const dynamicContext = await loadContextualData({
       clientContext: clientContext,
       toolService: this.dependencies.toolService,
       repo: this.dependencies.repo,
+      campaign,
     });
 
     streamManager.emitEvent(thread, {
@@ -454,7 +880,30 @@ export class ChatService {
       timestamp: Date.now()
     });
 
-    const plan = generatedPlan || "";
+    let plan = options.activePlan ?? null;
+    if (options.planning) {
+      streamManager.emitEvent(thread, {
+        type: 'status_start',
+        content: 'Planning...',
+        timestamp: Date.now()
+      });
+
+      plan = await this.plannerService.generatePlan(input, dynamicContext, options.signal);
+
+      streamManager.emitEvent(thread, {
+        type: 'status_end',
+        timestamp: Date.now()
+      });
+
+      if (plan) {
+        streamManager.emitEvent(thread, {
+          type: 'plan',
+          plan,
+          timestamp: Date.now()
+        });
+      }
+    }
+    const planPrompt = plan ? formatPlanForPrompt(plan) : "";
 
     const agent = createAgent({
       model: this.dependencies.chatModel,
@@ -463,8 +912,8 @@ export class ChatService {
       contextSchema: toolContextSchema,
       checkpointer: this.memoryStore,
       middleware: [
-        USE_GUARDRAILS ? guardrailMiddleware : () => { },
-        dynamicSystemPromptMiddleware(async (state, _config: Runtime<z.infer<typeof toolContextSchema>>) => {
+        guardrailMiddleware,
+        dynamicSystemPromptMiddleware(async (state, runtime: Runtime<z.infer<typeof toolContextSchema>>) => {
           try {
             const lastMessage = state.messages && state.messages.length > 0
               ? state.messages[state.messages.length - 1]
@@ -482,7 +931,9 @@ export class ChatService {
               vectorSearchResults = await searchDocuments({
                 history: state.messages || [],
                 input,
-                calendarId: clientContext.calendarId
+                calendarId: clientContext.calendarId,
+                campaignId: campaign?.id,
+                signal: runtime.signal
               });
 
               streamManager.emitEvent(thread, {
@@ -493,7 +944,7 @@ export class ChatService {
 
             const documentResults = await this.fetchDocumentContext(vectorSearchResults);
 
-            return dynamicContext + "\n" + documentResults + "\n" + plan;
+            return dynamicContext + "\n" + documentResults + "\n" + planPrompt;
           } catch (error) {
             streamManager.emitEvent(thread, {
               type: 'status_end',
@@ -505,33 +956,7 @@ export class ChatService {
       ],
     })
 
-    if (!toolContext) {
-      throw new Error('Tool context (userId, calendarId) is required')
-    }
-
-    streamManager.emitEvent(thread, {
-      type: 'status_start',
-      content: 'Processing your request...',
-      timestamp: Date.now()
-    })
-
-    const response = await invokeAgentWithTimeout(
-      agent,
-      [{ role: 'user' as const, content: input || '' }],
-      thread,
-      toolContext.userId,
-      {
-        context: toolContext,
-      },
-    )
-
-    const agentResponse = extractAgentResponse(response)
-
-    return {
-      ...agentResponse,
-      threadId: thread,
-      traceId: langfuseHandler.last_trace_id!
-    }
+    return { agent, plan, campaignId: campaign?.id ?? null, streamingHandler }
   }
 
   private fetchDocumentContext = async (documents: Document<StoreMetaData>[]) => {
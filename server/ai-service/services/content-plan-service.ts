@@ -0,0 +1,186 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import { PromptTemplate } from '@langchain/core/prompts'
+import { format, parseISO } from 'date-fns'
+import type { Campaign, ContentPlan, ContentPlanItem, ContentPlanRequest, Post } from '../../../shared/types'
+import { formatPlatformGuidance, platformProfiles } from '../../../shared/platforms'
+import { formatCampaignBrief } from '../../../shared/campaigns'
+import { getPlannedPostCounts } from '../../../shared/content-plan'
+import { convertSlateToText } from '../../lib/content-utils'
+import type { IAiDataRepository } from '../repository'
+import { ContentPlanDraftSchema, type ContentPlanDraft } from '../schemas'
+import { searchDocuments } from './search-service'
+import { langfuseHandler } from '../../../server/lib/langfuse'
+import { INTERNAL_RUN_TAG } from '../streaming-callback'
+
+const MAX_PLAN_NOTES = 6
+const MAX_NOTE_LENGTH = 1500
+const MAX_EXISTING_CAPTION_LENGTH = 120
+/** A plan writes every caption in one model call, so it gets a longer budget than a chat turn. */
+export const CONTENT_PLAN_TIMEOUT_MS = 90000
+
+const contentPlanPromptTemplate = new PromptTemplate({
+  template: `You are a social media manager planning a brand's posts from {from} to {to}.
+
+**Goals:**
+{goals}
+
+**Campaign:**
+{campaign}
+
+**Brand Rules:**
+{rules}
+
+**Posting Cadence:**
+Plan exactly this many posts per platform:
+{cadence}
+
+**Already Scheduled:**
+These posts are already on the calendar. Never plan a post on a platform for a day that already has one there, and don't repeat their topics.
+{existingPosts}
+
+**Planning Notes:**
+Take topics, facts and product details from these notes. Don't invent details they don't support.
+{notes}
+
+**Platform Conventions:**
+{platformGuidance}
+
+Spread each platform's posts evenly over the range and vary the topics so the plan builds towards the goals. For each post give the date, the platform, a short topic and a draft caption in the brand's voice.
+`,
+  inputVariables: ['from', 'to', 'goals', 'campaign', 'rules', 'cadence', 'existingPosts', 'notes', 'platformGuidance'],
+})
+
+function toDay(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+function formatExistingPosts(posts: Post[]): string {
+  const lines = posts.flatMap((post) =>
+    post.variants.map((variant) => {
+      const caption = variant.caption.trim().replace(/\s+/g, ' ')
+      return `- ${toDay(post.date)} ${platformProfiles[variant.platform].label}: ${caption ? caption.slice(0, MAX_EXISTING_CAPTION_LENGTH) : '(no caption yet)'}`
+    }),
+  )
+  return lines.join('\n')
+}
+
+async function loadPlanningNotes(
+  repo: IAiDataRepository,
+  request: ContentPlanRequest,
+  calendarId: string,
+  campaign: Campaign | null,
+  signal?: AbortSignal,
+): Promise<string> {
+  const documents = await searchDocuments({
+    history: [],
+    input: [`Plan social media posts for these goals:`, ...request.goals, campaign ? formatCampaignBrief(campaign) : ''].join('\n'),
+    calendarId,
+    campaignId: campaign?.id,
+    signal,
+  })
+
+  const noteIds = [...new Set(documents.filter((doc) => doc.metadata.documentType === 'note').map((doc) => doc.metadata.documentId))]
+  const notes = await Promise.all(noteIds.slice(0, MAX_PLAN_NOTES).map((noteId) => repo.getNote(noteId)))
+
+  return notes
+    .filter((note) => note !== null)
+    .map((note) => `### ${note.title}\n${(note.content ? convertSlateToText(note.content) : '').slice(0, MAX_NOTE_LENGTH)}`)
+    .join('\n\n')
+}
+
+/**
+ * Drops proposed posts that fall outside the range, target a platform the
+ * cadence doesn't ask for, land on a day the platform already has a post,
+ * or go beyond the platform's post count.
+ */
+function keepSchedulableItems(
+  draft: ContentPlanDraft,
+  request: ContentPlanRequest,
+  existingPosts: Post[],
+): ContentPlanItem[] {
+  const remaining = new Map(getPlannedPostCounts(request).map(({ platform, count }) => [platform, count]))
+  const taken = new Set(existingPosts.flatMap((post) => post.variants.map((v) => `${toDay(post.date)}:${v.platform}`)))
+
+  const items: ContentPlanItem[] = []
+  for (const item of [...draft.items].sort((a, b) => a.date.localeCompare(b.date))) {
+    const slot = `${item.date}:${item.platform}`
+    const left = remaining.get(item.platform) ?? 0
+    if (item.date < request.from || item.date > request.to || left === 0 || taken.has(slot) || !item.caption.trim()) {
+      continue
+    }
+
+    taken.add(slot)
+    remaining.set(item.platform, left - 1)
+    items.push({ date: item.date, platform: item.platform, topic: item.topic.trim(), caption: item.caption.trim() })
+  }
+
+  return items
+}
+
+/**
+ * Proposes a schedule of topics and draft captions for a date range, drawn
+ * from the goals, the campaign brief and the calendar's notes, around the
+ * posts already scheduled. Nothing is saved; the user picks which proposals
+ * become drafts.
+ */
+export async function generateContentPlan(
+  repo: IAiDataRepository,
+  request: ContentPlanRequest,
+  context: { calendarId: string; campaign: Campaign | null },
+  creativeModel: BaseChatModel,
+  signal?: AbortSignal,
+): Promise<ContentPlan> {
+  const timeoutSignal = AbortSignal.timeout(CONTENT_PLAN_TIMEOUT_MS)
+  const planSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
+
+  try {
+    const [brandRules, posts, notes] = await Promise.all([
+      repo.getBrandRules(),
+      repo.getPosts(),
+      loadPlanningNotes(repo, request, context.calendarId, context.campaign, planSignal),
+    ])
+
+    const existingPosts = posts.filter((post) => {
+      const day = toDay(post.date)
+      return day >= request.from && day <= request.to
+    })
+
+    const rulesString = brandRules
+      .filter((r) => r.enabled)
+      .map((r) => `- ${r.title}: ${r.description}`)
+      .join('\n')
+
+    const chain = contentPlanPromptTemplate.pipe(
+      creativeModel.withStructuredOutput(ContentPlanDraftSchema, {
+        name: 'content_plan',
+      }),
+    )
+
+    const draft: ContentPlanDraft = await chain.invoke({
+      from: format(parseISO(request.from), 'EEEE, MMMM d, yyyy'),
+      to: format(parseISO(request.to), 'EEEE, MMMM d, yyyy'),
+      goals: request.goals.map((goal) => `- ${goal}`).join('\n'),
+      campaign: context.campaign ? formatCampaignBrief(context.campaign) : 'None.',
+      rules: rulesString || 'No specific brand voice rules are currently active.',
+      cadence: getPlannedPostCounts(request)
+        .map(({ platform, count }) => `- ${platformProfiles[platform].label} (${platform}): ${count} posts`)
+        .join('\n'),
+      existingPosts: formatExistingPosts(existingPosts) || 'Nothing is scheduled in this range yet.',
+      notes: notes || 'No relevant notes were found.',
+      platformGuidance: request.cadence.map(({ platform }) => formatPlatformGuidance(platform)).join('\n\n'),
+    }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], signal: planSignal })
+
+    return {
+      from: request.from,
+      to: request.to,
+      summary: draft.summary,
+      items: keepSchedulableItems(draft, request, existingPosts),
+    }
+  } catch (error) {
+    console.log('generateContentPlan', { error })
+    if (timeoutSignal.aborted && !signal?.aborted) {
+      throw new Error(`Content plan timeout after ${CONTENT_PLAN_TIMEOUT_MS / 1000} seconds`)
+    }
+    throw error;
+  }
+}
@@ -1,14 +1,20 @@
 import { BaseChatModel } from '@langchain/core/language_models/chat_models'
 import { PromptTemplate } from '@langchain/core/prompts'
-import type { BrandRule } from '../../../shared/types'
+import type { BrandRule, Platform } from '../../../shared/types'
+import { formatPlatformGuidance, platformProfiles } from '../../../shared/platforms'
 import type {
+  BrandScore,
   CaptionGenerationRequest,
-    CaptionGenerationResult,
+  CaptionGenerationResult,
+  CaptionIteration,
   ExtractedBrandRules,
+  GeneratedCaption,
 } from '../schemas'
-import { ExtractedBrandRulesSchema } from '../schemas'
+import { ExtractedBrandRulesSchema, MAX_CAPTION_VARIANTS, MAX_REFINEMENT_ITERATIONS } from '../schemas'
 import { langfuseHandler } from '../../../server/lib/langfuse'
+import { INTERNAL_RUN_TAG } from '../streaming-callback'
 import { getPrompt, Prompt } from '../prompts/prompts'
+import { getBrandVoiceScore } from './grading-service'
 
 function extractTextFromMessage(message: any): string {
   if (typeof message.content === 'string') {
@@ -39,10 +45,143 @@ Rewrite the caption to apply all suggestions. Output only the new, improved capt
 
 
 
+const LENGTH_GUIDANCE: Record<NonNullable<CaptionGenerationRequest['length']>, string> = {
+  short: 'Keep it short: one or two sentences.',
+  medium: 'Aim for a medium length: a short paragraph.',
+  long: 'Write a longer caption: two or three short paragraphs.',
+}
+
+/**
+ * The managed generation prompt only takes {topic} and {rules}, so the
+ * refinement target and style controls are folded into the topic text.
+ */
+function buildGenerationTopic(
+  request: CaptionGenerationRequest,
+  variantIndex: number,
+  variantCount: number,
+): string {
+  const requirements: string[] = []
+
+  if (request.existingCaption?.trim()) {
+    requirements.push(`Refine this existing caption rather than starting over:\n"""${request.existingCaption.trim()}"""`)
+  }
+  if (request.tone?.trim()) {
+    requirements.push(`Tone: ${request.tone.trim()}.`)
+  }
+  if (request.length) {
+    requirements.push(LENGTH_GUIDANCE[request.length])
+  }
+  if (request.callToAction?.trim()) {
+    requirements.push(`Include this call to action: ${request.callToAction.trim()}.`)
+  }
+  if (request.platform) {
+    requirements.push(formatPlatformGuidance(request.platform))
+  }
+  if (request.campaignBrief?.trim()) {
+    requirements.push(`The post is part of this campaign. Support its goals and keep to its brief:\n${request.campaignBrief.trim()}`)
+  }
+  if (variantCount > 1) {
+    requirements.push(
+      `This is option ${variantIndex + 1} of ${variantCount}. Take a clearly different angle, hook or structure from the other options.`,
+    )
+  }
+
+  if (requirements.length === 0) {
+    return request.topic
+  }
+
+  return `${request.topic}\n\nRequirements:\n${requirements.map((r) => `- ${r}`).join('\n')}`
+}
+
+export const DEFAULT_TARGET_SCORE = 80
+export const DEFAULT_MAX_ITERATIONS = 3
+
+export interface CaptionRefinementProgress {
+  variant: number
+  variantCount: number
+  iteration: number
+  maxIterations: number
+  stage: 'grading' | 'refining'
+  score?: number
+}
+
+function getPlatformErrors(score: BrandScore | null): string[] {
+  return (score?.platformViolations ?? [])
+    .filter((violation) => violation.severity === 'error')
+    .map((violation) => violation.message)
+}
+
+/**
+ * Orders graded drafts: drafts that break a platform rule rank below drafts
+ * that don't, then by brand voice score.
+ */
+function compareCaptions(a: { score: BrandScore | null }, b: { score: BrandScore | null }): number {
+  const errorDifference = Number(getPlatformErrors(a.score).length > 0) - Number(getPlatformErrors(b.score).length > 0)
+  return errorDifference || (b.score?.overall ?? -1) - (a.score?.overall ?? -1)
+}
+
+/**
+ * Grades a draft and, while it stays under the target score or breaks a
+ * platform rule, rewrites it with the grader's suggestions. Returns the best
+ * graded draft, which is not always the last one.
+ */
+async function refineCaption(
+  draft: string,
+  brandRules: BrandRule[],
+  chatModel: BaseChatModel,
+  options: {
+    targetScore: number
+    maxIterations: number
+    variant: number
+    variantCount: number
+    platform?: CaptionGenerationRequest['platform']
+    signal?: AbortSignal
+    onProgress?: (progress: CaptionRefinementProgress) => void
+  },
+): Promise<GeneratedCaption> {
+  const { targetScore, maxIterations, variant, variantCount, platform, signal, onProgress } = options
+  const history: CaptionIteration[] = []
+  let caption = draft
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    onProgress?.({ variant, variantCount, iteration, maxIterations, stage: 'grading' })
+
+    // A failed grade shouldn't throw away a good caption.
+    const score = await getBrandVoiceScore(caption, brandRules, chatModel, signal, platform)
+      .catch((error) => {
+        if (signal?.aborted) throw error
+        console.error('Error scoring caption:', error)
+        return null
+      })
+
+    history.push({ iteration, caption, score })
+
+    const platformErrors = getPlatformErrors(score)
+    if (
+      !score ||
+      (score.overall >= targetScore && platformErrors.length === 0) ||
+      (score.suggestions.length === 0 && platformErrors.length === 0) ||
+      iteration === maxIterations
+    ) {
+      break
+    }
+
+    onProgress?.({ variant, variantCount, iteration, maxIterations, stage: 'refining', score: score.overall })
+    caption = await applySuggestions(caption, [...platformErrors, ...score.suggestions], chatModel, signal)
+  }
+
+  const best = history.reduce((top, entry) => (compareCaptions(entry, top) < 0 ? entry : top))
+
+  return { caption: best.caption, score: best.score, history }
+}
+
 export async function generateCaptions(
   request: CaptionGenerationRequest,
   brandRules: BrandRule[],
   creativeModel: BaseChatModel,
+  chatModel: BaseChatModel,
+  signal?: AbortSignal,
+  onProgress?: (progress: CaptionRefinementProgress) => void,
 ): Promise<CaptionGenerationResult> {
   try {
     const enabledRules = brandRules.filter((r) => r.enabled)
@@ -54,15 +193,39 @@ export async function generateCaptions(
     const generationChain = generationPromptTemplate.pipe(creativeModel)
 
     const rulesForPrompt = rulesString || "No specific brand voice rules are currently active."
-    const result = await generationChain.invoke({
-      topic: request.topic,
-      rules: rulesForPrompt,
-    }, { callbacks: [langfuseHandler] })
+    const variantCount = Math.min(Math.max(request.variantCount ?? 1, 1), MAX_CAPTION_VARIANTS)
+    const maxIterations = Math.min(
+      Math.max(request.maxIterations ?? DEFAULT_MAX_ITERATIONS, 1),
+      MAX_REFINEMENT_ITERATIONS,
+    )
+    const targetScore = request.targetScore ?? DEFAULT_TARGET_SCORE
+
+    const variants = await Promise.all(
+      Array.from({ length: variantCount }, async (_, index): Promise<GeneratedCaption> => {
+        const result = await generationChain.invoke({
+          topic: buildGenerationTopic(request, index, variantCount),
+          rules: rulesForPrompt,
+        }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], signal })
+
+        return refineCaption(extractTextFromMessage(result), brandRules, chatModel, {
+          targetScore,
+          maxIterations,
+          variant: index + 1,
+          variantCount,
+          platform: request.platform,
+          signal,
+          onProgress,
+        })
+      }),
+    )
 
-    const initialCaption = extractTextFromMessage(result)
+    variants.sort(compareCaptions)
 
     return {
-      caption: initialCaption,
+      caption: variants[0].caption,
+      score: variants[0].score,
+      variants,
+      history: variants[0].history,
     }
   } catch (error) {
     console.log('generateCaptions', { error })
@@ -70,10 +233,81 @@ export async function generateCaptions(
   }
 }
 
+/**
+ * Rewrites a caption for each target platform. Each adaptation goes through
+ * the usual grade-and-refine loop with that platform's rules applied.
+ */
+export async function adaptCaption(
+  caption: string,
+  platforms: Platform[],
+  brandRules: BrandRule[],
+  creativeModel: BaseChatModel,
+  chatModel: BaseChatModel,
+  signal?: AbortSignal,
+): Promise<({ platform: Platform } & GeneratedCaption)[]> {
+  return Promise.all(
+    platforms.map(async (platform) => {
+      const result = await generateCaptions(
+        {
+          topic: `Adapt this caption for ${platformProfiles[platform].label}. Keep the message and call to action, and change the length, structure, hashtags and formatting to suit the platform.`,
+          existingCaption: caption,
+          platform,
+        },
+        brandRules,
+        creativeModel,
+        chatModel,
+        signal,
+      )
+      return { platform, caption: result.caption, score: result.score, history: result.history }
+    }),
+  )
+}
+
+const mergeCaptionsPromptTemplate = new PromptTemplate({
+  template: `You are an expert social media copywriter. Combine the strongest parts of the following caption options into a single caption.
+
+**Brand Rules:**
+{rules}
+
+**Caption Options:**
+{captions}
+
+Keep the best hook, the clearest message and the strongest call to action. Output only the merged caption.
+`,
+  inputVariables: ['rules', 'captions'],
+})
+
+export async function mergeCaptions(
+  captions: string[],
+  brandRules: BrandRule[],
+  creativeModel: BaseChatModel,
+  signal?: AbortSignal,
+): Promise<string> {
+  try {
+    const rulesString = brandRules
+      .filter((r) => r.enabled)
+      .map((r) => `- ${r.title}: ${r.description}`)
+      .join('\n')
+
+    const chain = mergeCaptionsPromptTemplate.pipe(creativeModel)
+
+    const result = await chain.invoke({
+      rules: rulesString || 'No specific brand voice rules are currently active.',
+      captions: captions.map((caption, index) => `Option ${index + 1}:\n${caption}`).join('\n\n'),
+    }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], signal })
+
+    return extractTextFromMessage(result)
+  } catch (error) {
+    console.log('mergeCaptions', { error })
+    throw error;
+  }
+}
+
 export async function applySuggestions(
   caption: string,
   suggestions: string[],
   chatModel: BaseChatModel,
+  signal?: AbortSignal,
 ): Promise<string> {
   try {
     const chain = applySuggestionsPromptTemplate.pipe(chatModel)
@@ -83,7 +317,7 @@ export async function applySuggestions(
     const result = await chain.invoke({
       caption: caption || '(No caption provided)',
       suggestions: suggestionsString,
-    }, { callbacks: [langfuseHandler] })
+    }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], signal })
 
     return extractTextFromMessage(result);
   } catch (error) {
@@ -119,6 +353,6 @@ export async function extractBrandRules(
     }),
   )
 
-  return await chain.invoke({ text }, { callbacks: [langfuseHandler] })
+  return await chain.invoke({ text }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG] })
 }
 
@@ -1,8 +1,10 @@
 import { BaseChatModel } from '@langchain/core/language_models/chat_models'
 import { PromptTemplate } from '@langchain/core/prompts'
-import type { BrandRule } from '../../../shared/types'
+import type { BrandRule, Platform } from '../../../shared/types'
+import { checkPlatformRules } from '../../../shared/platforms'
 import { BrandScoreSchema, type BrandScore } from '../schemas'
 import { langfuseHandler } from '../../../server/lib/langfuse'
+import { INTERNAL_RUN_TAG } from '../streaming-callback'
 
 const graderPromptTemplate = new PromptTemplate({
   template: `You are an expert brand voice analyst. Your task is to grade a post caption against a set of brand voice rules.
@@ -23,7 +25,13 @@ export async function getBrandVoiceScore(
   caption: string,
   brandRules: BrandRule[],
   chatModel: BaseChatModel,
+  signal?: AbortSignal,
+  platform?: Platform,
 ): Promise<BrandScore> {
+  // Platform rules are deterministic and reported next to the LLM rule
+  // scores; they don't move the overall brand voice score.
+  const platformViolations = platform ? checkPlatformRules(caption, platform) : undefined
+
   try {
     const rulesString = brandRules
       .filter((r) => r.enabled)
@@ -35,21 +43,22 @@ export async function getBrandVoiceScore(
         overall: 100,
         rules: [],
         suggestions: ['No active brand rules were provided to grade against.'],
+        platformViolations,
       }
     }
 
     const chain = graderPromptTemplate.pipe(
-      chatModel.withStructuredOutput(BrandScoreSchema, {
+      chatModel.withStructuredOutput(BrandScoreSchema.omit({ platformViolations: true }), {
         name: 'brand_voice_grader',
       }),
     )
 
-    const result = await chain.invoke({
+    const result: Omit<BrandScore, 'platformViolations'> = await chain.invoke({
       rules: rulesString,
       caption: caption || '(No caption provided)',
-    }, { callbacks: [langfuseHandler] })
+    }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], signal })
 
-    return result;
+    return { ...result, platformViolations };
   } catch (error) {
     console.log('getBrandVoiceScore', { error })
     throw error;
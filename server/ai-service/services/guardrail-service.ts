@@ -1,8 +1,39 @@
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { BaseMessage } from "@langchain/core/messages";
-import { GuardrailDecisionSchema, type GuardrailDecision } from "../schemas";
+import {
+  GuardrailDecisionSchema,
+  OutputGuardrailDecisionSchema,
+  type GuardrailDecision,
+  type OutputGuardrailDecision,
+} from "../schemas";
 import { getPrompt, Prompt } from "../prompts/prompts";
 import { langfuseHandler } from "../../lib/langfuse";
+import { INTERNAL_RUN_TAG } from "../streaming-callback";
+import type {
+  BrandRule,
+  GuardrailBlockCategory,
+  GuardrailSettings,
+  GuardrailStage,
+} from "../../../shared/types";
+
+const DEFAULT_ALLOWED_TOPICS = "Social media management, content creation, brand voice, and using this app.";
+
+const UNAVAILABLE_MESSAGE = "I can't check this request right now, so I'm unable to help with it. Please try again in a moment.";
+
+const OUTPUT_REFUSAL_MESSAGES: Record<string, string> = {
+  caption_leak: "I drafted a caption for you, but captions go straight into the post editor rather than the chat. Open a post and ask me again to apply it there.",
+  pii: "My answer contained personal information I shouldn't share, so I've held it back. Please rephrase your request.",
+  off_brand_claim: "My answer included claims your brand guidelines don't support, so I've held it back. Please rephrase your request.",
+};
+
+export interface GuardrailVerdict {
+  isAllowed: boolean;
+  refusalMessage: string | null;
+  category: GuardrailBlockCategory | null;
+  reason: string | null;
+}
+
+const ALLOWED: GuardrailVerdict = { isAllowed: true, refusalMessage: null, category: null, reason: null };
 
 export class GuardrailService {
   private model: BaseChatModel;
@@ -31,10 +62,15 @@ export class GuardrailService {
   }
 
   /**
-   * Validates the input against the allowed topics.
-   * Returns a structured decision object.
+   * Validates the input against the calendar's allowed topics.
+   * The managed prompt receives them as {allowedTopics}.
    */
-  async validate(input: string, history: BaseMessage[] = []): Promise<GuardrailDecision> {
+  async validate(
+    input: string,
+    history: BaseMessage[] = [],
+    settings: GuardrailSettings,
+    signal?: AbortSignal,
+  ): Promise<GuardrailVerdict> {
     console.log('[Performance] Starting GuardrailService.validate');
     console.time('[Performance] GuardrailService.validate');
     
@@ -50,26 +86,118 @@ export class GuardrailService {
       );
 
       // 3. Execute with Langfuse tracing
-      const result = await chain.invoke(
+      const result: GuardrailDecision = await chain.invoke(
         {
           input,
           history: this.formatHistory(history),
+          allowedTopics: settings.allowedTopics.length > 0
+            ? settings.allowedTopics.map((topic) => `- ${topic}`).join("\n")
+            : DEFAULT_ALLOWED_TOPICS,
         },
         { 
           callbacks: [langfuseHandler], // Trace this specific evaluation
-          runName: "Guardrail Evaluation"
+          tags: [INTERNAL_RUN_TAG],
+          runName: "Guardrail Evaluation",
+          signal,
         }
       );
       
       console.timeEnd('[Performance] GuardrailService.validate');
-      return result;
+
+      if (result.isAllowed) {
+        return ALLOWED;
+      }
+
+      return {
+        isAllowed: false,
+        refusalMessage: result.refusalMessage || "I specialize in social media management and cannot help with that request.",
+        category: "off_topic",
+        reason: result.reason || "Input is outside the allowed topics.",
+      };
     } catch (error) {
       console.timeEnd('[Performance] GuardrailService.validate');
+      if (signal?.aborted) throw error;
       console.error("[GuardrailService] Validation failed:", error);
-      // Fail Open: If the guardrail service errors (e.g., network issue), 
-      // we default to allowing the request rather than blocking the user entirely.
-      return { isAllowed: true, refusalMessage: null };
+      return this.handleFailure("input", settings, error);
     }
   }
-}
 
+  /**
+   * Checks the agent's final answer before it reaches the user: caption text
+   * written into the chat, personal data, and claims the brand rules don't back.
+   * The managed prompt receives the answer as {output} and the rules as {brandRules}.
+   */
+  async validateOutput(
+    output: string,
+    settings: GuardrailSettings,
+    brandRules: BrandRule[] = [],
+    signal?: AbortSignal,
+  ): Promise<GuardrailVerdict> {
+    try {
+      const prompt = await getPrompt(Prompt.OutputGuardrail);
+
+      const chain = prompt.pipe(
+        this.model.withStructuredOutput(OutputGuardrailDecisionSchema, {
+          name: "output_guardrail",
+        })
+      );
+
+      const formattedRules = brandRules
+        .filter((rule) => rule.enabled)
+        .map((rule) => `- ${rule.title}: ${rule.description}`)
+        .join("\n");
+
+      const result: OutputGuardrailDecision = await chain.invoke(
+        {
+          output,
+          brandRules: formattedRules || "No brand rules defined.",
+        },
+        {
+          callbacks: [langfuseHandler],
+          tags: [INTERNAL_RUN_TAG],
+          runName: "Output Guardrail Evaluation",
+          signal,
+        }
+      );
+
+      if (result.isAllowed || !result.category) {
+        return ALLOWED;
+      }
+
+      return {
+        isAllowed: false,
+        refusalMessage: OUTPUT_REFUSAL_MESSAGES[result.category],
+        category: result.category,
+        reason: result.reason || `Answer flagged as ${result.category}.`,
+      };
+    } catch (error) {
+      // A cancelled run must not fall through to the fail-open policy.
+      if (signal?.aborted) throw error;
+      console.error("[GuardrailService] Output validation failed:", error);
+      return this.handleFailure("output", settings, error);
+    }
+  }
+
+  /**
+   * Applies the calendar's fail policy when a check itself errors (e.g. a
+   * network issue). Fail open lets the message through; fail closed blocks
+   * it and records why.
+   */
+  private handleFailure(
+    stage: GuardrailStage,
+    settings: GuardrailSettings,
+    error: unknown,
+  ): GuardrailVerdict {
+    if (settings.failMode === "open") {
+      return ALLOWED;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      isAllowed: false,
+      refusalMessage: UNAVAILABLE_MESSAGE,
+      category: "guardrail_error",
+      reason: `The ${stage} guardrail check failed: ${message}`,
+    };
+  }
+}
@@ -3,6 +3,9 @@ import { PromptTemplate } from "@langchain/core/prompts";
 import { PlanSchema, type Plan } from "../schemas";
 import { WORKFLOWS, APP_SPEC } from "../workflows";
 import { langfuseHandler } from "../../lib/langfuse";
+import { getToolDefinition, toolDefinitions } from "../../../shared/tool-registry";
+import type { PlanStep } from "../../../shared/types";
+import { INTERNAL_RUN_TAG } from "../streaming-callback";
 
 export class PlannerService {
   private model: BaseChatModel;
@@ -18,7 +21,7 @@ export class PlannerService {
     return result as Plan;
   }
 
-  async generatePlan(input: string, contextSummary: string): Promise<string | null> {
+  async generatePlan(input: string, contextSummary: string, signal?: AbortSignal): Promise<PlanStep[] | null> {
     try {
       const prompt = PromptTemplate.fromTemplate(`
         You are a strategic planner for a Social Media AI Agent.
@@ -40,6 +43,10 @@ export class PlannerService {
 
         {appSpec}
 
+        **Available Tools:**
+
+        {tools}
+
         **Current Context:**
 
         {context}
@@ -53,6 +60,10 @@ export class PlannerService {
         .map(w => `- ID: ${w.id}\n  Desc: ${w.description}\n  Default Steps:\n${w.steps.join("\n")}`)
         .join("\n\n");
 
+      const formattedTools = toolDefinitions
+        .map(t => `- ${t.name}: ${t.label}${t.clientSide ? " (shown to the user as an action card)" : ""}`)
+        .join("\n");
+
       const chain = prompt.pipe(
         this.model.withStructuredOutput(PlanSchema, { name: "planner" })
       );
@@ -60,9 +71,10 @@ export class PlannerService {
       const result = await chain.invoke({
         workflows: formattedWorkflows,
         appSpec: APP_SPEC,
+        tools: formattedTools,
         context: contextSummary,
         input
-      }, { callbacks: [langfuseHandler], runName: "Plan Generation" });
+      }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], runName: "Plan Generation", signal });
 
       const planResult = this.extractPlan(result);
       if (!planResult) {
@@ -73,8 +85,11 @@ export class PlannerService {
         return null; 
       }
 
-      const plan = `\n\n**CURRENT PLAN:**\n${planResult.steps.map((s: string) => `- ${s}`).join("\n")}\n(Follow this plan strictly.)`;
-      return plan;
+      return planResult.steps.map((step, index) => ({
+        id: `step-${index + 1}`,
+        description: step.description,
+        toolName: step.toolName && getToolDefinition(step.toolName) ? step.toolName : null,
+      }));
 
     } catch (error) {
       console.error("Error generating plan:", error);
@@ -83,3 +98,9 @@ export class PlannerService {
   }
 }
 
+export function formatPlanForPrompt(steps: PlanStep[]): string {
+  const lines = steps.map((step) =>
+    `- ${step.description}${step.toolName ? ` (tool: ${step.toolName})` : ""}`
+  );
+  return `\n\n**CURRENT PLAN:**\n${lines.join("\n")}\n(Follow this plan strictly. Skip steps that the conversation shows are already done.)`;
+}
@@ -0,0 +1,137 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import { PromptTemplate } from '@langchain/core/prompts'
+import type { InboxReplyDraft, SavedResponse } from '../../../shared/types'
+import { platformProfiles } from '../../../shared/platforms'
+import type { IAiDataRepository } from '../repository'
+import { langfuseHandler } from '../../../server/lib/langfuse'
+import { INTERNAL_RUN_TAG } from '../streaming-callback'
+import { getBrandVoiceScore } from './grading-service'
+
+const MAX_SAVED_RESPONSES = 3
+
+const replyPromptTemplate = new PromptTemplate({
+  template: `You are a community manager replying to a {messageType} on {platform} on behalf of a brand.
+
+**Brand Rules:**
+{rules}
+
+**Saved Responses:**
+Use these approved answers and their guidelines where they fit. Adapt the wording to the message rather than pasting them.
+{savedResponses}
+
+**Notes About This Person:**
+{memberNotes}
+
+**Post They Replied To:**
+{postCaption}
+
+**Their Message ({userName}):**
+{content}
+
+Write a short, friendly reply in the brand's voice that answers the message directly. Don't promise anything the saved responses don't cover. Output only the reply text.
+`,
+  inputVariables: [
+    'messageType',
+    'platform',
+    'rules',
+    'savedResponses',
+    'memberNotes',
+    'postCaption',
+    'userName',
+    'content',
+  ],
+})
+
+function extractTextFromMessage(message: any): string {
+  if (typeof message.content === 'string') {
+    return message.content
+  }
+  if (Array.isArray(message.content)) {
+    return message.content
+      .map((block: any) => (typeof block === 'string' ? block : block.text || ''))
+      .join('')
+  }
+  return String(message.content || '')
+}
+
+/**
+ * Picks the saved responses whose keywords appear in the message, most
+ * keyword hits first. Responses without a matching keyword are left out.
+ */
+export function matchSavedResponses(content: string, savedResponses: SavedResponse[]): SavedResponse[] {
+  const text = content.toLowerCase()
+
+  return savedResponses
+    .map((response) => ({
+      response,
+      hits: response.keywords.filter((keyword) => keyword.trim() && text.includes(keyword.trim().toLowerCase())).length,
+    }))
+    .filter(({ hits }) => hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, MAX_SAVED_RESPONSES)
+    .map(({ response }) => response)
+}
+
+/**
+ * Writes a reply draft for an inbox message, grades it against the brand
+ * rules and stores it on the message. The draft is only ever saved; sending
+ * it is left to a person in the inbox.
+ */
+export async function draftInboxReply(
+  repo: IAiDataRepository,
+  messageId: string,
+  creativeModel: BaseChatModel,
+  chatModel: BaseChatModel,
+  signal?: AbortSignal,
+): Promise<InboxReplyDraft> {
+  const message = await repo.getInboxMessage(messageId)
+  if (!message) {
+    throw new Error('Message not found')
+  }
+
+  const [brandRules, savedResponses, memberNotes] = await Promise.all([
+    repo.getBrandRules(),
+    repo.getSavedResponses(),
+    repo.getMemberNotes(message.platform, message.userId),
+  ])
+  const matchedResponses = matchSavedResponses(message.content, savedResponses)
+
+  const rulesString = brandRules
+    .filter((r) => r.enabled)
+    .map((r) => `- ${r.title}: ${r.description}`)
+    .join('\n')
+
+  try {
+    const chain = replyPromptTemplate.pipe(creativeModel)
+    const result = await chain.invoke({
+      messageType: message.type === 'dm' ? 'direct message' : message.type,
+      platform: platformProfiles[message.platform].label,
+      rules: rulesString || 'No specific brand voice rules are currently active.',
+      savedResponses:
+        matchedResponses
+          .map((r) => `- ${r.title}: ${r.content}${r.guidelines ? `\n  Guidelines: ${r.guidelines}` : ''}`)
+          .join('\n') || 'None match this message.',
+      memberNotes: memberNotes.map((note) => `- ${note.content}`).join('\n') || 'None.',
+      postCaption: message.postCaption || '(Not a reply to a post)',
+      userName: message.userName,
+      content: message.content,
+    }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], signal })
+
+    const draft = extractTextFromMessage(result).trim()
+
+    // A failed grade shouldn't throw away the draft.
+    const score = await getBrandVoiceScore(draft, brandRules, chatModel, signal)
+      .catch((error) => {
+        if (signal?.aborted) throw error
+        console.error('Error scoring reply draft:', error)
+        return null
+      })
+
+    const updated = await repo.saveInboxDraft(message.id, draft)
+
+    return { message: updated, draft, score, savedResponses: matchedResponses }
+  } catch (error) {
+    console.log('draftInboxReply', { error })
+    throw error;
+  }
+}
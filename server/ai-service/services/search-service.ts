@@ -4,6 +4,7 @@ import { chatModel } from "../models";
 import { DocType, StoreMetaData, VectorStore } from "../vector-store";
 import { BaseMessage, Document } from "langchain";
 import { langfuseHandler } from "../../../server/lib/langfuse";
+import { INTERNAL_RUN_TAG } from "../streaming-callback";
 
 const formatHistory = (history: BaseMessage[]): string => {
     return history
@@ -39,7 +40,10 @@ const routeQueryPrompt = new PromptTemplate({
 export const searchDocuments = async (params: {
     history: BaseMessage[],
     input: string,
-    calendarId: string
+    calendarId: string,
+    /** Notes in this campaign are searched on their own first and ranked ahead of the rest. */
+    campaignId?: string | null,
+    signal?: AbortSignal
 }): Promise<Document<StoreMetaData>[]> => {
     try {
         const store = new VectorStore();
@@ -48,20 +52,28 @@ export const searchDocuments = async (params: {
             .pipe(chatModel.withStructuredOutput(routeQueryResult))
             .pipe(async (data) => {
                 try {
+                    params.signal?.throwIfAborted();
                     const searchPromises = data.queries.map(async (group) => {
                         return store.searchDocuments({ calendarId: params.calendarId, text: group.queries, docType: DocType.Note })
                     }
                     );
-                    const results = await Promise.all(searchPromises);
+                    const campaignId = params.campaignId;
+                    const campaignSearchPromises = campaignId
+                        ? data.queries.map(async (group) => {
+                            return store.searchDocuments({ calendarId: params.calendarId, campaignId, text: group.queries, docType: DocType.Note })
+                        })
+                        : [];
+                    const [campaignResults, results] = await Promise.all([Promise.all(campaignSearchPromises), Promise.all(searchPromises)]);
 
-                    const uniqueResultsMap = results.flat().reduce((acc, cur) => ({ ...acc, [cur.metadata.documentType + cur.metadata.documentId]: cur }), {} as Record<string, Document<StoreMetaData>>)
+                    // Keys keep their first insertion position, so campaign notes stay ahead of the rest.
+                    const uniqueResultsMap = [...campaignResults.flat(), ...results.flat()].reduce((acc, cur) => ({ ...acc, [cur.metadata.documentType + cur.metadata.documentId]: acc[cur.metadata.documentType + cur.metadata.documentId] ?? cur }), {} as Record<string, Document<StoreMetaData>>)
                     return Object.values(uniqueResultsMap);
                 } catch (error) {
                     console.log('searchDocuments pipe', { error })
                     throw error;
                 }
             })
-            .invoke({ history: formatHistory(params.history), input: params.input }, { callbacks: [langfuseHandler] });
+            .invoke({ history: formatHistory(params.history), input: params.input }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], signal: params.signal });
 
         return result;
     } catch (error) {
@@ -0,0 +1,61 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import { PromptTemplate } from '@langchain/core/prompts'
+import type { InboxMessage } from '../../../shared/types'
+import { platformProfiles } from '../../../shared/platforms'
+import { applySentimentClassification } from '../../lib/db/inbox'
+import { SentimentClassificationSchema, type SentimentClassification } from '../schemas'
+import { langfuseHandler } from '../../../server/lib/langfuse'
+import { INTERNAL_RUN_TAG } from '../streaming-callback'
+
+const classifierPromptTemplate = new PromptTemplate({
+  template: `You are a community manager triaging a brand's social media inbox. Classify the sentiment of the message below towards the brand, how confident you are, and whether it needs an urgent reply.
+
+Sarcasm counts as negative. Questions without an opinion are neutral.
+
+**Message type:** {messageType} on {platform}
+
+**Post they replied to:**
+{postCaption}
+
+**Message:**
+{content}
+`,
+  inputVariables: ['messageType', 'platform', 'postCaption', 'content'],
+})
+
+export async function classifySentiment(
+  message: Pick<InboxMessage, 'type' | 'platform' | 'postCaption' | 'content'>,
+  chatModel: BaseChatModel,
+  signal?: AbortSignal,
+): Promise<SentimentClassification> {
+  try {
+    const chain = classifierPromptTemplate.pipe(
+      chatModel.withStructuredOutput(SentimentClassificationSchema, {
+        name: 'sentiment_classifier',
+      }),
+    )
+
+    return await chain.invoke({
+      messageType: message.type === 'dm' ? 'direct message' : message.type,
+      platform: platformProfiles[message.platform].label,
+      postCaption: message.postCaption || '(Not a reply to a post)',
+      content: message.content,
+    }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], signal })
+  } catch (error) {
+    console.log('classifySentiment', { error })
+    throw error;
+  }
+}
+
+/**
+ * Classifies a stored message and saves the result. A sentiment set by a
+ * person is kept; only the urgency flag changes for those messages.
+ */
+export async function classifyInboxMessage(
+  message: InboxMessage,
+  chatModel: BaseChatModel,
+  signal?: AbortSignal,
+): Promise<InboxMessage | null> {
+  const classification = await classifySentiment(message, chatModel, signal)
+  return applySentimentClassification(message.id, classification)
+}
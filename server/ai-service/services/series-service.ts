@@ -0,0 +1,71 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import { PromptTemplate } from '@langchain/core/prompts'
+import { format } from 'date-fns'
+import type { BrandRule, Platform } from '../../../shared/types'
+import { platformProfiles } from '../../../shared/platforms'
+import { applyAiFills, getAiPlaceholders } from '../../../shared/series'
+import { SeriesCaptionFillSchema, type SeriesCaptionFill } from '../schemas'
+import { langfuseHandler } from '../../../server/lib/langfuse'
+import { INTERNAL_RUN_TAG } from '../streaming-callback'
+
+const seriesFillPromptTemplate = new PromptTemplate({
+  template: `You are a social media manager writing one post of a recurring series called "{seriesName}" for {platforms}. This post goes out on {date}.
+
+**Brand Rules:**
+{rules}
+
+**Caption Template:**
+{caption}
+
+Write the text for each AI placeholder in the template, in order:
+{placeholders}
+
+Each text replaces its placeholder exactly, so it must read naturally with the text around it. Don't repeat the surrounding template text.
+`,
+  inputVariables: ['seriesName', 'platforms', 'date', 'rules', 'caption', 'placeholders'],
+})
+
+/**
+ * Writes the `{{ai: ...}}` placeholders of a series caption whose other
+ * placeholders are already filled. Captions without AI placeholders are
+ * returned unchanged.
+ */
+export async function fillSeriesCaption(
+  caption: string,
+  context: { seriesName: string; platforms: Platform[]; date: Date },
+  brandRules: BrandRule[],
+  creativeModel: BaseChatModel,
+  signal?: AbortSignal,
+): Promise<string> {
+  const placeholders = getAiPlaceholders(caption)
+  if (placeholders.length === 0) {
+    return caption
+  }
+
+  const rulesString = brandRules
+    .filter((r) => r.enabled)
+    .map((r) => `- ${r.title}: ${r.description}`)
+    .join('\n')
+
+  try {
+    const chain = seriesFillPromptTemplate.pipe(
+      creativeModel.withStructuredOutput(SeriesCaptionFillSchema, {
+        name: 'series_caption_fill',
+      }),
+    )
+
+    const result: SeriesCaptionFill = await chain.invoke({
+      seriesName: context.seriesName,
+      platforms: context.platforms.map((platform) => platformProfiles[platform].label).join(', '),
+      date: format(context.date, 'EEEE, MMMM d, yyyy'),
+      rules: rulesString || 'No specific brand voice rules are currently active.',
+      caption,
+      placeholders: placeholders.map((instructions, index) => `${index + 1}. ${instructions}`).join('\n'),
+    }, { callbacks: [langfuseHandler], tags: [INTERNAL_RUN_TAG], signal })
+
+    return applyAiFills(caption, result.fills)
+  } catch (error) {
+    console.log('fillSeriesCaption', { error })
+    throw error;
+  }
+}
@@ -1,19 +1,67 @@
 import { tool } from 'langchain'
+import { endOfMonth, format, startOfMonth } from 'date-fns'
 import * as z from 'zod'
 import type { ToolRuntime } from '@langchain/core/tools'
 import type { IAiDataRepository } from '../repository'
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models'
 import type { DallEAPIWrapper } from '@langchain/openai'
 import { getBrandVoiceScore } from './grading-service'
-import { generateCaptions, applySuggestions } from './generation-service'
+import { generateCaptions, applySuggestions, adaptCaption, type CaptionRefinementProgress } from './generation-service'
+import { draftInboxReply } from './reply-service'
+import { generateContentPlan } from './content-plan-service'
+import { streamManager } from '../stream-manager'
+import { toolRegistry } from '../../../shared/tool-registry'
+import { formatCampaignBrief } from '../../../shared/campaigns'
+import { validateContentPlanRequest } from '../../../shared/content-plan'
+import { toBulkPostAction, validateBulkPostRequest, type AgentBulkAction } from '../../../shared/bulk-posts'
+import type { CaptionGenerationRequest } from '../schemas'
+import type {
+  ContentPlanItem,
+  ContentPlanRequest,
+  InboxMessage,
+  InboxMessageType,
+  Platform,
+  PostStatus,
+  Sentiment,
+} from '../../../shared/types'
 
 export const toolContextSchema = z.object({
   userId: z.string(),
   calendarId: z.string(),
+  /** The campaign the user is working in, if any. */
+  campaignId: z.string().nullable().optional(),
 })
 
 export type ToolContext = z.infer<typeof toolContextSchema>
 
+const DEFAULT_UNREPLIED_LIMIT = 20
+const DEFAULT_SUMMARY_DAYS = 7
+const MAX_SUMMARY_MESSAGES = 20
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function summarizeInboxMessage(message: InboxMessage) {
+  return {
+    id: message.id,
+    memberId: message.memberId,
+    from: message.userName,
+    platform: message.platform,
+    type: message.type,
+    content: message.content,
+    sentiment: message.sentiment,
+    urgent: message.urgent,
+    replied: message.replied,
+    hasDraft: !!message.draft,
+    receivedAt: message.createdAt.toISOString(),
+  }
+}
+
+function formatRefinementStatus(progress: CaptionRefinementProgress): string {
+  const option = progress.variantCount > 1 ? ` option ${progress.variant}/${progress.variantCount}` : ''
+  return progress.stage === 'grading'
+    ? `Scoring caption${option} (pass ${progress.iteration}/${progress.maxIterations})`
+    : `Refining caption${option} (scored ${progress.score})`
+}
+
 export interface ToolServiceDependencies {
   repo: IAiDataRepository
   chatModel: BaseChatModel
@@ -42,20 +90,25 @@ export class ToolService {
 
   createGetPostsTool() {
     return tool(
-      async (_input: {}, runtime: ToolRuntime<{}, typeof toolContextSchema>) => {
+      async (input: { from?: string; to?: string }, runtime: ToolRuntime<{}, typeof toolContextSchema>) => {
         try {
           const context = runtime.context
           if (!context) {
             throw new Error('Context is required')
           }
 
-          const posts = await this.dependencies.repo.getPosts()
+          const posts = (await this.dependencies.repo.getPosts()).filter((p) => {
+            const day = format(p.date, 'yyyy-MM-dd')
+            return (!input.from || day >= input.from) && (!input.to || day <= input.to)
+          })
           return posts.map((p) => ({
             id: p.id,
-            caption: p.caption,
             date: p.date.toISOString(),
-            platform: p.platform,
-            status: p.status,
+            variants: p.variants.map((v) => ({
+              platform: v.platform,
+              caption: v.caption,
+              status: v.status,
+            })),
           }))
         } catch (error) {
           console.log('createGetPostsTool', { error })
@@ -63,10 +116,11 @@ export class ToolService {
         }
       },
       {
-        name: 'get_posts',
+        name: toolRegistry.GET_POSTS.name,
         description:
-          'Fetches all posts for the current calendar. Returns post IDs, captions, dates, platforms, and statuses.',
-        schema: z.object({}),
+          'Fetches the posts of the current calendar, optionally only those between from and to. Returns post IDs and dates, and for each platform the post targets, its caption and status.',
+        schema: toolRegistry.GET_POSTS.schema,
+        returnDirect: toolRegistry.GET_POSTS.clientSide,
       },
     )
   }
@@ -92,11 +146,13 @@ export class ToolService {
 
           return {
             id: post.id,
-            caption: post.caption,
             date: post.date.toISOString(),
-            platform: post.platform,
-            status: post.status,
-            images: post.images,
+            variants: post.variants.map((v) => ({
+              platform: v.platform,
+              caption: v.caption,
+              status: v.status,
+              images: v.images,
+            })),
             authorName: post.authorName,
           }
         } catch (error) {
@@ -105,10 +161,11 @@ export class ToolService {
         }
       },
       {
-        name: 'get_current_post',
+        name: toolRegistry.GET_CURRENT_POST.name,
         description:
-          'Gets the details of the post the user is currently viewing or editing. Returns the full post information including caption, images, platform, and status.',
-        schema: z.object({}),
+          'Gets the details of the post the user is currently viewing or editing. Returns the date, author and one variant per target platform with its caption, images and status.',
+        schema: toolRegistry.GET_CURRENT_POST.schema,
+        returnDirect: toolRegistry.GET_CURRENT_POST.clientSide,
       },
     )
   }
@@ -116,10 +173,7 @@ export class ToolService {
   createGenerateCaptionTool() {
     return tool(
       async (
-        input: {
-          topic: string
-          existingCaption?: string
-        },
+        input: CaptionGenerationRequest,
         runtime: ToolRuntime<{}, typeof toolContextSchema>,
       ) => {
         try {
@@ -129,20 +183,39 @@ export class ToolService {
           }
 
           const brandRules = await this.dependencies.repo.getBrandRules()
+          const campaign = context.campaignId ? await this.dependencies.repo.getCampaign(context.campaignId) : null
+          const threadId: string | undefined = runtime.configurable?.thread_id
 
           const result = await generateCaptions(
-            {
-              topic: input.topic,
-              existingCaption: input.existingCaption,
-            },
+            campaign ? { ...input, campaignBrief: formatCampaignBrief(campaign) } : input,
             brandRules,
             this.dependencies.creativeModel,
+            this.dependencies.chatModel,
+            runtime.signal,
+            (progress) => {
+              if (!threadId) return
+              streamManager.emitEvent(threadId, {
+                type: 'status_start',
+                toolName: toolRegistry.GENERATE_CAPTION.name,
+                content: formatRefinementStatus(progress),
+                timestamp: Date.now()
+              })
+            },
           )
 
           return {
             caption: result.caption,
-            score: null,
-            suggestions: [],
+            score: result.score?.overall ?? null,
+            suggestions: result.score?.suggestions ?? [],
+            platformViolations: result.score?.platformViolations ?? [],
+            iterations: result.history.map((entry) => ({
+              iteration: entry.iteration,
+              score: entry.score?.overall ?? null,
+            })),
+            variants: result.variants.map((variant) => ({
+              caption: variant.caption,
+              score: variant.score?.overall ?? null,
+            })),
           }
         } catch (error) {
           console.log('createGenerateCaptionTool', { error })
@@ -150,16 +223,479 @@ export class ToolService {
         }
       },
       {
-        name: 'generate_caption',
+        name: toolRegistry.GENERATE_CAPTION.name,
+        description:
+          'Generates one or more post captions (new or refined) based on brand voice rules, optionally with a tone, length, call to action and target platform. When the user is working in a campaign, its brief is applied automatically. Each caption is scored against the brand rules. Returns the best caption, its score and suggestions, and all variants best first.',
+        schema: toolRegistry.GENERATE_CAPTION.schema,
+        returnDirect: toolRegistry.GENERATE_CAPTION.clientSide,
+      },
+    )
+  }
+
+  createAdaptCaptionTool() {
+    return tool(
+      async (
+        input: { caption: string; platforms: Platform[] },
+        runtime: ToolRuntime<{}, typeof toolContextSchema>,
+      ) => {
+        try {
+          const context = runtime.context
+          if (!context) {
+            throw new Error('Context is required')
+          }
+
+          const brandRules = await this.dependencies.repo.getBrandRules()
+
+          const adaptations = await adaptCaption(
+            input.caption,
+            input.platforms,
+            brandRules,
+            this.dependencies.creativeModel,
+            this.dependencies.chatModel,
+            runtime.signal,
+          )
+
+          return {
+            adaptations: adaptations.map((adaptation) => ({
+              platform: adaptation.platform,
+              caption: adaptation.caption,
+              score: adaptation.score?.overall ?? null,
+              platformViolations: adaptation.score?.platformViolations ?? [],
+            })),
+          }
+        } catch (error) {
+          console.log('createAdaptCaptionTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.ADAPT_CAPTION.name,
+        description:
+          'Adapts a caption for one or more platforms, following each platform\'s length, hashtag, link and mention conventions. Returns one scored caption per platform. Use this when the user wants a post on other platforms, e.g. "adapt this caption for LinkedIn and Twitter".',
+        schema: toolRegistry.ADAPT_CAPTION.schema,
+        returnDirect: toolRegistry.ADAPT_CAPTION.clientSide,
+      },
+    )
+  }
+
+  createSubmitForApprovalTool() {
+    return tool(
+      async (
+        input: { postId: string; platforms?: Platform[]; note?: string },
+        runtime: ToolRuntime<{}, typeof toolContextSchema>,
+      ) => {
+        try {
+          const context = runtime.context
+          if (!context) {
+            throw new Error('Context is required')
+          }
+
+          const post = await this.dependencies.repo.getPost(input.postId)
+          if (!post) {
+            return { error: 'Post not found' }
+          }
+
+          const variants = input.platforms
+            ? post.variants.filter((v) => input.platforms!.includes(v.platform))
+            : post.variants.filter((v) => v.status === 'draft' || v.status === 'rejected')
+          if (variants.length === 0) {
+            return { error: 'No matching draft or rejected variants to submit' }
+          }
+
+          const results = []
+          for (const variant of variants) {
+            try {
+              const updated = await this.dependencies.repo.submitForApproval(post.id, variant.platform, input.note)
+              results.push({ platform: variant.platform, status: updated.status })
+            } catch (error: any) {
+              results.push({ platform: variant.platform, status: variant.status, error: error.message })
+            }
+          }
+
+          return { postId: post.id, results }
+        } catch (error) {
+          console.log('createSubmitForApprovalTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.SUBMIT_FOR_APPROVAL.name,
+        description:
+          'Submits a post\'s platform variants for approval, moving them from draft (or rejected) to awaiting approval. Only use this when the user asks to submit or send a post for review. You can never approve, reject or publish a post; a person has to do that.',
+        schema: toolRegistry.SUBMIT_FOR_APPROVAL.schema,
+        returnDirect: toolRegistry.SUBMIT_FOR_APPROVAL.clientSide,
+      },
+    )
+  }
+
+  createDraftInboxReplyTool() {
+    return tool(
+      async (input: { messageId: string }, runtime: ToolRuntime<{}, typeof toolContextSchema>) => {
+        try {
+          const context = runtime.context
+          if (!context) {
+            throw new Error('Context is required')
+          }
+
+          const result = await draftInboxReply(
+            this.dependencies.repo,
+            input.messageId,
+            this.dependencies.creativeModel,
+            this.dependencies.chatModel,
+            runtime.signal,
+          )
+
+          return {
+            messageId: result.message.id,
+            draft: result.draft,
+            score: result.score?.overall ?? null,
+            suggestions: result.score?.suggestions ?? [],
+            savedResponses: result.savedResponses.map((r) => r.title),
+          }
+        } catch (error) {
+          console.log('createDraftInboxReplyTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.DRAFT_INBOX_REPLY.name,
+        description:
+          'Drafts a reply to an inbox message using the saved responses, brand rules and notes about the sender, grades it, and saves it as the message\'s draft. The reply is never sent; a person reviews and sends it from the inbox, so tell the user the draft is waiting there.',
+        schema: toolRegistry.DRAFT_INBOX_REPLY.schema,
+        returnDirect: toolRegistry.DRAFT_INBOX_REPLY.clientSide,
+      },
+    )
+  }
+
+  createListUnrepliedMessagesTool() {
+    return tool(
+      async (
+        input: {
+          platform?: Platform
+          type?: InboxMessageType
+          sentiment?: Sentiment
+          urgentOnly?: boolean
+          limit?: number
+        },
+        runtime: ToolRuntime<{}, typeof toolContextSchema>,
+      ) => {
+        try {
+          const context = runtime.context
+          if (!context) {
+            throw new Error('Context is required')
+          }
+
+          const limit = input.limit ?? DEFAULT_UNREPLIED_LIMIT
+          const messages = await this.dependencies.repo.getInboxMessages(
+            { replied: false, platform: input.platform, type: input.type, sentiment: input.sentiment },
+            { limit: input.urgentOnly ? undefined : limit },
+          )
+
+          return messages
+            .filter((m) => !input.urgentOnly || m.urgent)
+            .slice(0, limit)
+            .map(summarizeInboxMessage)
+        } catch (error) {
+          console.log('createListUnrepliedMessagesTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.LIST_UNREPLIED_MESSAGES.name,
+        description:
+          'Lists inbox messages that have not been replied to yet, newest first. Messages from muted or blocked members are left out.',
+        schema: toolRegistry.LIST_UNREPLIED_MESSAGES.schema,
+        returnDirect: toolRegistry.LIST_UNREPLIED_MESSAGES.clientSide,
+      },
+    )
+  }
+
+  createNegativeSentimentSummaryTool() {
+    return tool(
+      async (input: { days?: number }, runtime: ToolRuntime<{}, typeof toolContextSchema>) => {
+        try {
+          const context = runtime.context
+          if (!context) {
+            throw new Error('Context is required')
+          }
+
+          const days = input.days ?? DEFAULT_SUMMARY_DAYS
+          const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+          const messages = await this.dependencies.repo.getInboxMessages({}, { since, limit: 1000 })
+          const negative = messages.filter((m) => m.sentiment === 'negative')
+
+          const byPlatform: Partial<Record<Platform, number>> = {}
+          for (const message of negative) {
+            byPlatform[message.platform] = (byPlatform[message.platform] ?? 0) + 1
+          }
+
+          return {
+            from: since.toISOString(),
+            to: new Date().toISOString(),
+            totalMessages: messages.length,
+            negativeMessages: negative.length,
+            negativeUnreplied: negative.filter((m) => !m.replied).length,
+            urgent: negative.filter((m) => m.urgent).length,
+            byPlatform,
+            messages: negative
+              .sort((a, b) => Number(b.urgent) - Number(a.urgent))
+              .slice(0, MAX_SUMMARY_MESSAGES)
+              .map(summarizeInboxMessage),
+          }
+        } catch (error) {
+          console.log('createNegativeSentimentSummaryTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.GET_NEGATIVE_SENTIMENT_SUMMARY.name,
+        description:
+          'Returns the negative inbox messages from the last few days (default 7) with counts by platform, urgency and reply state. Use it to summarize complaints and recurring themes; group the messages into themes in your answer.',
+        schema: toolRegistry.GET_NEGATIVE_SENTIMENT_SUMMARY.schema,
+        returnDirect: toolRegistry.GET_NEGATIVE_SENTIMENT_SUMMARY.clientSide,
+      },
+    )
+  }
+
+  createGetMemberHistoryTool() {
+    return tool(
+      async (input: { memberId?: string; messageId?: string }, runtime: ToolRuntime<{}, typeof toolContextSchema>) => {
+        try {
+          const context = runtime.context
+          if (!context) {
+            throw new Error('Context is required')
+          }
+
+          let memberId = input.memberId
+          if (!memberId && input.messageId) {
+            const message = await this.dependencies.repo.getInboxMessage(input.messageId)
+            memberId = message?.memberId ?? undefined
+          }
+          if (!memberId) {
+            return { error: 'Member not found. Pass a memberId or the ID of one of their messages.' }
+          }
+
+          const profile = await this.dependencies.repo.getMemberProfile(memberId)
+          if (!profile) {
+            return { error: 'Member not found' }
+          }
+
+          const { member } = profile
+          return {
+            id: member.id,
+            name: member.name,
+            platform: member.platform,
+            isBlocked: member.isBlocked,
+            isMuted: member.isMuted,
+            stats: member.stats,
+            lastMessageAt: member.lastMessageAt?.toISOString() ?? null,
+            notes: profile.notes.map((note) => note.content),
+            sentimentTrend: profile.sentimentTrend,
+            messages: profile.messages.slice(0, MAX_SUMMARY_MESSAGES).map((message) => ({
+              ...summarizeInboxMessage(message),
+              reply: message.replyContent,
+            })),
+          }
+        } catch (error) {
+          console.log('createGetMemberHistoryTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.GET_MEMBER_HISTORY.name,
+        description:
+          "Loads a community member's profile: their recent inbox messages and our replies, staff notes, weekly sentiment trend, and whether they are muted or blocked.",
+        schema: toolRegistry.GET_MEMBER_HISTORY.schema,
+        returnDirect: toolRegistry.GET_MEMBER_HISTORY.clientSide,
+      },
+    )
+  }
+
+  createGetContentAnalyticsTool() {
+    return tool(
+      async (
+        input: { from?: string; to?: string; platform?: Platform; status?: PostStatus },
+        runtime: ToolRuntime<{}, typeof toolContextSchema>,
+      ) => {
+        try {
+          const context = runtime.context
+          if (!context) {
+            throw new Error('Context is required')
+          }
+
+          const now = new Date()
+          const from = input.from ?? format(startOfMonth(now), 'yyyy-MM-dd')
+          const to = input.to ?? format(endOfMonth(now), 'yyyy-MM-dd')
+          if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+            return { error: 'from and to must be yyyy-MM-dd dates with from on or before to' }
+          }
+
+          const analytics = await this.dependencies.repo.getAnalytics(from, to)
+          if (!input.platform && !input.status) {
+            return analytics
+          }
+
+          // Narrow to the variants asked about so questions like "how many LinkedIn
+          // posts are awaiting approval" get a count and the posts behind it.
+          const posts = await this.dependencies.repo.getPosts()
+          const matchingPosts = posts.flatMap((post) => {
+            const date = format(post.date, 'yyyy-MM-dd')
+            if (date < from || date > to) return []
+            return post.variants
+              .filter((v) => (!input.platform || v.platform === input.platform) && (!input.status || v.status === input.status))
+              .map((v) => ({ postId: post.id, date, platform: v.platform, status: v.status, caption: v.caption }))
+          })
+
+          return {
+            ...analytics,
+            matching: {
+              platform: input.platform ?? 'any',
+              status: input.status ?? 'any',
+              count: matchingPosts.length,
+              posts: matchingPosts.slice(0, MAX_SUMMARY_MESSAGES),
+            },
+          }
+        } catch (error) {
+          console.log('createGetContentAnalyticsTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.GET_CONTENT_ANALYTICS.name,
+        description:
+          'Returns analytics for the calendar between two dates (default: the current month): post counts per platform and status, the average brand score and its weekly trend, gaps in the schedule and inbox totals. Pass platform and/or status to also count and list the matching posts, e.g. LinkedIn posts awaiting approval.',
+        schema: toolRegistry.GET_CONTENT_ANALYTICS.schema,
+        returnDirect: toolRegistry.GET_CONTENT_ANALYTICS.clientSide,
+      },
+    )
+  }
+
+  createProposeInboxReplyTool() {
+    return tool(
+      async (input: { messageId: string; reply: string }, runtime: ToolRuntime<{}, typeof toolContextSchema>) => {
+        try {
+          const context = runtime.context
+          if (!context) {
+            throw new Error('Context is required')
+          }
+
+          const message = await this.dependencies.repo.getInboxMessage(input.messageId)
+          if (!message) {
+            throw new Error('Message not found')
+          }
+
+          return `Reply proposed for message ${input.messageId}. The client will put it in the draft for the user to review.`;
+        } catch (error) {
+          console.log('createProposeInboxReplyTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.PROPOSE_INBOX_REPLY.name,
+        description:
+          'Puts a reply into an inbox message\'s draft for the user to review, edit and send. This never sends anything. Use the message ID from the "Current Inbox Message" context or from list_unreplied_messages.',
+        schema: toolRegistry.PROPOSE_INBOX_REPLY.schema,
+        returnDirect: toolRegistry.PROPOSE_INBOX_REPLY.clientSide,
+      },
+    )
+  }
+
+  createGenerateContentPlanTool() {
+    return tool(
+      async (input: ContentPlanRequest, runtime: ToolRuntime<{}, typeof toolContextSchema>) => {
+        try {
+          const context = runtime.context
+          if (!context) {
+            throw new Error('Context is required')
+          }
+
+          const requestError = validateContentPlanRequest(input)
+          if (requestError) {
+            return { error: requestError }
+          }
+
+          const campaign = context.campaignId ? await this.dependencies.repo.getCampaign(context.campaignId) : null
+
+          return await generateContentPlan(
+            this.dependencies.repo,
+            input,
+            { calendarId: context.calendarId, campaign },
+            this.dependencies.creativeModel,
+            runtime.signal,
+          )
+        } catch (error) {
+          console.log('createGenerateContentPlanTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.GENERATE_CONTENT_PLAN.name,
+        description:
+          'Plans posts for a date range, e.g. "plan my month". Takes the goals, how many posts a week per platform and the first and last day. Uses the calendar\'s notes, brand rules and the active campaign, and leaves days that already have a post on a platform alone. Returns a summary and the proposed posts with their date, platform, topic and draft caption. Nothing is saved.',
+        schema: toolRegistry.GENERATE_CONTENT_PLAN.schema,
+        returnDirect: toolRegistry.GENERATE_CONTENT_PLAN.clientSide,
+      },
+    )
+  }
+
+  createProposeContentPlanTool() {
+    return tool(
+      async (input: { summary: string; items: ContentPlanItem[] }, runtime: ToolRuntime<{}, typeof toolContextSchema>) => {
+        try {
+          if (!runtime.context) {
+            throw new Error('Context is required')
+          }
+
+          return `Content plan with ${input.items.length} posts proposed. The client will show it for the user to pick which posts become drafts.`;
+        } catch (error) {
+          console.log('createProposeContentPlanTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.PROPOSE_CONTENT_PLAN.name,
+        description:
+          'Shows a content plan to the user, who picks the posts to keep; only those are created as drafts. Pass the summary and items from generate_content_plan unchanged.',
+        schema: toolRegistry.PROPOSE_CONTENT_PLAN.schema,
+        returnDirect: toolRegistry.PROPOSE_CONTENT_PLAN.clientSide,
+      },
+    )
+  }
+
+  createProposeBulkPostActionTool() {
+    return tool(
+      async (
+        input: { action: AgentBulkAction; postIds: string[]; days?: number },
+        runtime: ToolRuntime<{}, typeof toolContextSchema>,
+      ) => {
+        try {
+          if (!runtime.context) {
+            throw new Error('Context is required')
+          }
+
+          const validationError = validateBulkPostRequest(input.postIds, toBulkPostAction(input.action, input.days))
+          if (validationError) {
+            throw new Error(validationError)
+          }
+
+          const postIds = new Set((await this.dependencies.repo.getPosts()).map((post) => post.id))
+          const missing = input.postIds.filter((id) => !postIds.has(id))
+          if (missing.length > 0) {
+            throw new Error(`Posts not found in this calendar: ${missing.join(', ')}`)
+          }
+
+          return `Bulk ${input.action} of ${input.postIds.length} posts proposed. The client will list every affected post for the user to confirm.`;
+        } catch (error) {
+          console.log('createProposeBulkPostActionTool', { error })
+          throw error;
+        }
+      },
+      {
+        name: toolRegistry.PROPOSE_BULK_POST_ACTION.name,
         description:
-          'Generates a new post caption or refines an existing one based on brand voice rules. Returns the caption, score, and suggestions.',
-        schema: z.object({
-          topic: z.string().describe('The main topic of the post'),
-          existingCaption: z
-            .string()
-            .optional()
-            .describe('An existing caption to refine (optional)'),
-        }),
+          'Proposes one change to several posts at once: reschedule or duplicate them by a number of days, submit them for approval, move them back to draft, delete them or re-grade their captions. The user sees every affected post and confirms before anything changes. Get the post IDs from get_posts first. You cannot approve or reject posts.',
+        schema: toolRegistry.PROPOSE_BULK_POST_ACTION.schema,
+        returnDirect: toolRegistry.PROPOSE_BULK_POST_ACTION.clientSide,
       },
     )
   }
@@ -167,7 +703,7 @@ export class ToolService {
   createApplyCaptionTool() {
     return tool(
       async (
-        input: { postId: string; caption: string },
+        input: { postId: string; caption: string; platform?: Platform },
         runtime: ToolRuntime<{}, typeof toolContextSchema>,
       ) => {
         try {
@@ -181,21 +717,18 @@ export class ToolService {
             throw new Error('Post not found')
           }
 
-          return `Caption suggestion ready for post ${input.postId}. The client will apply this change.`;
+          return `Caption suggestion ready for post ${input.postId}${input.platform ? ` (${input.platform})` : ''}. The client will apply this change.`;
         } catch (error) {
           console.log('createApplyCaptionTool', { error })
           throw error;
         }
       },
       {
-        name: 'apply_caption_to_open_post',
+        name: toolRegistry.APPLY_CAPTION.name,
         description:
           'Applies a generated caption to the currently open post in the post editor. This is a suggestion that the user can accept or reject. IMPORTANT: Use the Post ID from the "Current Post" context section in the system message. If no post ID is provided in context, you cannot use this tool.',
-        schema: z.object({
-          postId: z.string().describe('The ID of the post to update. This should match the Post ID from the "Current Post" context in the system message.'),
-          caption: z.string().describe('The caption text to apply to the post'),
-        }),
-        returnDirect: true, // Client-side tool - returns directly to UI
+        schema: toolRegistry.APPLY_CAPTION.schema,
+        returnDirect: toolRegistry.APPLY_CAPTION.clientSide,
       },
     )
   }
@@ -218,17 +751,11 @@ export class ToolService {
         }
       },
       {
-        name: 'navigate_to_calendar',
+        name: toolRegistry.NAVIGATE.name,
         description:
           'Navigates to the calendar page. Shows a button that the user clicks to navigate.',
-        schema: z.object({
-          page: z.string().optional().describe('The page to navigate to (default: calendar)'),
-          label: z
-            .string()
-            .optional()
-            .describe('The text to display on the button (default: "Open Calendar")'),
-        }),
-        returnDirect: true, // Client-side tool - returns directly to UI
+        schema: toolRegistry.NAVIGATE.schema,
+        returnDirect: toolRegistry.NAVIGATE.clientSide,
       },
     )
   }
@@ -266,10 +793,11 @@ export class ToolService {
         }
       },
       {
-        name: 'get_brand_rules',
+        name: toolRegistry.GET_BRAND_RULES.name,
         description:
           'Gets the active brand voice rules for the current calendar. Use this when you need to reference or explain the brand voice guidelines.',
-        schema: z.object({}),
+        schema: toolRegistry.GET_BRAND_RULES.schema,
+        returnDirect: toolRegistry.GET_BRAND_RULES.clientSide,
       },
     )
   }
@@ -277,7 +805,7 @@ export class ToolService {
   createGradeCaptionTool() {
     return tool(
       async (
-        input: { caption: string },
+        input: { caption: string; platform?: Platform },
         runtime: ToolRuntime<{}, typeof toolContextSchema>,
       ) => {
         try {
@@ -292,13 +820,17 @@ export class ToolService {
             input.caption,
             brandRules,
             this.dependencies.chatModel,
+            runtime.signal,
+            input.platform,
           )
+          const platformViolations = score.platformViolations ?? []
 
           return {
             overall: score.overall,
             rules: score.rules,
             suggestions: score.suggestions,
-            message: `Caption scored ${score.overall}/100. ${score.suggestions.length} suggestion(s) provided.`,
+            platformViolations,
+            message: `Caption scored ${score.overall}/100. ${score.suggestions.length} suggestion(s) provided.${platformViolations.length > 0 ? ` ${platformViolations.length} platform rule issue(s) found.` : ''}`,
           }
         } catch (error) {
           console.log('createGradeCaptionTool', { error })
@@ -306,12 +838,11 @@ export class ToolService {
         }
       },
       {
-        name: 'grade_caption',
+        name: toolRegistry.GRADE_CAPTION.name,
         description:
-          'Grades a caption against the brand voice rules. Returns the overall score (0-100), breakdown by rule, and actionable suggestions for improvement. Use this when users ask you to evaluate, grade, or review a caption.',
-        schema: z.object({
-          caption: z.string().describe('The caption text to grade against brand voice rules'),
-        }),
+          'Grades a caption against the brand voice rules. Returns the overall score (0-100), breakdown by rule, and actionable suggestions for improvement. Pass the platform to also check its character limit, hashtag, link and mention rules. Use this when users ask you to evaluate, grade, or review a caption.',
+        schema: toolRegistry.GRADE_CAPTION.schema,
+        returnDirect: toolRegistry.GRADE_CAPTION.clientSide,
       },
     )
   }
@@ -334,21 +865,11 @@ export class ToolService {
         }
       },
       {
-        name: 'create_post',
+        name: toolRegistry.CREATE_POST.name,
         description:
           'Creates a new post on a specific date. Opens the post editor modal with a new draft post. The date should be in ISO format (YYYY-MM-DD) or a relative date like "today", "tomorrow", or a day name like "Monday".',
-        schema: z.object({
-          date: z
-            .string()
-            .describe(
-              'The date for the new post. Can be ISO format (YYYY-MM-DD), "today", "tomorrow", or a day name (e.g., "Monday").',
-            ),
-          label: z
-            .string()
-            .optional()
-            .describe('Optional label to display on the button (default: "Create Post")'),
-        }),
-        returnDirect: true, // Client-side tool - returns directly to UI
+        schema: toolRegistry.CREATE_POST.schema,
+        returnDirect: toolRegistry.CREATE_POST.clientSide,
       },
     )
   }
@@ -377,17 +898,11 @@ export class ToolService {
         }
       },
       {
-        name: 'open_post',
+        name: toolRegistry.OPEN_POST.name,
         description:
           'Opens an existing post in the post editor. Use this when the user asks to view, edit, or open a specific post. You can get post IDs from the get_posts tool.',
-        schema: z.object({
-          postId: z.string().describe('The ID of the post to open'),
-          label: z
-            .string()
-            .optional()
-            .describe('Optional label to display on the button (default: "Open Post")'),
-        }),
-        returnDirect: true, // Client-side tool - returns directly to UI
+        schema: toolRegistry.OPEN_POST.schema,
+        returnDirect: toolRegistry.OPEN_POST.clientSide,
       },
     )
   }
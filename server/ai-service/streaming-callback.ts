@@ -1,17 +1,20 @@
 import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
 import { Serialized } from "@langchain/core/load/serializable";
 import { streamManager } from "./stream-manager";
+import { toolDefinitions } from "../../shared/tool-registry";
+
+/**
+ * Tag for LLM calls made on the agent's behalf (planning, search routing,
+ * grading, caption drafting). Their tokens are never streamed to the chat.
+ */
+export const INTERNAL_RUN_TAG = 'internal';
+
+// Node name createAgent uses for the model turn that produces the answer.
+const AGENT_MODEL_NODE = 'model_request';
 
 const TOOL_DISPLAY_NAMES: Record<string, string> = {
-  'get_posts': 'Fetching posts',
-  'get_current_post': 'Loading post details',
-  'generate_caption': 'Generating caption',
-  'grade_caption': 'Evaluating caption',
+  ...Object.fromEntries(toolDefinitions.map((definition) => [definition.name, definition.label])),
   'search_documents': 'Searching knowledge base',
-  'navigate_to_calendar': 'Navigating to calendar',
-  'apply_caption_to_open_post': 'Applying caption',
-  'create_post': 'Creating post',
-  'open_post': 'Opening post',
 };
 
 function extractToolName(tool: Serialized): string {
@@ -58,13 +61,60 @@ function getToolDisplayName(toolName: string): string {
 export class StreamingCallbackHandler extends BaseCallbackHandler {
   name = "StreamingCallbackHandler";
   private threadId: string;
+  private visibleRuns = new Set<string>();
+  private toolRuns = new Map<string, string>();
+  /**
+   * While set, answer tokens are buffered per run instead of streamed. A turn
+   * that ends in tool calls is flushed right away; the final answer waits in
+   * `heldAnswer` until the output guardrail releases or discards it.
+   */
+  private holdFinalAnswer: boolean;
+  private bufferedTokens = new Map<string, string>();
+  private heldAnswer = '';
 
-  constructor(threadId: string) {
+  constructor(threadId: string, options: { holdFinalAnswer?: boolean } = {}) {
     super();
     this.threadId = threadId;
+    this.holdFinalAnswer = options.holdFinalAnswer ?? false;
+  }
+
+  /** Streams the held final answer, or `replacement` in its place. */
+  releaseHeldAnswer(replacement?: string) {
+    const content = replacement ?? this.heldAnswer;
+    this.heldAnswer = '';
+    if (content) {
+      this.emitToken(content);
+    }
   }
 
-  async handleLLMStart(_llm: Serialized, _prompts: string[]) {
+  private emitToken(content: string) {
+    streamManager.emitEvent(this.threadId, {
+      type: 'token',
+      content,
+      timestamp: Date.now()
+    });
+  }
+
+  async handleLLMStart(
+    _llm: Serialized,
+    _prompts: string[],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+  ) {
+    const isAgentTurn = metadata?.langgraph_node === AGENT_MODEL_NODE;
+    const isInternal = tags?.includes(INTERNAL_RUN_TAG) ?? false;
+
+    if (isAgentTurn && !isInternal) {
+      this.visibleRuns.add(runId);
+      streamManager.emitEvent(this.threadId, {
+        type: 'message_start',
+        timestamp: Date.now()
+      });
+    }
+
     streamManager.emitEvent(this.threadId, {
       type: 'status_start',
       content: 'Thinking...',
@@ -72,24 +122,50 @@ export class StreamingCallbackHandler extends BaseCallbackHandler {
     });
   }
 
-  async handleLLMNewToken(token: string) {
+  async handleLLMNewToken(token: string, _idx: unknown, runId: string) {
+    if (!token || !this.visibleRuns.has(runId)) {
+      return;
+    }
+
+    if (this.holdFinalAnswer) {
+      this.bufferedTokens.set(runId, (this.bufferedTokens.get(runId) ?? '') + token);
+      return;
+    }
+
+    this.emitToken(token);
+  }
+
+  async handleLLMEnd(output: any, runId: string) {
+    this.visibleRuns.delete(runId);
+    const buffered = this.bufferedTokens.get(runId);
+    if (buffered !== undefined) {
+      this.bufferedTokens.delete(runId);
+      // Text before a tool call isn't the answer the output guardrail checks.
+      if (output?.generations?.[0]?.[0]?.message?.tool_calls?.length) {
+        this.emitToken(buffered);
+      } else {
+        this.heldAnswer += buffered;
+      }
+    }
     streamManager.emitEvent(this.threadId, {
-      type: 'token',
-      content: token,
+      type: 'status_end',
       timestamp: Date.now()
     });
   }
 
-  async handleLLMEnd(_output: any) {
+  async handleLLMError(_err: any, runId: string) {
+    this.visibleRuns.delete(runId);
+    this.bufferedTokens.delete(runId);
     streamManager.emitEvent(this.threadId, {
       type: 'status_end',
       timestamp: Date.now()
     });
   }
 
-  async handleToolStart(tool: Serialized, _input: string, _runId: string, _parentRunId?: string, _tags?: string[], _metadata?: Record<string, unknown>, runName?: string) {
+  async handleToolStart(tool: Serialized, _input: string, runId: string, _parentRunId?: string, _tags?: string[], _metadata?: Record<string, unknown>, runName?: string) {
     const toolName = runName || extractToolName(tool);
     const displayName = getToolDisplayName(toolName);
+    this.toolRuns.set(runId, toolName);
     
     streamManager.emitEvent(this.threadId, {
       type: 'status_start',
@@ -99,7 +175,19 @@ export class StreamingCallbackHandler extends BaseCallbackHandler {
     });
   }
 
-  async handleToolEnd(_output: string) {
+  // The finished tool's name lets the client tick off the matching plan step.
+  async handleToolEnd(_output: string, runId: string) {
+    const toolName = this.toolRuns.get(runId);
+    this.toolRuns.delete(runId);
+    streamManager.emitEvent(this.threadId, {
+      type: 'status_end',
+      toolName,
+      timestamp: Date.now()
+    });
+  }
+
+  async handleToolError(_err: any, runId: string) {
+    this.toolRuns.delete(runId);
     streamManager.emitEvent(this.threadId, {
       type: 'status_end',
       timestamp: Date.now()
@@ -1,26 +1,53 @@
+import type { StructuredToolInterface } from '@langchain/core/tools'
 import type { ToolService } from './services/tool-service'
+import {
+  CONTEXT_KEYS,
+  toolDefinitions,
+  toolRegistry,
+  type ContextKey,
+  type ToolKey,
+} from '../../shared/tool-registry'
 
-export type ContextKey = 'global' | 'calendar' | 'postEditor' | 'brandVoice'
-
-const toolManifest: Record<ContextKey, string[]> = {
-  global: ['createNavigateToPageTool', 'createGenerateCaptionTool', 'createGetBrandRulesTool', 'createGradeCaptionTool'],
-  calendar: [
-    'createGetPostsTool',
-    'createGenerateCaptionTool',
-    'createGetBrandRulesTool',
-    'createGradeCaptionTool',
-    'createCreatePostTool',
-    'createOpenPostTool',
-  ],
-  postEditor: ['createGenerateCaptionTool', 'createApplyCaptionTool', 'createGetBrandRulesTool', 'createGradeCaptionTool'],
-  brandVoice: ['createGetBrandRulesTool', 'createGradeCaptionTool'],
-}
+export type { ContextKey } from '../../shared/tool-registry'
 
-export function getContextKeys(clientContext?: {
+type ToolClientContext = {
   page?: string
   component?: string
   postId?: string
-}): ContextKey[] {
+}
+
+type ToolFactory = (
+  toolService: ToolService,
+  clientContext?: ToolClientContext,
+) => StructuredToolInterface | null
+
+const toolFactories: Record<ToolKey, ToolFactory> = {
+  GET_POSTS: (toolService) => toolService.createGetPostsTool(),
+  GET_CURRENT_POST: (toolService, clientContext) =>
+    clientContext?.postId
+      ? toolService.createGetCurrentPostTool(clientContext.postId)
+      : null,
+  GENERATE_CAPTION: (toolService) => toolService.createGenerateCaptionTool(),
+  ADAPT_CAPTION: (toolService) => toolService.createAdaptCaptionTool(),
+  GET_BRAND_RULES: (toolService) => toolService.createGetBrandRulesTool(),
+  GRADE_CAPTION: (toolService) => toolService.createGradeCaptionTool(),
+  NAVIGATE: (toolService) => toolService.createNavigateToPageTool(),
+  APPLY_CAPTION: (toolService) => toolService.createApplyCaptionTool(),
+  CREATE_POST: (toolService) => toolService.createCreatePostTool(),
+  OPEN_POST: (toolService) => toolService.createOpenPostTool(),
+  SUBMIT_FOR_APPROVAL: (toolService) => toolService.createSubmitForApprovalTool(),
+  DRAFT_INBOX_REPLY: (toolService) => toolService.createDraftInboxReplyTool(),
+  LIST_UNREPLIED_MESSAGES: (toolService) => toolService.createListUnrepliedMessagesTool(),
+  GET_NEGATIVE_SENTIMENT_SUMMARY: (toolService) => toolService.createNegativeSentimentSummaryTool(),
+  GET_MEMBER_HISTORY: (toolService) => toolService.createGetMemberHistoryTool(),
+  PROPOSE_INBOX_REPLY: (toolService) => toolService.createProposeInboxReplyTool(),
+  GET_CONTENT_ANALYTICS: (toolService) => toolService.createGetContentAnalyticsTool(),
+  GENERATE_CONTENT_PLAN: (toolService) => toolService.createGenerateContentPlanTool(),
+  PROPOSE_CONTENT_PLAN: (toolService) => toolService.createProposeContentPlanTool(),
+  PROPOSE_BULK_POST_ACTION: (toolService) => toolService.createProposeBulkPostActionTool(),
+}
+
+export function getContextKeys(clientContext?: ToolClientContext): ContextKey[] {
   const keys: ContextKey[] = ['global']
 
   if (!clientContext) {
@@ -39,40 +66,35 @@ export function getContextKeys(clientContext?: {
     keys.push('brandVoice')
   }
 
+  if (clientContext.page === 'inbox' || clientContext.component === 'inbox') {
+    keys.push('inbox')
+  }
+
   return keys
 }
 
 export function getToolsForContext(
   contextKeys: ContextKey[],
   toolService: ToolService,
+  clientContext?: ToolClientContext,
 ): any[] {
   const tools: any[] = []
-  const methodNames = new Set<string>()
 
-  for (const key of contextKeys) {
-    const methods = toolManifest[key] || []
-    for (const methodName of methods) {
-      methodNames.add(methodName)
-    }
-  }
+  for (const [key, definition] of Object.entries(toolRegistry) as [ToolKey, (typeof toolRegistry)[ToolKey]][]) {
+    const isExposed = definition.contextKeys.some((contextKey: ContextKey) =>
+      contextKeys.includes(contextKey),
+    )
+    if (!isExposed) continue
 
-  for (const methodName of methodNames) {
-    const method = (toolService as any)[methodName]
-    if (typeof method === 'function') {
-      try {
-        const tool = method.call(toolService)
-        if (tool) {
-          tools.push(tool)
-        }
-      } catch (error) {
-        console.error(
-          `[TOOL_MANIFEST] Error creating tool ${methodName}:`,
-          error,
-        )
+    try {
+      const tool = toolFactories[key](toolService, clientContext)
+      if (tool) {
+        tools.push(tool)
       }
-    } else {
-      console.warn(
-        `[TOOL_MANIFEST] Method ${methodName} not found on ToolService`,
+    } catch (error) {
+      console.error(
+        `[TOOL_MANIFEST] Error creating tool ${definition.name}:`,
+        error,
       )
     }
   }
@@ -80,3 +102,58 @@ export function getToolsForContext(
   return tools
 }
 
+/**
+ * Verifies that every registry entry has a factory and that the tool each
+ * factory builds agrees with its registry entry. Called once at startup so
+ * a drifted definition fails loudly instead of silently hiding a tool.
+ */
+export function validateToolRegistry(toolService: ToolService): void {
+  const problems: string[] = []
+  const seenNames = new Set<string>()
+
+  for (const definition of toolDefinitions) {
+    if (seenNames.has(definition.name)) {
+      problems.push(`duplicate tool name "${definition.name}"`)
+    }
+    seenNames.add(definition.name)
+
+    if (definition.contextKeys.length === 0) {
+      problems.push(`"${definition.name}" is not exposed by any context key`)
+    }
+    for (const contextKey of definition.contextKeys) {
+      if (!CONTEXT_KEYS.includes(contextKey)) {
+        problems.push(`"${definition.name}" references unknown context key "${contextKey}"`)
+      }
+    }
+    if (!definition.label.trim()) {
+      problems.push(`"${definition.name}" has no display label`)
+    }
+  }
+
+  for (const key of Object.keys(toolFactories)) {
+    if (!(key in toolRegistry)) {
+      problems.push(`factory "${key}" has no registry entry`)
+    }
+  }
+
+  for (const [key, definition] of Object.entries(toolRegistry) as [ToolKey, (typeof toolRegistry)[ToolKey]][]) {
+    const factory = toolFactories[key]
+    if (!factory) {
+      problems.push(`"${definition.name}" has no tool factory`)
+      continue
+    }
+
+    const tool = factory(toolService, { postId: 'registry-check' }) as StructuredToolInterface | null
+    if (!tool) {
+      problems.push(`factory for "${definition.name}" did not build a tool`)
+      continue
+    }
+    if (tool.name !== definition.name) {
+      problems.push(`factory "${key}" builds "${tool.name}" but the registry expects "${definition.name}"`)
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`[TOOL_MANIFEST] Tool registry mismatch:\n- ${problems.join('\n- ')}`)
+  }
+}
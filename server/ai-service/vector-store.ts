@@ -16,7 +16,8 @@ const CHUNK_OVERLAP = 100;
 export type StoreMetaData = {
     documentId: string,
     documentType: DocType,
-    calendarId: string
+    calendarId: string,
+    campaignId?: string
 }
 
 export class VectorStore {
@@ -37,17 +38,18 @@ export class VectorStore {
         });
     }
 
-    async upsertDocument(docType: DocType, doc: { id: string, calendarId: string, content: string }) {
+    async upsertDocument(docType: DocType, doc: { id: string, calendarId: string, campaignId?: string | null, content: string }) {
 
         await this.deleteDocument(docType, doc.id)
 
         const splitter = new RecursiveCharacterTextSplitter({ chunkSize: CHUNK_SIZE, chunkOverlap: CHUNK_OVERLAP })
         const texts = await splitter.splitText(doc.content)
 
-        const metadata = {
+        const metadata: StoreMetaData = {
             documentId: doc.id,
             documentType: docType,
             calendarId: doc.calendarId,
+            ...(doc.campaignId ? { campaignId: doc.campaignId } : {}),
         };
 
         const docs = texts.map((t: string) => new Document({ pageContent: t, metadata }))
@@ -65,10 +67,16 @@ export class VectorStore {
     async searchDocuments(query: {
         text: string[],
         calendarId: string,
+        campaignId?: string,
         docType: DocType
     }): Promise<Document<StoreMetaData>[]> {
 
-        const retriever = this.vectorStore.asRetriever({ k: 5, filter: { calendarId: query.calendarId, documentType: query.docType } })
+        const filter: Partial<StoreMetaData> = { calendarId: query.calendarId, documentType: query.docType }
+        if (query.campaignId) {
+            filter.campaignId = query.campaignId
+        }
+
+        const retriever = this.vectorStore.asRetriever({ k: 5, filter })
 
         const batchResult = await retriever.batch(query.text)
 
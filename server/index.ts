@@ -14,6 +14,15 @@ import uploadRouter from './routes/upload'
 import mediaRouter from './routes/media'
 import organizationRouter from './routes/organization'
 import notesRouter from './routes/notes'
+import guardrailsRouter from './routes/guardrails'
+import notificationsRouter from './routes/notifications'
+import inboxRouter from './routes/inbox'
+import communityMembersRouter from './routes/community-members'
+import analyticsRouter from './routes/analytics'
+import postSeriesRouter from './routes/post-series'
+import campaignsRouter from './routes/campaigns'
+import { publishScheduler } from './publishing/scheduler'
+import { seriesExpander } from './series/expander'
 
 
 const app = new Hono()
@@ -39,6 +48,13 @@ app.route('/api/upload', uploadRouter)
 app.route('/api/media', mediaRouter)
 app.route('/api/organization', organizationRouter)
 app.route('/api/notes', notesRouter)
+app.route('/api/guardrails', guardrailsRouter)
+app.route('/api/notifications', notificationsRouter)
+app.route('/api/inbox', inboxRouter)
+app.route('/api/community-members', communityMembersRouter)
+app.route('/api/analytics', analyticsRouter)
+app.route('/api/post-series', postSeriesRouter)
+app.route('/api/campaigns', campaignsRouter)
 
 
 const port = Number(process.env.PORT) || 3001
@@ -49,3 +65,11 @@ serve({
   fetch: app.fetch,
   port,
 })
+
+if (process.env.PUBLISH_SCHEDULER_ENABLED !== "false") {
+  publishScheduler.start()
+}
+
+if (process.env.SERIES_EXPANDER_ENABLED !== "false") {
+  seriesExpander.start()
+}
@@ -34,8 +34,49 @@ export async function requireAuth(c: Context<{ Variables: Variables }>, next: Ne
   await next()
 }
 
+export type CalendarRole = "owner" | "admin" | "member"
+
+/**
+ * The calendar's owner is "owner"; anyone else gets their role in the
+ * organization the calendar belongs to, or null when they aren't a member.
+ */
+export async function getCalendarRole(userId: string, calendarId: string): Promise<CalendarRole | null> {
+  const { data: calendar } = await supabase
+    .from("calendars")
+    .select("user_id, organization_id")
+    .eq("id", calendarId)
+    .single()
+
+  if (!calendar) return null
+  if (calendar.user_id === userId) return "owner"
+  if (!calendar.organization_id) return null
+
+  const { data: member } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", calendar.organization_id)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  return member?.role ?? null
+}
+
+/**
+ * The owner and every member of the calendar's organization can open it and
+ * work on its posts. Routes that change how the calendar runs, or delete or
+ * publish posts, also check `canManageCalendar` or `canApprovePosts`.
+ */
 export async function canAccessCalendar(userId: string, calendarId: string): Promise<boolean> {
-  const { data } = await supabase.from("calendars").select("id").eq("id", calendarId).eq("user_id", userId).single()
+  return (await getCalendarRole(userId, calendarId)) !== null
+}
+
+/** The owner and admins manage the calendar's settings, such as its guardrails. */
+export async function canManageCalendar(userId: string, calendarId: string): Promise<boolean> {
+  const role = await getCalendarRole(userId, calendarId)
+  return role === "owner" || role === "admin"
+}
 
-  return !!data
+/** Members can draft and submit posts; only the owner and admins approve or reject them. */
+export async function canApprovePosts(userId: string, calendarId: string): Promise<boolean> {
+  return canManageCalendar(userId, calendarId)
 }
@@ -0,0 +1,139 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from "date-fns"
+import { supabase } from "../supabase"
+import { PLATFORMS } from "../../../shared/platforms"
+import type {
+  BrandScoreTrendPoint,
+  CalendarAnalytics,
+  InboxAnalytics,
+  PostStatus,
+  ScheduleGap,
+} from "../../../shared/types"
+
+const POST_STATUSES: PostStatus[] = ["draft", "awaiting_approval", "approved", "rejected", "published"]
+
+// Shorter quiet stretches are normal between posts and aren't reported as gaps.
+const MIN_GAP_DAYS = 3
+
+function emptyStatusCounts(): Record<PostStatus, number> {
+  return Object.fromEntries(POST_STATUSES.map((status) => [status, 0])) as Record<PostStatus, number>
+}
+
+function buildBrandScoreTrend(scores: { date: Date; score: number }[]): BrandScoreTrendPoint[] {
+  const weeks = new Map<string, { total: number; count: number }>()
+
+  for (const { date, score } of scores) {
+    const weekStart = format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd")
+    const week = weeks.get(weekStart) ?? { total: 0, count: 0 }
+    week.total += score
+    week.count++
+    weeks.set(weekStart, week)
+  }
+
+  return [...weeks.entries()]
+    .map(([weekStart, { total, count }]) => ({ weekStart, average: Math.round(total / count), count }))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart))
+}
+
+/** Runs of at least MIN_GAP_DAYS days between `from` and `to` with no post scheduled. */
+function findScheduleGaps(from: Date, to: Date, postDates: Date[]): ScheduleGap[] {
+  const busyDays = new Set(postDates.map((date) => format(date, "yyyy-MM-dd")))
+  const gaps: ScheduleGap[] = []
+  let gapStart: Date | null = null
+
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const isBusy = busyDays.has(format(day, "yyyy-MM-dd"))
+
+    if (!isBusy && !gapStart) {
+      gapStart = day
+    }
+
+    const isLastDay = differenceInCalendarDays(to, day) === 0
+    if (gapStart && (isBusy || isLastDay)) {
+      const gapEnd = isBusy ? addDays(day, -1) : day
+      const days = differenceInCalendarDays(gapEnd, gapStart) + 1
+      if (days >= MIN_GAP_DAYS) {
+        gaps.push({ start: format(gapStart, "yyyy-MM-dd"), end: format(gapEnd, "yyyy-MM-dd"), days })
+      }
+      gapStart = null
+    }
+  }
+
+  return gaps
+}
+
+/**
+ * Post, brand score and inbox aggregates for a calendar. `from` and `to` are
+ * yyyy-MM-dd and both inclusive; posts are counted by their scheduled date and
+ * inbox messages by when they arrived.
+ */
+export async function getCalendarAnalytics(calendarId: string, from: string, to: string): Promise<CalendarAnalytics | null> {
+  const rangeStart = parseISO(from)
+  const rangeEnd = parseISO(to)
+  const rangeEndExclusive = addDays(rangeEnd, 1).toISOString()
+
+  const [postsResult, inboxResult] = await Promise.all([
+    supabase
+      .from("posts")
+      .select("id, date, post_variants(platform, status, brand_score)")
+      .eq("calendar_id", calendarId)
+      .gte("date", rangeStart.toISOString())
+      .lt("date", rangeEndExclusive),
+    supabase
+      .from("inbox_messages")
+      .select("sentiment, replied, is_urgent")
+      .eq("calendar_id", calendarId)
+      .gte("created_at", rangeStart.toISOString())
+      .lt("created_at", rangeEndExclusive),
+  ])
+
+  if (postsResult.error || inboxResult.error) {
+    console.error("Error loading analytics:", postsResult.error ?? inboxResult.error)
+    return null
+  }
+
+  const posts = postsResult.data || []
+  const platforms = PLATFORMS.map((platform) => ({ platform, total: 0, byStatus: emptyStatusCounts() }))
+  const statusFunnel = emptyStatusCounts()
+  const scores: { date: Date; score: number }[] = []
+
+  for (const post of posts) {
+    const date = new Date(post.date)
+    for (const variant of post.post_variants || []) {
+      const platformStats = platforms.find((p) => p.platform === variant.platform)
+      if (platformStats) {
+        platformStats.total++
+        platformStats.byStatus[variant.status as PostStatus]++
+      }
+      statusFunnel[variant.status as PostStatus]++
+      if (typeof variant.brand_score === "number") {
+        scores.push({ date, score: variant.brand_score })
+      }
+    }
+  }
+
+  const inbox: InboxAnalytics = {
+    total: 0,
+    unreplied: 0,
+    urgent: 0,
+    bySentiment: { positive: 0, neutral: 0, negative: 0 },
+  }
+  for (const message of inboxResult.data || []) {
+    inbox.total++
+    if (!message.replied) inbox.unreplied++
+    if (message.is_urgent) inbox.urgent++
+    inbox.bySentiment[message.sentiment as keyof InboxAnalytics["bySentiment"]]++
+  }
+
+  return {
+    from,
+    to,
+    totalPosts: posts.length,
+    platforms,
+    statusFunnel,
+    averageBrandScore:
+      scores.length > 0 ? Math.round(scores.reduce((sum, { score }) => sum + score, 0) / scores.length) : null,
+    brandScoreTrend: buildBrandScoreTrend(scores),
+    scheduleGaps: findScheduleGaps(rangeStart, rangeEnd, posts.map((post) => new Date(post.date))),
+    inbox,
+  }
+}
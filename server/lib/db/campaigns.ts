@@ -0,0 +1,108 @@
+import { supabase } from "../supabase"
+import type { Campaign, CampaignInput } from "../../../shared/types"
+
+function mapCampaign(data: any): Campaign {
+  return {
+    id: data.id,
+    calendarId: data.calendar_id,
+    name: data.name,
+    description: data.description ?? "",
+    goals: data.goals ?? [],
+    color: data.color,
+    startsOn: data.starts_on,
+    endsOn: data.ends_on,
+    createdAt: new Date(data.created_at),
+    updatedAt: new Date(data.updated_at),
+  }
+}
+
+function toCampaignRow(input: CampaignInput) {
+  return {
+    name: input.name,
+    description: input.description,
+    goals: input.goals,
+    color: input.color,
+    starts_on: input.startsOn,
+    ends_on: input.endsOn,
+  }
+}
+
+export async function getCampaigns(calendarId: string): Promise<Campaign[]> {
+  const { data, error } = await supabase
+    .from("campaigns")
+    .select("*")
+    .eq("calendar_id", calendarId)
+    .order("starts_on", { ascending: false })
+
+  if (error) {
+    console.error("Error loading campaigns:", error)
+    return []
+  }
+
+  return (data || []).map(mapCampaign)
+}
+
+export async function getCampaignById(campaignId: string): Promise<Campaign | null> {
+  const { data, error } = await supabase.from("campaigns").select("*").eq("id", campaignId).maybeSingle()
+
+  if (error) {
+    console.error("Error loading campaign:", error)
+    return null
+  }
+
+  return data ? mapCampaign(data) : null
+}
+
+export async function createCampaign(calendarId: string, input: CampaignInput): Promise<Campaign | null> {
+  const { data, error } = await supabase
+    .from("campaigns")
+    .insert({ ...toCampaignRow(input), calendar_id: calendarId })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating campaign:", error)
+    return null
+  }
+
+  return mapCampaign(data)
+}
+
+export async function updateCampaign(campaignId: string, input: CampaignInput): Promise<Campaign | null> {
+  const { data, error } = await supabase
+    .from("campaigns")
+    .update(toCampaignRow(input))
+    .eq("id", campaignId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating campaign:", error)
+    return null
+  }
+
+  return mapCampaign(data)
+}
+
+/** Posts, notes and media in the campaign are kept and lose the link. */
+export async function deleteCampaign(campaignId: string): Promise<boolean> {
+  const { error } = await supabase.from("campaigns").delete().eq("id", campaignId)
+
+  if (error) {
+    console.error("Error deleting campaign:", error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Whether `campaignId` can be linked to something in `calendarId`. A null id
+ * clears the link and is always allowed.
+ */
+export async function isCampaignInCalendar(campaignId: string | null, calendarId: string): Promise<boolean> {
+  if (campaignId === null) return true
+  const campaign = await getCampaignById(campaignId)
+  return campaign?.calendarId === calendarId
+}
+
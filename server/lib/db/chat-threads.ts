@@ -0,0 +1,131 @@
+import { supabase } from "../supabase"
+import type { ChatThread, PlanStep } from "../../../shared/types"
+
+const MAX_TITLE_LENGTH = 60
+
+function mapChatThread(data: any): ChatThread {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    calendarId: data.calendar_id,
+    title: data.title,
+    activePlan: data.active_plan ?? null,
+    createdAt: new Date(data.created_at),
+    updatedAt: new Date(data.updated_at),
+  }
+}
+
+export function buildThreadTitle(input: string): string {
+  const singleLine = input.replace(/\s+/g, " ").trim()
+  if (!singleLine) {
+    return "New conversation"
+  }
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : singleLine
+}
+
+export async function getChatThreads(userId: string, calendarId: string): Promise<ChatThread[]> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("calendar_id", calendarId)
+    .order("updated_at", { ascending: false })
+
+  if (error) {
+    console.error("Error loading chat threads:", error)
+    return []
+  }
+
+  return (data || []).map(mapChatThread)
+}
+
+export async function getChatThreadById(threadId: string): Promise<ChatThread | null> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .select("*")
+    .eq("id", threadId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error loading chat thread:", error)
+    return null
+  }
+
+  return data ? mapChatThread(data) : null
+}
+
+export async function createChatThread(thread: {
+  id: string
+  userId: string
+  calendarId: string
+  title: string
+}): Promise<ChatThread | null> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .insert({
+      id: thread.id,
+      user_id: thread.userId,
+      calendar_id: thread.calendarId,
+      title: thread.title,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating chat thread:", error)
+    return null
+  }
+
+  return mapChatThread(data)
+}
+
+export async function touchChatThread(threadId: string): Promise<void> {
+  const { error } = await supabase
+    .from("chat_threads")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", threadId)
+
+  if (error) {
+    console.error("Error updating chat thread:", error)
+  }
+}
+
+export async function setChatThreadPlan(threadId: string, plan: PlanStep[] | null): Promise<void> {
+  const { error } = await supabase
+    .from("chat_threads")
+    .update({ active_plan: plan })
+    .eq("id", threadId)
+
+  if (error) {
+    console.error("Error saving chat thread plan:", error)
+  }
+}
+
+export async function renameChatThread(threadId: string, title: string): Promise<ChatThread | null> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .update({ title })
+    .eq("id", threadId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error renaming chat thread:", error)
+    return null
+  }
+
+  return mapChatThread(data)
+}
+
+export async function deleteChatThread(threadId: string): Promise<boolean> {
+  const { error } = await supabase.from("chat_threads").delete().eq("id", threadId)
+
+  if (error) {
+    console.error("Error deleting chat thread:", error)
+    return false
+  }
+
+  return true
+}
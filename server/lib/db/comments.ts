@@ -0,0 +1,128 @@
+import { supabase } from "../supabase"
+import type { Comment, MentionableMember } from "../../../shared/types"
+
+export function mapComment(data: any): Comment {
+  return {
+    id: data.id,
+    postId: data.post_id,
+    userId: data.user_id,
+    userName: data.user_name,
+    content: data.content,
+    mentionedUserIds: data.mentioned_user_ids || [],
+    createdAt: new Date(data.created_at),
+  }
+}
+
+export async function getPostComments(postId: string): Promise<Comment[]> {
+  const { data, error } = await supabase
+    .from("post_comments")
+    .select("*")
+    .eq("post_id", postId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error loading post comments:", error)
+    return []
+  }
+
+  return (data || []).map(mapComment)
+}
+
+export async function createPostComment(
+  comment: Omit<Comment, "id" | "createdAt">,
+): Promise<Comment | null> {
+  const { data, error } = await supabase
+    .from("post_comments")
+    .insert({
+      post_id: comment.postId,
+      user_id: comment.userId,
+      user_name: comment.userName,
+      content: comment.content,
+      mentioned_user_ids: comment.mentionedUserIds,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating post comment:", error)
+    return null
+  }
+
+  return mapComment(data)
+}
+
+/** Authors can only delete their own comments. */
+export async function deletePostComment(commentId: string, postId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("post_comments")
+    .delete()
+    .eq("id", commentId)
+    .eq("post_id", postId)
+    .eq("user_id", userId)
+    .select("id")
+
+  if (error) {
+    console.error("Error deleting post comment:", error)
+    return false
+  }
+
+  return (data || []).length > 0
+}
+
+/**
+ * The calendar's owner plus the members of its organization. Calendars
+ * without an organization fall back to the organization the owner runs.
+ */
+export async function getMentionableMembers(calendarId: string): Promise<MentionableMember[]> {
+  const { data: calendar, error: calendarError } = await supabase
+    .from("calendars")
+    .select("user_id, organization_id")
+    .eq("id", calendarId)
+    .single()
+
+  if (calendarError || !calendar) {
+    console.error("Error loading calendar for mentions:", calendarError)
+    return []
+  }
+
+  let organizationId = calendar.organization_id
+  if (!organizationId) {
+    const { data: organization } = await supabase
+      .from("organizations")
+      .select("id")
+      .eq("owner_id", calendar.user_id)
+      .maybeSingle()
+    organizationId = organization?.id ?? null
+  }
+
+  const userIds = new Set<string>([calendar.user_id])
+  if (organizationId) {
+    const { data: members, error: membersError } = await supabase
+      .from("organization_members")
+      .select("user_id")
+      .eq("organization_id", organizationId)
+
+    if (membersError) {
+      console.error("Error loading organization members for mentions:", membersError)
+    }
+    for (const member of members || []) {
+      userIds.add(member.user_id)
+    }
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, name, email")
+    .in("id", [...userIds])
+
+  if (profilesError) {
+    console.error("Error loading profiles for mentions:", profilesError)
+    return []
+  }
+
+  return (profiles || []).map((profile: any) => ({
+    id: profile.id,
+    name: profile.name || profile.email?.split("@")[0] || "User",
+    email: profile.email || "",
+  }))
+}
@@ -0,0 +1,190 @@
+import { format, startOfWeek } from "date-fns"
+import { supabase } from "../supabase"
+import { getInboxMessagesByMember } from "./inbox"
+import type {
+  CommunityMember,
+  CommunityMemberProfile,
+  InboxMessage,
+  MemberNote,
+  Platform,
+  SentimentTrendPoint,
+} from "../../../shared/types"
+
+function mapCommunityMember(data: any): CommunityMember {
+  return {
+    id: data.id,
+    calendarId: data.calendar_id,
+    name: data.name,
+    email: data.email ?? null,
+    avatar: data.avatar ?? null,
+    platform: data.platform ?? null,
+    platformUserId: data.platform_user_id ?? null,
+    isBlocked: data.is_blocked ?? false,
+    isMuted: data.is_muted ?? false,
+    stats: {
+      comments: data.stats_comments ?? 0,
+      mentions: data.stats_mentions ?? 0,
+      dms: data.stats_dms ?? 0,
+    },
+    joinedAt: new Date(data.joined_at),
+    lastMessageAt: data.last_message_at ? new Date(data.last_message_at) : null,
+  }
+}
+
+function mapMemberNote(data: any): MemberNote {
+  return {
+    id: data.id,
+    calendarId: data.calendar_id,
+    memberId: data.member_id,
+    content: data.content,
+    createdAt: new Date(data.created_at),
+    updatedAt: new Date(data.updated_at),
+  }
+}
+
+/** Counts messages per sentiment for each week, oldest week first. */
+function buildSentimentTrend(messages: InboxMessage[]): SentimentTrendPoint[] {
+  const weeks = new Map<string, SentimentTrendPoint>()
+
+  for (const message of messages) {
+    const weekStart = format(startOfWeek(message.createdAt, { weekStartsOn: 1 }), "yyyy-MM-dd")
+    const point = weeks.get(weekStart) ?? { weekStart, positive: 0, neutral: 0, negative: 0 }
+    point[message.sentiment]++
+    weeks.set(weekStart, point)
+  }
+
+  return [...weeks.values()].sort((a, b) => a.weekStart.localeCompare(b.weekStart))
+}
+
+export async function getCommunityMembers(
+  calendarId: string,
+  filters: { search?: string; status?: "blocked" | "muted" } = {},
+): Promise<CommunityMember[]> {
+  let query = supabase
+    .from("community_members")
+    .select("*")
+    .eq("calendar_id", calendarId)
+    .order("last_message_at", { ascending: false, nullsFirst: false })
+
+  if (filters.search) query = query.ilike("name", `%${filters.search}%`)
+  if (filters.status === "blocked") query = query.eq("is_blocked", true)
+  if (filters.status === "muted") query = query.eq("is_muted", true)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("Error loading community members:", error)
+    return []
+  }
+
+  return (data || []).map(mapCommunityMember)
+}
+
+export async function getCommunityMemberById(memberId: string): Promise<CommunityMember | null> {
+  const { data, error } = await supabase.from("community_members").select("*").eq("id", memberId).maybeSingle()
+
+  if (error) {
+    console.error("Error loading community member:", error)
+    return null
+  }
+
+  return data ? mapCommunityMember(data) : null
+}
+
+export async function getCommunityMemberProfile(memberId: string): Promise<CommunityMemberProfile | null> {
+  const member = await getCommunityMemberById(memberId)
+  if (!member) {
+    return null
+  }
+
+  const [messages, notes] = await Promise.all([getInboxMessagesByMember(memberId), getMemberNotes(memberId)])
+
+  return { member, messages, notes, sentimentTrend: buildSentimentTrend(messages) }
+}
+
+/** Only the moderation flags are editable; stats follow the member's inbox messages. */
+export async function updateCommunityMemberFlags(
+  memberId: string,
+  flags: { isBlocked?: boolean; isMuted?: boolean },
+): Promise<CommunityMember | null> {
+  const updateData: any = {}
+  if (flags.isBlocked !== undefined) updateData.is_blocked = flags.isBlocked
+  if (flags.isMuted !== undefined) updateData.is_muted = flags.isMuted
+
+  const { data, error } = await supabase
+    .from("community_members")
+    .update(updateData)
+    .eq("id", memberId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating community member:", error)
+    return null
+  }
+
+  return mapCommunityMember(data)
+}
+
+export async function getMemberNotes(memberId: string): Promise<MemberNote[]> {
+  const { data, error } = await supabase
+    .from("member_notes")
+    .select("*")
+    .eq("member_id", memberId)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error loading member notes:", error)
+    return []
+  }
+
+  return (data || []).map(mapMemberNote)
+}
+
+/** Notes staff left on the community member behind a platform account, newest first. */
+export async function getMemberNotesForSender(
+  calendarId: string,
+  platform: Platform,
+  platformUserId: string,
+): Promise<MemberNote[]> {
+  const { data, error } = await supabase
+    .from("member_notes")
+    .select("*, community_members!inner(platform, platform_user_id)")
+    .eq("calendar_id", calendarId)
+    .eq("community_members.platform", platform)
+    .eq("community_members.platform_user_id", platformUserId)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error loading member notes:", error)
+    return []
+  }
+
+  return (data || []).map(mapMemberNote)
+}
+
+export async function createMemberNote(calendarId: string, memberId: string, content: string): Promise<MemberNote | null> {
+  const { data, error } = await supabase
+    .from("member_notes")
+    .insert({ calendar_id: calendarId, member_id: memberId, content })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating member note:", error)
+    return null
+  }
+
+  return mapMemberNote(data)
+}
+
+export async function deleteMemberNote(noteId: string, memberId: string): Promise<boolean> {
+  const { error } = await supabase.from("member_notes").delete().eq("id", noteId).eq("member_id", memberId)
+
+  if (error) {
+    console.error("Error deleting member note:", error)
+    return false
+  }
+
+  return true
+}
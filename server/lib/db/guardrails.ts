@@ -0,0 +1,115 @@
+import { supabase } from "../supabase"
+import type { GuardrailBlock, GuardrailSettings } from "../../../shared/types"
+
+const MAX_BLOCK_CONTENT_LENGTH = 2000
+
+export function getDefaultGuardrailSettings(calendarId: string): GuardrailSettings {
+  return {
+    calendarId,
+    enabled: false,
+    failMode: "open",
+    allowedTopics: [],
+    outputChecksEnabled: true,
+  }
+}
+
+function mapGuardrailSettings(data: any): GuardrailSettings {
+  return {
+    calendarId: data.calendar_id,
+    enabled: data.enabled,
+    failMode: data.fail_mode,
+    allowedTopics: data.allowed_topics || [],
+    outputChecksEnabled: data.output_checks_enabled,
+  }
+}
+
+function mapGuardrailBlock(data: any): GuardrailBlock {
+  return {
+    id: data.id,
+    calendarId: data.calendar_id,
+    userId: data.user_id,
+    threadId: data.thread_id,
+    stage: data.stage,
+    category: data.category,
+    reason: data.reason,
+    content: data.content,
+    createdAt: new Date(data.created_at),
+  }
+}
+
+export async function getGuardrailSettings(calendarId: string): Promise<GuardrailSettings> {
+  const { data, error } = await supabase
+    .from("guardrail_settings")
+    .select("*")
+    .eq("calendar_id", calendarId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error loading guardrail settings:", error)
+    return getDefaultGuardrailSettings(calendarId)
+  }
+
+  return data ? mapGuardrailSettings(data) : getDefaultGuardrailSettings(calendarId)
+}
+
+export async function saveGuardrailSettings(settings: GuardrailSettings): Promise<GuardrailSettings | null> {
+  const { data, error } = await supabase
+    .from("guardrail_settings")
+    .upsert({
+      calendar_id: settings.calendarId,
+      enabled: settings.enabled,
+      fail_mode: settings.failMode,
+      allowed_topics: settings.allowedTopics,
+      output_checks_enabled: settings.outputChecksEnabled,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error saving guardrail settings:", error)
+    return null
+  }
+
+  return mapGuardrailSettings(data)
+}
+
+export async function recordGuardrailBlock(
+  block: Omit<GuardrailBlock, "id" | "createdAt">,
+): Promise<GuardrailBlock | null> {
+  const { data, error } = await supabase
+    .from("guardrail_blocks")
+    .insert({
+      calendar_id: block.calendarId,
+      user_id: block.userId,
+      thread_id: block.threadId,
+      stage: block.stage,
+      category: block.category,
+      reason: block.reason,
+      content: block.content.slice(0, MAX_BLOCK_CONTENT_LENGTH),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error recording guardrail block:", error)
+    return null
+  }
+
+  return mapGuardrailBlock(data)
+}
+
+export async function getGuardrailBlocks(calendarId: string, limit = 50): Promise<GuardrailBlock[]> {
+  const { data, error } = await supabase
+    .from("guardrail_blocks")
+    .select("*")
+    .eq("calendar_id", calendarId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error loading guardrail blocks:", error)
+    return []
+  }
+
+  return (data || []).map(mapGuardrailBlock)
+}
@@ -0,0 +1,349 @@
+import { supabase } from "../supabase"
+import type { InboxFilters, InboxMessage, SavedResponse, Sentiment } from "../../../shared/types"
+
+export function mapInboxMessage(data: any): InboxMessage {
+  return {
+    id: data.id,
+    calendarId: data.calendar_id,
+    memberId: data.member_id ?? null,
+    userId: data.user_id,
+    userName: data.user_name,
+    userAvatar: data.user_avatar,
+    type: data.type,
+    content: data.content,
+    postId: data.post_id,
+    postCaption: data.post_caption,
+    platform: data.platform,
+    sentiment: data.sentiment,
+    sentimentConfidence: data.sentiment_confidence ?? null,
+    sentimentOverridden: data.sentiment_overridden ?? false,
+    urgent: data.is_urgent ?? false,
+    replied: data.replied ?? false,
+    replyContent: data.reply_content ?? null,
+    repliedAt: data.replied_at ? new Date(data.replied_at) : null,
+    draft: data.draft,
+    liked: data.liked ?? false,
+    createdAt: new Date(data.created_at),
+    updatedAt: new Date(data.updated_at),
+  }
+}
+
+function mapSavedResponse(data: any): SavedResponse {
+  return {
+    id: data.id,
+    calendarId: data.calendar_id,
+    title: data.title,
+    content: data.content,
+    keywords: data.keywords || [],
+    guidelines: data.guidelines,
+    createdAt: new Date(data.created_at),
+  }
+}
+
+async function getHiddenMemberIds(calendarId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("community_members")
+    .select("id")
+    .eq("calendar_id", calendarId)
+    .or("is_muted.eq.true,is_blocked.eq.true")
+
+  if (error) {
+    console.error("Error loading muted members:", error)
+    return []
+  }
+
+  return (data || []).map((member) => member.id)
+}
+
+export async function getInboxMessages(
+  calendarId: string,
+  filters: InboxFilters = {},
+  options: { limit?: number; since?: Date } = {},
+): Promise<InboxMessage[]> {
+  let query = supabase
+    .from("inbox_messages")
+    .select("*")
+    .eq("calendar_id", calendarId)
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 200)
+
+  if (options.since) query = query.gte("created_at", options.since.toISOString())
+
+  if (filters.type) query = query.eq("type", filters.type)
+  if (filters.platform) query = query.eq("platform", filters.platform)
+  if (filters.sentiment) query = query.eq("sentiment", filters.sentiment)
+  if (filters.replied !== undefined) query = query.eq("replied", filters.replied)
+
+  if (!filters.includeMuted) {
+    const hiddenMemberIds = await getHiddenMemberIds(calendarId)
+    if (hiddenMemberIds.length > 0) {
+      query = query.or(`member_id.is.null,member_id.not.in.(${hiddenMemberIds.join(",")})`)
+    }
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("Error loading inbox messages:", error)
+    return []
+  }
+
+  return (data || []).map(mapInboxMessage)
+}
+
+export async function getInboxMessagesByMember(memberId: string, limit = 200): Promise<InboxMessage[]> {
+  const { data, error } = await supabase
+    .from("inbox_messages")
+    .select("*")
+    .eq("member_id", memberId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error loading member inbox history:", error)
+    return []
+  }
+
+  return (data || []).map(mapInboxMessage)
+}
+
+export async function getInboxMessageById(messageId: string): Promise<InboxMessage | null> {
+  const { data, error } = await supabase.from("inbox_messages").select("*").eq("id", messageId).maybeSingle()
+
+  if (error) {
+    console.error("Error loading inbox message:", error)
+    return null
+  }
+
+  return data ? mapInboxMessage(data) : null
+}
+
+export async function createInboxMessage(
+  message: Pick<
+    InboxMessage,
+    | "calendarId"
+    | "userId"
+    | "userName"
+    | "userAvatar"
+    | "type"
+    | "content"
+    | "postId"
+    | "postCaption"
+    | "platform"
+    | "sentiment"
+    | "sentimentOverridden"
+  >,
+): Promise<InboxMessage | null> {
+  const { data, error } = await supabase
+    .from("inbox_messages")
+    .insert({
+      calendar_id: message.calendarId,
+      user_id: message.userId,
+      user_name: message.userName,
+      user_avatar: message.userAvatar,
+      type: message.type,
+      content: message.content,
+      post_id: message.postId,
+      post_caption: message.postCaption,
+      platform: message.platform,
+      sentiment: message.sentiment,
+      sentiment_overridden: message.sentimentOverridden,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating inbox message:", error)
+    return null
+  }
+
+  return mapInboxMessage(data)
+}
+
+export async function updateInboxMessage(
+  messageId: string,
+  updates: Partial<Pick<InboxMessage, "draft" | "liked" | "sentiment" | "sentimentOverridden" | "replied">>,
+): Promise<InboxMessage | null> {
+  const updateData: any = {}
+  if (updates.draft !== undefined) updateData.draft = updates.draft
+  if (updates.liked !== undefined) updateData.liked = updates.liked
+  if (updates.sentiment !== undefined) updateData.sentiment = updates.sentiment
+  if (updates.sentimentOverridden !== undefined) updateData.sentiment_overridden = updates.sentimentOverridden
+  if (updates.replied !== undefined) updateData.replied = updates.replied
+
+  const { data, error } = await supabase
+    .from("inbox_messages")
+    .update(updateData)
+    .eq("id", messageId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating inbox message:", error)
+    return null
+  }
+
+  return mapInboxMessage(data)
+}
+
+/**
+ * Records the reply a person sent. Sending it to the platform happens
+ * outside this app for now, so this only stores it and clears the draft.
+ */
+export async function recordInboxReply(messageId: string, content: string): Promise<InboxMessage | null> {
+  const { data, error } = await supabase
+    .from("inbox_messages")
+    .update({
+      reply_content: content,
+      replied: true,
+      replied_at: new Date().toISOString(),
+      draft: null,
+    })
+    .eq("id", messageId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error recording inbox reply:", error)
+    return null
+  }
+
+  return mapInboxMessage(data)
+}
+
+/**
+ * Stores a sentiment classification. A sentiment a person set is never
+ * replaced; only the urgency flag is updated for those messages.
+ */
+export async function applySentimentClassification(
+  messageId: string,
+  classification: { sentiment: Sentiment; confidence: number; urgent: boolean },
+): Promise<InboxMessage | null> {
+  const classifiedAt = new Date().toISOString()
+
+  const { data, error } = await supabase
+    .from("inbox_messages")
+    .update({
+      sentiment: classification.sentiment,
+      sentiment_confidence: classification.confidence,
+      is_urgent: classification.urgent,
+      sentiment_classified_at: classifiedAt,
+    })
+    .eq("id", messageId)
+    .eq("sentiment_overridden", false)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error saving sentiment classification:", error)
+    return null
+  }
+
+  if (data) {
+    return mapInboxMessage(data)
+  }
+
+  const { data: overridden, error: overriddenError } = await supabase
+    .from("inbox_messages")
+    .update({ is_urgent: classification.urgent, sentiment_classified_at: classifiedAt })
+    .eq("id", messageId)
+    .select()
+    .maybeSingle()
+
+  if (overriddenError) {
+    console.error("Error saving message urgency:", overriddenError)
+    return null
+  }
+
+  return overridden ? mapInboxMessage(overridden) : null
+}
+
+/** Messages the classifier hasn't seen, oldest first. Overridden messages are skipped. */
+export async function getUnclassifiedInboxMessages(calendarId: string, limit: number): Promise<InboxMessage[]> {
+  const { data, error } = await supabase
+    .from("inbox_messages")
+    .select("*")
+    .eq("calendar_id", calendarId)
+    .eq("sentiment_overridden", false)
+    .is("sentiment_classified_at", null)
+    .order("created_at", { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error loading unclassified inbox messages:", error)
+    return []
+  }
+
+  return (data || []).map(mapInboxMessage)
+}
+
+export async function deleteInboxMessage(messageId: string): Promise<boolean> {
+  const { error } = await supabase.from("inbox_messages").delete().eq("id", messageId)
+
+  if (error) {
+    console.error("Error deleting inbox message:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function getSavedResponses(calendarId: string): Promise<SavedResponse[]> {
+  const { data, error } = await supabase
+    .from("saved_responses")
+    .select("*")
+    .eq("calendar_id", calendarId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error loading saved responses:", error)
+    return []
+  }
+
+  return (data || []).map(mapSavedResponse)
+}
+
+export async function getSavedResponseById(responseId: string): Promise<SavedResponse | null> {
+  const { data, error } = await supabase.from("saved_responses").select("*").eq("id", responseId).maybeSingle()
+
+  if (error) {
+    console.error("Error loading saved response:", error)
+    return null
+  }
+
+  return data ? mapSavedResponse(data) : null
+}
+
+export async function saveSavedResponse(
+  response: Omit<SavedResponse, "id" | "createdAt"> & { id?: string },
+): Promise<SavedResponse | null> {
+  const responseData = {
+    calendar_id: response.calendarId,
+    title: response.title,
+    content: response.content,
+    keywords: response.keywords,
+    guidelines: response.guidelines,
+  }
+
+  const { data, error } = response.id
+    ? await supabase.from("saved_responses").update(responseData).eq("id", response.id).select().single()
+    : await supabase.from("saved_responses").insert(responseData).select().single()
+
+  if (error) {
+    console.error(response.id ? "Error updating saved response:" : "Error creating saved response:", error)
+    return null
+  }
+
+  return mapSavedResponse(data)
+}
+
+export async function deleteSavedResponse(responseId: string): Promise<boolean> {
+  const { error } = await supabase.from("saved_responses").delete().eq("id", responseId)
+
+  if (error) {
+    console.error("Error deleting saved response:", error)
+    return false
+  }
+
+  return true
+}
@@ -8,9 +8,24 @@ export interface MediaItem {
   filename: string
   size: number
   type: string
+  campaignId: string | null
   createdAt: Date
 }
 
+function mapMedia(item: any): MediaItem {
+  return {
+    id: item.id,
+    calendarId: item.calendar_id,
+    userId: item.user_id,
+    url: item.url,
+    filename: item.filename,
+    size: item.size,
+    type: item.type,
+    campaignId: item.campaign_id ?? null,
+    createdAt: new Date(item.created_at),
+  }
+}
+
 export async function saveMedia(
   calendarId: string,
   userId: string,
@@ -18,6 +33,7 @@ export async function saveMedia(
   filename: string,
   size: number,
   type: string,
+  campaignId: string | null = null,
 ): Promise<MediaItem | null> {
   const supabase = await createClient()
 
@@ -30,6 +46,7 @@ export async function saveMedia(
       filename,
       size,
       type,
+      campaign_id: campaignId,
     })
     .select()
     .single()
@@ -39,16 +56,7 @@ export async function saveMedia(
     return null
   }
 
-  return {
-    id: data.id,
-    calendarId: data.calendar_id,
-    userId: data.user_id,
-    url: data.url,
-    filename: data.filename,
-    size: data.size,
-    type: data.type,
-    createdAt: new Date(data.created_at),
-  }
+  return mapMedia(data)
 }
 
 export async function getMediaByCalendar(calendarId: string): Promise<MediaItem[]> {
@@ -65,16 +73,38 @@ export async function getMediaByCalendar(calendarId: string): Promise<MediaItem[
     return []
   }
 
-  return data.map((item) => ({
-    id: item.id,
-    calendarId: item.calendar_id,
-    userId: item.user_id,
-    url: item.url,
-    filename: item.filename,
-    size: item.size,
-    type: item.type,
-    createdAt: new Date(item.created_at),
-  }))
+  return data.map(mapMedia)
+}
+
+export async function getMediaById(mediaId: string): Promise<MediaItem | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from("media").select("*").eq("id", mediaId).maybeSingle()
+
+  if (error) {
+    console.error("Error fetching media item:", error)
+    return null
+  }
+
+  return data ? mapMedia(data) : null
+}
+
+export async function updateMediaCampaign(mediaId: string, campaignId: string | null): Promise<MediaItem | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("media")
+    .update({ campaign_id: campaignId })
+    .eq("id", mediaId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating media campaign:", error)
+    return null
+  }
+
+  return mapMedia(data)
 }
 
 export async function deleteMedia(mediaId: string): Promise<boolean> {
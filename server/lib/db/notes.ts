@@ -20,6 +20,7 @@ export async function getNoteById(noteId: string): Promise<Note | null> {
     calendarId: data.calendar_id,
     title: data.title,
     content: data.content,
+    campaignId: data.campaign_id ?? null,
     createdAt: new Date(data.created_at),
     updatedAt: new Date(data.updated_at),
   }
@@ -0,0 +1,84 @@
+import { supabase } from "../supabase"
+import type { Notification } from "../../../shared/types"
+
+function mapNotification(data: any): Notification {
+  return {
+    id: data.id,
+    type: data.type,
+    calendarId: data.calendar_id,
+    calendarSlug: data.calendars?.slug ?? null,
+    postId: data.post_id,
+    commentId: data.comment_id,
+    actorName: data.actor_name,
+    content: data.content,
+    readAt: data.read_at ? new Date(data.read_at) : null,
+    createdAt: new Date(data.created_at),
+  }
+}
+
+export async function createNotifications(
+  notifications: (Omit<Notification, "id" | "calendarSlug" | "readAt" | "createdAt"> & {
+    userId: string
+    actorId: string | null
+  })[],
+): Promise<boolean> {
+  if (notifications.length === 0) return true
+
+  const { error } = await supabase.from("notifications").insert(
+    notifications.map((notification) => ({
+      user_id: notification.userId,
+      type: notification.type,
+      calendar_id: notification.calendarId,
+      post_id: notification.postId,
+      comment_id: notification.commentId,
+      actor_id: notification.actorId,
+      actor_name: notification.actorName,
+      content: notification.content,
+    })),
+  )
+
+  if (error) {
+    console.error("Error creating notifications:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function getNotifications(userId: string, limit = 50): Promise<Notification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("*, calendars(slug)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error loading notifications:", error)
+    return []
+  }
+
+  return (data || []).map(mapNotification)
+}
+
+/** Marks the given notifications (or all of them) as read. */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<boolean> {
+  let query = supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null)
+
+  if (ids) {
+    query = query.in("id", ids)
+  }
+
+  const { error } = await query
+
+  if (error) {
+    console.error("Error marking notifications read:", error)
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,228 @@
+import { supabase } from "../supabase"
+import type { PostSeries, PostSeriesInput } from "../../../shared/types"
+
+function mapPostSeries(data: any): PostSeries {
+  return {
+    id: data.id,
+    calendarId: data.calendar_id,
+    name: data.name,
+    frequency: data.frequency,
+    interval: data.interval ?? 1,
+    weekdays: data.weekdays ?? [],
+    monthDay: data.month_day ?? null,
+    time: data.time,
+    timezone: data.timezone ?? "UTC",
+    startsOn: data.starts_on,
+    endsOn: data.ends_on ?? null,
+    captionTemplate: data.caption_template ?? "",
+    platforms: data.platforms ?? [],
+    images: data.images ?? [],
+    authorId: data.author_id,
+    authorName: data.author_name,
+    generatedUntil: data.generated_until ?? null,
+    skippedOccurrences: data.skipped_occurrences ?? [],
+    createdAt: new Date(data.created_at),
+    updatedAt: new Date(data.updated_at),
+  }
+}
+
+function toPostSeriesRow(input: PostSeriesInput) {
+  return {
+    name: input.name,
+    frequency: input.frequency,
+    interval: input.interval,
+    weekdays: input.weekdays,
+    month_day: input.monthDay,
+    time: input.time,
+    timezone: input.timezone,
+    starts_on: input.startsOn,
+    ends_on: input.endsOn,
+    caption_template: input.captionTemplate,
+    platforms: input.platforms,
+    images: input.images,
+  }
+}
+
+export async function getPostSeriesList(calendarId: string): Promise<PostSeries[]> {
+  const { data, error } = await supabase
+    .from("post_series")
+    .select("*")
+    .eq("calendar_id", calendarId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error loading post series:", error)
+    return []
+  }
+
+  return (data || []).map(mapPostSeries)
+}
+
+export async function getPostSeriesById(seriesId: string): Promise<PostSeries | null> {
+  const { data, error } = await supabase.from("post_series").select("*").eq("id", seriesId).maybeSingle()
+
+  if (error) {
+    console.error("Error loading post series:", error)
+    return null
+  }
+
+  return data ? mapPostSeries(data) : null
+}
+
+/** Series whose occurrences haven't been generated up to `until` and that haven't ended by then. */
+export async function getSeriesDueForExpansion(until: string): Promise<PostSeries[]> {
+  const { data, error } = await supabase
+    .from("post_series")
+    .select("*")
+    .or(`generated_until.is.null,generated_until.lt.${until}`)
+
+  if (error) {
+    console.error("Error loading post series to expand:", error)
+    return []
+  }
+
+  return (data || [])
+    .map(mapPostSeries)
+    .filter((series) => !series.endsOn || !series.generatedUntil || series.endsOn > series.generatedUntil)
+}
+
+export async function createPostSeries(
+  calendarId: string,
+  author: { id: string; name: string },
+  input: PostSeriesInput,
+): Promise<PostSeries | null> {
+  const { data, error } = await supabase
+    .from("post_series")
+    .insert({ ...toPostSeriesRow(input), calendar_id: calendarId, author_id: author.id, author_name: author.name })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating post series:", error)
+    return null
+  }
+
+  return mapPostSeries(data)
+}
+
+/**
+ * Saving the schedule or template starts generation over; see
+ * `removeUpcomingOccurrences`. Days deleted by hand stay skipped.
+ */
+export async function updatePostSeries(seriesId: string, input: PostSeriesInput): Promise<PostSeries | null> {
+  const { data, error } = await supabase
+    .from("post_series")
+    .update({ ...toPostSeriesRow(input), generated_until: null })
+    .eq("id", seriesId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating post series:", error)
+    return null
+  }
+
+  return mapPostSeries(data)
+}
+
+export async function setSeriesGeneratedUntil(seriesId: string, generatedUntil: string): Promise<void> {
+  const { error } = await supabase.from("post_series").update({ generated_until: generatedUntil }).eq("id", seriesId)
+
+  if (error) {
+    console.error("Error updating post series window:", error)
+  }
+}
+
+export async function deletePostSeries(seriesId: string): Promise<boolean> {
+  const { error } = await supabase.from("post_series").delete().eq("id", seriesId)
+
+  if (error) {
+    console.error("Error deleting post series:", error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Creates one occurrence as a draft post with a variant per platform. Returns
+ * false when the day already has an occurrence, detached or not.
+ */
+export async function createSeriesOccurrence(
+  series: PostSeries,
+  occurrence: string,
+  date: Date,
+  caption: string,
+): Promise<boolean> {
+  const { data: post, error } = await supabase
+    .from("posts")
+    .upsert(
+      {
+        calendar_id: series.calendarId,
+        date: date.toISOString(),
+        author_id: series.authorId,
+        author_name: series.authorName,
+        series_id: series.id,
+        series_occurrence: occurrence,
+      },
+      { onConflict: "series_id,series_occurrence", ignoreDuplicates: true },
+    )
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error creating series occurrence:", error)
+    return false
+  }
+  if (!post) {
+    return false
+  }
+
+  const { error: variantsError } = await supabase.from("post_variants").insert(
+    series.platforms.map((platform) => ({
+      post_id: post.id,
+      platform,
+      caption,
+      images: series.images,
+      status: "draft",
+    })),
+  )
+
+  if (variantsError) {
+    console.error("Error creating series occurrence variants:", variantsError)
+    // Unlinked first, so the next expansion tries the day again instead of skipping it.
+    await supabase.from("posts").update({ series_id: null }).eq("id", post.id)
+    await supabase.from("posts").delete().eq("id", post.id)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Deletes the series' upcoming occurrences that nobody has touched: not
+ * detached and every variant still a draft. The rest stay on the calendar.
+ * Unlike a deletion by hand, this doesn't skip their days.
+ */
+export async function removeUpcomingOccurrences(seriesId: string, from: Date): Promise<void> {
+  const { error } = await supabase.rpc("remove_upcoming_series_occurrences", {
+    target_series_id: seriesId,
+    from_date: from.toISOString(),
+  })
+
+  if (error) {
+    console.error("Error removing series occurrences:", error)
+  }
+}
+
+/** The days that already have an occurrence of the series, detached ones included. */
+export async function getSeriesOccurrenceDays(seriesId: string): Promise<Set<string>> {
+  const { data, error } = await supabase.from("posts").select("series_occurrence").eq("series_id", seriesId)
+
+  if (error) {
+    console.error("Error loading series occurrences:", error)
+    return new Set()
+  }
+
+  return new Set((data || []).map((post: any) => post.series_occurrence))
+}
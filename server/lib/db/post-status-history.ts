@@ -0,0 +1,61 @@
+import { supabase } from "../supabase"
+import type { PostStatusChange } from "../../../shared/types"
+
+function mapPostStatusChange(data: any): PostStatusChange {
+  return {
+    id: data.id,
+    variantId: data.variant_id,
+    postId: data.post_id,
+    platform: data.platform,
+    fromStatus: data.from_status,
+    toStatus: data.to_status,
+    reason: data.reason,
+    actorType: data.actor_type,
+    actorId: data.actor_id,
+    actorName: data.actor_name,
+    createdAt: new Date(data.created_at),
+  }
+}
+
+export async function recordPostStatusChange(
+  change: Omit<PostStatusChange, "id" | "createdAt">,
+): Promise<PostStatusChange | null> {
+  const { data, error } = await supabase
+    .from("post_status_history")
+    .insert({
+      variant_id: change.variantId,
+      post_id: change.postId,
+      platform: change.platform,
+      from_status: change.fromStatus,
+      to_status: change.toStatus,
+      reason: change.reason,
+      actor_type: change.actorType,
+      actor_id: change.actorId,
+      actor_name: change.actorName,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error recording post status change:", error)
+    return null
+  }
+
+  return mapPostStatusChange(data)
+}
+
+export async function getPostStatusHistory(postId: string, limit = 100): Promise<PostStatusChange[]> {
+  const { data, error } = await supabase
+    .from("post_status_history")
+    .select("*")
+    .eq("post_id", postId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error loading post status history:", error)
+    return []
+  }
+
+  return (data || []).map(mapPostStatusChange)
+}
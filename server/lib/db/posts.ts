@@ -1,12 +1,48 @@
 import { createClient } from "../supabase/server"
-import type { Post } from "../../../shared/types"
+import type { Platform, Post, PostVariant } from "../../../shared/types"
+import { mapPostVariantPublishing } from "./publishing"
+import { mapComment } from "./comments"
+
+const POST_SELECT = "*, post_variants(*), post_comments(*), post_series(name)"
+
+export function mapPostVariant(v: any): PostVariant {
+  return {
+    id: v.id,
+    postId: v.post_id,
+    platform: v.platform,
+    caption: v.caption,
+    images: v.images || [],
+    status: v.status,
+    publishing: mapPostVariantPublishing(v),
+  }
+}
+
+function mapPost(p: any): Post {
+  return {
+    id: p.id,
+    calendarId: p.calendar_id,
+    date: new Date(p.date),
+    variants: (p.post_variants || [])
+      .sort((a: any, b: any) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .map(mapPostVariant),
+    authorId: p.author_id,
+    authorName: p.author_name,
+    comments: (p.post_comments || [])
+      .sort((a: any, b: any) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .map(mapComment),
+    series: p.series_id
+      ? { id: p.series_id, name: p.post_series?.name ?? "", detached: p.series_detached ?? false }
+      : null,
+    campaignId: p.campaign_id ?? null,
+  }
+}
 
 export async function getPosts(calendarId: string): Promise<Post[]> {
   const supabase = await createClient()
 
   const { data, error } = await supabase
     .from("posts")
-    .select("*")
+    .select(POST_SELECT)
     .eq("calendar_id", calendarId)
     .order("date", { ascending: true })
 
@@ -15,18 +51,7 @@ export async function getPosts(calendarId: string): Promise<Post[]> {
     return []
   }
 
-  return (data || []).map((p: any) => ({
-    id: p.id,
-    calendarId: p.calendar_id,
-    date: new Date(p.date),
-    caption: p.caption,
-    images: p.images || [],
-    platform: p.platform,
-    status: p.status,
-    authorId: p.author_id,
-    authorName: p.author_name,
-    comments: [],
-  }))
+  return (data || []).map((p: any) => mapPost(p))
 }
 
 export async function getPostById(postId: string): Promise<Post | null> {
@@ -34,7 +59,7 @@ export async function getPostById(postId: string): Promise<Post | null> {
 
   const { data, error } = await supabase
     .from("posts")
-    .select("*")
+    .select(POST_SELECT)
     .eq("id", postId)
     .single()
 
@@ -43,18 +68,7 @@ export async function getPostById(postId: string): Promise<Post | null> {
     return null
   }
 
-  return {
-    id: data.id,
-    calendarId: data.calendar_id,
-    date: new Date(data.date),
-    caption: data.caption,
-    images: data.images || [],
-    platform: data.platform,
-    status: data.status,
-    authorId: data.author_id,
-    authorName: data.author_name,
-    comments: [],
-  }
+  return mapPost(data)
 }
 
 export async function savePost(post: Omit<Post, "id"> & { id?: string }): Promise<Post | null> {
@@ -63,55 +77,122 @@ export async function savePost(post: Omit<Post, "id"> & { id?: string }): Promis
   const postData: any = {
     calendar_id: post.calendarId,
     date: post.date.toISOString(),
-    caption: post.caption,
-    images: post.images,
-    platform: post.platform,
-    status: post.status,
     author_id: post.authorId,
     author_name: post.authorName,
   }
 
-  if (post.id) {
-    const { data, error } = await supabase.from("posts").update(postData).eq("id", post.id).select().single()
+  const { data, error } = post.id
+    ? await supabase.from("posts").update(postData).eq("id", post.id).select().single()
+    : await supabase.from("posts").insert(postData).select().single()
 
-    if (error) {
-      console.error("Error updating post:", error)
-      return null
-    }
+  if (error) {
+    console.error(post.id ? "Error updating post:" : "Error creating post:", error)
+    return null
+  }
+
+  // Variants are keyed by platform; any draft or rejected platform no longer
+  // targeted is removed. Variants past review keep their row and history.
+  const { data: variants, error: variantsError } = await supabase
+    .from("post_variants")
+    .upsert(
+      post.variants.map((v) => ({
+        post_id: data.id,
+        platform: v.platform,
+        caption: v.caption,
+        images: v.images,
+        status: v.status,
+      })),
+      { onConflict: "post_id,platform" },
+    )
+    .select()
+
+  if (variantsError) {
+    console.error("Error saving post variants:", variantsError)
+    return null
+  }
 
-    return {
-      id: data.id,
-      calendarId: data.calendar_id,
-      date: new Date(data.date),
-      caption: data.caption,
-      images: data.images || [],
-      platform: data.platform,
-      status: data.status,
-      authorId: data.author_id,
-      authorName: data.author_name,
-      comments: post.comments || [],
+  const platforms = post.variants.map((v) => v.platform)
+  if (post.id) {
+    const { error: deleteError } = await supabase
+      .from("post_variants")
+      .delete()
+      .eq("post_id", data.id)
+      .in("status", ["draft", "rejected"])
+      .not("platform", "in", `(${platforms.join(",")})`)
+
+    if (deleteError) {
+      console.error("Error removing post variants:", deleteError)
     }
-  } else {
-    const { data, error } = await supabase.from("posts").insert(postData).select().single()
+  }
+
+  return mapPost({ ...data, post_variants: variants })
+}
+
+/**
+ * Creates one draft post per entry, each with a single platform variant.
+ * Entries that fail are logged and skipped, so the result holds only the
+ * posts that were created.
+ */
+export async function createDraftPosts(
+  calendarId: string,
+  author: { id: string; name: string },
+  drafts: { date: Date; platform: Platform; caption: string }[],
+  campaignId: string | null,
+): Promise<Post[]> {
+  const supabase = await createClient()
+  const created: Post[] = []
+
+  for (const draft of drafts) {
+    const { data: post, error } = await supabase
+      .from("posts")
+      .insert({
+        calendar_id: calendarId,
+        date: draft.date.toISOString(),
+        author_id: author.id,
+        author_name: author.name,
+        campaign_id: campaignId,
+      })
+      .select()
+      .single()
 
     if (error) {
-      console.error("Error creating post:", error)
-      return null
+      console.error("Error creating draft post:", error)
+      continue
     }
 
-    return {
-      id: data.id,
-      calendarId: data.calendar_id,
-      date: new Date(data.date),
-      caption: data.caption,
-      images: data.images || [],
-      platform: data.platform,
-      status: data.status,
-      authorId: data.author_id,
-      authorName: data.author_name,
-      comments: [],
+    const { data: variants, error: variantsError } = await supabase
+      .from("post_variants")
+      .insert({ post_id: post.id, platform: draft.platform, caption: draft.caption, images: [], status: "draft" })
+      .select()
+
+    if (variantsError) {
+      console.error("Error creating draft post variant:", variantsError)
+      await supabase.from("posts").delete().eq("id", post.id)
+      continue
     }
+
+    created.push(mapPost({ ...post, post_variants: variants }))
+  }
+
+  return created
+}
+
+/** Keeps the latest brand voice score of a variant so analytics can average it. */
+export async function recordVariantBrandScore(postId: string, platform: Platform, score: number): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from("post_variants")
+    .update({ brand_score: Math.round(score), brand_scored_at: new Date().toISOString() })
+    .eq("post_id", postId)
+    .eq("platform", platform)
+
+  if (error) {
+    console.error("Error recording brand score:", error)
+    return false
   }
+
+  return true
 }
 
 export async function deletePost(postId: string): Promise<boolean> {
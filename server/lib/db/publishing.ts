@@ -0,0 +1,269 @@
+import { supabase } from "../supabase"
+import type { Platform, PostVariantPublishing, PublishAttempt } from "../../../shared/types"
+
+export interface DuePostVariant {
+  id: string
+  postId: string
+  calendarId: string
+  platform: Platform
+  caption: string
+  images: string[]
+  scheduledFor: Date
+  attemptCount: number
+  /** Set when the platform already has the post but marking it published failed. */
+  externalPostId: string | null
+  externalUrl: string | null
+}
+
+export function mapPostVariantPublishing(data: any): PostVariantPublishing {
+  return {
+    attemptCount: data.publish_attempt_count ?? 0,
+    nextAttemptAt: data.next_publish_attempt_at ? new Date(data.next_publish_attempt_at) : null,
+    error: data.publish_error ?? null,
+    failedAt: data.publish_failed_at ? new Date(data.publish_failed_at) : null,
+    externalPostId: data.external_post_id ?? null,
+    externalUrl: data.external_url ?? null,
+    publishedAt: data.published_at ? new Date(data.published_at) : null,
+  }
+}
+
+function mapPublishAttempt(data: any): PublishAttempt {
+  return {
+    id: data.id,
+    variantId: data.variant_id,
+    postId: data.post_id,
+    platform: data.platform,
+    attempt: data.attempt,
+    outcome: data.outcome,
+    error: data.error,
+    retryable: data.retryable,
+    externalPostId: data.external_post_id,
+    createdAt: new Date(data.created_at),
+  }
+}
+
+function mapDuePostVariant(data: any): DuePostVariant {
+  return {
+    id: data.id,
+    postId: data.post_id,
+    calendarId: data.posts.calendar_id,
+    platform: data.platform,
+    caption: data.caption,
+    images: data.images || [],
+    scheduledFor: new Date(data.posts.date),
+    attemptCount: data.publish_attempt_count ?? 0,
+    externalPostId: data.external_post_id ?? null,
+    externalUrl: data.external_url ?? null,
+  }
+}
+
+/**
+ * Approved variants whose post date has passed and that are not waiting on a
+ * retry backoff, locked by another worker, or given up on.
+ */
+export async function getDuePostVariants(now: Date, limit = 20): Promise<DuePostVariant[]> {
+  const nowIso = now.toISOString()
+
+  const { data, error } = await supabase
+    .from("post_variants")
+    .select("*, posts!inner(calendar_id, date)")
+    .eq("status", "approved")
+    .is("publish_failed_at", null)
+    .lte("posts.date", nowIso)
+    .or(`next_publish_attempt_at.is.null,next_publish_attempt_at.lte.${nowIso}`)
+    .or(`publish_locked_until.is.null,publish_locked_until.lt.${nowIso}`)
+    .limit(limit)
+
+  if (error) {
+    console.error("Error loading due post variants:", error)
+    return []
+  }
+
+  return (data || []).map(mapDuePostVariant)
+}
+
+export async function getPublishablePostVariant(variantId: string): Promise<DuePostVariant | null> {
+  const { data, error } = await supabase
+    .from("post_variants")
+    .select("*, posts!inner(calendar_id, date)")
+    .eq("id", variantId)
+    .eq("status", "approved")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error loading post variant for publishing:", error)
+    return null
+  }
+
+  return data ? mapDuePostVariant(data) : null
+}
+
+/**
+ * Takes a short lease on a variant so two workers never publish it twice.
+ * Returns false when another worker holds the lease.
+ */
+export async function claimPostVariant(variantId: string, leaseMs: number): Promise<boolean> {
+  const now = new Date()
+
+  const { data, error } = await supabase
+    .from("post_variants")
+    .update({ publish_locked_until: new Date(now.getTime() + leaseMs).toISOString() })
+    .eq("id", variantId)
+    .eq("status", "approved")
+    .or(`publish_locked_until.is.null,publish_locked_until.lt.${now.toISOString()}`)
+    .select("id")
+
+  if (error) {
+    console.error("Error claiming post variant:", error)
+    return false
+  }
+
+  return (data || []).length > 0
+}
+
+export async function recordPublishAttempt(
+  attempt: Omit<PublishAttempt, "id" | "createdAt">,
+): Promise<PublishAttempt | null> {
+  const { data, error } = await supabase
+    .from("publish_attempts")
+    .insert({
+      variant_id: attempt.variantId,
+      post_id: attempt.postId,
+      platform: attempt.platform,
+      attempt: attempt.attempt,
+      outcome: attempt.outcome,
+      error: attempt.error,
+      retryable: attempt.retryable,
+      external_post_id: attempt.externalPostId,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error recording publish attempt:", error)
+    return null
+  }
+
+  return mapPublishAttempt(data)
+}
+
+/**
+ * Moves an approved variant to published. Returns false when the update
+ * failed or the variant is no longer approved, so nothing changed.
+ */
+export async function markPostVariantPublished(
+  variantId: string,
+  result: { attemptCount: number; externalPostId: string; externalUrl: string | null },
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("post_variants")
+    .update({
+      status: "published",
+      publish_attempt_count: result.attemptCount,
+      external_post_id: result.externalPostId,
+      external_url: result.externalUrl,
+      published_at: new Date().toISOString(),
+      publish_error: null,
+      next_publish_attempt_at: null,
+      publish_locked_until: null,
+    })
+    .eq("id", variantId)
+    .eq("status", "approved")
+    .select("id")
+
+  if (error) {
+    console.error("Error marking post variant published:", error)
+    return false
+  }
+
+  return (data || []).length > 0
+}
+
+/**
+ * Keeps the platform's post ID on a variant that could not be marked
+ * published, so later attempts finish the mark instead of posting again.
+ */
+export async function savePostVariantExternalPost(
+  variantId: string,
+  result: { externalPostId: string; externalUrl: string | null },
+): Promise<boolean> {
+  const { error } = await supabase
+    .from("post_variants")
+    .update({
+      external_post_id: result.externalPostId,
+      external_url: result.externalUrl,
+      publish_locked_until: null,
+    })
+    .eq("id", variantId)
+
+  if (error) {
+    console.error("Error saving external post ID:", error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Records a failed attempt on the variant. With `nextAttemptAt` the scheduler
+ * retries later; without it the variant is marked as failed until someone
+ * retries it by hand.
+ */
+export async function markPostVariantPublishFailed(
+  variantId: string,
+  failure: { attemptCount: number; error: string; nextAttemptAt: Date | null },
+): Promise<boolean> {
+  const { error } = await supabase
+    .from("post_variants")
+    .update({
+      publish_attempt_count: failure.attemptCount,
+      publish_error: failure.error,
+      next_publish_attempt_at: failure.nextAttemptAt?.toISOString() ?? null,
+      publish_failed_at: failure.nextAttemptAt ? null : new Date().toISOString(),
+      publish_locked_until: null,
+    })
+    .eq("id", variantId)
+
+  if (error) {
+    console.error("Error recording publish failure:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function resetPostVariantPublishing(variantId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from("post_variants")
+    .update({
+      publish_attempt_count: 0,
+      publish_error: null,
+      publish_failed_at: null,
+      next_publish_attempt_at: null,
+    })
+    .eq("id", variantId)
+    .eq("status", "approved")
+
+  if (error) {
+    console.error("Error resetting post variant publishing:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function getPublishAttempts(postId: string, limit = 50): Promise<PublishAttempt[]> {
+  const { data, error } = await supabase
+    .from("publish_attempts")
+    .select("*")
+    .eq("post_id", postId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error loading publish attempts:", error)
+    return []
+  }
+
+  return (data || []).map(mapPublishAttempt)
+}
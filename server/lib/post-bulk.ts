@@ -0,0 +1,91 @@
+import { supabase } from "./supabase"
+import type { StatusActor } from "./post-workflow"
+
+export type BulkWriteResult = { ok: true; postIds: string[] } | { ok: false; status: 404 | 409 | 500; error: string }
+
+/** Postgres' no_data_found, raised by the bulk functions when a post is missing. */
+const NOT_FOUND_CODE = "P0002"
+/** Postgres' object_not_in_prerequisite_state, raised when a selected post is already published. */
+const PUBLISHED_CODE = "55000"
+
+function toWriteFailure(error: { code?: string; message: string }, action: string): BulkWriteResult {
+  if (error.code === NOT_FOUND_CODE) {
+    return { ok: false, status: 404, error: "Some posts were not found in this calendar" }
+  }
+  if (error.code === PUBLISHED_CODE) {
+    return { ok: false, status: 409, error: error.message }
+  }
+  console.error(`Error ${action} posts:`, error)
+  return { ok: false, status: 500, error: error.message }
+}
+
+/**
+ * Moves every post by `days`, keeping its time of day. Series occurrences
+ * are detached so the series doesn't move them back, and submitted or
+ * approved variants go back to draft. All or nothing; refuses published posts.
+ */
+export async function reschedulePosts(
+  calendarId: string,
+  postIds: string[],
+  days: number,
+  actor: StatusActor,
+): Promise<BulkWriteResult> {
+  const { data, error } = await supabase.rpc("bulk_reschedule_posts", {
+    target_calendar_id: calendarId,
+    target_post_ids: postIds,
+    shift_days: days,
+    change_actor_type: actor.type,
+    change_actor_id: actor.id,
+    change_actor_name: actor.name,
+  })
+
+  if (error) return toWriteFailure(error, "rescheduling")
+  return { ok: true, postIds: (data as string[] | null) ?? [] }
+}
+
+/** Copies every post `days` later as a new draft. Returns the copies' IDs. */
+export async function duplicatePosts(
+  calendarId: string,
+  postIds: string[],
+  days: number,
+  author: { id: string; name: string },
+): Promise<BulkWriteResult> {
+  const { data, error } = await supabase.rpc("bulk_duplicate_posts", {
+    target_calendar_id: calendarId,
+    target_post_ids: postIds,
+    shift_days: days,
+    copy_author_id: author.id,
+    copy_author_name: author.name,
+  })
+
+  if (error) return toWriteFailure(error, "duplicating")
+  return { ok: true, postIds: (data as string[] | null) ?? [] }
+}
+
+/** Deletes every post, or none of them if any isn't in the calendar or is published. */
+export async function deletePosts(calendarId: string, postIds: string[]): Promise<BulkWriteResult> {
+  const { data, error } = await supabase.rpc("bulk_delete_posts", {
+    target_calendar_id: calendarId,
+    target_post_ids: postIds,
+  })
+
+  if (error) return toWriteFailure(error, "deleting")
+  return { ok: true, postIds: (data as string[] | null) ?? [] }
+}
+
+/** Stores the brand voice scores of a re-grade in one statement. */
+export async function recordBrandScores(scores: { variantId: string; score: number }[]): Promise<boolean> {
+  if (scores.length === 0) return true
+
+  const { error } = await supabase.rpc("bulk_record_brand_scores", {
+    target_variant_ids: scores.map((entry) => entry.variantId),
+    new_scores: scores.map((entry) => Math.round(entry.score)),
+  })
+
+  if (error) {
+    console.error("Error recording brand scores:", error)
+    return false
+  }
+
+  return true
+}
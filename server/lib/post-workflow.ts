@@ -0,0 +1,257 @@
+import { supabase } from "./supabase"
+import { canApprovePosts } from "./auth"
+import { recordPostStatusChange } from "./db/post-status-history"
+import { mapPostVariant } from "./db/posts"
+import { checkPlatformRules } from "../../shared/platforms"
+import type {
+  BulkPostSkip,
+  Platform,
+  PlatformRuleViolation,
+  PostStatus,
+  PostStatusActorType,
+  PostVariant,
+} from "../../shared/types"
+
+/**
+ * The statuses a variant can move to from each status. Approved posts can be
+ * pulled back to draft for edits; published is final.
+ */
+export const POST_STATUS_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  draft: ["awaiting_approval"],
+  awaiting_approval: ["approved", "rejected", "draft"],
+  approved: ["published", "draft"],
+  rejected: ["draft", "awaiting_approval"],
+  published: [],
+}
+
+/** Statuses whose content an approver has seen; editing it needs another review. */
+export const REAPPROVAL_STATUSES: PostStatus[] = ["awaiting_approval", "approved"]
+
+/** Statuses a platform variant can be removed from its post in. */
+export const REMOVABLE_STATUSES: PostStatus[] = ["draft", "rejected"]
+
+export interface StatusActor {
+  type: PostStatusActorType
+  id: string | null
+  name: string
+}
+
+export type StatusTransitionResult =
+  | { ok: true; variant: PostVariant }
+  | {
+      ok: false
+      status: 400 | 403 | 404 | 409 | 500
+      error: string
+      violations?: PlatformRuleViolation[]
+    }
+
+type StatusTransitionFailure = Extract<StatusTransitionResult, { ok: false }>
+
+export type BulkStatusTransitionResult =
+  | { ok: true; changed: { postId: string; platform: Platform }[]; skipped: BulkPostSkip[] }
+  | StatusTransitionFailure
+
+export function canTransition(from: PostStatus, to: PostStatus): boolean {
+  return POST_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/** The checks that depend on who is moving posts to `to`, not on which posts. */
+async function checkActor(
+  calendarId: string,
+  to: PostStatus,
+  reason: string | null,
+  actor: StatusActor,
+): Promise<StatusTransitionFailure | null> {
+  if (to === "published" && actor.type !== "scheduler") {
+    return { ok: false, status: 403, error: "Posts are marked as published by the publishing scheduler" }
+  }
+
+  if (to === "approved" || to === "rejected") {
+    if (actor.type === "ai") {
+      return { ok: false, status: 403, error: "The assistant can't approve or reject posts" }
+    }
+    if (actor.type === "user" && (!actor.id || !(await canApprovePosts(actor.id, calendarId)))) {
+      return { ok: false, status: 403, error: "Only calendar owners and admins can approve or reject posts" }
+    }
+  }
+
+  if (to === "rejected" && !reason) {
+    return { ok: false, status: 400, error: "A reason is required to reject a post" }
+  }
+
+  return null
+}
+
+function findBlockingViolations(caption: string | null, platform: Platform): PlatformRuleViolation[] {
+  return checkPlatformRules(caption || "", platform).filter((violation) => violation.severity === "error")
+}
+
+/**
+ * Moves one variant to a new status and records it in the status history.
+ * Only approvers can approve or reject, the assistant can never do either,
+ * and only the publishing scheduler publishes. Variants are looked up by
+ * post and platform since the editor only learns variant IDs after a reload.
+ */
+export async function transitionPostVariant(params: {
+  calendarId: string
+  postId: string
+  platform: Platform
+  to: PostStatus
+  reason?: string | null
+  actor: StatusActor
+}): Promise<StatusTransitionResult> {
+  const { calendarId, postId, platform, to, actor } = params
+  const reason = params.reason?.trim() || null
+
+  const { data: variant, error: loadError } = await supabase
+    .from("post_variants")
+    .select("*, posts!inner(calendar_id)")
+    .eq("post_id", postId)
+    .eq("platform", platform)
+    .eq("posts.calendar_id", calendarId)
+    .maybeSingle()
+
+  if (loadError) {
+    console.error("Error loading post variant:", loadError)
+    return { ok: false, status: 500, error: loadError.message }
+  }
+  if (!variant) {
+    return { ok: false, status: 404, error: "Post variant not found" }
+  }
+
+  const from = variant.status as PostStatus
+  if (!canTransition(from, to)) {
+    return { ok: false, status: 400, error: `A post can't move from ${from} to ${to}` }
+  }
+
+  const actorError = await checkActor(calendarId, to, reason, actor)
+  if (actorError) {
+    return actorError
+  }
+
+  if (to === "approved") {
+    const violations = findBlockingViolations(variant.caption, variant.platform)
+    if (violations.length > 0) {
+      return { ok: false, status: 400, error: "Post breaks platform rules and can't be approved", violations }
+    }
+  }
+
+  const update: Record<string, unknown> = { status: to }
+  if (to === "approved") {
+    // A re-approved post gets a fresh set of publish attempts.
+    update.publish_attempt_count = 0
+    update.publish_error = null
+    update.publish_failed_at = null
+    update.next_publish_attempt_at = null
+  }
+
+  // Guarding on the current status makes concurrent transitions fail
+  // instead of overwriting each other.
+  const { data: updated, error: updateError } = await supabase
+    .from("post_variants")
+    .update(update)
+    .eq("id", variant.id)
+    .eq("status", from)
+    .select()
+
+  if (updateError) {
+    console.error("Error updating post variant status:", updateError)
+    return { ok: false, status: 500, error: updateError.message }
+  }
+  if (!updated || updated.length === 0) {
+    return { ok: false, status: 409, error: "The post's status changed in the meantime; reload and try again" }
+  }
+
+  await recordPostStatusChange({
+    variantId: variant.id,
+    postId,
+    platform: variant.platform,
+    fromStatus: from,
+    toStatus: to,
+    reason,
+    actorType: actor.type,
+    actorId: actor.id,
+    actorName: actor.name,
+  })
+
+  return { ok: true, variant: mapPostVariant(updated[0]) }
+}
+
+/**
+ * Moves every variant of the given posts to a new status in one transaction,
+ * with the same rules as `transitionPostVariant`. Variants that can't make
+ * the move are skipped with a reason instead of failing the whole change;
+ * who may make it is checked once for all of them.
+ */
+export async function transitionPostVariants(params: {
+  calendarId: string
+  postIds: string[]
+  to: PostStatus
+  reason?: string | null
+  actor: StatusActor
+}): Promise<BulkStatusTransitionResult> {
+  const { calendarId, postIds, to, actor } = params
+  const reason = params.reason?.trim() || null
+
+  const { data: variants, error: loadError } = await supabase
+    .from("post_variants")
+    .select("id, post_id, platform, caption, status, posts!inner(calendar_id)")
+    .in("post_id", postIds)
+    .eq("posts.calendar_id", calendarId)
+
+  if (loadError) {
+    console.error("Error loading post variants:", loadError)
+    return { ok: false, status: 500, error: loadError.message }
+  }
+  if (new Set((variants || []).map((variant) => variant.post_id)).size !== postIds.length) {
+    return { ok: false, status: 404, error: "Some posts were not found in this calendar" }
+  }
+
+  const actorError = await checkActor(calendarId, to, reason, actor)
+  if (actorError) {
+    return actorError
+  }
+
+  const eligible: any[] = []
+  const skipped: BulkPostSkip[] = []
+  for (const variant of variants || []) {
+    const from = variant.status as PostStatus
+    const skip = (why: string) => skipped.push({ postId: variant.post_id, platform: variant.platform, reason: why })
+
+    if (from === to) {
+      skip(`Already ${to}`)
+    } else if (!canTransition(from, to)) {
+      skip(`A post can't move from ${from} to ${to}`)
+    } else if (to === "approved" && findBlockingViolations(variant.caption, variant.platform).length > 0) {
+      skip("Breaks platform rules and can't be approved")
+    } else {
+      eligible.push(variant)
+    }
+  }
+
+  if (eligible.length > 0) {
+    const { error } = await supabase.rpc("bulk_set_post_variant_status", {
+      target_variant_ids: eligible.map((variant) => variant.id),
+      expected_statuses: eligible.map((variant) => variant.status),
+      new_status: to,
+      change_reason: reason,
+      change_actor_type: actor.type,
+      change_actor_id: actor.id,
+      change_actor_name: actor.name,
+    })
+
+    if (error) {
+      if (error.code === "40001") {
+        return { ok: false, status: 409, error: "A post's status changed in the meantime; reload and try again" }
+      }
+      console.error("Error updating post variant statuses:", error)
+      return { ok: false, status: 500, error: error.message }
+    }
+  }
+
+  return {
+    ok: true,
+    changed: eligible.map((variant) => ({ postId: variant.post_id, platform: variant.platform })),
+    skipped,
+  }
+}
@@ -0,0 +1,37 @@
+import type { Platform } from '../../../shared/types'
+import { PublishError } from '../types'
+
+/**
+ * Calls a platform API and turns failures into PublishErrors: rate limits,
+ * server errors and network failures are retryable, other 4xx are not.
+ */
+export async function callPlatformApi(
+  platform: Platform,
+  url: string,
+  init: Parameters<typeof fetch>[1],
+  signal?: AbortSignal,
+): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, { ...init, signal })
+  } catch (error: any) {
+    if (signal?.aborted) throw error
+    throw new PublishError(`${platform} API unreachable: ${error.message}`, true)
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '')
+    const retryable = response.status === 429 || response.status >= 500
+    throw new PublishError(`${platform} API returned ${response.status}: ${body.slice(0, 500)}`, retryable)
+  }
+
+  return response
+}
+
+export function requireEnv(platform: Platform, ...names: string[]): string[] {
+  const missing = names.filter((name) => !process.env[name])
+  if (missing.length > 0) {
+    throw new PublishError(`${platform} publishing is not configured (missing ${missing.join(', ')})`, false)
+  }
+  return names.map((name) => process.env[name] as string)
+}
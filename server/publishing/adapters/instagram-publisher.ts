@@ -0,0 +1,56 @@
+import { PublishError, type PlatformPublisher, type PublishRequest, type PublishResult } from '../types'
+import { callPlatformApi, requireEnv } from './http'
+
+const GRAPH_URL = 'https://graph.facebook.com/v19.0'
+const MAX_CAROUSEL_ITEMS = 10
+
+/**
+ * Publishes through the Instagram Graph API: create a media container (a
+ * carousel when there are several images), then publish it.
+ */
+export class InstagramPublisher implements PlatformPublisher {
+  readonly platform = 'instagram' as const
+
+  async publish(request: PublishRequest, signal?: AbortSignal): Promise<PublishResult> {
+    const [accessToken, userId] = requireEnv(this.platform, 'INSTAGRAM_ACCESS_TOKEN', 'INSTAGRAM_USER_ID')
+
+    if (request.images.length === 0) {
+      throw new PublishError('Instagram posts need at least one image', false)
+    }
+    if (request.images.length > MAX_CAROUSEL_ITEMS) {
+      throw new PublishError(`Instagram carousels can have at most ${MAX_CAROUSEL_ITEMS} images`, false)
+    }
+
+    const graph = async (path: string, params: Record<string, string>, method = 'POST') => {
+      const query = new URLSearchParams({ ...params, access_token: accessToken })
+      const response = await callPlatformApi(this.platform, `${GRAPH_URL}/${path}?${query}`, { method }, signal)
+      return (await response.json()) as Record<string, string>
+    }
+
+    let containerId: string
+    if (request.images.length === 1) {
+      const container = await graph(`${userId}/media`, { image_url: request.images[0], caption: request.caption })
+      containerId = container.id
+    } else {
+      const children = []
+      for (const imageUrl of request.images) {
+        const child = await graph(`${userId}/media`, { image_url: imageUrl, is_carousel_item: 'true' })
+        children.push(child.id)
+      }
+      const container = await graph(`${userId}/media`, {
+        media_type: 'CAROUSEL',
+        children: children.join(','),
+        caption: request.caption,
+      })
+      containerId = container.id
+    }
+
+    const media = await graph(`${userId}/media_publish`, { creation_id: containerId })
+    const details = await graph(media.id, { fields: 'permalink' }, 'GET').catch(() => null)
+
+    return {
+      externalPostId: media.id,
+      externalUrl: details?.permalink ?? null,
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { PublishError, type PlatformPublisher, type PublishRequest, type PublishResult } from '../types'
+import { callPlatformApi, requireEnv } from './http'
+
+const POSTS_URL = 'https://api.linkedin.com/rest/posts'
+const LINKEDIN_VERSION = '202401'
+
+// Post commentary uses LinkedIn's "little text" format, where these
+// characters are markup unless escaped.
+function escapeCommentary(text: string): string {
+  return text.replace(/[\\|{}@[\]()<>#*_~]/g, (char) => `\\${char}`)
+}
+
+/**
+ * Creates a text post for the member or organization in LINKEDIN_AUTHOR_URN.
+ */
+export class LinkedInPublisher implements PlatformPublisher {
+  readonly platform = 'linkedin' as const
+
+  async publish(request: PublishRequest, signal?: AbortSignal): Promise<PublishResult> {
+    const [accessToken, author] = requireEnv(this.platform, 'LINKEDIN_ACCESS_TOKEN', 'LINKEDIN_AUTHOR_URN')
+
+    if (request.images.length > 0) {
+      throw new PublishError('Publishing images to LinkedIn is not supported yet', false)
+    }
+
+    const response = await callPlatformApi(this.platform, POSTS_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'LinkedIn-Version': LINKEDIN_VERSION,
+        'X-Restli-Protocol-Version': '2.0.0',
+      },
+      body: JSON.stringify({
+        author,
+        commentary: escapeCommentary(request.caption),
+        visibility: 'PUBLIC',
+        distribution: {
+          feedDistribution: 'MAIN_FEED',
+          targetEntities: [],
+          thirdPartyDistributionChannels: [],
+        },
+        lifecycleState: 'PUBLISHED',
+        isReshareDisabledByAuthor: false,
+      }),
+    }, signal)
+
+    const postUrn = response.headers.get('x-restli-id')
+    if (!postUrn) {
+      throw new PublishError('LinkedIn did not return the ID of the new post', true)
+    }
+
+    return {
+      externalPostId: postUrn,
+      externalUrl: `https://www.linkedin.com/feed/update/${postUrn}`,
+    }
+  }
+}
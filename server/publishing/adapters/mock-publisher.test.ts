@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { PublishError, type PublishRequest } from '../types'
+import { MockPublisher } from './mock-publisher'
+
+const REQUEST: PublishRequest = {
+  variantId: 'variant-1',
+  postId: 'post-1',
+  calendarId: 'calendar-1',
+  platform: 'linkedin',
+  caption: 'Hello',
+  images: [],
+  scheduledFor: new Date('2026-10-20T09:00:00Z'),
+}
+
+describe('MockPublisher', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('keeps what it published and returns its external post', async () => {
+    const publisher = new MockPublisher('linkedin', { latencyMs: 0 })
+
+    const result = await publisher.publish(REQUEST)
+
+    expect(result.externalPostId).toMatch(/^mock-linkedin-/)
+    expect(publisher.published).toEqual([{ ...REQUEST, ...result }])
+  })
+
+  it('fails with a retryable error during a simulated outage', async () => {
+    const publisher = new MockPublisher('linkedin', { latencyMs: 0, failureRate: 1 })
+
+    const error = await publisher.publish(REQUEST).catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(PublishError)
+    expect(error.retryable).toBe(true)
+    expect(publisher.published).toHaveLength(0)
+  })
+
+  it('stops when its signal aborts', async () => {
+    const publisher = new MockPublisher('linkedin', { latencyMs: 50 })
+
+    await expect(publisher.publish(REQUEST, AbortSignal.timeout(10))).rejects.toThrow()
+    expect(publisher.published).toHaveLength(0)
+  })
+})
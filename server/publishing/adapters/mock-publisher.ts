@@ -0,0 +1,43 @@
+import { randomUUID } from 'node:crypto'
+import type { Platform } from '../../../shared/types'
+import { PublishError, type PlatformPublisher, type PublishRequest, type PublishResult } from '../types'
+
+export interface MockPublisherOptions {
+  /** Share of attempts (0-1) that fail with a retryable error. */
+  failureRate?: number
+  latencyMs?: number
+}
+
+/**
+ * Publishes to memory instead of a social network, so the scheduler, retries
+ * and status changes can be exercised offline.
+ */
+export class MockPublisher implements PlatformPublisher {
+  readonly published: (PublishRequest & PublishResult)[] = []
+
+  constructor(
+    readonly platform: Platform,
+    private readonly options: MockPublisherOptions = {},
+  ) {}
+
+  async publish(request: PublishRequest, signal?: AbortSignal): Promise<PublishResult> {
+    const { failureRate = 0, latencyMs = 200 } = this.options
+
+    await new Promise((resolve) => setTimeout(resolve, latencyMs))
+    signal?.throwIfAborted()
+
+    if (Math.random() < failureRate) {
+      throw new PublishError(`Mock ${this.platform} publisher failed (simulated outage)`, true)
+    }
+
+    const externalPostId = `mock-${this.platform}-${randomUUID()}`
+    const result: PublishResult = {
+      externalPostId,
+      externalUrl: `https://example.com/${this.platform}/${externalPostId}`,
+    }
+
+    this.published.push({ ...request, ...result })
+    console.log(`[Publisher] Mock-published ${request.platform} variant ${request.variantId}`)
+    return result
+  }
+}
@@ -0,0 +1,62 @@
+import { getThreadSegments } from '../../../shared/platforms'
+import { PublishError, type PlatformPublisher, type PublishRequest, type PublishResult } from '../types'
+import { callPlatformApi, requireEnv } from './http'
+
+const TWEETS_URL = 'https://api.twitter.com/2/tweets'
+
+/**
+ * Posts a caption as a tweet, or as a reply chain when it is split into a
+ * thread. Uses an OAuth 2.0 user access token.
+ */
+export class TwitterPublisher implements PlatformPublisher {
+  readonly platform = 'twitter' as const
+
+  async publish(request: PublishRequest, signal?: AbortSignal): Promise<PublishResult> {
+    const [accessToken] = requireEnv(this.platform, 'TWITTER_ACCESS_TOKEN')
+
+    if (request.images.length > 0) {
+      throw new PublishError('Publishing images to Twitter is not supported yet', false)
+    }
+
+    const segments = getThreadSegments(request.caption)
+    if (segments.length === 0) {
+      throw new PublishError('Cannot publish an empty tweet', false)
+    }
+
+    let firstTweetId: string | null = null
+    let previousTweetId: string | null = null
+    for (const [index, text] of segments.entries()) {
+      try {
+        const response = await callPlatformApi(this.platform, TWEETS_URL, {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            text,
+            ...(previousTweetId ? { reply: { in_reply_to_tweet_id: previousTweetId } } : {}),
+          }),
+        }, signal)
+
+        const { data } = (await response.json()) as { data: { id: string } }
+        firstTweetId ??= data.id
+        previousTweetId = data.id
+      } catch (error: any) {
+        // Retrying would post the tweets that already went out a second time.
+        if (firstTweetId) {
+          throw new PublishError(
+            `Thread stopped after ${index} of ${segments.length} tweets (first tweet ${firstTweetId}): ${error?.message || 'request aborted'}`,
+            false,
+          )
+        }
+        throw error
+      }
+    }
+
+    return {
+      externalPostId: firstTweetId as string,
+      externalUrl: `https://twitter.com/i/web/status/${firstTweetId}`,
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import type { Platform } from '../../shared/types'
+import type { PlatformPublisher } from './types'
+import { MockPublisher } from './adapters/mock-publisher'
+import { InstagramPublisher } from './adapters/instagram-publisher'
+import { LinkedInPublisher } from './adapters/linkedin-publisher'
+import { TwitterPublisher } from './adapters/twitter-publisher'
+
+/**
+ * Picks one adapter per platform. `mock` (the default) never touches a real
+ * network; `live` uses the platform APIs and their credentials from the env.
+ */
+export function createPublishers(mode = process.env.PUBLISHER_MODE || 'mock'): Record<Platform, PlatformPublisher> {
+  if (mode === 'live') {
+    return {
+      instagram: new InstagramPublisher(),
+      twitter: new TwitterPublisher(),
+      linkedin: new LinkedInPublisher(),
+    }
+  }
+
+  const options = {
+    failureRate: Number(process.env.MOCK_PUBLISHER_FAILURE_RATE) || 0,
+  }
+  return {
+    instagram: new MockPublisher('instagram', options),
+    twitter: new MockPublisher('twitter', options),
+    linkedin: new MockPublisher('linkedin', options),
+  }
+}
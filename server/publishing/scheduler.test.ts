@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Platform } from '../../shared/types'
+import {
+  claimPostVariant,
+  getDuePostVariants,
+  getPublishablePostVariant,
+  markPostVariantPublished,
+  markPostVariantPublishFailed,
+  recordPublishAttempt,
+  savePostVariantExternalPost,
+  type DuePostVariant,
+} from '../lib/db/publishing'
+import { recordPostStatusChange } from '../lib/db/post-status-history'
+import { MockPublisher, type MockPublisherOptions } from './adapters/mock-publisher'
+import { PublishScheduler, type PublishSchedulerOptions } from './scheduler'
+import { PublishError, type PlatformPublisher } from './types'
+
+vi.mock('../lib/db/publishing', () => ({
+  claimPostVariant: vi.fn(),
+  getDuePostVariants: vi.fn(),
+  getPublishablePostVariant: vi.fn(),
+  markPostVariantPublished: vi.fn(),
+  markPostVariantPublishFailed: vi.fn(),
+  recordPublishAttempt: vi.fn(),
+  savePostVariantExternalPost: vi.fn(),
+}))
+
+vi.mock('../lib/db/post-status-history', () => ({
+  recordPostStatusChange: vi.fn(),
+}))
+
+const OPTIONS: Partial<PublishSchedulerOptions> = {
+  maxAttempts: 3,
+  baseBackoffMs: 1_000,
+  maxBackoffMs: 3_000,
+}
+
+function createVariant(overrides: Partial<DuePostVariant> = {}): DuePostVariant {
+  return {
+    id: 'variant-1',
+    postId: 'post-1',
+    calendarId: 'calendar-1',
+    platform: 'instagram',
+    caption: 'Tip Tuesday: batch your captions',
+    images: [],
+    scheduledFor: new Date('2026-10-20T09:00:00Z'),
+    attemptCount: 0,
+    externalPostId: null,
+    externalUrl: null,
+    ...overrides,
+  }
+}
+
+function createPublishers(options: MockPublisherOptions = {}): Record<Platform, MockPublisher> {
+  return {
+    instagram: new MockPublisher('instagram', { latencyMs: 0, ...options }),
+    twitter: new MockPublisher('twitter', { latencyMs: 0, ...options }),
+    linkedin: new MockPublisher('linkedin', { latencyMs: 0, ...options }),
+  }
+}
+
+function publishNow(
+  variant: DuePostVariant,
+  publishers: Record<Platform, PlatformPublisher>,
+  options: Partial<PublishSchedulerOptions> = {},
+) {
+  vi.mocked(getPublishablePostVariant).mockResolvedValue(variant)
+  return new PublishScheduler(publishers, { ...OPTIONS, ...options }).publishNow(variant.id)
+}
+
+describe('PublishScheduler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(claimPostVariant).mockResolvedValue(true)
+    vi.mocked(markPostVariantPublished).mockResolvedValue(true)
+  })
+
+  it('publishes a due variant through its adapter and records the change', async () => {
+    const publishers = createPublishers()
+    vi.mocked(getDuePostVariants).mockResolvedValue([createVariant()])
+
+    await new PublishScheduler(publishers, OPTIONS).tick()
+
+    expect(publishers.instagram.published).toHaveLength(1)
+    const [{ externalPostId }] = publishers.instagram.published
+    expect(recordPublishAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1, outcome: 'succeeded', externalPostId }),
+    )
+    expect(markPostVariantPublished).toHaveBeenCalledWith('variant-1', expect.objectContaining({ externalPostId }))
+    expect(recordPostStatusChange).toHaveBeenCalledWith(
+      expect.objectContaining({ fromStatus: 'approved', toStatus: 'published', actorType: 'scheduler' }),
+    )
+  })
+
+  it('skips a variant another worker holds the lease on', async () => {
+    const publishers = createPublishers()
+    vi.mocked(claimPostVariant).mockResolvedValue(false)
+
+    const outcome = await publishNow(createVariant(), publishers)
+
+    expect(outcome).toEqual({ status: 'skipped' })
+    expect(publishers.instagram.published).toHaveLength(0)
+    expect(recordPublishAttempt).not.toHaveBeenCalled()
+  })
+
+  it('retries a retryable failure with exponential backoff', async () => {
+    const before = Date.now()
+
+    const outcome = await publishNow(createVariant({ attemptCount: 1 }), createPublishers({ failureRate: 1 }))
+
+    expect(outcome.status).toBe('retrying')
+    const { nextAttemptAt } = vi.mocked(markPostVariantPublishFailed).mock.calls[0][1]
+    expect(nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(2_000)
+    expect(nextAttemptAt!.getTime() - before).toBeLessThan(3_000)
+    expect(recordPublishAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 2, outcome: 'failed', retryable: true }),
+    )
+    expect(markPostVariantPublished).not.toHaveBeenCalled()
+  })
+
+  it('caps the backoff at maxBackoffMs', async () => {
+    const before = Date.now()
+
+    await publishNow(createVariant({ attemptCount: 1 }), createPublishers({ failureRate: 1 }), { maxAttempts: 10 })
+    await publishNow(createVariant({ attemptCount: 5 }), createPublishers({ failureRate: 1 }), { maxAttempts: 10 })
+
+    const [first, capped] = vi.mocked(markPostVariantPublishFailed).mock.calls.map(([, update]) => update.nextAttemptAt!)
+    expect(first.getTime() - before).toBeLessThan(3_000)
+    expect(capped.getTime() - before).toBeGreaterThanOrEqual(3_000)
+    expect(capped.getTime() - before).toBeLessThan(4_000)
+  })
+
+  it('gives up once maxAttempts is reached', async () => {
+    const outcome = await publishNow(createVariant({ attemptCount: 2 }), createPublishers({ failureRate: 1 }))
+
+    expect(outcome.status).toBe('failed')
+    expect(markPostVariantPublishFailed).toHaveBeenCalledWith(
+      'variant-1',
+      expect.objectContaining({ attemptCount: 3, nextAttemptAt: null }),
+    )
+  })
+
+  it('does not retry an error the adapter marks as permanent', async () => {
+    const rejecting: PlatformPublisher = {
+      platform: 'instagram',
+      publish: vi.fn().mockRejectedValue(new PublishError('Caption too long', false)),
+    }
+
+    const outcome = await publishNow(createVariant(), { ...createPublishers(), instagram: rejecting })
+
+    expect(outcome).toEqual({ status: 'failed', error: 'Caption too long' })
+    expect(recordPublishAttempt).toHaveBeenCalledWith(expect.objectContaining({ retryable: false }))
+  })
+
+  it('does not retry a timed-out call, since the post may have gone out', async () => {
+    // The adapter call times out 10s before the lease ends.
+    const outcome = await publishNow(createVariant(), createPublishers({ latencyMs: 100 }), { leaseMs: 10_020 })
+
+    expect(outcome.status).toBe('failed')
+    expect(outcome.status === 'failed' && outcome.error).toMatch(/Timed out/)
+    expect(markPostVariantPublishFailed).toHaveBeenCalledWith(
+      'variant-1',
+      expect.objectContaining({ nextAttemptAt: null }),
+    )
+  })
+
+  it('only marks a variant the platform already has, without posting it again', async () => {
+    const publishers = createPublishers()
+    const variant = createVariant({ externalPostId: 'mock-instagram-1', externalUrl: 'https://example.com/1' })
+
+    const outcome = await publishNow(variant, publishers)
+
+    expect(outcome).toEqual({ status: 'published', externalPostId: 'mock-instagram-1', externalUrl: 'https://example.com/1' })
+    expect(publishers.instagram.published).toHaveLength(0)
+    expect(recordPublishAttempt).not.toHaveBeenCalled()
+    expect(recordPostStatusChange).toHaveBeenCalled()
+  })
+
+  it('keeps the external post when marking it published fails', async () => {
+    const publishers = createPublishers()
+    vi.mocked(markPostVariantPublished).mockResolvedValue(false)
+
+    const outcome = await publishNow(createVariant(), publishers)
+
+    expect(outcome.status).toBe('failed')
+    const [{ externalPostId }] = publishers.instagram.published
+    expect(savePostVariantExternalPost).toHaveBeenCalledWith('variant-1', expect.objectContaining({ externalPostId }))
+    expect(recordPostStatusChange).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,202 @@
+import type { Platform, PublishOutcome } from '../../shared/types'
+import {
+  claimPostVariant,
+  getDuePostVariants,
+  getPublishablePostVariant,
+  markPostVariantPublished,
+  markPostVariantPublishFailed,
+  recordPublishAttempt,
+  savePostVariantExternalPost,
+  type DuePostVariant,
+} from '../lib/db/publishing'
+import { recordPostStatusChange } from '../lib/db/post-status-history'
+import { createPublishers } from './publishers'
+import { PublishError, type PlatformPublisher } from './types'
+
+export interface PublishSchedulerOptions {
+  intervalMs: number
+  batchSize: number
+  maxAttempts: number
+  baseBackoffMs: number
+  maxBackoffMs: number
+  /** How long a worker holds a variant; adapter calls time out just before it ends. */
+  leaseMs: number
+}
+
+const DEFAULT_OPTIONS: PublishSchedulerOptions = {
+  intervalMs: 60_000,
+  batchSize: 20,
+  maxAttempts: 5,
+  baseBackoffMs: 60_000,
+  maxBackoffMs: 60 * 60_000,
+  leaseMs: 2 * 60_000,
+}
+
+/**
+ * Polls for approved variants whose date has passed and hands each to its
+ * platform adapter. A variant only becomes `published` once the adapter
+ * confirms; failures are retried with exponential backoff until
+ * `maxAttempts`, then left for someone to retry by hand.
+ */
+export class PublishScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private isTicking = false
+  private readonly options: PublishSchedulerOptions
+
+  constructor(
+    private readonly publishers: Record<Platform, PlatformPublisher>,
+    options: Partial<PublishSchedulerOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  start() {
+    if (this.timer) return
+    console.log(`[Publisher] Scheduler polling every ${this.options.intervalMs / 1000}s`)
+    this.timer = setInterval(() => void this.tick(), this.options.intervalMs)
+    void this.tick()
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /** Publishes everything that is due. Overlapping ticks are skipped. */
+  async tick(now = new Date()): Promise<void> {
+    if (this.isTicking) return
+    this.isTicking = true
+
+    try {
+      const due = await getDuePostVariants(now, this.options.batchSize)
+      for (const variant of due) {
+        await this.publishVariant(variant)
+      }
+    } catch (error) {
+      console.error('[Publisher] Scheduler tick failed:', error)
+    } finally {
+      this.isTicking = false
+    }
+  }
+
+  /** Publishes one approved variant now, regardless of its date. */
+  async publishNow(variantId: string): Promise<PublishOutcome> {
+    const variant = await getPublishablePostVariant(variantId)
+    if (!variant) {
+      return { status: 'skipped' }
+    }
+    return this.publishVariant(variant)
+  }
+
+  private getBackoffMs(attempt: number): number {
+    return Math.min(this.options.baseBackoffMs * 2 ** (attempt - 1), this.options.maxBackoffMs)
+  }
+
+  private async publishVariant(variant: DuePostVariant): Promise<PublishOutcome> {
+    const claimed = await claimPostVariant(variant.id, this.options.leaseMs)
+    if (!claimed) {
+      return { status: 'skipped' }
+    }
+
+    const attempt = variant.attemptCount + 1
+    const publisher = this.publishers[variant.platform]
+
+    const signal = AbortSignal.timeout(this.options.leaseMs - 10_000)
+
+    try {
+      // A variant the platform already has only needs marking as published.
+      // Editing its caption or images clears the external post, so changed
+      // content is sent again.
+      const alreadyPublished = variant.externalPostId !== null
+      const result = alreadyPublished
+        ? { externalPostId: variant.externalPostId as string, externalUrl: variant.externalUrl }
+        : await publisher.publish(
+            {
+              variantId: variant.id,
+              postId: variant.postId,
+              calendarId: variant.calendarId,
+              platform: variant.platform,
+              caption: variant.caption,
+              images: variant.images,
+              scheduledFor: variant.scheduledFor,
+            },
+            signal,
+          )
+
+      if (!alreadyPublished) {
+        await recordPublishAttempt({
+          variantId: variant.id,
+          postId: variant.postId,
+          platform: variant.platform,
+          attempt,
+          outcome: 'succeeded',
+          error: null,
+          retryable: null,
+          externalPostId: result.externalPostId,
+        })
+      }
+
+      const marked = await markPostVariantPublished(variant.id, { attemptCount: attempt, ...result })
+      if (!marked) {
+        await savePostVariantExternalPost(variant.id, result)
+        return {
+          status: 'failed',
+          error: `Posted to ${variant.platform} but the post could not be marked as published; it won't be posted again`,
+        }
+      }
+
+      await recordPostStatusChange({
+        variantId: variant.id,
+        postId: variant.postId,
+        platform: variant.platform,
+        fromStatus: 'approved',
+        toStatus: 'published',
+        reason: null,
+        actorType: 'scheduler',
+        actorId: null,
+        actorName: 'Publishing scheduler',
+      })
+
+      return { status: 'published', ...result }
+    } catch (error: any) {
+      // Unknown errors (bugs in an adapter) are treated as retryable. A timeout
+      // is not: the platform may have accepted the post before we gave up.
+      const timedOut = !(error instanceof PublishError) && signal.aborted
+      const retryable = error instanceof PublishError ? error.retryable : !timedOut
+      const message = timedOut
+        ? `Timed out waiting for ${variant.platform}; check whether the post went out before retrying`
+        : error?.message || 'Unknown publishing error'
+      const nextAttemptAt =
+        retryable && attempt < this.options.maxAttempts
+          ? new Date(Date.now() + this.getBackoffMs(attempt))
+          : null
+
+      console.error(
+        `[Publisher] Attempt ${attempt} for ${variant.platform} variant ${variant.id} failed:`,
+        message,
+      )
+
+      await recordPublishAttempt({
+        variantId: variant.id,
+        postId: variant.postId,
+        platform: variant.platform,
+        attempt,
+        outcome: 'failed',
+        error: message,
+        retryable,
+        externalPostId: null,
+      })
+      await markPostVariantPublishFailed(variant.id, { attemptCount: attempt, error: message, nextAttemptAt })
+
+      return nextAttemptAt
+        ? { status: 'retrying', error: message, nextAttemptAt }
+        : { status: 'failed', error: message }
+    }
+  }
+}
+
+export const publishScheduler = new PublishScheduler(createPublishers(), {
+  intervalMs: Number(process.env.PUBLISH_SCHEDULER_INTERVAL_MS) || DEFAULT_OPTIONS.intervalMs,
+})
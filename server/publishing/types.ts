@@ -0,0 +1,39 @@
+import type { Platform } from '../../shared/types'
+
+export interface PublishRequest {
+  variantId: string
+  postId: string
+  calendarId: string
+  platform: Platform
+  caption: string
+  images: string[]
+  scheduledFor: Date
+}
+
+export interface PublishResult {
+  externalPostId: string
+  externalUrl: string | null
+}
+
+/**
+ * One adapter per platform. `publish` resolves only once the platform has
+ * confirmed the post exists; anything else must throw.
+ */
+export interface PlatformPublisher {
+  readonly platform: Platform
+  publish(request: PublishRequest, signal?: AbortSignal): Promise<PublishResult>
+}
+
+/**
+ * Thrown by adapters. `retryable` is false for errors another attempt can't
+ * fix, such as missing credentials or content the platform rejects.
+ */
+export class PublishError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+  ) {
+    super(message)
+    this.name = 'PublishError'
+  }
+}
@@ -1,39 +1,88 @@
 import { Hono } from 'hono'
 import { streamSSE } from 'hono/streaming'
 import type { User } from '@supabase/supabase-js'
-import { requireAuth, isUser } from '../lib/auth'
+import { requireAuth, isUser, canAccessCalendar } from '../lib/auth'
 import { LocalDataRepository } from '../ai-service/repository'
 import { ToolService } from '../ai-service/services/tool-service'
-import { ChatService } from '../ai-service/services/chat-service'
+import { ChatService, loadThreadMessages } from '../ai-service/services/chat-service'
+import { validateToolRegistry } from '../ai-service/tool-manifest'
 import { chatModel, creativeModel, imageGenerator } from '../ai-service/models'
 import { generateAndStoreImage } from '../ai-service/services/image-generation-service'
 import { getBrandVoiceScore } from '../ai-service/services/grading-service'
-import { generateCaptions, extractBrandRules } from '../ai-service/services/generation-service'
+import { generateCaptions, extractBrandRules, mergeCaptions } from '../ai-service/services/generation-service'
+import { draftInboxReply } from '../ai-service/services/reply-service'
+import { generateContentPlan } from '../ai-service/services/content-plan-service'
 import { streamManager } from '../ai-service/stream-manager'
+import { checkpointer } from '../ai-service/checkpointer'
+import { runRegistry } from '../ai-service/run-registry'
+import {
+  buildThreadTitle,
+  createChatThread,
+  deleteChatThread,
+  getChatThreadById,
+  getChatThreads,
+  renameChatThread,
+  setChatThreadPlan,
+  touchChatThread,
+} from '../lib/db/chat-threads'
+import { createDraftPosts, recordVariantBrandScore } from '../lib/db/posts'
+import { isCampaignInCalendar } from '../lib/db/campaigns'
+import { MAX_CAPTION_VARIANTS, MAX_REFINEMENT_ITERATIONS } from '../ai-service/schemas'
+import { isPlatform, PLATFORMS } from '../../shared/platforms'
+import { formatCampaignBrief } from '../../shared/campaigns'
+import { MAX_PLAN_ITEMS, validateContentPlanRequest } from '../../shared/content-plan'
 import type {
   CaptionGenerationRequest,
   ApplySuggestionsRequest,
 } from '../ai-service/schemas'
+import type { ContentPlanRequest, Platform, ToolResultOutcome } from '../../shared/types'
 // Langfuse SDK is initialized in server/lib/langfuse.ts
 
 type Variables = {
   authResult: User
 }
 
+// Tool factories don't touch the repository until a tool runs, so an
+// unscoped repository is enough to check them against the registry.
+validateToolRegistry(
+  new ToolService({
+    repo: new LocalDataRepository('', ''),
+    chatModel,
+    creativeModel,
+    imageGenerator,
+  }),
+)
+
 const app = new Hono<{ Variables: Variables }>()
 
 app.use('*', requireAuth)
 
-app.get('/stream/:threadId', (c) => {
+app.get('/stream/:threadId', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
   const threadId = c.req.param('threadId')
 
+  const thread = await getChatThreadById(threadId)
+  if (thread && thread.userId !== authResult.id) {
+    return c.json({ error: 'Forbidden' }, 403)
+  }
+
   return streamSSE(c, async (stream) => {
     await stream.writeSSE({
       data: JSON.stringify({ type: 'connected' }),
       event: 'connected',
     })
 
+    // A new chat subscribes before /chat creates its thread, so ownership is
+    // checked again on the first event, when the thread exists. Otherwise
+    // anyone could listen in on a predictable thread ID ahead of its owner.
+    let isOwner: Promise<boolean> | null = thread ? Promise.resolve(true) : null
     const unsubscribe = streamManager.subscribe(threadId, async (payload) => {
+      isOwner ??= getChatThreadById(threadId).then((created) => created?.userId === authResult.id)
+      if (!(await isOwner)) return
+
       await stream.writeSSE({
         data: JSON.stringify(payload),
         event: 'message',
@@ -61,12 +110,21 @@ app.post('/grade-caption', async (c) => {
   }
   const user = authResult
 
-  const { caption, calendarId } = await c.req.json() as { caption: string; calendarId: string }
+  const { caption, calendarId, platform, postId } = await c.req.json() as {
+    caption: string
+    calendarId: string
+    platform?: Platform
+    postId?: string
+  }
 
   if (typeof caption !== 'string' || !calendarId) {
     return c.json({ error: 'caption and calendarId are required' }, 400)
   }
 
+  if (platform !== undefined && !isPlatform(platform)) {
+    return c.json({ error: `platform must be one of ${PLATFORMS.join(', ')}` }, 400)
+  }
+
   try {
     const repo = new LocalDataRepository(user.id, calendarId)
     const brandRules = await repo.getBrandRules()
@@ -74,7 +132,18 @@ app.post('/grade-caption', async (c) => {
       caption as string,
       brandRules,
       chatModel,
+      undefined,
+      platform,
     )
+
+    // The editor grades the open variant's caption; keep its score for analytics.
+    if (postId && platform) {
+      const post = await repo.getPost(postId)
+      if (post) {
+        await recordVariantBrandScore(postId, platform, score.overall)
+      }
+    }
+
     return c.json(score)
   } catch (error: any) {
     console.error('Error grading caption:', error)
@@ -92,23 +161,56 @@ app.post('/generate-caption', async (c) => {
   }
   const user = authResult
 
-  const { calendarId, request } = (await c.req.json()) as {
+  const { calendarId, request, campaignId } = (await c.req.json()) as {
     calendarId: string
     request: CaptionGenerationRequest
+    campaignId?: string | null
   }
 
   if (!calendarId || !request) {
     return c.json({ error: 'calendarId and request object are required' }, 400)
   }
 
+  if (
+    request.variantCount !== undefined &&
+    (!Number.isInteger(request.variantCount) ||
+      request.variantCount < 1 ||
+      request.variantCount > MAX_CAPTION_VARIANTS)
+  ) {
+    return c.json({ error: `variantCount must be between 1 and ${MAX_CAPTION_VARIANTS}` }, 400)
+  }
+
+  if (
+    request.maxIterations !== undefined &&
+    (!Number.isInteger(request.maxIterations) ||
+      request.maxIterations < 1 ||
+      request.maxIterations > MAX_REFINEMENT_ITERATIONS)
+  ) {
+    return c.json({ error: `maxIterations must be between 1 and ${MAX_REFINEMENT_ITERATIONS}` }, 400)
+  }
+
+  if (
+    request.targetScore !== undefined &&
+    (typeof request.targetScore !== 'number' || request.targetScore < 0 || request.targetScore > 100)
+  ) {
+    return c.json({ error: 'targetScore must be between 0 and 100' }, 400)
+  }
+
+  if (request.platform !== undefined && !isPlatform(request.platform)) {
+    return c.json({ error: `platform must be one of ${PLATFORMS.join(', ')}` }, 400)
+  }
+
   try {
     const repo = new LocalDataRepository(user.id, calendarId)
     const brandRules = await repo.getBrandRules()
+    // The brief always comes from the stored campaign, never from the client.
+    const campaign = campaignId ? await repo.getCampaign(campaignId) : null
 
     const result = await generateCaptions(
-      request,
+      { ...request, campaignBrief: campaign ? formatCampaignBrief(campaign) : undefined },
       brandRules,
-      creativeModel
+      creativeModel,
+      chatModel,
     )
     return c.json(result)
   } catch (error: any) {
@@ -123,6 +225,44 @@ app.post('/generate-caption', async (c) => {
   }
 })
 
+app.post('/merge-captions', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const { captions, calendarId } = (await c.req.json()) as {
+    captions: string[]
+    calendarId: string
+  }
+
+  if (
+    !calendarId ||
+    !Array.isArray(captions) ||
+    captions.filter((caption) => typeof caption === 'string' && caption.trim()).length < 2
+  ) {
+    return c.json({ error: 'calendarId and at least two captions are required' }, 400)
+  }
+
+  try {
+    const repo = new LocalDataRepository(user.id, calendarId)
+    const brandRules = await repo.getBrandRules()
+
+    const caption = await mergeCaptions(captions, brandRules, creativeModel)
+    return c.json({ caption })
+  } catch (error: any) {
+    console.error('Error merging captions:', error)
+    if (error.message?.includes('Forbidden')) {
+      return c.json({ error: 'Forbidden' }, 403)
+    }
+    return c.json(
+      { error: 'Failed to merge captions', details: error.message },
+      500,
+    )
+  }
+})
+
 app.post('/apply-suggestions', async (c) => {
   const authResult = c.get('authResult')
   if (!isUser(authResult)) {
@@ -171,6 +311,39 @@ app.post('/apply-suggestions', async (c) => {
   }
 })
 
+// Saves an AI reply draft on an inbox message. Sending it stays a manual step in the inbox.
+app.post('/draft-reply', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const { calendarId, messageId } = (await c.req.json()) as {
+    calendarId: string
+    messageId: string
+  }
+
+  if (!calendarId || !messageId) {
+    return c.json({ error: 'calendarId and messageId are required' }, 400)
+  }
+
+  try {
+    const repo = new LocalDataRepository(user.id, calendarId)
+    const result = await draftInboxReply(repo, messageId, creativeModel, chatModel)
+    return c.json(result)
+  } catch (error: any) {
+    console.error('Error drafting reply:', error)
+    if (error.message?.includes('Forbidden')) {
+      return c.json({ error: 'Forbidden' }, 403)
+    }
+    if (error.message === 'Message not found') {
+      return c.json({ error: 'Message not found' }, 404)
+    }
+    return c.json({ error: 'Failed to draft reply', details: error.message }, 500)
+  }
+})
+
 app.post('/generate-image', async (c) => {
   const authResult = c.get('authResult')
   if (!isUser(authResult)) {
@@ -231,6 +404,96 @@ app.post('/extract-brand-rules', async (c) => {
   }
 })
 
+// Proposes a schedule of posts for review. Nothing is saved until the user accepts items.
+app.post('/content-plan', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const { calendarId, campaignId, goals, cadence, from, to } = (await c.req.json()) as ContentPlanRequest & {
+    calendarId: string
+    campaignId?: string | null
+  }
+
+  if (!calendarId) {
+    return c.json({ error: 'calendarId is required' }, 400)
+  }
+
+  const request: ContentPlanRequest = { goals, cadence, from, to }
+  const requestError = validateContentPlanRequest(request)
+  if (requestError) {
+    return c.json({ error: requestError }, 400)
+  }
+
+  try {
+    const repo = new LocalDataRepository(user.id, calendarId)
+    const campaign = campaignId ? await repo.getCampaign(campaignId) : null
+
+    const plan = await generateContentPlan(repo, request, { calendarId, campaign }, creativeModel)
+    return c.json(plan)
+  } catch (error: any) {
+    console.error('Error generating content plan:', error)
+    if (error.message?.includes('Forbidden')) {
+      return c.json({ error: 'Forbidden' }, 403)
+    }
+    return c.json({ error: 'Failed to generate content plan', details: error.message }, 500)
+  }
+})
+
+// Creates the accepted items of a content plan as draft posts.
+app.post('/content-plan/drafts', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const { calendarId, campaignId, posts } = (await c.req.json()) as {
+    calendarId: string
+    campaignId?: string | null
+    posts: { date: string; platform: Platform; caption: string }[]
+  }
+
+  if (!calendarId) {
+    return c.json({ error: 'calendarId is required' }, 400)
+  }
+
+  if (!Array.isArray(posts) || posts.length === 0 || posts.length > MAX_PLAN_ITEMS) {
+    return c.json({ error: `posts must hold 1 to ${MAX_PLAN_ITEMS} drafts` }, 400)
+  }
+
+  const invalid = posts.find(
+    (post) =>
+      typeof post?.date !== 'string' ||
+      isNaN(new Date(post.date).getTime()) ||
+      !isPlatform(post.platform) ||
+      typeof post.caption !== 'string',
+  )
+  if (invalid) {
+    return c.json({ error: `Each draft needs a date, a caption and a platform (${PLATFORMS.join(', ')})` }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: 'Forbidden' }, 403)
+  }
+
+  if (!(await isCampaignInCalendar(campaignId ?? null, calendarId))) {
+    return c.json({ error: 'Campaign not found' }, 400)
+  }
+
+  const created = await createDraftPosts(
+    calendarId,
+    { id: user.id, name: user.user_metadata?.name || user.email || 'User' },
+    posts.map((post) => ({ date: new Date(post.date), platform: post.platform, caption: post.caption })),
+    campaignId ?? null,
+  )
+
+  return c.json({ created, failed: posts.length - created.length })
+})
+
 app.post('/chat', async (c) => {
   const authResult = c.get('authResult')
   if (!isUser(authResult)) {
@@ -238,7 +501,7 @@ app.post('/chat', async (c) => {
   }
   const user = authResult
 
-  const { input, calendarId, threadId, clientContext } = await c.req.json()
+  const { input, calendarId, threadId, clientContext, planning } = await c.req.json()
 
   if (!calendarId) {
     return c.json({ error: 'calendarId is required' }, 400)
@@ -251,6 +514,26 @@ app.post('/chat', async (c) => {
   try {
     const conversationThreadId = threadId || `${user.id}-${calendarId}`
 
+    const existingThread = await getChatThreadById(conversationThreadId)
+    if (existingThread) {
+      if (existingThread.userId !== user.id || existingThread.calendarId !== calendarId) {
+        return c.json({ error: 'Forbidden' }, 403)
+      }
+    } else {
+      if (!(await canAccessCalendar(user.id, calendarId))) {
+        return c.json({ error: 'Forbidden' }, 403)
+      }
+      const created = await createChatThread({
+        id: conversationThreadId,
+        userId: user.id,
+        calendarId,
+        title: buildThreadTitle(String(input)),
+      })
+      if (!created) {
+        return c.json({ error: 'Failed to create chat thread' }, 500)
+      }
+    }
+
     const repo = new LocalDataRepository(user.id, calendarId)
     const toolService = new ToolService({
       repo,
@@ -272,18 +555,25 @@ app.post('/chat', async (c) => {
     }
     const result = await chatService.runChat(
       input,
-      threadId || undefined,
+      conversationThreadId,
       enrichedClientContext,
       { userId: user.id, calendarId },
+      { planning: planning === true },
     )
+    await setChatThreadPlan(conversationThreadId, result.plan)
+    await touchChatThread(conversationThreadId)
 
     return c.json({
       response: result.response,
       toolCalls: result.toolCalls,
       threadId: conversationThreadId,
-      traceId: result.traceId
+      traceId: result.traceId,
+      plan: result.plan,
     })
   } catch (error: any) {
+    if (error.message === 'Run cancelled') {
+      return c.json({ response: '', threadId: threadId || `${user.id}-${calendarId}`, cancelled: true })
+    }
     console.error('Error in chat agent:', error)
     if (error.message?.includes('Forbidden')) {
       return c.json({ error: 'Forbidden' }, 403)
@@ -292,4 +582,223 @@ app.post('/chat', async (c) => {
   }
 })
 
+app.post('/chat/:threadId/cancel', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const threadId = c.req.param('threadId')
+  const thread = await getChatThreadById(threadId)
+  if (!thread) {
+    return c.json({ error: 'Thread not found' }, 404)
+  }
+  if (thread.userId !== user.id) {
+    return c.json({ error: 'Forbidden' }, 403)
+  }
+
+  const cancelled = runRegistry.cancel(threadId)
+  return c.json({ cancelled })
+})
+
+const TOOL_RESULT_OUTCOMES: ToolResultOutcome[] = ['applied', 'rejected', 'failed']
+
+app.post('/chat/tool-result', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const {
+    calendarId,
+    threadId,
+    clientContext,
+    toolCallId,
+    toolName,
+    outcome,
+    reason,
+    result,
+  } = await c.req.json()
+
+  if (!calendarId || !threadId) {
+    return c.json({ error: 'calendarId and threadId are required' }, 400)
+  }
+
+  if (!toolCallId || !toolName || !TOOL_RESULT_OUTCOMES.includes(outcome)) {
+    return c.json(
+      { error: 'toolCallId, toolName, and a valid outcome (applied, rejected, failed) are required' },
+      400,
+    )
+  }
+
+  const thread = await getChatThreadById(threadId)
+  if (!thread) {
+    return c.json({ error: 'Thread not found' }, 404)
+  }
+  if (thread.userId !== user.id || thread.calendarId !== calendarId) {
+    return c.json({ error: 'Forbidden' }, 403)
+  }
+
+  try {
+    const repo = new LocalDataRepository(user.id, calendarId)
+    const toolService = new ToolService({
+      repo,
+      chatModel,
+      creativeModel,
+      imageGenerator,
+    })
+    const chatService = new ChatService({
+      repo,
+      toolService,
+      chatModel,
+      creativeModel,
+      imageGenerator,
+    })
+
+    const enrichedClientContext = {
+      ...clientContext,
+      calendarId: clientContext?.calendarId || calendarId,
+    }
+    const chatResult = await chatService.runToolResult(
+      {
+        toolCallId,
+        toolName,
+        outcome,
+        reason: typeof reason === 'string' ? reason : undefined,
+        result: typeof result === 'string' ? result : undefined,
+      },
+      threadId,
+      enrichedClientContext,
+      { userId: user.id, calendarId },
+      { activePlan: thread.activePlan },
+    )
+    await touchChatThread(threadId)
+
+    return c.json({
+      response: chatResult.response,
+      toolCalls: chatResult.toolCalls,
+      threadId,
+      traceId: chatResult.traceId
+    })
+  } catch (error: any) {
+    if (error.message === 'Run cancelled') {
+      return c.json({ response: '', threadId, cancelled: true })
+    }
+    console.error('Error submitting tool result:', error)
+    if (error.message?.includes('Forbidden')) {
+      return c.json({ error: 'Forbidden' }, 403)
+    }
+    if (error.message?.includes('Tool call not found')) {
+      return c.json({ error: 'Tool call not found' }, 404)
+    }
+    if (error.message?.includes('already submitted')) {
+      return c.json({ error: 'Tool result already submitted' }, 409)
+    }
+    return c.json({ error: 'Tool result failed', details: error.message }, 500)
+  }
+})
+
+app.get('/threads', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query('calendarId')
+  if (!calendarId) {
+    return c.json({ error: 'calendarId is required' }, 400)
+  }
+
+  if (!(await canAccessCalendar(user.id, calendarId))) {
+    return c.json({ error: 'Forbidden' }, 403)
+  }
+
+  const threads = await getChatThreads(user.id, calendarId)
+  return c.json(threads)
+})
+
+app.get('/threads/:threadId', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const thread = await getChatThreadById(c.req.param('threadId'))
+  if (!thread) {
+    return c.json({ error: 'Thread not found' }, 404)
+  }
+  if (thread.userId !== user.id) {
+    return c.json({ error: 'Forbidden' }, 403)
+  }
+
+  try {
+    const messages = await loadThreadMessages(thread.id)
+    return c.json({ thread, messages })
+  } catch (error: any) {
+    console.error('Error loading chat thread:', error)
+    return c.json({ error: 'Failed to load thread', details: error.message }, 500)
+  }
+})
+
+app.put('/threads/:threadId', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const { title } = await c.req.json()
+  if (typeof title !== 'string' || !title.trim()) {
+    return c.json({ error: 'title is required' }, 400)
+  }
+
+  const thread = await getChatThreadById(c.req.param('threadId'))
+  if (!thread) {
+    return c.json({ error: 'Thread not found' }, 404)
+  }
+  if (thread.userId !== user.id) {
+    return c.json({ error: 'Forbidden' }, 403)
+  }
+
+  const updated = await renameChatThread(thread.id, buildThreadTitle(title))
+  if (!updated) {
+    return c.json({ error: 'Failed to rename thread' }, 500)
+  }
+
+  return c.json(updated)
+})
+
+app.delete('/threads/:threadId', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const thread = await getChatThreadById(c.req.param('threadId'))
+  if (!thread) {
+    return c.json({ error: 'Thread not found' }, 404)
+  }
+  if (thread.userId !== user.id) {
+    return c.json({ error: 'Forbidden' }, 403)
+  }
+
+  try {
+    await checkpointer.deleteThread(thread.id)
+  } catch (error: any) {
+    return c.json({ error: 'Failed to delete thread', details: error.message }, 500)
+  }
+
+  const deleted = await deleteChatThread(thread.id)
+  if (!deleted) {
+    return c.json({ error: 'Failed to delete thread' }, 500)
+  }
+
+  return c.json({ success: true })
+})
+
 export default app
\ No newline at end of file
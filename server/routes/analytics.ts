@@ -0,0 +1,61 @@
+import { Hono } from "hono"
+import type { User } from "@supabase/supabase-js"
+import { differenceInCalendarDays, endOfMonth, format, isValid, parseISO, startOfMonth } from "date-fns"
+import { requireAuth, isUser, canAccessCalendar } from "../lib/auth"
+import { getCalendarAnalytics } from "../lib/db/analytics"
+
+type Variables = {
+  authResult: User
+}
+
+const MAX_RANGE_DAYS = 366
+
+const app = new Hono<{ Variables: Variables }>()
+
+app.use('*', requireAuth)
+
+function isDateString(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value))
+}
+
+// Defaults to the current month when no range is given.
+app.get("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query("calendarId")
+  const now = new Date()
+  const from = c.req.query("from") ?? format(startOfMonth(now), "yyyy-MM-dd")
+  const to = c.req.query("to") ?? format(endOfMonth(now), "yyyy-MM-dd")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  if (!isDateString(from) || !isDateString(to)) {
+    return c.json({ error: "from and to must be dates (yyyy-MM-dd)" }, 400)
+  }
+
+  const rangeDays = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1
+  if (rangeDays < 1 || rangeDays > MAX_RANGE_DAYS) {
+    return c.json({ error: `from must be on or before to, at most ${MAX_RANGE_DAYS} days apart` }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const analytics = await getCalendarAnalytics(calendarId, from, to)
+
+  if (!analytics) {
+    return c.json({ error: "Failed to load analytics" }, 500)
+  }
+
+  return c.json(analytics)
+})
+
+export default app
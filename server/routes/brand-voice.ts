@@ -1,6 +1,6 @@
 import { Hono } from "hono"
 import type { User } from "@supabase/supabase-js"
-import { requireAuth, isUser, canAccessCalendar } from "../lib/auth"
+import { requireAuth, isUser, canAccessCalendar, canManageCalendar } from "../lib/auth"
 import { supabase } from "../lib/supabase"
 import { getBrandRules, saveBrandRule, deleteBrandRule, saveBrandRulesBulk } from "../lib/db/brand-voice"
 
@@ -48,9 +48,9 @@ app.post("/", async (c) => {
     return c.json({ error: "Calendar ID, title, and description are required" }, 400)
   }
 
-  const hasAccess = await canAccessCalendar(user.id, calendarId)
-  if (!hasAccess) {
-    return c.json({ error: "Forbidden" }, 403)
+  const canManage = await canManageCalendar(user.id, calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can change brand rules" }, 403)
   }
 
   const rule = await saveBrandRule({
@@ -82,9 +82,9 @@ app.put("/", async (c) => {
     return c.json({ error: "ID, calendar ID, title, and description are required" }, 400)
   }
 
-  const hasAccess = await canAccessCalendar(user.id, calendarId)
-  if (!hasAccess) {
-    return c.json({ error: "Forbidden" }, 403)
+  const canManage = await canManageCalendar(user.id, calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can change brand rules" }, 403)
   }
 
   const rule = await saveBrandRule({
@@ -125,9 +125,9 @@ app.delete("/", async (c) => {
     return c.json({ error: "Rule not found" }, 404)
   }
 
-  const hasAccess = await canAccessCalendar(user.id, rule.calendar_id)
-  if (!hasAccess) {
-    return c.json({ error: "Forbidden" }, 403)
+  const canManage = await canManageCalendar(user.id, rule.calendar_id)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can change brand rules" }, 403)
   }
 
   const success = await deleteBrandRule(ruleId)
@@ -153,9 +153,9 @@ app.post("/bulk", async (c) => {
     return c.json({ error: "Calendar ID and rules array are required" }, 400)
   }
 
-  const hasAccess = await canAccessCalendar(user.id, calendarId)
-  if (!hasAccess) {
-    return c.json({ error: "Forbidden" }, 403)
+  const canManage = await canManageCalendar(user.id, calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can change brand rules" }, 403)
   }
 
   const rulesToSave = rules.map((r: any) => ({
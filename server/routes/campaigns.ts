@@ -0,0 +1,172 @@
+import { Hono } from "hono"
+import type { User } from "@supabase/supabase-js"
+import { isValid, parseISO } from "date-fns"
+import { requireAuth, isUser, canAccessCalendar, canManageCalendar } from "../lib/auth"
+import type { CampaignInput } from "../../shared/types"
+import {
+  createCampaign,
+  deleteCampaign,
+  getCampaignById,
+  getCampaigns,
+  updateCampaign,
+} from "../lib/db/campaigns"
+
+type Variables = {
+  authResult: User
+}
+
+const app = new Hono<{ Variables: Variables }>()
+
+app.use('*', requireAuth)
+
+function isDateString(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value))
+}
+
+function parseCampaignInput(body: any): { input: CampaignInput } | { error: string } {
+  const name = typeof body.name === "string" ? body.name.trim() : ""
+  const goals: unknown[] = Array.isArray(body.goals) ? body.goals : []
+
+  if (!name) {
+    return { error: "Campaign name required" }
+  }
+  if (!isDateString(body.startsOn) || !isDateString(body.endsOn)) {
+    return { error: "startsOn and endsOn must be dates (yyyy-MM-dd)" }
+  }
+  if (body.endsOn < body.startsOn) {
+    return { error: "endsOn must be on or after startsOn" }
+  }
+  if (typeof body.color !== "string" || !/^#[0-9a-f]{6}$/i.test(body.color)) {
+    return { error: "color must be a hex color like #6366f1" }
+  }
+  if (!goals.every((goal) => typeof goal === "string")) {
+    return { error: "goals must be a list of strings" }
+  }
+
+  return {
+    input: {
+      name,
+      description: typeof body.description === "string" ? body.description.trim() : "",
+      goals: (goals as string[]).map((goal) => goal.trim()).filter(Boolean),
+      color: body.color,
+      startsOn: body.startsOn,
+      endsOn: body.endsOn,
+    },
+  }
+}
+
+app.get("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query("calendarId")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  return c.json(await getCampaigns(calendarId))
+})
+
+app.post("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const body = await c.req.json()
+
+  if (!body.calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const parsed = parseCampaignInput(body)
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+
+  const canManage = await canManageCalendar(user.id, body.calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can manage campaigns" }, 403)
+  }
+
+  const campaign = await createCampaign(body.calendarId, parsed.input)
+
+  if (!campaign) {
+    return c.json({ error: "Failed to create campaign" }, 500)
+  }
+
+  return c.json(campaign)
+})
+
+app.put("/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const campaignId = c.req.param("id")
+  const existing = await getCampaignById(campaignId)
+
+  if (!existing) {
+    return c.json({ error: "Campaign not found" }, 404)
+  }
+
+  const canManage = await canManageCalendar(user.id, existing.calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can manage campaigns" }, 403)
+  }
+
+  const parsed = parseCampaignInput(await c.req.json())
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+
+  const campaign = await updateCampaign(campaignId, parsed.input)
+
+  if (!campaign) {
+    return c.json({ error: "Failed to update campaign" }, 500)
+  }
+
+  return c.json(campaign)
+})
+
+app.delete("/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const campaignId = c.req.param("id")
+  const existing = await getCampaignById(campaignId)
+
+  if (!existing) {
+    return c.json({ error: "Campaign not found" }, 404)
+  }
+
+  const canManage = await canManageCalendar(user.id, existing.calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can manage campaigns" }, 403)
+  }
+
+  const success = await deleteCampaign(campaignId)
+
+  if (!success) {
+    return c.json({ error: "Failed to delete campaign" }, 500)
+  }
+
+  return c.json({ success: true })
+})
+
+export default app
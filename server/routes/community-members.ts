@@ -0,0 +1,169 @@
+import { Hono } from "hono"
+import type { User } from "@supabase/supabase-js"
+import { requireAuth, isUser, canAccessCalendar } from "../lib/auth"
+import {
+  createMemberNote,
+  deleteMemberNote,
+  getCommunityMemberById,
+  getCommunityMemberProfile,
+  getCommunityMembers,
+  updateCommunityMemberFlags,
+} from "../lib/db/community-members"
+
+type Variables = {
+  authResult: User
+}
+
+const app = new Hono<{ Variables: Variables }>()
+
+app.use('*', requireAuth)
+
+app.get("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query("calendarId")
+  const search = c.req.query("search")
+  const status = c.req.query("status")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  if (status !== undefined && status !== "blocked" && status !== "muted") {
+    return c.json({ error: "status must be blocked or muted" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  return c.json(await getCommunityMembers(calendarId, { search: search?.trim() || undefined, status }))
+})
+
+// The member with their inbox history, notes and weekly sentiment trend.
+app.get("/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const profile = await getCommunityMemberProfile(c.req.param("id"))
+
+  if (!profile) {
+    return c.json({ error: "Member not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, profile.member.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  return c.json(profile)
+})
+
+// Stats are kept up to date from the inbox, so only block and mute can be changed here.
+app.put("/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const memberId = c.req.param("id")
+  const existing = await getCommunityMemberById(memberId)
+
+  if (!existing) {
+    return c.json({ error: "Member not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, existing.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const { isBlocked, isMuted } = await c.req.json()
+
+  if (
+    (isBlocked !== undefined && typeof isBlocked !== "boolean") ||
+    (isMuted !== undefined && typeof isMuted !== "boolean")
+  ) {
+    return c.json({ error: "isBlocked and isMuted must be booleans" }, 400)
+  }
+
+  const member = await updateCommunityMemberFlags(memberId, { isBlocked, isMuted })
+
+  if (!member) {
+    return c.json({ error: "Failed to update member" }, 500)
+  }
+
+  return c.json(member)
+})
+
+app.post("/:id/notes", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const memberId = c.req.param("id")
+  const existing = await getCommunityMemberById(memberId)
+
+  if (!existing) {
+    return c.json({ error: "Member not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, existing.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const { content } = await c.req.json()
+
+  if (!content?.trim()) {
+    return c.json({ error: "Note content required" }, 400)
+  }
+
+  const note = await createMemberNote(existing.calendarId, memberId, content.trim())
+
+  if (!note) {
+    return c.json({ error: "Failed to create note" }, 500)
+  }
+
+  return c.json(note)
+})
+
+app.delete("/:id/notes/:noteId", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const memberId = c.req.param("id")
+  const existing = await getCommunityMemberById(memberId)
+
+  if (!existing) {
+    return c.json({ error: "Member not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, existing.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const success = await deleteMemberNote(c.req.param("noteId"), memberId)
+  if (!success) {
+    return c.json({ error: "Failed to delete note" }, 500)
+  }
+
+  return c.json({ success: true })
+})
+
+export default app
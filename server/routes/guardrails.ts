@@ -0,0 +1,107 @@
+import { Hono } from "hono"
+import type { User } from "@supabase/supabase-js"
+import { requireAuth, isUser, canAccessCalendar, canManageCalendar } from "../lib/auth"
+import { getGuardrailBlocks, getGuardrailSettings, saveGuardrailSettings } from "../lib/db/guardrails"
+import type { GuardrailFailMode } from "../../shared/types"
+
+type Variables = {
+  authResult: User
+}
+
+const FAIL_MODES: GuardrailFailMode[] = ["open", "closed"]
+
+const app = new Hono<{ Variables: Variables }>()
+
+app.use('*', requireAuth)
+
+app.get("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query("calendarId")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const settings = await getGuardrailSettings(calendarId)
+  return c.json(settings)
+})
+
+app.put("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const body = await c.req.json()
+  const { calendarId, enabled, failMode, allowedTopics, outputChecksEnabled } = body
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  if (failMode !== undefined && !FAIL_MODES.includes(failMode)) {
+    return c.json({ error: "failMode must be 'open' or 'closed'" }, 400)
+  }
+
+  if (allowedTopics !== undefined && (!Array.isArray(allowedTopics) || allowedTopics.some((t) => typeof t !== "string"))) {
+    return c.json({ error: "allowedTopics must be an array of strings" }, 400)
+  }
+
+  const canManage = await canManageCalendar(user.id, calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can change guardrails" }, 403)
+  }
+
+  const current = await getGuardrailSettings(calendarId)
+  const settings = await saveGuardrailSettings({
+    calendarId,
+    enabled: enabled ?? current.enabled,
+    failMode: failMode ?? current.failMode,
+    allowedTopics: allowedTopics
+      ? allowedTopics.map((topic: string) => topic.trim()).filter(Boolean)
+      : current.allowedTopics,
+    outputChecksEnabled: outputChecksEnabled ?? current.outputChecksEnabled,
+  })
+
+  if (!settings) {
+    return c.json({ error: "Failed to save guardrail settings" }, 500)
+  }
+
+  return c.json(settings)
+})
+
+// Blocks keep the blocked text as written, so only owners and admins review them.
+app.get("/blocks", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query("calendarId")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const canManage = await canManageCalendar(user.id, calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can review blocked messages" }, 403)
+  }
+
+  const blocks = await getGuardrailBlocks(calendarId)
+  return c.json(blocks)
+})
+
+export default app
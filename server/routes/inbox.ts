@@ -0,0 +1,457 @@
+import { Hono } from "hono"
+import type { User } from "@supabase/supabase-js"
+import { requireAuth, isUser, canAccessCalendar } from "../lib/auth"
+import {
+  createInboxMessage,
+  deleteInboxMessage,
+  deleteSavedResponse,
+  getInboxMessageById,
+  getInboxMessages,
+  getUnclassifiedInboxMessages,
+  getSavedResponseById,
+  getSavedResponses,
+  recordInboxReply,
+  saveSavedResponse,
+  updateInboxMessage,
+} from "../lib/db/inbox"
+import { getCommunityMemberById } from "../lib/db/community-members"
+import { chatModel } from "../ai-service/models"
+import { classifyInboxMessage } from "../ai-service/services/sentiment-service"
+import { isPlatform } from "../../shared/platforms"
+import type { InboxFilters, InboxMessageType, Sentiment } from "../../shared/types"
+
+type Variables = {
+  authResult: User
+}
+
+const app = new Hono<{ Variables: Variables }>()
+
+app.use('*', requireAuth)
+
+const MESSAGE_TYPES: InboxMessageType[] = ["comment", "dm", "mention"]
+const SENTIMENTS: Sentiment[] = ["positive", "negative", "neutral"]
+const DEFAULT_CLASSIFY_BATCH = 50
+const MAX_CLASSIFY_BATCH = 200
+
+function isMessageType(value: unknown): value is InboxMessageType {
+  return MESSAGE_TYPES.includes(value as InboxMessageType)
+}
+
+function isSentiment(value: unknown): value is Sentiment {
+  return SENTIMENTS.includes(value as Sentiment)
+}
+
+function parseFilters(query: Record<string, string>): InboxFilters | string {
+  const filters: InboxFilters = {}
+
+  if (query.type) {
+    if (!isMessageType(query.type)) return `type must be one of ${MESSAGE_TYPES.join(", ")}`
+    filters.type = query.type
+  }
+  if (query.platform) {
+    if (!isPlatform(query.platform)) return "Unknown platform"
+    filters.platform = query.platform
+  }
+  if (query.sentiment) {
+    if (!isSentiment(query.sentiment)) return `sentiment must be one of ${SENTIMENTS.join(", ")}`
+    filters.sentiment = query.sentiment
+  }
+  if (query.replied) {
+    if (query.replied !== "true" && query.replied !== "false") return "replied must be true or false"
+    filters.replied = query.replied === "true"
+  }
+  if (query.includeMuted) {
+    filters.includeMuted = query.includeMuted === "true"
+  }
+
+  return filters
+}
+
+app.get("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query("calendarId")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const filters = parseFilters(c.req.query())
+  if (typeof filters === "string") {
+    return c.json({ error: filters }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  return c.json(await getInboxMessages(calendarId, filters))
+})
+
+// Messages normally arrive from the platforms; this also backs the dev message simulator.
+// A sentiment sent with the message counts as a manual override; otherwise it's classified here.
+app.post("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const body = await c.req.json()
+  const { calendarId, userId, userName, userAvatar, type, content, postId, postCaption, platform, sentiment } = body
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  if (!userId || !userName || !content?.trim()) {
+    return c.json({ error: "userId, userName and content are required" }, 400)
+  }
+
+  if (!isMessageType(type)) {
+    return c.json({ error: `type must be one of ${MESSAGE_TYPES.join(", ")}` }, 400)
+  }
+
+  if (!isPlatform(platform)) {
+    return c.json({ error: "Unknown platform" }, 400)
+  }
+
+  if (sentiment !== undefined && !isSentiment(sentiment)) {
+    return c.json({ error: `sentiment must be one of ${SENTIMENTS.join(", ")}` }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const message = await createInboxMessage({
+    calendarId,
+    userId,
+    userName,
+    userAvatar: userAvatar || null,
+    type,
+    content,
+    postId: postId || null,
+    postCaption: postCaption || null,
+    platform,
+    sentiment: sentiment || "neutral",
+    sentimentOverridden: sentiment !== undefined,
+  })
+
+  if (!message) {
+    return c.json({ error: "Failed to create message" }, 500)
+  }
+
+  // A failed classification leaves the message for the backfill endpoint.
+  const classified = await classifyInboxMessage(message, chatModel).catch((error) => {
+    console.error("Error classifying inbox message:", error)
+    return null
+  })
+
+  return c.json(classified ?? message)
+})
+
+// Classifies messages the classifier hasn't seen yet, in batches. Call again while hasMore is true.
+app.post("/classify-sentiment", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const { calendarId, limit } = await c.req.json()
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_CLASSIFY_BATCH)) {
+    return c.json({ error: `limit must be between 1 and ${MAX_CLASSIFY_BATCH}` }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const batchSize = limit ?? DEFAULT_CLASSIFY_BATCH
+  const messages = await getUnclassifiedInboxMessages(calendarId, batchSize + 1)
+  let classified = 0
+  let failed = 0
+
+  for (const message of messages.slice(0, batchSize)) {
+    try {
+      if (await classifyInboxMessage(message, chatModel)) {
+        classified++
+      } else {
+        failed++
+      }
+    } catch (error) {
+      console.error(`Error classifying inbox message ${message.id}:`, error)
+      failed++
+    }
+  }
+
+  return c.json({ classified, failed, hasMore: messages.length > batchSize })
+})
+
+app.get("/saved-responses", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query("calendarId")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  return c.json(await getSavedResponses(calendarId))
+})
+
+app.post("/saved-responses", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const body = await c.req.json()
+  const { calendarId, title, content, keywords, guidelines } = body
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  if (!title?.trim() || !content?.trim()) {
+    return c.json({ error: "Title and content required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const response = await saveSavedResponse({
+    calendarId,
+    title,
+    content,
+    keywords: Array.isArray(keywords) ? keywords : [],
+    guidelines: guidelines || null,
+  })
+
+  if (!response) {
+    return c.json({ error: "Failed to create saved response" }, 500)
+  }
+
+  return c.json(response)
+})
+
+app.put("/saved-responses/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const responseId = c.req.param("id")
+  const existing = await getSavedResponseById(responseId)
+
+  if (!existing) {
+    return c.json({ error: "Saved response not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, existing.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const body = await c.req.json()
+  const { title, content, keywords, guidelines } = body
+
+  const response = await saveSavedResponse({
+    id: responseId,
+    calendarId: existing.calendarId,
+    title: title ?? existing.title,
+    content: content ?? existing.content,
+    keywords: Array.isArray(keywords) ? keywords : existing.keywords,
+    guidelines: guidelines !== undefined ? guidelines || null : existing.guidelines,
+  })
+
+  if (!response) {
+    return c.json({ error: "Failed to update saved response" }, 500)
+  }
+
+  return c.json(response)
+})
+
+app.delete("/saved-responses/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const responseId = c.req.param("id")
+  const existing = await getSavedResponseById(responseId)
+
+  if (!existing) {
+    return c.json({ error: "Saved response not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, existing.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const success = await deleteSavedResponse(responseId)
+  if (!success) {
+    return c.json({ error: "Failed to delete saved response" }, 500)
+  }
+
+  return c.json({ success: true })
+})
+
+app.get("/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const message = await getInboxMessageById(c.req.param("id"))
+
+  if (!message) {
+    return c.json({ error: "Message not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, message.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  return c.json(message)
+})
+
+app.put("/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const messageId = c.req.param("id")
+  const existing = await getInboxMessageById(messageId)
+
+  if (!existing) {
+    return c.json({ error: "Message not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, existing.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const body = await c.req.json()
+  const { draft, liked, sentiment, replied } = body
+
+  if (sentiment !== undefined && !isSentiment(sentiment)) {
+    return c.json({ error: `sentiment must be one of ${SENTIMENTS.join(", ")}` }, 400)
+  }
+
+  const message = await updateInboxMessage(messageId, {
+    draft: draft !== undefined ? draft || null : undefined,
+    liked: typeof liked === "boolean" ? liked : undefined,
+    replied: typeof replied === "boolean" ? replied : undefined,
+    // A sentiment set by a person is kept over any automatic classification.
+    sentiment,
+    sentimentOverridden: sentiment !== undefined ? true : undefined,
+  })
+
+  if (!message) {
+    return c.json({ error: "Failed to update message" }, 500)
+  }
+
+  return c.json(message)
+})
+
+app.post("/:id/reply", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const messageId = c.req.param("id")
+  const existing = await getInboxMessageById(messageId)
+
+  if (!existing) {
+    return c.json({ error: "Message not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, existing.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const { content } = await c.req.json()
+
+  if (!content?.trim()) {
+    return c.json({ error: "Reply content required" }, 400)
+  }
+
+  const member = existing.memberId ? await getCommunityMemberById(existing.memberId) : null
+  if (member?.isBlocked) {
+    return c.json({ error: "This member is blocked. Unblock them to reply." }, 409)
+  }
+
+  const message = await recordInboxReply(messageId, content.trim())
+
+  if (!message) {
+    return c.json({ error: "Failed to save reply" }, 500)
+  }
+
+  return c.json(message)
+})
+
+app.delete("/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const messageId = c.req.param("id")
+  const existing = await getInboxMessageById(messageId)
+
+  if (!existing) {
+    return c.json({ error: "Message not found" }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, existing.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const success = await deleteInboxMessage(messageId)
+  if (!success) {
+    return c.json({ error: "Failed to delete message" }, 500)
+  }
+
+  return c.json({ success: true })
+})
+
+export default app
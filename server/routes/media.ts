@@ -1,7 +1,8 @@
 import { Hono } from 'hono'
 import type { User } from '@supabase/supabase-js'
 import { requireAuth, isUser, canAccessCalendar } from '../lib/auth'
-import { getMediaByCalendar, deleteMedia } from '../lib/db/media'
+import { getMediaByCalendar, getMediaById, deleteMedia, updateMediaCampaign } from '../lib/db/media'
+import { isCampaignInCalendar } from '../lib/db/campaigns'
 import type { MediaItem } from '../../shared/types'
 
 type Variables = {
@@ -40,6 +41,7 @@ app.get('/', async (c) => {
       filename: item.filename,
       size: item.size,
       type: item.type,
+      campaignId: item.campaignId,
       createdAt: item.createdAt,
     }))
 
@@ -50,6 +52,58 @@ app.get('/', async (c) => {
   }
 })
 
+app.put('/', async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const mediaId = c.req.query('id')
+
+  if (!mediaId) {
+    return c.json({ error: 'id is required' }, 400)
+  }
+
+  const { campaignId } = (await c.req.json()) as { campaignId?: string | null }
+
+  if (campaignId === undefined) {
+    return c.json({ error: 'campaignId is required (null removes the campaign)' }, 400)
+  }
+
+  const item = await getMediaById(mediaId)
+  if (!item) {
+    return c.json({ error: 'Media not found' }, 404)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, item.calendarId)
+  if (!hasAccess) {
+    return c.json({ error: 'Forbidden' }, 403)
+  }
+
+  if (!(await isCampaignInCalendar(campaignId, item.calendarId))) {
+    return c.json({ error: 'Campaign not found' }, 400)
+  }
+
+  const updated = await updateMediaCampaign(mediaId, campaignId)
+  if (!updated) {
+    return c.json({ error: 'Failed to update media' }, 500)
+  }
+
+  const response: MediaItem = {
+    id: updated.id,
+    calendarId: updated.calendarId,
+    url: updated.url,
+    filename: updated.filename,
+    size: updated.size,
+    type: updated.type,
+    campaignId: updated.campaignId,
+    createdAt: updated.createdAt,
+  }
+
+  return c.json(response)
+})
+
 app.delete('/', async (c) => {
   const authResult = c.get('authResult')
   if (!isUser(authResult)) {
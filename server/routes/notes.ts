@@ -5,6 +5,7 @@ import { supabase } from "../lib/supabase"
 import { DocType, VectorStore } from "server/ai-service/vector-store"
 import { Node } from 'slate'
 import { convertSlateToText } from "server/lib/content-utils"
+import { isCampaignInCalendar } from "../lib/db/campaigns"
 
 type Variables = {
   authResult: User
@@ -20,6 +21,7 @@ function mapNoteToResponse(note: any) {
     calendarId: note.calendar_id,
     title: note.title,
     content: note.content,
+    campaignId: note.campaign_id ?? null,
     createdAt: note.created_at,
     updatedAt: note.updated_at,
   }
@@ -66,6 +68,7 @@ app.post("/", async (c) => {
 
   const body = await c.req.json()
   const { calendarId, title, content } = body
+  const campaignId = body.campaignId ?? null
 
   if (!calendarId) {
     return c.json({ error: "Calendar ID required" }, 400)
@@ -80,12 +83,17 @@ app.post("/", async (c) => {
     return c.json({ error: "Forbidden" }, 403)
   }
 
+  if (!(await isCampaignInCalendar(campaignId, calendarId))) {
+    return c.json({ error: "Campaign not found" }, 400)
+  }
+
   const { data: note, error } = await supabase
     .from("notes")
     .insert({
       calendar_id: calendarId,
       title: title,
       content: content || null,
+      campaign_id: campaignId,
     })
     .select()
     .single()
@@ -100,6 +108,7 @@ app.post("/", async (c) => {
     vectorStore.upsertDocument(DocType.Note, {
       id: note.id,
       calendarId,
+      campaignId: note.campaign_id,
       content: convertSlateToText(note.content as Node[])
     })
   } catch (e) {
@@ -118,7 +127,7 @@ app.put("/:id", async (c) => {
 
   const noteId = c.req.param("id")
   const body = await c.req.json()
-  const { title, content } = body
+  const { title, content, campaignId } = body
 
   // First, get the note to check calendar access
   const { data: existingNote, error: fetchError } = await supabase
@@ -136,11 +145,17 @@ app.put("/:id", async (c) => {
     return c.json({ error: "Forbidden" }, 403)
   }
 
+  // Leaving campaignId out keeps the note's campaign; null removes it.
+  if (campaignId !== undefined && !(await isCampaignInCalendar(campaignId, existingNote.calendar_id))) {
+    return c.json({ error: "Campaign not found" }, 400)
+  }
+
   const { data: note, error } = await supabase
     .from("notes")
     .update({
       title: title,
       content: content,
+      ...(campaignId !== undefined && { campaign_id: campaignId }),
       updated_at: new Date().toISOString(),
     })
     .eq("id", noteId)
@@ -152,6 +167,7 @@ app.put("/:id", async (c) => {
     vectorStore.upsertDocument(DocType.Note, {
       id: note.id,
       calendarId: note.calendar_id,
+      campaignId: note.campaign_id,
       content: convertSlateToText(note.content as Node[])
     })
   } catch (e) {
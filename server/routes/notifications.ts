@@ -0,0 +1,46 @@
+import { Hono } from "hono"
+import type { User } from "@supabase/supabase-js"
+import { requireAuth, isUser } from "../lib/auth"
+import { getNotifications, markNotificationsRead } from "../lib/db/notifications"
+
+type Variables = {
+  authResult: User
+}
+
+const app = new Hono<{ Variables: Variables }>()
+
+app.use('*', requireAuth)
+
+app.get("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  return c.json(await getNotifications(user.id))
+})
+
+// Marks the given notifications as read, or all of them when no IDs are sent.
+app.post("/read", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const { ids } = await c.req.json().catch(() => ({}))
+
+  if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== "string"))) {
+    return c.json({ error: "ids must be a list of notification IDs" }, 400)
+  }
+
+  const success = await markNotificationsRead(user.id, ids)
+  if (!success) {
+    return c.json({ error: "Failed to update notifications" }, 500)
+  }
+
+  return c.json({ success: true })
+})
+
+export default app
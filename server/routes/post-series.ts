@@ -0,0 +1,217 @@
+import { Hono } from "hono"
+import type { User } from "@supabase/supabase-js"
+import { isValid, parseISO } from "date-fns"
+import { requireAuth, isUser, canAccessCalendar, canManageCalendar } from "../lib/auth"
+import { isPlatform, PLATFORMS } from "../../shared/platforms"
+import { isTimeZone } from "../../shared/series"
+import type { PostSeriesInput } from "../../shared/types"
+import {
+  createPostSeries,
+  deletePostSeries,
+  getPostSeriesById,
+  getPostSeriesList,
+  removeUpcomingOccurrences,
+  updatePostSeries,
+} from "../lib/db/post-series"
+import { seriesExpander } from "../series/expander"
+
+type Variables = {
+  authResult: User
+}
+
+const app = new Hono<{ Variables: Variables }>()
+
+app.use('*', requireAuth)
+
+function isDateString(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value))
+}
+
+function parseSeriesInput(body: any): { input: PostSeriesInput } | { error: string } {
+  const name = typeof body.name === "string" ? body.name.trim() : ""
+  const interval = body.interval ?? 1
+  const weekdays: unknown[] = Array.isArray(body.weekdays) ? body.weekdays : []
+  const monthDay = body.monthDay ?? null
+  const endsOn = body.endsOn || null
+  const platforms: unknown[] = Array.isArray(body.platforms) ? body.platforms : []
+  const images: unknown[] = Array.isArray(body.images) ? body.images : []
+
+  if (!name) {
+    return { error: "Series name required" }
+  }
+  if (body.frequency !== "weekly" && body.frequency !== "monthly") {
+    return { error: "frequency must be weekly or monthly" }
+  }
+  if (!Number.isInteger(interval) || interval < 1 || interval > 12) {
+    return { error: "interval must be a whole number from 1 to 12" }
+  }
+  if (body.frequency === "weekly" && (weekdays.length === 0 || !weekdays.every((d) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6))) {
+    return { error: "Weekly series need at least one weekday (0-6)" }
+  }
+  if (body.frequency === "monthly" && (!Number.isInteger(monthDay) || monthDay < 1 || monthDay > 31)) {
+    return { error: "Monthly series need a monthDay from 1 to 31" }
+  }
+  if (typeof body.time !== "string" || !/^([01]\d|2[0-3]):[0-5]\d$/.test(body.time)) {
+    return { error: "time must be HH:mm" }
+  }
+  if (typeof body.timezone !== "string" || !isTimeZone(body.timezone)) {
+    return { error: "timezone must be an IANA time zone, e.g. Europe/Paris" }
+  }
+  if (!isDateString(body.startsOn) || (endsOn !== null && !isDateString(endsOn))) {
+    return { error: "startsOn and endsOn must be dates (yyyy-MM-dd)" }
+  }
+  if (endsOn !== null && endsOn < body.startsOn) {
+    return { error: "endsOn must be on or after startsOn" }
+  }
+  if (platforms.length === 0 || !platforms.every(isPlatform)) {
+    return { error: `platforms must be one or more of ${PLATFORMS.join(", ")}` }
+  }
+  if (!images.every((image) => typeof image === "string")) {
+    return { error: "images must be URLs" }
+  }
+
+  return {
+    input: {
+      name,
+      frequency: body.frequency,
+      interval,
+      weekdays: body.frequency === "weekly" ? [...new Set(weekdays as number[])].sort((a, b) => a - b) : [],
+      monthDay: body.frequency === "monthly" ? monthDay : null,
+      time: body.time,
+      timezone: body.timezone,
+      startsOn: body.startsOn,
+      endsOn,
+      captionTemplate: typeof body.captionTemplate === "string" ? body.captionTemplate : "",
+      platforms: [...new Set(platforms)] as PostSeriesInput["platforms"],
+      images: images as string[],
+    },
+  }
+}
+
+app.get("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query("calendarId")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  return c.json(await getPostSeriesList(calendarId))
+})
+
+// Creates the series and its first window of draft posts.
+app.post("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const body = await c.req.json()
+
+  if (!body.calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const parsed = parseSeriesInput(body)
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+
+  const canManage = await canManageCalendar(user.id, body.calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can manage series" }, 403)
+  }
+
+  const series = await createPostSeries(
+    body.calendarId,
+    { id: user.id, name: user.user_metadata?.name || user.email || "User" },
+    parsed.input,
+  )
+
+  if (!series) {
+    return c.json({ error: "Failed to create series" }, 500)
+  }
+
+  const created = await seriesExpander.expand(series)
+  return c.json({ series, created })
+})
+
+// Untouched upcoming occurrences are replaced; detached, submitted and past ones stay.
+app.put("/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const seriesId = c.req.param("id")
+  const existing = await getPostSeriesById(seriesId)
+
+  if (!existing) {
+    return c.json({ error: "Series not found" }, 404)
+  }
+
+  const canManage = await canManageCalendar(user.id, existing.calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can manage series" }, 403)
+  }
+
+  const parsed = parseSeriesInput(await c.req.json())
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+
+  // Saved first, so a failed update leaves the upcoming drafts in place.
+  const series = await updatePostSeries(seriesId, parsed.input)
+
+  if (!series) {
+    return c.json({ error: "Failed to update series" }, 500)
+  }
+
+  await removeUpcomingOccurrences(seriesId, new Date())
+  const created = await seriesExpander.expand(series)
+  return c.json({ series, created })
+})
+
+// Occurrences that were edited or moved through approval stay on the calendar without the series.
+app.delete("/:id", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const seriesId = c.req.param("id")
+  const existing = await getPostSeriesById(seriesId)
+
+  if (!existing) {
+    return c.json({ error: "Series not found" }, 404)
+  }
+
+  const canManage = await canManageCalendar(user.id, existing.calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can manage series" }, 403)
+  }
+
+  await removeUpcomingOccurrences(seriesId, new Date())
+  const success = await deletePostSeries(seriesId)
+
+  if (!success) {
+    return c.json({ error: "Failed to delete series" }, 500)
+  }
+
+  return c.json({ success: true })
+})
+
+export default app
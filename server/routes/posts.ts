@@ -1,7 +1,34 @@
 import { Hono } from "hono"
 import type { User } from "@supabase/supabase-js"
-import { requireAuth, isUser, canAccessCalendar } from "../lib/auth"
+import { requireAuth, isUser, canAccessCalendar, canManageCalendar, canApprovePosts } from "../lib/auth"
 import { supabase } from "../lib/supabase"
+import { isPlatform, PLATFORMS } from "../../shared/platforms"
+import type { BulkPostAction, BulkPostResult, Platform, PostStatus, PostVariant } from "../../shared/types"
+import { getPublishAttempts, mapPostVariantPublishing, resetPostVariantPublishing } from "../lib/db/publishing"
+import { getPostStatusHistory } from "../lib/db/post-status-history"
+import {
+  POST_STATUS_TRANSITIONS,
+  REAPPROVAL_STATUSES,
+  REMOVABLE_STATUSES,
+  transitionPostVariant,
+  transitionPostVariants,
+} from "../lib/post-workflow"
+import { deletePosts, duplicatePosts, recordBrandScores, reschedulePosts } from "../lib/post-bulk"
+import {
+  createPostComment,
+  deletePostComment,
+  getMentionableMembers,
+  getPostComments,
+  mapComment,
+} from "../lib/db/comments"
+import { createNotifications } from "../lib/db/notifications"
+import { findMentionedMembers } from "../../shared/mentions"
+import { publishScheduler } from "../publishing/scheduler"
+import { isCampaignInCalendar } from "../lib/db/campaigns"
+import { MAX_BULK_REGRADE_VARIANTS, validateBulkPostRequest } from "../../shared/bulk-posts"
+import { LocalDataRepository } from "../ai-service/repository"
+import { chatModel } from "../ai-service/models"
+import { getBrandVoiceScore } from "../ai-service/services/grading-service"
 
 type Variables = {
   authResult: User
@@ -11,22 +38,242 @@ const app = new Hono<{ Variables: Variables }>()
 
 app.use('*', requireAuth)
 
+const POST_SELECT = "*, post_variants(*), post_comments(*), post_series(name)"
+
+type VariantInput = Pick<PostVariant, "platform" | "caption" | "images" | "status">
+
+function mapVariantToResponse(variant: any) {
+  return {
+    id: variant.id,
+    postId: variant.post_id,
+    platform: variant.platform,
+    caption: variant.caption,
+    images: variant.images || [],
+    status: variant.status,
+    publishing: mapPostVariantPublishing(variant),
+  }
+}
+
 function mapPostToResponse(post: any) {
   return {
     id: post.id,
     calendarId: post.calendar_id,
     date: post.date,
-    caption: post.caption,
-    images: post.images || [],
-    platform: post.platform,
-    status: post.status,
+    variants: (post.post_variants || [])
+      .sort((a: any, b: any) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .map(mapVariantToResponse),
     authorId: post.author_id,
     authorName: post.author_name,
+    comments: (post.post_comments || [])
+      .sort((a: any, b: any) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .map(mapComment),
+    series: post.series_id
+      ? { id: post.series_id, name: post.post_series?.name ?? "", detached: post.series_detached ?? false }
+      : null,
+    campaignId: post.campaign_id ?? null,
     createdAt: post.created_at,
     updatedAt: post.updated_at,
   }
 }
 
+function validateVariants(variants: unknown): string | null {
+  if (!Array.isArray(variants) || variants.length === 0) {
+    return "A post needs at least one platform variant"
+  }
+  const platforms = new Set<string>()
+  for (const variant of variants) {
+    if (!isPlatform(variant?.platform)) {
+      return `Variant platform must be one of ${PLATFORMS.join(", ")}`
+    }
+    if (platforms.has(variant.platform)) {
+      return `A post can only have one ${variant.platform} variant`
+    }
+    platforms.add(variant.platform)
+  }
+  return null
+}
+
+/**
+ * Saves never change a variant's status: existing platforms keep the status
+ * they have and new ones start as drafts. Status changes go through
+ * `POST /status` so they are checked and recorded.
+ */
+function keepStoredStatus(variants: VariantInput[], existing: any[] = []): VariantInput[] {
+  return variants.map((variant) => ({
+    ...variant,
+    status: existing.find((e) => e.platform === variant.platform)?.status ?? "draft",
+  }))
+}
+
+/**
+ * The stored variants a save changes: every one when the date moves,
+ * otherwise those whose caption or images differ or that are removed.
+ */
+function getEditedVariants(existing: any, date: unknown, variants: VariantInput[] | undefined): any[] {
+  const stored: any[] = existing.post_variants || []
+  if (date !== undefined && new Date(date as string).getTime() !== new Date(existing.date).getTime()) {
+    return stored
+  }
+  if (variants === undefined) {
+    return []
+  }
+
+  return stored.filter((s) => {
+    const match = variants.find((variant) => variant.platform === s.platform)
+    return (
+      !match ||
+      (match.caption ?? "") !== s.caption ||
+      JSON.stringify(match.images ?? []) !== JSON.stringify(s.images ?? [])
+    )
+  })
+}
+
+/** Whether a save changes what the post says or when it goes out. */
+function changesPostContent(existing: any, date: unknown, variants: VariantInput[] | undefined): boolean {
+  if (date !== undefined && new Date(date as string).getTime() !== new Date(existing.date).getTime()) {
+    return true
+  }
+  if (variants === undefined) {
+    return false
+  }
+
+  const stored: any[] = existing.post_variants || []
+  return (
+    variants.length !== stored.length ||
+    variants.some((variant) => {
+      const match = stored.find((s) => s.platform === variant.platform)
+      return (
+        !match ||
+        (variant.caption ?? "") !== match.caption ||
+        JSON.stringify(variant.images ?? []) !== JSON.stringify(match.images ?? [])
+      )
+    })
+  )
+}
+
+async function isPostInCalendar(postId: string, calendarId: string) {
+  const { data } = await supabase
+    .from("posts")
+    .select("id")
+    .eq("id", postId)
+    .eq("calendar_id", calendarId)
+    .maybeSingle()
+
+  return !!data
+}
+
+async function getVariantInCalendar(variantId: string, calendarId: string) {
+  const { data, error } = await supabase
+    .from("post_variants")
+    .select("*, posts!inner(calendar_id)")
+    .eq("id", variantId)
+    .eq("posts.calendar_id", calendarId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error loading post variant:", error)
+  }
+
+  return data
+}
+
+/**
+ * Makes the post's variants match `variants`: platforms are upserted and any
+ * draft or rejected platform that is no longer targeted is removed. Variants
+ * further along keep their row and status history; callers refuse to drop them.
+ */
+async function syncPostVariants(postId: string, variants: VariantInput[]) {
+  const { error } = await supabase.from("post_variants").upsert(
+    variants.map((variant) => ({
+      post_id: postId,
+      platform: variant.platform,
+      caption: variant.caption ?? "",
+      images: variant.images ?? [],
+      status: variant.status ?? "draft",
+    })),
+    { onConflict: "post_id,platform" },
+  )
+
+  if (error) return error
+
+  const { error: deleteError } = await supabase
+    .from("post_variants")
+    .delete()
+    .eq("post_id", postId)
+    .in("status", REMOVABLE_STATUSES)
+    .not("platform", "in", `(${variants.map((variant) => variant.platform).join(",")})`)
+
+  return deleteError
+}
+
+async function loadPostsForResponse(postIds: string[]) {
+  if (postIds.length === 0) return { posts: [] }
+
+  const { data, error } = await supabase
+    .from("posts")
+    .select(POST_SELECT)
+    .in("id", postIds)
+    .order("date", { ascending: true })
+
+  if (error) {
+    console.error("Error loading posts:", error)
+    return { error }
+  }
+
+  return { posts: (data || []).map(mapPostToResponse) }
+}
+
+const REGRADE_BATCH_SIZE = 5
+
+/**
+ * Grades every captioned variant of the posts against the calendar's brand
+ * rules, a few at a time so a large selection doesn't flood the model.
+ */
+async function regradePostVariants(userId: string, calendarId: string, posts: any[]) {
+  const scores: BulkPostResult["scores"] = []
+  const skipped: BulkPostResult["skipped"] = []
+
+  const variants = posts.flatMap((post) =>
+    post.variants.filter((variant: any) => {
+      if (variant.caption?.trim()) return true
+      skipped.push({ postId: post.id, platform: variant.platform, reason: "No caption to grade" })
+      return false
+    }),
+  )
+  if (variants.length > MAX_BULK_REGRADE_VARIANTS) {
+    return {
+      status: 400 as const,
+      error: `Re-grading covers at most ${MAX_BULK_REGRADE_VARIANTS} captions at a time; select fewer posts`,
+    }
+  }
+
+  const brandRules = await new LocalDataRepository(userId, calendarId).getBrandRules()
+  const graded: { variantId: string; score: number }[] = []
+
+  for (let i = 0; i < variants.length; i += REGRADE_BATCH_SIZE) {
+    const batch = variants.slice(i, i + REGRADE_BATCH_SIZE)
+    const results = await Promise.allSettled(
+      batch.map((variant: any) => getBrandVoiceScore(variant.caption, brandRules, chatModel, undefined, variant.platform)),
+    )
+
+    results.forEach((result, index) => {
+      const variant = batch[index]
+      if (result.status === "rejected") {
+        skipped.push({ postId: variant.postId, platform: variant.platform, reason: "Grading failed" })
+        return
+      }
+      graded.push({ variantId: variant.id, score: result.value.overall })
+      scores.push({ postId: variant.postId, platform: variant.platform as Platform, score: Math.round(result.value.overall) })
+    })
+  }
+
+  if (!(await recordBrandScores(graded))) {
+    return { status: 500 as const, error: "Failed to save brand scores" }
+  }
+
+  return { scores, skipped }
+}
+
 app.get("/", async (c) => {
   const authResult = c.get('authResult')
   if (!isUser(authResult)) {
@@ -47,7 +294,7 @@ app.get("/", async (c) => {
 
   const { data: posts, error } = await supabase
     .from("posts")
-    .select("*")
+    .select(POST_SELECT)
     .eq("calendar_id", calendarId)
     .order("date", { ascending: true })
 
@@ -73,22 +320,29 @@ app.post("/", async (c) => {
     return c.json({ error: "Calendar ID required" }, 400)
   }
 
+  const variantsError = validateVariants(postData.variants)
+  if (variantsError) {
+    return c.json({ error: variantsError }, 400)
+  }
+
   const hasAccess = await canAccessCalendar(user.id, calendarId)
   if (!hasAccess) {
     return c.json({ error: "Forbidden" }, 403)
   }
 
+  const campaignId = postData.campaignId ?? null
+  if (!(await isCampaignInCalendar(campaignId, calendarId))) {
+    return c.json({ error: "Campaign not found" }, 400)
+  }
+
   const { data: post, error } = await supabase
     .from("posts")
     .insert({
       calendar_id: calendarId,
       date: postData.date,
-      caption: postData.caption,
-      images: postData.images,
-      platform: postData.platform,
-      status: postData.status,
       author_id: postData.authorId,
       author_name: postData.authorName,
+      campaign_id: campaignId,
     })
     .select()
     .single()
@@ -98,7 +352,25 @@ app.post("/", async (c) => {
     return c.json({ error: error.message }, 500)
   }
 
-  return c.json(mapPostToResponse(post))
+  const syncError = await syncPostVariants(post.id, keepStoredStatus(postData.variants))
+  if (syncError) {
+    console.error("Error creating post variants:", syncError)
+    await supabase.from("posts").delete().eq("id", post.id)
+    return c.json({ error: syncError.message }, 500)
+  }
+
+  const { data: created, error: reloadError } = await supabase
+    .from("posts")
+    .select(POST_SELECT)
+    .eq("id", post.id)
+    .single()
+
+  if (reloadError) {
+    console.error("Error loading created post:", reloadError)
+    return c.json({ error: reloadError.message }, 500)
+  }
+
+  return c.json(mapPostToResponse(created))
 })
 
 app.put("/", async (c) => {
@@ -115,47 +387,274 @@ app.put("/", async (c) => {
     return c.json({ error: "Post ID and Calendar ID required" }, 400)
   }
 
+  if (postData.variants !== undefined) {
+    const variantsError = validateVariants(postData.variants)
+    if (variantsError) {
+      return c.json({ error: variantsError }, 400)
+    }
+  }
+
   const hasAccess = await canAccessCalendar(user.id, calendarId)
   if (!hasAccess) {
     return c.json({ error: "Forbidden" }, 403)
   }
 
+  if (postData.campaignId !== undefined && !(await isCampaignInCalendar(postData.campaignId, calendarId))) {
+    return c.json({ error: "Campaign not found" }, 400)
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("posts")
+    .select(POST_SELECT)
+    .eq("id", id)
+    .eq("calendar_id", calendarId)
+    .maybeSingle()
+
+  if (existingError) {
+    console.error("Error loading post:", existingError)
+    return c.json({ error: existingError.message }, 500)
+  }
+  if (!existing) {
+    return c.json({ error: "Post not found" }, 404)
+  }
+
+  const removed = (existing.post_variants || []).filter(
+    (stored: any) =>
+      postData.variants !== undefined && !postData.variants.some((variant: VariantInput) => variant.platform === stored.platform),
+  )
+  if (removed.some((variant: any) => !REMOVABLE_STATUSES.includes(variant.status))) {
+    return c.json({ error: "Only draft or rejected platform variants can be removed" }, 409)
+  }
+
+  const edited = getEditedVariants(existing, postData.date, postData.variants)
+  if (edited.some((variant) => variant.status === "published")) {
+    return c.json({ error: "Published posts can't be edited or rescheduled" }, 409)
+  }
+
+  // Content an approver has seen or is reviewing goes back to draft before it
+  // changes, so the scheduler never publishes an unreviewed edit.
+  for (const variant of edited) {
+    if (!REAPPROVAL_STATUSES.includes(variant.status)) continue
+
+    const result = await transitionPostVariant({
+      calendarId,
+      postId: id,
+      platform: variant.platform,
+      to: "draft",
+      reason: "Edited after it was submitted for approval",
+      actor: { type: "user", id: user.id, name: user.user_metadata?.name || user.email || "User" },
+    })
+    if (!result.ok) {
+      return c.json({ error: result.error }, result.status)
+    }
+    variant.status = result.variant.status
+  }
+
+  const variants =
+    postData.variants !== undefined ? keepStoredStatus(postData.variants, existing.post_variants) : undefined
+
   const updateData: any = {}
   if (postData.date !== undefined) updateData.date = postData.date
-  if (postData.caption !== undefined) updateData.caption = postData.caption
-  if (postData.images !== undefined) updateData.images = postData.images
-  if (postData.platform !== undefined) updateData.platform = postData.platform
-  if (postData.status !== undefined) updateData.status = postData.status
   if (postData.authorId !== undefined) updateData.author_id = postData.authorId
   if (postData.authorName !== undefined) updateData.author_name = postData.authorName
+  if (postData.campaignId !== undefined) updateData.campaign_id = postData.campaignId
+  // Editing an occurrence detaches it, so later changes to its series leave it alone.
+  if (existing.series_id && !existing.series_detached && changesPostContent(existing, postData.date, variants)) {
+    updateData.series_detached = true
+  }
+
+  if (Object.keys(updateData).length > 0) {
+    const { error } = await supabase
+      .from("posts")
+      .update(updateData)
+      .eq("id", id)
+      .eq("calendar_id", calendarId)
+
+    if (error) {
+      console.error("Error updating post:", error)
+      return c.json({ error: error.message }, 500)
+    }
+  }
+
+  if (variants !== undefined) {
+    const syncError = await syncPostVariants(id, variants)
+    if (syncError) {
+      console.error("Error updating post variants:", syncError)
+      return c.json({ error: syncError.message }, 500)
+    }
+  }
 
   const { data: post, error } = await supabase
     .from("posts")
-    .update(updateData)
+    .select(POST_SELECT)
     .eq("id", id)
-    .eq("calendar_id", calendarId)
-    .select()
     .single()
 
   if (error) {
-    console.error("Error updating post:", error)
+    console.error("Error loading updated post:", error)
     return c.json({ error: error.message }, 500)
   }
 
   return c.json(mapPostToResponse(post))
 })
 
-app.delete("/", async (c) => {
+app.post("/status", async (c) => {
   const authResult = c.get('authResult')
   if (!isUser(authResult)) {
     return c.json({ error: 'Unauthorized' }, 401)
   }
   const user = authResult
 
-  const id = c.req.query("id")
+  const { calendarId, postId, platform, status, reason } = await c.req.json()
+
+  if (!calendarId || !postId) {
+    return c.json({ error: "Calendar ID and post ID required" }, 400)
+  }
+  if (!isPlatform(platform)) {
+    return c.json({ error: `Platform must be one of ${PLATFORMS.join(", ")}` }, 400)
+  }
+  if (!(status in POST_STATUS_TRANSITIONS)) {
+    return c.json({ error: `Status must be one of ${Object.keys(POST_STATUS_TRANSITIONS).join(", ")}` }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  const result = await transitionPostVariant({
+    calendarId,
+    postId,
+    platform,
+    to: status as PostStatus,
+    reason: typeof reason === "string" ? reason : null,
+    actor: { type: "user", id: user.id, name: user.user_metadata?.name || user.email || "User" },
+  })
+
+  if (!result.ok) {
+    return c.json({ error: result.error, violations: result.violations }, result.status)
+  }
+
+  return c.json(result.variant)
+})
+
+// Applies one action to a selection of posts. Writes happen in a single
+// transaction, so a failure leaves every selected post unchanged.
+app.post("/bulk", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const { calendarId, postIds, action } = (await c.req.json()) as {
+    calendarId: string
+    postIds: string[]
+    action: BulkPostAction
+  }
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+  const validationError = validateBulkPostRequest(postIds, action)
+  if (validationError) {
+    return c.json({ error: validationError }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  if (action.type === "delete" && !(await canManageCalendar(user.id, calendarId))) {
+    return c.json({ error: "Only calendar owners and admins can delete posts" }, 403)
+  }
+
+  const ids = [...new Set(postIds)]
+  const author = { id: user.id, name: user.user_metadata?.name || user.email || "User" }
+  const result: BulkPostResult = { posts: [], deletedPostIds: [], skipped: [], scores: [] }
+  let changedPostIds: string[] = []
+
+  switch (action.type) {
+    case "reschedule":
+    case "duplicate":
+    case "delete": {
+      const write =
+        action.type === "reschedule"
+          ? await reschedulePosts(calendarId, ids, action.days, { type: "user", ...author })
+          : action.type === "duplicate"
+            ? await duplicatePosts(calendarId, ids, action.days, author)
+            : await deletePosts(calendarId, ids)
+
+      if (!write.ok) {
+        return c.json({ error: write.error }, write.status)
+      }
+      if (action.type === "delete") {
+        result.deletedPostIds = write.postIds
+      } else {
+        changedPostIds = write.postIds
+      }
+      break
+    }
+    case "status": {
+      const transition = await transitionPostVariants({
+        calendarId,
+        postIds: ids,
+        to: action.status,
+        reason: typeof action.reason === "string" ? action.reason : null,
+        actor: { type: "user", ...author },
+      })
+
+      if (!transition.ok) {
+        return c.json({ error: transition.error }, transition.status)
+      }
+      changedPostIds = [...new Set(transition.changed.map((change) => change.postId))]
+      result.skipped = transition.skipped
+      break
+    }
+    case "regrade": {
+      const loaded = await loadPostsForResponse(ids)
+      if (loaded.error) {
+        return c.json({ error: loaded.error.message }, 500)
+      }
+      if (loaded.posts.length !== ids.length || loaded.posts.some((post) => post.calendarId !== calendarId)) {
+        return c.json({ error: "Some posts were not found in this calendar" }, 404)
+      }
+
+      try {
+        const regrade = await regradePostVariants(user.id, calendarId, loaded.posts)
+        if (regrade.error !== undefined) {
+          return c.json({ error: regrade.error }, regrade.status)
+        }
+        result.scores = regrade.scores
+        result.skipped = regrade.skipped
+      } catch (error: any) {
+        console.error("Error re-grading posts:", error)
+        return c.json({ error: "Failed to re-grade posts", details: error.message }, 500)
+      }
+      break
+    }
+  }
+
+  const reloaded = await loadPostsForResponse(changedPostIds)
+  if (reloaded.error) {
+    return c.json({ error: reloaded.error.message }, 500)
+  }
+
+  return c.json({ ...result, posts: reloaded.posts })
+})
+
+app.get("/workflow", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const postId = c.req.query("postId")
   const calendarId = c.req.query("calendarId")
 
-  if (!id || !calendarId) {
+  if (!postId || !calendarId) {
     return c.json({ error: "Post ID and Calendar ID required" }, 400)
   }
 
@@ -164,11 +663,244 @@ app.delete("/", async (c) => {
     return c.json({ error: "Forbidden" }, 403)
   }
 
-  const { error } = await supabase.from("posts").delete().eq("id", id).eq("calendar_id", calendarId)
+  if (!(await isPostInCalendar(postId, calendarId))) {
+    return c.json({ error: "Post not found" }, 404)
+  }
 
-  if (error) {
-    console.error("Error deleting post:", error)
-    return c.json({ error: error.message }, 500)
+  const [canApprove, history] = await Promise.all([
+    canApprovePosts(user.id, calendarId),
+    getPostStatusHistory(postId),
+  ])
+
+  return c.json({ canApprove, history })
+})
+
+app.get("/mentions", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const calendarId = c.req.query("calendarId")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  return c.json(await getMentionableMembers(calendarId))
+})
+
+app.get("/:id/comments", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const postId = c.req.param("id")
+  const calendarId = c.req.query("calendarId")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  if (!(await isPostInCalendar(postId, calendarId))) {
+    return c.json({ error: "Post not found" }, 404)
+  }
+
+  return c.json(await getPostComments(postId))
+})
+
+app.post("/:id/comments", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const postId = c.req.param("id")
+  const { calendarId, content } = await c.req.json()
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+  if (typeof content !== "string" || !content.trim()) {
+    return c.json({ error: "Comment content required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  if (!(await isPostInCalendar(postId, calendarId))) {
+    return c.json({ error: "Post not found" }, 404)
+  }
+
+  const members = await getMentionableMembers(calendarId)
+  const mentioned = findMentionedMembers(content, members).filter((member) => member.id !== user.id)
+  const userName = members.find((member) => member.id === user.id)?.name || user.user_metadata?.name || user.email || "User"
+
+  const comment = await createPostComment({
+    postId,
+    userId: user.id,
+    userName,
+    content: content.trim(),
+    mentionedUserIds: mentioned.map((member) => member.id),
+  })
+
+  if (!comment) {
+    return c.json({ error: "Failed to create comment" }, 500)
+  }
+
+  await createNotifications(
+    mentioned.map((member) => ({
+      userId: member.id,
+      type: "mention" as const,
+      calendarId,
+      postId,
+      commentId: comment.id,
+      actorId: user.id,
+      actorName: userName,
+      content: comment.content,
+    })),
+  )
+
+  return c.json(comment)
+})
+
+app.delete("/:id/comments/:commentId", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const postId = c.req.param("id")
+  const commentId = c.req.param("commentId")
+  const calendarId = c.req.query("calendarId")
+
+  if (!calendarId) {
+    return c.json({ error: "Calendar ID required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  if (!(await isPostInCalendar(postId, calendarId))) {
+    return c.json({ error: "Post not found" }, 404)
+  }
+
+  const deleted = await deletePostComment(commentId, postId, user.id)
+  if (!deleted) {
+    return c.json({ error: "Comment not found" }, 404)
+  }
+
+  return c.json({ success: true })
+})
+
+app.get("/publish-attempts", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const postId = c.req.query("postId")
+  const calendarId = c.req.query("calendarId")
+
+  if (!postId || !calendarId) {
+    return c.json({ error: "Post ID and Calendar ID required" }, 400)
+  }
+
+  const hasAccess = await canAccessCalendar(user.id, calendarId)
+  if (!hasAccess) {
+    return c.json({ error: "Forbidden" }, 403)
+  }
+
+  if (!(await isPostInCalendar(postId, calendarId))) {
+    return c.json({ error: "Post not found" }, 404)
+  }
+
+  return c.json(await getPublishAttempts(postId))
+})
+
+// Publishes an approved variant now instead of waiting for its date, and
+// doubles as the manual retry once the scheduler has given up on it.
+app.post("/publish", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const { calendarId, variantId } = await c.req.json()
+
+  if (!calendarId || !variantId) {
+    return c.json({ error: "Calendar ID and variant ID required" }, 400)
+  }
+
+  const canPublish = await canApprovePosts(user.id, calendarId)
+  if (!canPublish) {
+    return c.json({ error: "Only calendar owners and admins can publish posts" }, 403)
+  }
+
+  const variant = await getVariantInCalendar(variantId, calendarId)
+  if (!variant) {
+    return c.json({ error: "Post variant not found" }, 404)
+  }
+  if (variant.status !== "approved") {
+    return c.json({ error: "Only approved posts can be published" }, 400)
+  }
+
+  if (variant.publish_failed_at) {
+    await resetPostVariantPublishing(variantId)
+  }
+
+  const outcome = await publishScheduler.publishNow(variantId)
+  if (outcome.status === "skipped") {
+    return c.json({ error: "This post is already being published" }, 409)
+  }
+
+  return c.json(outcome)
+})
+
+app.delete("/", async (c) => {
+  const authResult = c.get('authResult')
+  if (!isUser(authResult)) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  const user = authResult
+
+  const id = c.req.query("id")
+  const calendarId = c.req.query("calendarId")
+
+  if (!id || !calendarId) {
+    return c.json({ error: "Post ID and Calendar ID required" }, 400)
+  }
+
+  const canManage = await canManageCalendar(user.id, calendarId)
+  if (!canManage) {
+    return c.json({ error: "Only calendar owners and admins can delete posts" }, 403)
+  }
+
+  // Same rules as a bulk delete, so published posts stay either way.
+  const write = await deletePosts(calendarId, [id])
+  if (!write.ok) {
+    return c.json({ error: write.error }, write.status)
   }
 
   return c.json({ success: true })
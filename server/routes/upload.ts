@@ -3,6 +3,7 @@ import type { User } from '@supabase/supabase-js'
 import { requireAuth, isUser, canAccessCalendar } from '../lib/auth'
 import { supabase } from '../lib/supabase'
 import { saveMedia } from '../lib/db/media'
+import { isCampaignInCalendar } from '../lib/db/campaigns'
 
 type Variables = {
   authResult: User
@@ -23,6 +24,7 @@ app.post('/', async (c) => {
     const formData = await c.req.formData()
     const file = formData.get('file') as File | null
     const calendarId = formData.get('calendarId') as string | null
+    const campaignId = (formData.get('campaignId') as string | null) || null
 
     if (!file) {
       return c.json({ error: 'No file provided' }, 400)
@@ -37,6 +39,10 @@ app.post('/', async (c) => {
       return c.json({ error: 'Forbidden' }, 403)
     }
 
+    if (!(await isCampaignInCalendar(campaignId, calendarId))) {
+      return c.json({ error: 'Campaign not found' }, 400)
+    }
+
     const arrayBuffer = await file.arrayBuffer()
     const buffer = Buffer.from(arrayBuffer)
     const filename = `${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`
@@ -70,6 +76,7 @@ app.post('/', async (c) => {
       filename,
       buffer.length,
       file.type,
+      campaignId,
     )
 
     if (!mediaItem) {
@@ -0,0 +1,139 @@
+import { addDays, format, max, parseISO, startOfDay } from 'date-fns'
+import type { BrandRule, PostSeries } from '../../shared/types'
+import {
+  applyAiFills,
+  fillSeriesTemplate,
+  getAiPlaceholders,
+  getOccurrenceDate,
+  getSeriesOccurrences,
+} from '../../shared/series'
+import { getBrandRules } from '../lib/db/brand-voice'
+import {
+  createSeriesOccurrence,
+  getSeriesDueForExpansion,
+  getSeriesOccurrenceDays,
+  setSeriesGeneratedUntil,
+} from '../lib/db/post-series'
+import { fillSeriesCaption } from '../ai-service/services/series-service'
+import { creativeModel } from '../ai-service/models'
+
+export interface SeriesExpanderOptions {
+  intervalMs: number
+  /** How many days ahead occurrences are created. */
+  windowDays: number
+}
+
+const DEFAULT_OPTIONS: SeriesExpanderOptions = {
+  intervalMs: 60 * 60_000,
+  windowDays: 28,
+}
+
+/**
+ * Keeps a rolling window of each series' occurrences on the calendar as
+ * draft posts. A day that already has an occurrence, or whose occurrence
+ * was deleted by hand, is never created again, so detached and deleted
+ * posts stay as the team left them.
+ */
+export class SeriesExpander {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private isTicking = false
+  private readonly options: SeriesExpanderOptions
+
+  constructor(options: Partial<SeriesExpanderOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  start() {
+    if (this.timer) return
+    console.log(`[Series] Expander running every ${this.options.intervalMs / 60_000}m`)
+    this.timer = setInterval(() => void this.tick(), this.options.intervalMs)
+    void this.tick()
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /** Expands every series whose window has moved on. Overlapping ticks are skipped. */
+  async tick(now = new Date()): Promise<void> {
+    if (this.isTicking) return
+    this.isTicking = true
+
+    try {
+      const windowEnd = format(this.getWindowEnd(now), 'yyyy-MM-dd')
+      const due = await getSeriesDueForExpansion(windowEnd)
+      for (const series of due) {
+        await this.expand(series, now)
+      }
+    } catch (error) {
+      console.error('[Series] Expander tick failed:', error)
+    } finally {
+      this.isTicking = false
+    }
+  }
+
+  /** Creates the series' missing occurrences up to the end of the window and returns how many. */
+  async expand(series: PostSeries, now = new Date()): Promise<number> {
+    const windowEnd = this.getWindowEnd(now)
+    const from = series.generatedUntil
+      ? max([addDays(parseISO(series.generatedUntil), 1), startOfDay(now)])
+      : startOfDay(now)
+
+    const existingDays = await getSeriesOccurrenceDays(series.id)
+    const skippedDays = new Set(series.skippedOccurrences)
+    const earlierCount = getSeriesOccurrences(series, parseISO(series.startsOn), addDays(from, -1)).length
+    const occurrences = getSeriesOccurrences(series, from, windowEnd)
+    const [hours, minutes] = series.time.split(':').map(Number)
+    let brandRules: BrandRule[] | null = null
+    let created = 0
+
+    for (const [index, day] of occurrences.entries()) {
+      const occurrence = format(day, 'yyyy-MM-dd')
+      if (existingDays.has(occurrence) || skippedDays.has(occurrence)) continue
+
+      // Captions only need the day; the post itself goes out at the
+      // series' time in its own time zone.
+      const localDate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes)
+      const date = getOccurrenceDate(day, series.time, series.timezone)
+      let caption = fillSeriesTemplate(series.captionTemplate, {
+        seriesName: series.name,
+        date: localDate,
+        number: earlierCount + index + 1,
+      })
+
+      if (getAiPlaceholders(caption).length > 0) {
+        brandRules ??= await getBrandRules(series.calendarId)
+        try {
+          caption = await fillSeriesCaption(
+            caption,
+            { seriesName: series.name, platforms: series.platforms, date: localDate },
+            brandRules,
+            creativeModel,
+          )
+        } catch (error) {
+          // Still create the draft; the unfilled placeholders show what to write.
+          console.error(`[Series] AI fill failed for series ${series.id} on ${occurrence}:`, error)
+          caption = applyAiFills(caption, [])
+        }
+      }
+
+      if (await createSeriesOccurrence(series, occurrence, date, caption)) {
+        created++
+      }
+    }
+
+    await setSeriesGeneratedUntil(series.id, format(windowEnd, 'yyyy-MM-dd'))
+    return created
+  }
+
+  private getWindowEnd(now: Date): Date {
+    return addDays(startOfDay(now), this.options.windowDays)
+  }
+}
+
+export const seriesExpander = new SeriesExpander({
+  intervalMs: Number(process.env.SERIES_EXPANDER_INTERVAL_MS) || DEFAULT_OPTIONS.intervalMs,
+})
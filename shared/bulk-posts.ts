@@ -0,0 +1,71 @@
+import type { BulkPostAction, PostStatus } from './types';
+
+export const MAX_BULK_POSTS = 100;
+export const MAX_BULK_SHIFT_DAYS = 365;
+/** Re-grading calls the model once per caption, so it takes smaller selections. */
+export const MAX_BULK_REGRADE_VARIANTS = 30;
+
+/**
+ * The bulk actions the assistant may propose. It never approves or rejects,
+ * so those statuses aren't offered.
+ */
+export const AGENT_BULK_ACTIONS = [
+  'reschedule',
+  'submit_for_approval',
+  'move_to_draft',
+  'duplicate',
+  'delete',
+  'regrade',
+] as const;
+
+export type AgentBulkAction = (typeof AGENT_BULK_ACTIONS)[number];
+
+/** Missing days stay invalid, so `validateBulkPostRequest` reports them. */
+export function toBulkPostAction(action: AgentBulkAction, days?: number): BulkPostAction {
+  switch (action) {
+    case 'reschedule':
+    case 'duplicate':
+      return { type: action, days: days ?? Number.NaN };
+    case 'submit_for_approval':
+      return { type: 'status', status: 'awaiting_approval' };
+    case 'move_to_draft':
+      return { type: 'status', status: 'draft' };
+    case 'delete':
+    case 'regrade':
+      return { type: action };
+  }
+}
+
+const BULK_STATUSES: PostStatus[] = ['draft', 'awaiting_approval', 'approved', 'rejected'];
+
+/** Returns why the selection can't be changed, or null when it can. */
+export function validateBulkPostRequest(postIds: unknown, action: BulkPostAction | undefined): string | null {
+  if (!Array.isArray(postIds) || postIds.length === 0 || postIds.some((id) => typeof id !== 'string' || !id)) {
+    return 'postIds must be a non-empty list of post IDs';
+  }
+  if (new Set(postIds).size > MAX_BULK_POSTS) {
+    return `A bulk change can cover at most ${MAX_BULK_POSTS} posts`;
+  }
+
+  switch (action?.type) {
+    case 'reschedule':
+    case 'duplicate':
+      if (!Number.isInteger(action.days) || Math.abs(action.days) > MAX_BULK_SHIFT_DAYS) {
+        return `days must be a whole number from -${MAX_BULK_SHIFT_DAYS} to ${MAX_BULK_SHIFT_DAYS}`;
+      }
+      if (action.type === 'reschedule' && action.days === 0) {
+        return 'days must not be 0';
+      }
+      return null;
+    case 'status':
+      if (!BULK_STATUSES.includes(action.status)) {
+        return `status must be one of ${BULK_STATUSES.join(', ')}`;
+      }
+      return null;
+    case 'delete':
+    case 'regrade':
+      return null;
+    default:
+      return 'action.type must be one of reschedule, status, duplicate, delete, regrade';
+  }
+}
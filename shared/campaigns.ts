@@ -0,0 +1,22 @@
+import { format, parseISO } from 'date-fns';
+import type { Campaign } from './types';
+
+/**
+ * The campaign as a short brief for prompts: name, dates, description and
+ * goals, skipping whatever is empty.
+ */
+export function formatCampaignBrief(campaign: Campaign): string {
+  const lines = [
+    `Campaign: ${campaign.name}`,
+    `Runs: ${format(parseISO(campaign.startsOn), 'MMM d, yyyy')} to ${format(parseISO(campaign.endsOn), 'MMM d, yyyy')}`,
+  ];
+
+  if (campaign.description.trim()) {
+    lines.push(`Brief: ${campaign.description.trim()}`);
+  }
+  if (campaign.goals.length > 0) {
+    lines.push(`Goals:\n${campaign.goals.map((goal) => `- ${goal}`).join('\n')}`);
+  }
+
+  return lines.join('\n');
+}
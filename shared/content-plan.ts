@@ -0,0 +1,60 @@
+import { differenceInCalendarDays, isValid, parseISO } from 'date-fns';
+import { isPlatform, PLATFORMS } from './platforms';
+import type { ContentPlanRequest, Platform } from './types';
+
+export const MAX_PLAN_DAYS = 62;
+export const MAX_POSTS_PER_WEEK = 14;
+export const MAX_PLAN_ITEMS = 60;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && isValid(parseISO(value));
+}
+
+/**
+ * How many posts the cadence asks for on each platform over the plan's date
+ * range. A platform in the cadence always gets at least one post.
+ */
+export function getPlannedPostCounts(request: ContentPlanRequest): { platform: Platform; count: number }[] {
+  const days = differenceInCalendarDays(parseISO(request.to), parseISO(request.from)) + 1;
+
+  return request.cadence.map(({ platform, postsPerWeek }) => ({
+    platform,
+    count: Math.max(1, Math.round((postsPerWeek * days) / 7)),
+  }));
+}
+
+/** Returns why the request can't be planned, or null when it can. */
+export function validateContentPlanRequest(request: ContentPlanRequest): string | null {
+  if (!Array.isArray(request.goals) || request.goals.filter((goal) => typeof goal === 'string' && goal.trim()).length === 0) {
+    return 'At least one goal is required';
+  }
+  if (!isDateString(request.from) || !isDateString(request.to) || request.from > request.to) {
+    return 'from and to must be yyyy-MM-dd dates with from on or before to';
+  }
+  if (differenceInCalendarDays(parseISO(request.to), parseISO(request.from)) + 1 > MAX_PLAN_DAYS) {
+    return `A plan can cover at most ${MAX_PLAN_DAYS} days`;
+  }
+  if (!Array.isArray(request.cadence) || request.cadence.length === 0) {
+    return 'cadence needs at least one platform';
+  }
+  for (const entry of request.cadence) {
+    if (!isPlatform(entry?.platform)) {
+      return `cadence platforms must be one of ${PLATFORMS.join(', ')}`;
+    }
+    if (!Number.isInteger(entry.postsPerWeek) || entry.postsPerWeek < 1 || entry.postsPerWeek > MAX_POSTS_PER_WEEK) {
+      return `postsPerWeek must be a whole number from 1 to ${MAX_POSTS_PER_WEEK}`;
+    }
+  }
+  if (new Set(request.cadence.map((entry) => entry.platform)).size !== request.cadence.length) {
+    return 'Each platform can appear in the cadence only once';
+  }
+
+  const total = getPlannedPostCounts(request).reduce((sum, { count }) => sum + count, 0);
+  if (total > MAX_PLAN_ITEMS) {
+    return `That cadence asks for ${total} posts, but a plan holds at most ${MAX_PLAN_ITEMS}. Shorten the range or post less often.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,69 @@
+import type { MentionableMember } from './types';
+
+export interface MentionSegment {
+  text: string;
+  member: MentionableMember | null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Mentions are written as "@" followed by a member's name, which can contain
+ * spaces. Longer names are tried first so "@Ann Lee" doesn't match "@Ann".
+ */
+function buildMentionPattern(members: MentionableMember[]): RegExp | null {
+  const names = [...new Set(members.map((member) => member.name.trim()).filter(Boolean))]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  if (names.length === 0) {
+    return null;
+  }
+  return new RegExp(`(^|[^\\w@])@(${names.join('|')})(?![\\w])`, 'giu');
+}
+
+function findMember(name: string, members: MentionableMember[]): MentionableMember | null {
+  const normalized = name.toLowerCase();
+  return members.find((member) => member.name.trim().toLowerCase() === normalized) ?? null;
+}
+
+export function findMentionedMembers(content: string, members: MentionableMember[]): MentionableMember[] {
+  const pattern = buildMentionPattern(members);
+  if (!pattern) {
+    return [];
+  }
+
+  const mentioned = new Map<string, MentionableMember>();
+  for (const match of content.matchAll(pattern)) {
+    const member = findMember(match[2], members);
+    if (member) {
+      mentioned.set(member.id, member);
+    }
+  }
+  return [...mentioned.values()];
+}
+
+/** Splits a comment into plain text and mention segments for rendering. */
+export function splitMentions(content: string, members: MentionableMember[]): MentionSegment[] {
+  const pattern = buildMentionPattern(members);
+  if (!pattern) {
+    return [{ text: content, member: null }];
+  }
+
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(pattern)) {
+    const start = match.index! + match[1].length;
+    if (start > lastIndex) {
+      segments.push({ text: content.slice(lastIndex, start), member: null });
+    }
+    const text = `@${match[2]}`;
+    segments.push({ text, member: findMember(match[2], members) });
+    lastIndex = start + text.length;
+  }
+  if (lastIndex < content.length) {
+    segments.push({ text: content.slice(lastIndex), member: null });
+  }
+  return segments;
+}
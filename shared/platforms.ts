@@ -0,0 +1,246 @@
+import type { Platform, PlatformRuleViolation } from './types';
+
+export interface PlatformProfile {
+  id: Platform;
+  label: string;
+  characterLimit: number;
+  hashtags: {
+    recommendedMax: number;
+    max: number | null;
+    guidance: string;
+  };
+  links: {
+    clickable: boolean;
+    guidance: string;
+  };
+  mentions: {
+    pattern: RegExp;
+    guidance: string;
+  };
+  threads: {
+    supported: boolean;
+    maxSegments: number;
+  };
+}
+
+/**
+ * Twitter threads are stored in a single caption, one tweet per segment,
+ * with segments separated by a line containing only this marker.
+ */
+export const THREAD_SEPARATOR = '---';
+
+export const platformProfiles: Record<Platform, PlatformProfile> = {
+  instagram: {
+    id: 'instagram',
+    label: 'Instagram',
+    characterLimit: 2200,
+    hashtags: {
+      recommendedMax: 10,
+      max: 30,
+      guidance: 'Use 3-10 relevant hashtags, grouped at the end of the caption.',
+    },
+    links: {
+      clickable: false,
+      guidance: 'Links in captions are not clickable; point people to the link in bio instead.',
+    },
+    mentions: {
+      pattern: /^[A-Za-z0-9._]{1,30}$/,
+      guidance: 'Mention accounts with @handle (letters, numbers, periods and underscores).',
+    },
+    threads: { supported: false, maxSegments: 1 },
+  },
+  twitter: {
+    id: 'twitter',
+    label: 'Twitter',
+    characterLimit: 280,
+    hashtags: {
+      recommendedMax: 2,
+      max: null,
+      guidance: 'Use at most 1-2 hashtags, woven into the sentence where possible.',
+    },
+    links: {
+      clickable: true,
+      guidance: 'Links are clickable and count as 23 characters each.',
+    },
+    mentions: {
+      pattern: /^[A-Za-z0-9_]{1,15}$/,
+      guidance: 'Mention accounts with @handle (up to 15 letters, numbers or underscores).',
+    },
+    threads: { supported: true, maxSegments: 25 },
+  },
+  linkedin: {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    characterLimit: 3000,
+    hashtags: {
+      recommendedMax: 5,
+      max: null,
+      guidance: 'Use 3-5 professional hashtags at the end of the post.',
+    },
+    links: {
+      clickable: true,
+      guidance: 'Links are clickable, but posts with links get less reach; keep at most one.',
+    },
+    mentions: {
+      pattern: /^[A-Za-z0-9][A-Za-z0-9 .&'-]{0,99}$/,
+      guidance: 'Mention people and companies with @ followed by their name.',
+    },
+    threads: { supported: false, maxSegments: 1 },
+  },
+};
+
+export const PLATFORMS = Object.keys(platformProfiles) as Platform[];
+
+const TWITTER_LINK_LENGTH = 23;
+const URL_PATTERN = /https?:\/\/\S+/g;
+const HASHTAG_PATTERN = /(^|\s)#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /(^|\s)@([^\s@,!?:;]+)/g;
+
+export function isPlatform(value: unknown): value is Platform {
+  return typeof value === 'string' && value in platformProfiles;
+}
+
+export function getThreadSegments(caption: string): string[] {
+  return caption
+    .split(new RegExp(`\\n\\s*${THREAD_SEPARATOR}\\s*\\n`))
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Counts characters the way the platform does. Twitter shortens every link
+ * to a fixed length; the other platforms count links as written.
+ */
+export function countPlatformCharacters(text: string, platform: Platform): number {
+  const length = [...text].length;
+  if (platform !== 'twitter') {
+    return length;
+  }
+  const links = text.match(URL_PATTERN) || [];
+  return links.reduce((total, link) => total - [...link].length + TWITTER_LINK_LENGTH, length);
+}
+
+/**
+ * Deterministic checks that run next to the LLM brand voice grade. Errors
+ * stop a post from being approved; warnings are advice.
+ */
+export function checkPlatformRules(caption: string, platform: Platform): PlatformRuleViolation[] {
+  const profile = platformProfiles[platform];
+  const violations: PlatformRuleViolation[] = [];
+
+  if (!caption.trim()) {
+    return violations;
+  }
+
+  const segments = profile.threads.supported ? getThreadSegments(caption) : [caption];
+
+  if (segments.length > profile.threads.maxSegments) {
+    violations.push({
+      ruleId: 'thread_length',
+      severity: 'error',
+      message: `${profile.label} threads can have at most ${profile.threads.maxSegments} posts (this one has ${segments.length}).`,
+    });
+  }
+
+  segments.forEach((segment, index) => {
+    const length = countPlatformCharacters(segment, platform);
+    if (length > profile.characterLimit) {
+      violations.push({
+        ruleId: 'character_limit',
+        severity: 'error',
+        message: segments.length > 1
+          ? `Post ${index + 1} of the thread is ${length} characters; ${profile.label} allows ${profile.characterLimit}.`
+          : `Caption is ${length} characters; ${profile.label} allows ${profile.characterLimit}.${profile.threads.supported ? ' Split it into a thread.' : ''}`,
+      });
+    }
+  });
+
+  const hashtagCount = (caption.match(HASHTAG_PATTERN) || []).length;
+  if (profile.hashtags.max !== null && hashtagCount > profile.hashtags.max) {
+    violations.push({
+      ruleId: 'hashtag_limit',
+      severity: 'error',
+      message: `${profile.label} allows at most ${profile.hashtags.max} hashtags (found ${hashtagCount}).`,
+    });
+  } else if (hashtagCount > profile.hashtags.recommendedMax) {
+    violations.push({
+      ruleId: 'hashtag_count',
+      severity: 'warning',
+      message: `${hashtagCount} hashtags is a lot for ${profile.label}. ${profile.hashtags.guidance}`,
+    });
+  }
+
+  const linkCount = (caption.match(URL_PATTERN) || []).length;
+  if (linkCount > 0 && !profile.links.clickable) {
+    violations.push({
+      ruleId: 'links',
+      severity: 'warning',
+      message: profile.links.guidance,
+    });
+  } else if (platform === 'linkedin' && linkCount > 1) {
+    violations.push({
+      ruleId: 'links',
+      severity: 'warning',
+      message: profile.links.guidance,
+    });
+  }
+
+  const invalidMentions = [...caption.matchAll(MENTION_PATTERN)]
+    .map((match) => match[2].replace(/[.]+$/, ''))
+    .filter((handle) => !profile.mentions.pattern.test(handle));
+  if (invalidMentions.length > 0) {
+    violations.push({
+      ruleId: 'mention_syntax',
+      severity: 'warning',
+      message: `${invalidMentions.map((handle) => `@${handle}`).join(', ')} ${invalidMentions.length === 1 ? "isn't" : "aren't"} a valid ${profile.label} mention. ${profile.mentions.guidance}`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Splits a long caption into tweet-sized segments on sentence (then word)
+ * boundaries and joins them with the thread separator.
+ */
+export function splitIntoThread(caption: string, platform: Platform = 'twitter'): string {
+  const limit = platformProfiles[platform].characterLimit;
+  const units = caption
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(/(?<=[.!?])\s+/)
+    .flatMap((sentence) => (countPlatformCharacters(sentence, platform) > limit ? sentence.split(' ') : [sentence]));
+
+  const segments: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    const candidate = current ? `${current} ${unit}` : unit;
+    if (current && countPlatformCharacters(candidate, platform) > limit) {
+      segments.push(current);
+      current = unit;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) {
+    segments.push(current);
+  }
+
+  return segments.join(`\n${THREAD_SEPARATOR}\n`);
+}
+
+export function formatPlatformGuidance(platform: Platform): string {
+  const profile = platformProfiles[platform];
+  const lines = [
+    `Platform: ${profile.label}. Stay within ${profile.characterLimit} characters${profile.threads.supported ? ' per post' : ''}.`,
+    profile.hashtags.guidance,
+    profile.links.guidance,
+    profile.mentions.guidance,
+  ];
+  if (profile.threads.supported) {
+    lines.push(
+      `If the message needs more room, write a thread: put each post on its own, separated by a line containing only "${THREAD_SEPARATOR}".`,
+    );
+  }
+  return lines.join('\n');
+}
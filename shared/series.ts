@@ -0,0 +1,134 @@
+import {
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  eachDayOfInterval,
+  format,
+  getDaysInMonth,
+  max,
+  min,
+  parseISO,
+  startOfDay,
+} from 'date-fns';
+import type { PostSeries } from './types';
+
+type SeriesSchedule = Pick<PostSeries, 'frequency' | 'interval' | 'weekdays' | 'monthDay' | 'startsOn' | 'endsOn'>;
+
+export const SERIES_PLACEHOLDERS = [
+  { token: '{{series}}', description: 'The series name' },
+  { token: '{{date}}', description: 'The post date, e.g. Oct 20' },
+  { token: '{{weekday}}', description: 'The day of the week, e.g. Tuesday' },
+  { token: '{{month}}', description: 'The month, e.g. October' },
+  { token: '{{year}}', description: 'The year' },
+  { token: '{{number}}', description: 'Which occurrence this is: 1, 2, 3...' },
+  { token: '{{ai: instructions}}', description: 'Written by AI following your instructions' },
+] as const;
+
+const AI_PLACEHOLDER_PATTERN = /\{\{\s*ai\s*:\s*([^}]*)\}\}/gi;
+
+function isOccurrenceDay(schedule: SeriesSchedule, day: Date, startsOn: Date): boolean {
+  if (schedule.frequency === 'weekly') {
+    return (
+      schedule.weekdays.includes(day.getDay()) &&
+      differenceInCalendarWeeks(day, startsOn) % schedule.interval === 0
+    );
+  }
+
+  if (schedule.monthDay === null || differenceInCalendarMonths(day, startsOn) % schedule.interval !== 0) {
+    return false;
+  }
+  return day.getDate() === Math.min(schedule.monthDay, getDaysInMonth(day));
+}
+
+/** The days between `from` and `until` (inclusive) the series posts on, at midnight. */
+export function getSeriesOccurrences(schedule: SeriesSchedule, from: Date, until: Date): Date[] {
+  const startsOn = parseISO(schedule.startsOn);
+  const start = max([startOfDay(from), startsOn]);
+  const end = schedule.endsOn ? min([startOfDay(until), parseISO(schedule.endsOn)]) : startOfDay(until);
+
+  if (start > end) {
+    return [];
+  }
+
+  return eachDayOfInterval({ start, end }).filter((day) => isOccurrenceDay(schedule, day, startsOn));
+}
+
+/** Whether `timeZone` is an IANA time zone this runtime knows, e.g. Europe/Paris. */
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** How far `timeZone`'s wall clock is ahead of UTC at `instant`, in milliseconds. */
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The moment an occurrence on `day` goes out: `time` (HH:mm) on that day's
+ * wall clock in `timeZone`, whatever zone the server runs in. Daylight saving
+ * is followed, so a 09:00 series stays at 09:00 all year.
+ */
+export function getOccurrenceDate(day: Date, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+
+  // The offset is looked up at a guess, then again at the result in case a
+  // DST change lies between the two.
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Fills the date and numbering placeholders of a caption template.
+ * `{{ai: ...}}` placeholders are left for the AI to write.
+ */
+export function fillSeriesTemplate(
+  template: string,
+  values: { seriesName: string; date: Date; number: number },
+): string {
+  const replacements: Record<string, string> = {
+    series: values.seriesName,
+    date: format(values.date, 'MMM d'),
+    weekday: format(values.date, 'EEEE'),
+    month: format(values.date, 'MMMM'),
+    year: format(values.date, 'yyyy'),
+    number: String(values.number),
+  };
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => replacements[key.toLowerCase()] ?? match);
+}
+
+/** The instructions of each `{{ai: ...}}` placeholder, in order. */
+export function getAiPlaceholders(template: string): string[] {
+  return [...template.matchAll(AI_PLACEHOLDER_PATTERN)].map((match) => match[1].trim());
+}
+
+/**
+ * Replaces the `{{ai: ...}}` placeholders with `fills`, in order. A
+ * placeholder without a fill becomes its instructions in brackets so the
+ * author can see what is still missing.
+ */
+export function applyAiFills(caption: string, fills: string[]): string {
+  let index = 0;
+  return caption.replace(AI_PLACEHOLDER_PATTERN, (_match, instructions: string) => {
+    const fill = fills[index++]?.trim();
+    return fill || `[${instructions.trim()}]`;
+  });
+}
@@ -1,4 +1,9 @@
+import type { PlanStep } from './types';
+
 export type StreamEventType = 
+  | 'connected'
+  | 'message_start'
+  | 'plan'
   | 'token'
   | 'status_start'
   | 'status_end'
@@ -9,6 +14,7 @@ export interface StreamEventPayload {
   type: StreamEventType;
   content?: string;
   toolName?: string;
+  plan?: PlanStep[];
   timestamp: number;
 }
 
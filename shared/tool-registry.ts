@@ -0,0 +1,343 @@
+import * as z from 'zod';
+import { AGENT_BULK_ACTIONS, MAX_BULK_POSTS } from './bulk-posts';
+import { PLATFORMS } from './platforms';
+import type { Platform } from './types';
+
+export type ContextKey = 'global' | 'calendar' | 'postEditor' | 'brandVoice' | 'inbox';
+
+export const CONTEXT_KEYS: ContextKey[] = ['global', 'calendar', 'postEditor', 'brandVoice', 'inbox'];
+
+/** Built from `PLATFORMS` so tool schemas accept exactly the supported platforms. */
+export const platformSchema = z.enum(PLATFORMS as [Platform, ...Platform[]]);
+
+export interface ToolDefinition {
+  name: string;
+  label: string;
+  clientSide: boolean;
+  contextKeys: readonly ContextKey[];
+  schema: z.ZodTypeAny;
+}
+
+/**
+ * Single source of truth for the agent's tools. The server builds its
+ * context manifest, client-tool detection and status labels from this, and
+ * the client derives `ToolNames` from the client-side entries.
+ */
+export const toolRegistry = {
+  GET_POSTS: {
+    name: 'get_posts',
+    label: 'Fetching posts',
+    clientSide: false,
+    contextKeys: ['calendar'],
+    schema: z.object({
+      from: z.string().optional().describe('Only posts on or after this day, as yyyy-MM-dd'),
+      to: z.string().optional().describe('Only posts on or before this day, as yyyy-MM-dd'),
+    }),
+  },
+  GET_CURRENT_POST: {
+    name: 'get_current_post',
+    label: 'Loading post details',
+    clientSide: false,
+    contextKeys: ['postEditor'],
+    schema: z.object({}),
+  },
+  GENERATE_CAPTION: {
+    name: 'generate_caption',
+    label: 'Generating caption',
+    clientSide: false,
+    contextKeys: ['global', 'calendar', 'postEditor'],
+    schema: z.object({
+      topic: z.string().describe('The main topic of the post'),
+      existingCaption: z
+        .string()
+        .optional()
+        .describe('An existing caption to refine (optional)'),
+      variantCount: z
+        .number()
+        .int()
+        .min(1)
+        .max(5)
+        .optional()
+        .describe('How many alternative captions to generate (default 1). Use 2-3 when the user wants options to choose from.'),
+      tone: z.string().optional().describe('The tone to write in, e.g. "playful" or "professional" (optional)'),
+      length: z.enum(['short', 'medium', 'long']).optional().describe('The target caption length (optional)'),
+      callToAction: z.string().optional().describe('A call to action the caption should include (optional)'),
+      targetScore: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .describe('Brand voice score to reach before refinement stops (default 80)'),
+      maxIterations: z
+        .number()
+        .int()
+        .min(1)
+        .max(5)
+        .optional()
+        .describe('Maximum grade-and-refine passes per caption (default 3)'),
+      platform: platformSchema
+        .optional()
+        .describe("The post's platform. Pass it when known so the caption fits its limits and conventions (optional)"),
+    }),
+  },
+  ADAPT_CAPTION: {
+    name: 'adapt_caption',
+    label: 'Adapting caption',
+    clientSide: false,
+    contextKeys: ['postEditor'],
+    schema: z.object({
+      caption: z.string().describe('The caption to adapt, usually the caption of one of the post\'s platform variants'),
+      platforms: z
+        .array(platformSchema)
+        .min(1)
+        .describe('The platforms to write a version of the caption for'),
+    }),
+  },
+  GET_BRAND_RULES: {
+    name: 'get_brand_rules',
+    label: 'Loading brand rules',
+    clientSide: false,
+    contextKeys: ['global', 'calendar', 'postEditor', 'brandVoice'],
+    schema: z.object({}),
+  },
+  GRADE_CAPTION: {
+    name: 'grade_caption',
+    label: 'Evaluating caption',
+    clientSide: false,
+    contextKeys: ['global', 'calendar', 'postEditor', 'brandVoice'],
+    schema: z.object({
+      caption: z.string().describe('The caption text to grade against brand voice rules'),
+      platform: platformSchema
+        .optional()
+        .describe('The platform to check character limits, hashtags, links and mentions for (optional)'),
+    }),
+  },
+  NAVIGATE: {
+    name: 'navigate_to_calendar',
+    label: 'Navigating to calendar',
+    clientSide: true,
+    contextKeys: ['global'],
+    schema: z.object({
+      page: z.string().optional().describe('The page to navigate to (default: calendar)'),
+      label: z
+        .string()
+        .optional()
+        .describe('The text to display on the button (default: "Open Calendar")'),
+    }),
+  },
+  APPLY_CAPTION: {
+    name: 'apply_caption_to_open_post',
+    label: 'Applying caption',
+    clientSide: true,
+    contextKeys: ['postEditor'],
+    schema: z.object({
+      postId: z.string().describe('The ID of the post to update. This should match the Post ID from the "Current Post" context in the system message.'),
+      caption: z.string().describe('The caption text to apply to the post'),
+      platform: platformSchema
+        .optional()
+        .describe('The platform variant to apply the caption to. Adds the platform to the post if it is not targeted yet (default: the variant open in the editor)'),
+    }),
+  },
+  CREATE_POST: {
+    name: 'create_post',
+    label: 'Creating post',
+    clientSide: true,
+    contextKeys: ['calendar'],
+    schema: z.object({
+      date: z
+        .string()
+        .describe(
+          'The date for the new post. Can be ISO format (YYYY-MM-DD), "today", "tomorrow", or a day name (e.g., "Monday").',
+        ),
+      label: z
+        .string()
+        .optional()
+        .describe('Optional label to display on the button (default: "Create Post")'),
+    }),
+  },
+  OPEN_POST: {
+    name: 'open_post',
+    label: 'Opening post',
+    clientSide: true,
+    contextKeys: ['calendar'],
+    schema: z.object({
+      postId: z.string().describe('The ID of the post to open'),
+      label: z
+        .string()
+        .optional()
+        .describe('Optional label to display on the button (default: "Open Post")'),
+    }),
+  },
+  SUBMIT_FOR_APPROVAL: {
+    name: 'submit_post_for_approval',
+    label: 'Submitting for approval',
+    clientSide: false,
+    contextKeys: ['calendar', 'postEditor'],
+    schema: z.object({
+      postId: z.string().describe('The ID of the post to submit'),
+      platforms: z
+        .array(platformSchema)
+        .optional()
+        .describe('The platform variants to submit (default: every draft or rejected variant of the post)'),
+      note: z.string().optional().describe('A short note for the approver (optional)'),
+    }),
+  },
+  DRAFT_INBOX_REPLY: {
+    name: 'draft_inbox_reply',
+    label: 'Drafting reply',
+    clientSide: false,
+    contextKeys: ['inbox'],
+    schema: z.object({
+      messageId: z.string().describe('The ID of the inbox message to draft a reply to'),
+    }),
+  },
+  LIST_UNREPLIED_MESSAGES: {
+    name: 'list_unreplied_messages',
+    label: 'Loading unreplied messages',
+    clientSide: false,
+    contextKeys: ['inbox'],
+    schema: z.object({
+      platform: platformSchema.optional().describe('Only messages from this platform (optional)'),
+      type: z.enum(['comment', 'dm', 'mention']).optional().describe('Only this kind of message (optional)'),
+      sentiment: z.enum(['positive', 'negative', 'neutral']).optional().describe('Only messages with this sentiment (optional)'),
+      urgentOnly: z.boolean().optional().describe('Only messages flagged as urgent (optional)'),
+      limit: z.number().int().min(1).max(50).optional().describe('How many messages to return, newest first (default 20)'),
+    }),
+  },
+  GET_NEGATIVE_SENTIMENT_SUMMARY: {
+    name: 'get_negative_sentiment_summary',
+    label: 'Reviewing negative messages',
+    clientSide: false,
+    contextKeys: ['inbox'],
+    schema: z.object({
+      days: z.number().int().min(1).max(31).optional().describe('How many days back to look (default 7)'),
+    }),
+  },
+  GET_MEMBER_HISTORY: {
+    name: 'get_member_history',
+    label: 'Loading member history',
+    clientSide: false,
+    contextKeys: ['inbox'],
+    schema: z.object({
+      memberId: z.string().optional().describe('The community member ID (optional if messageId is given)'),
+      messageId: z.string().optional().describe('An inbox message ID; its sender\'s history is returned (optional if memberId is given)'),
+    }),
+  },
+  GET_CONTENT_ANALYTICS: {
+    name: 'get_content_analytics',
+    label: 'Crunching the numbers',
+    clientSide: false,
+    contextKeys: ['global'],
+    schema: z.object({
+      from: z.string().optional().describe('First day to include, as yyyy-MM-dd (default: first day of the current month)'),
+      to: z.string().optional().describe('Last day to include, as yyyy-MM-dd (default: last day of the current month)'),
+      platform: platformSchema.optional().describe('List the posts on this platform (optional)'),
+      status: z
+        .enum(['draft', 'awaiting_approval', 'approved', 'rejected', 'published'])
+        .optional()
+        .describe('List the posts with this status (optional)'),
+    }),
+  },
+  PROPOSE_INBOX_REPLY: {
+    name: 'propose_inbox_reply',
+    label: 'Proposing reply',
+    clientSide: true,
+    contextKeys: ['inbox'],
+    schema: z.object({
+      messageId: z.string().describe('The ID of the inbox message to reply to'),
+      reply: z.string().describe('The reply text to put in the message\'s draft for the user to review and send'),
+    }),
+  },
+  GENERATE_CONTENT_PLAN: {
+    name: 'generate_content_plan',
+    label: 'Planning content',
+    clientSide: false,
+    contextKeys: ['global'],
+    schema: z.object({
+      goals: z.array(z.string()).min(1).describe('What the posts should achieve, e.g. "grow waitlist signups"'),
+      cadence: z
+        .array(
+          z.object({
+            platform: platformSchema,
+            postsPerWeek: z.number().int().min(1).max(14).describe('How many posts a week on this platform'),
+          }),
+        )
+        .min(1)
+        .describe('How often to post on each platform'),
+      from: z.string().describe('First day of the plan, as yyyy-MM-dd'),
+      to: z.string().describe('Last day of the plan, as yyyy-MM-dd'),
+    }),
+  },
+  PROPOSE_CONTENT_PLAN: {
+    name: 'propose_content_plan',
+    label: 'Proposing content plan',
+    clientSide: true,
+    contextKeys: ['global'],
+    schema: z.object({
+      summary: z.string().describe('The plan summary from generate_content_plan'),
+      items: z
+        .array(
+          z.object({
+            date: z.string().describe('The day to publish, as yyyy-MM-dd'),
+            platform: platformSchema,
+            topic: z.string(),
+            caption: z.string(),
+          }),
+        )
+        .min(1)
+        .describe('The planned posts exactly as generate_content_plan returned them'),
+    }),
+  },
+  PROPOSE_BULK_POST_ACTION: {
+    name: 'propose_bulk_post_action',
+    label: 'Proposing bulk change',
+    clientSide: true,
+    contextKeys: ['calendar'],
+    schema: z.object({
+      action: z
+        .enum(AGENT_BULK_ACTIONS)
+        .describe(
+          'reschedule and duplicate shift by days; the status actions move every variant of each post. ' +
+            'reschedule and delete refuse published posts, and rescheduling sends approved posts back to draft',
+        ),
+      postIds: z
+        .array(z.string())
+        .min(1)
+        .max(MAX_BULK_POSTS)
+        .describe('IDs from get_posts of every post the change applies to'),
+      days: z
+        .number()
+        .int()
+        .optional()
+        .describe('Days to shift by for reschedule and duplicate; negative moves earlier'),
+    }),
+  },
+} as const satisfies Record<string, ToolDefinition>;
+
+type ToolRegistry = typeof toolRegistry;
+
+export type ToolKey = keyof ToolRegistry;
+
+export type ToolName = ToolRegistry[ToolKey]['name'];
+
+export type ClientToolKey = {
+  [K in ToolKey]: ToolRegistry[K]['clientSide'] extends true ? K : never;
+}[ToolKey];
+
+export type ClientToolName = ToolRegistry[ClientToolKey]['name'];
+
+export const toolDefinitions: ToolDefinition[] = Object.values(toolRegistry);
+
+export const clientToolNames = Object.fromEntries(
+  Object.entries(toolRegistry)
+    .filter(([, definition]) => definition.clientSide)
+    .map(([key, definition]) => [key, definition.name]),
+) as { readonly [K in ClientToolKey]: ToolRegistry[K]['name'] };
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return toolDefinitions.find((definition) => definition.name === name);
+}
+
+export function isClientToolName(name: string): name is ClientToolName {
+  return getToolDefinition(name)?.clientSide === true;
+}
@@ -31,17 +31,96 @@ export interface CalendarMember {
   joinedAt: Date
 }
 
+export type Platform = "instagram" | "twitter" | "linkedin"
+
+export type PostStatus = "draft" | "awaiting_approval" | "approved" | "rejected" | "published"
+
+/**
+ * The per-platform part of a post. A post has one variant for each platform
+ * it targets; the date and author are shared across them.
+ */
+export interface PostVariant {
+  id: string
+  postId: string
+  platform: Platform
+  caption: string
+  images: string[]
+  status: PostStatus
+  publishing?: PostVariantPublishing
+}
+
+/**
+ * Where an approved variant is in the publishing pipeline. Only the
+ * scheduler writes these fields.
+ */
+export interface PostVariantPublishing {
+  attemptCount: number
+  nextAttemptAt: Date | null
+  error: string | null
+  failedAt: Date | null
+  externalPostId: string | null
+  externalUrl: string | null
+  publishedAt: Date | null
+}
+
+export type PublishOutcome =
+  | { status: "published"; externalPostId: string; externalUrl: string | null }
+  | { status: "retrying"; error: string; nextAttemptAt: Date }
+  | { status: "failed"; error: string }
+  | { status: "skipped" }
+
+export interface PublishAttempt {
+  id: string
+  variantId: string
+  postId: string
+  platform: Platform
+  attempt: number
+  outcome: "succeeded" | "failed"
+  error: string | null
+  retryable: boolean | null
+  externalPostId: string | null
+  createdAt: Date
+}
+
+export type PostStatusActorType = "user" | "ai" | "scheduler"
+
+export interface PostStatusChange {
+  id: string
+  variantId: string
+  postId: string
+  platform: Platform
+  fromStatus: PostStatus
+  toStatus: PostStatus
+  reason: string | null
+  actorType: PostStatusActorType
+  actorId: string | null
+  actorName: string
+  createdAt: Date
+}
+
+export interface PostWorkflow {
+  canApprove: boolean
+  history: PostStatusChange[]
+}
+
 export interface Post {
   id: string
   calendarId: string
   date: Date
-  caption: string
-  images: string[]
-  platform: "instagram" | "twitter" | "linkedin"
-  status: "draft" | "awaiting_approval" | "approved" | "rejected" | "published"
+  variants: PostVariant[]
   authorId: string
   authorName: string
   comments: Comment[]
+  /** Set when the post was generated by a recurring series. */
+  series?: PostSeriesMembership | null
+  campaignId?: string | null
+}
+
+export interface PostSeriesMembership {
+  id: string
+  name: string
+  /** Edited occurrences are detached: changes to the series no longer touch them. */
+  detached: boolean
 }
 
 export interface User {
@@ -56,6 +135,131 @@ export interface Comment {
   userId: string
   userName: string
   content: string
+  mentionedUserIds: string[]
+  createdAt: Date
+}
+
+/** Someone who can be @mentioned in a calendar's post comments. */
+export interface MentionableMember {
+  id: string
+  name: string
+  email: string
+}
+
+export type NotificationType = "mention"
+
+export interface Notification {
+  id: string
+  type: NotificationType
+  calendarId: string
+  calendarSlug: string | null
+  postId: string | null
+  commentId: string | null
+  actorName: string
+  content: string
+  readAt: Date | null
+  createdAt: Date
+}
+
+export type InboxMessageType = "comment" | "dm" | "mention"
+
+export type Sentiment = "positive" | "negative" | "neutral"
+
+/** A comment, DM or mention received from the community on one of the calendar's accounts. */
+export interface InboxMessage {
+  id: string
+  calendarId: string
+  memberId: string | null
+  userId: string
+  userName: string
+  userAvatar: string | null
+  type: InboxMessageType
+  content: string
+  postId: string | null
+  postCaption: string | null
+  platform: Platform
+  sentiment: Sentiment
+  /** The classifier's confidence (0-1) in `sentiment`; null until classified. */
+  sentimentConfidence: number | null
+  sentimentOverridden: boolean
+  urgent: boolean
+  replied: boolean
+  replyContent: string | null
+  repliedAt: Date | null
+  draft: string | null
+  liked: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface InboxFilters {
+  type?: InboxMessageType
+  platform?: Platform
+  sentiment?: Sentiment
+  replied?: boolean
+  /** Messages from muted or blocked members are left out unless this is set. */
+  includeMuted?: boolean
+}
+
+/** Someone from the community, one per platform account. Stats follow their inbox messages. */
+export interface CommunityMember {
+  id: string
+  calendarId: string
+  name: string
+  email: string | null
+  avatar: string | null
+  platform: Platform | null
+  platformUserId: string | null
+  isBlocked: boolean
+  isMuted: boolean
+  stats: {
+    comments: number
+    mentions: number
+    dms: number
+  }
+  joinedAt: Date
+  lastMessageAt: Date | null
+}
+
+export interface SentimentTrendPoint {
+  /** Monday of the week, as YYYY-MM-DD. */
+  weekStart: string
+  positive: number
+  neutral: number
+  negative: number
+}
+
+export interface CommunityMemberProfile {
+  member: CommunityMember
+  messages: InboxMessage[]
+  notes: MemberNote[]
+  sentimentTrend: SentimentTrendPoint[]
+}
+
+export interface MemberNote {
+  id: string
+  calendarId: string
+  memberId: string
+  content: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+/** An AI reply draft saved on an inbox message. It is never sent until a person replies with it. */
+export interface InboxReplyDraft {
+  message: InboxMessage
+  draft: string
+  score: BrandScore | null
+  savedResponses: SavedResponse[]
+}
+
+export interface SavedResponse {
+  id: string
+  calendarId: string
+  title: string
+  content: string
+  keywords: string[]
+  guidelines: string | null
   createdAt: Date
 }
 
@@ -75,16 +279,46 @@ export interface BrandScore {
     feedback: string
   }[]
   suggestions: string[]
+  platformViolations?: PlatformRuleViolation[]
+}
+
+export interface PlatformRuleViolation {
+  ruleId: string
+  severity: "error" | "warning"
+  message: string
+}
+
+export interface CaptionIteration {
+  iteration: number
+  caption: string
+  score: BrandScore | null
 }
 
 export interface GeneratedCaption {
   caption: string
   score: BrandScore | null
+  history: CaptionIteration[]
 }
 
 export interface CaptionGenerationResult {
   caption: string
   score: BrandScore | null
+  variants: GeneratedCaption[]
+  history: CaptionIteration[]
+}
+
+export type CaptionLength = "short" | "medium" | "long"
+
+export interface CaptionGenerationOptions {
+  topic: string
+  existingCaption?: string
+  variantCount?: number
+  tone?: string
+  length?: CaptionLength
+  callToAction?: string
+  targetScore?: number
+  maxIterations?: number
+  platform?: Platform
 }
 
 export interface MediaItem {
@@ -94,6 +328,7 @@ export interface MediaItem {
   filename: string
   size: number
   type: string
+  campaignId?: string | null
   createdAt: Date
 }
 
@@ -102,6 +337,241 @@ export interface Note {
   calendarId: string
   title: string
   content: any
+  campaignId?: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface PlanStep {
+  id: string
+  description: string
+  toolName: string | null
+}
+
+export interface ChatThread {
+  id: string
+  userId: string
+  calendarId: string
+  title: string
+  activePlan: PlanStep[] | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ChatThreadToolCall {
+  id: string
+  name: string
+  args: Record<string, any>
+}
+
+export interface ChatThreadMessage {
+  role: "user" | "assistant"
+  content: string
+  toolCalls?: ChatThreadToolCall[]
+}
+
+export type ToolResultOutcome = "applied" | "rejected" | "failed"
+
+export interface ToolResultPayload {
+  toolCallId: string
+  toolName: string
+  outcome: ToolResultOutcome
+  reason?: string
+  result?: string
+}
+
+export type GuardrailFailMode = "open" | "closed"
+
+export interface GuardrailSettings {
+  calendarId: string
+  enabled: boolean
+  failMode: GuardrailFailMode
+  allowedTopics: string[]
+  outputChecksEnabled: boolean
+}
+
+export type GuardrailStage = "input" | "output"
+
+export type GuardrailBlockCategory =
+  | "off_topic"
+  | "caption_leak"
+  | "pii"
+  | "off_brand_claim"
+  | "guardrail_error"
+
+export interface GuardrailBlock {
+  id: string
+  calendarId: string
+  userId: string | null
+  threadId: string | null
+  stage: GuardrailStage
+  category: GuardrailBlockCategory
+  reason: string
+  content: string
+  createdAt: Date
+}
+
+/** Aggregates for one calendar between two dates (yyyy-MM-dd, both inclusive). */
+export interface CalendarAnalytics {
+  from: string
+  to: string
+  totalPosts: number
+  platforms: PlatformAnalytics[]
+  /** Variant counts per status across every platform. */
+  statusFunnel: Record<PostStatus, number>
+  /** Average of the stored variant brand scores; null when nothing was scored. */
+  averageBrandScore: number | null
+  brandScoreTrend: BrandScoreTrendPoint[]
+  scheduleGaps: ScheduleGap[]
+  inbox: InboxAnalytics
+}
+
+export interface PlatformAnalytics {
+  platform: Platform
+  total: number
+  byStatus: Record<PostStatus, number>
+}
+
+export interface BrandScoreTrendPoint {
+  /** Monday of the week, as yyyy-MM-dd. */
+  weekStart: string
+  average: number
+  count: number
+}
+
+/** A run of days with nothing scheduled. */
+export interface ScheduleGap {
+  start: string
+  end: string
+  days: number
+}
+
+export interface InboxAnalytics {
+  total: number
+  unreplied: number
+  urgent: number
+  bySentiment: Record<Sentiment, number>
+}
+
+export type SeriesFrequency = "weekly" | "monthly"
+
+/**
+ * A recurring post format, e.g. "Tip Tuesday". Occurrences are created as
+ * draft posts over a rolling window from the caption template.
+ */
+export interface PostSeries {
+  id: string
+  calendarId: string
+  name: string
+  frequency: SeriesFrequency
+  /** Repeat every `interval` weeks or months. */
+  interval: number
+  /** Weekly series: days to post on, 0 (Sunday) to 6. */
+  weekdays: number[]
+  /** Monthly series: day of the month. Shorter months use their last day. */
+  monthDay: number | null
+  /** Time of day as HH:mm, on the wall clock of `timezone`. */
+  time: string
+  /** IANA time zone, e.g. Europe/Paris. */
+  timezone: string
+  /** yyyy-MM-dd */
+  startsOn: string
+  endsOn: string | null
+  captionTemplate: string
+  platforms: Platform[]
+  images: string[]
+  authorId: string
+  authorName: string
+  generatedUntil: string | null
+  /** yyyy-MM-dd days whose occurrence was deleted by hand and isn't created again. */
+  skippedOccurrences: string[]
   createdAt: Date
   updatedAt: Date
 }
+
+export type PostSeriesInput = Pick<
+  PostSeries,
+  | "name"
+  | "frequency"
+  | "interval"
+  | "weekdays"
+  | "monthDay"
+  | "time"
+  | "timezone"
+  | "startsOn"
+  | "endsOn"
+  | "captionTemplate"
+  | "platforms"
+  | "images"
+>
+
+/** Groups a launch's posts, planning notes and media. */
+export interface Campaign {
+  id: string
+  calendarId: string
+  name: string
+  /** The brief: what the campaign is about and who it is for. */
+  description: string
+  goals: string[]
+  /** Hex color, e.g. #6366f1 */
+  color: string
+  /** yyyy-MM-dd */
+  startsOn: string
+  endsOn: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type CampaignInput = Pick<Campaign, "name" | "description" | "goals" | "color" | "startsOn" | "endsOn">
+
+export interface PostingCadence {
+  platform: Platform
+  postsPerWeek: number
+}
+
+export interface ContentPlanRequest {
+  goals: string[]
+  cadence: PostingCadence[]
+  /** yyyy-MM-dd */
+  from: string
+  to: string
+}
+
+export interface ContentPlanItem {
+  /** yyyy-MM-dd */
+  date: string
+  platform: Platform
+  topic: string
+  caption: string
+}
+
+export interface ContentPlan {
+  from: string
+  to: string
+  /** A short explanation of the plan's themes and how it serves the goals. */
+  summary: string
+  items: ContentPlanItem[]
+}
+
+/** One change applied to every post in a selection. */
+export type BulkPostAction =
+  | { type: "reschedule"; days: number }
+  | { type: "status"; status: PostStatus; reason?: string }
+  | { type: "duplicate"; days: number }
+  | { type: "delete" }
+  | { type: "regrade" }
+
+export interface BulkPostSkip {
+  postId: string
+  platform: Platform | null
+  reason: string
+}
+
+export interface BulkPostResult {
+  /** The changed posts, or the new copies for a duplicate. */
+  posts: Post[]
+  deletedPostIds: string[]
+  /** Variants a status change or re-grade left alone, and why. */
+  skipped: BulkPostSkip[]
+  scores: { postId: string; platform: Platform; score: number }[]
+}